@@ -0,0 +1,5 @@
+/**
+ * create-pr-checks 패키지의 공개 API (import { defineConfig } from 'create-pr-checks')
+ * CLI 진입점은 index.ts
+ */
+export * from './types/config.js';
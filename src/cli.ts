@@ -1,25 +1,160 @@
 import { confirm } from '@inquirer/prompts';
 import chalk from 'chalk';
 import ora from 'ora';
-import type { Config } from './types/config.js';
-import { isPrTestCheck, isPrReviewCheck } from './types/config.js';
-import { hasInputFiles, readConfig, createDefaultFiles } from './readers/index.js';
-import { generateWorkflowFiles } from './generators/workflow.js';
+import path from 'path';
+import type { Config, InputConfig } from './types/config.js';
+import {
+  isPrTestCheck,
+  isPrReviewCheck,
+  isPrLintCheck,
+  isPrSizeCheck,
+  isPrCommitsCheck,
+  isPrLabelsCheck,
+  isPrScriptCheck,
+  getMatrixLegCount,
+} from './types/config.js';
+import {
+  hasInputFiles,
+  readConfig,
+  createDefaultFiles,
+  validateConfigFile,
+  writeConfigSchemaFile,
+  hasSchemaModeline,
+  findConfigFile,
+} from './readers/index.js';
+import type { ValidationReport } from './readers/diagnostics.js';
+import { generateWorkflowFiles, cleanGeneratedFiles } from './generators/workflow.js';
+import type { FileChangeStatus } from './generators/plan.js';
+import { planGeneratedFiles, formatUnifiedDiff } from './generators/plan.js';
+import { runInitWizard } from './wizard/index.js';
+import type { DoctorReport } from './doctor/index.js';
+import { runDoctor, getRequiredSecrets } from './doctor/index.js';
+import type { ExplainEventName, ExplainResult } from './explain/index.js';
+import { explainEvent } from './explain/index.js';
+import { detectProjectStacks, getSuggestedChecks, createInitialConfig } from './detectors/index.js';
+import { CONFIG_SCHEMA, SCHEMA_FILE } from './schema/index.js';
+import { migrateConfigFile } from './migrate/index.js';
+
+/**
+ * 서브커맨드 (없으면 워크플로우 생성)
+ */
+export type CliCommand = 'validate' | 'doctor' | 'clean' | 'explain' | 'schema' | 'migrate';
+
+export const CLI_COMMANDS: readonly CliCommand[] = ['validate', 'doctor', 'clean', 'explain', 'schema', 'migrate'];
 
 export interface CliOptions {
+  command?: CliCommand;
   yes?: boolean;
   cwd?: string;
   init?: boolean;
+  json?: boolean;
+  dryRun?: boolean;
+  check?: boolean;
+  force?: boolean;
+  /** 알 수 없는 키를 에러로 처리 */
+  strict?: boolean;
+  /** explain: 시뮬레이션할 이벤트 */
+  event?: string;
+  /** explain: pull_request 액션 */
+  action?: string;
+  /** explain: draft PR 여부 */
+  draft?: boolean;
+  /** explain: 대상 브랜치 */
+  base?: string;
+  /** explain: issue_comment 본문 */
+  comment?: string;
+  /** explain: 실패한다고 가정할 체크 이름 */
+  fail?: string[];
+  /** explain: PR에서 바뀐 파일 (프로젝트 체크 판정용) */
+  changed?: string[];
+}
+
+/**
+ * --json 출력 모드 (validate/doctor는 각 리포트를 그대로 출력)
+ */
+export type JsonRunMode = 'init' | 'generate' | 'dry-run' | 'check' | 'clean';
+
+/**
+ * --json 출력 형식
+ */
+export interface JsonRunResult {
+  mode: JsonRunMode;
+  ok: boolean;
+  /** 최종 설정 (기본값 병합 + framework 확장 후) */
+  config?: InputConfig;
+  /**
+   * - init: 생성된 설정 파일
+   * - generate: 새로 쓰거나 내용이 바뀐 파일
+   * - dry-run: 생성/변경될 파일
+   * - check: 설정과 일치하지 않는 파일
+   */
+  files: string[];
+  /** 내용이 같아 변경이 없는 파일 */
+  unchanged: string[];
+  /** generate/clean: 삭제한 파일 */
+  removed?: string[];
+  /** dry-run/check: 파일별 변경 상태 (dry-run은 unified diff 포함) */
+  changes?: { path: string; status: FileChangeStatus; handEdited?: boolean; diff?: string }[];
+  /** 설정해야 하는 Secret 이름 */
+  secrets: string[];
+  warnings: string[];
+  error?: string;
 }
 
 export async function run(options: CliOptions): Promise<void> {
+  const cwd = options.cwd || process.cwd();
+
+  // validate: 설정 파일 검증만 수행 (pre-commit hook, CI용)
+  if (options.command === 'validate') {
+    await runValidate(cwd, options);
+    return;
+  }
+
+  // schema: 에디터 자동완성용 JSON Schema 출력
+  if (options.command === 'schema') {
+    await runSchema(cwd, options);
+    return;
+  }
+
+  // migrate: 이전 버전 config.yml을 현재 형식으로 변환
+  if (options.command === 'migrate') {
+    await runMigrate(cwd, options);
+    return;
+  }
+
+  // explain: 이벤트에 대해 어떤 job이 실행되는지 시뮬레이션
+  if (options.command === 'explain') {
+    await runExplain(cwd, options);
+    return;
+  }
+
+  // doctor: 로컬 checkout의 런타임 준비 상태 검사
+  if (options.command === 'doctor') {
+    await runDoctorCommand(cwd, options);
+    return;
+  }
+
+  // --json: 프롬프트/스피너 없이 결과만 JSON으로 출력 (스크립트용)
+  if (options.json) {
+    const result = await runJson(cwd, options);
+    console.log(JSON.stringify(result, null, 2));
+    if (!result.ok) {
+      process.exit(1);
+    }
+    return;
+  }
+
   console.log(chalk.bold.cyan('\n🚀 create-pr-checks - PR 자동 검사 워크플로우 생성기\n'));
 
-  const cwd = options.cwd || process.cwd();
+  // clean: manifest.json에 기록된 생성 파일 삭제
+  if (options.command === 'clean') {
+    await runClean(cwd, options);
+    return;
+  }
 
   // --init: 설정 파일만 생성
   if (options.init) {
-    await runInit(cwd);
+    await runInit(cwd, options);
     return;
   }
 
@@ -29,14 +164,14 @@ export async function run(options: CliOptions): Promise<void> {
   if (!hasFiles) {
     console.log(chalk.yellow('⚠️  .pr-checks/ 설정 파일이 없습니다.\n'));
 
-    if (!options.yes) {
+    if (!options.yes && !options.dryRun && !options.check) {
       const create = await confirm({
         message: '기본 설정 파일을 생성할까요?',
         default: true,
       });
 
       if (create) {
-        await runInit(cwd);
+        await runInit(cwd, options);
         console.log(chalk.cyan('\n설정 파일을 수정한 후 다시 실행하세요:'));
         console.log(chalk.gray('  npx create-pr-checks\n'));
         return;
@@ -47,11 +182,23 @@ export async function run(options: CliOptions): Promise<void> {
   }
 
   // 설정 읽기
-  const config = await readConfig(cwd);
+  const config = await readConfig(cwd, { strict: options.strict });
+
+  // --check: 생성 파일이 현재 설정과 일치하는지 검사 (CI 게이트용)
+  if (options.check) {
+    await runCheck(cwd, config);
+    return;
+  }
 
   // 설정 요약 출력
   printSummary(config);
 
+  // --dry-run: 파일을 쓰지 않고 변경될 내용만 diff로 출력
+  if (options.dryRun) {
+    await runDryRun(cwd, config);
+    return;
+  }
+
   // 확인
   if (!options.yes) {
     const proceed = await confirm({
@@ -68,7 +215,7 @@ export async function run(options: CliOptions): Promise<void> {
   const spinner = ora('워크플로우 생성 중...').start();
 
   try {
-    const result = await generateWorkflowFiles(cwd, config);
+    const result = await generateWorkflowFiles(cwd, config, { force: options.force });
 
     spinner.succeed('워크플로우 생성 완료!');
 
@@ -76,6 +223,12 @@ export async function run(options: CliOptions): Promise<void> {
     for (const file of result.files) {
       console.log(chalk.green(`  ✔ ${file} 생성됨`));
     }
+    for (const file of result.unchanged) {
+      console.log(chalk.gray(`  = ${file} (변경 없음)`));
+    }
+    for (const file of result.removed) {
+      console.log(chalk.yellow(`  - ${file} 삭제됨 (설정에서 제거됨)`));
+    }
 
     printNextSteps(config);
   } catch (error) {
@@ -92,11 +245,104 @@ export async function run(options: CliOptions): Promise<void> {
   }
 }
 
-async function runInit(cwd: string): Promise<void> {
+/**
+ * --json 모드 실행 (에러도 결과 객체로 반환)
+ */
+async function runJson(cwd: string, options: CliOptions): Promise<JsonRunResult> {
+  const mode: JsonRunMode =
+    options.command === 'clean'
+      ? 'clean'
+      : options.init
+        ? 'init'
+        : options.check
+          ? 'check'
+          : options.dryRun
+            ? 'dry-run'
+            : 'generate';
+  const result: JsonRunResult = { mode, ok: true, files: [], unchanged: [], secrets: [], warnings: [] };
+
+  try {
+    if (mode === 'init') {
+      if (!(await hasInputFiles(cwd))) {
+        const input = createInitialConfig(getSuggestedChecks(await detectProjectStacks(cwd)));
+        result.files = await createDefaultFiles(cwd, input);
+        result.config = input;
+      } else {
+        const { file } = await findConfigFile(cwd);
+        result.unchanged = file ? [path.relative(cwd, file)] : [];
+      }
+      return result;
+    }
+
+    if (!(await hasInputFiles(cwd))) {
+      result.warnings.push('.pr-checks/ 설정 파일이 없어 기본값으로 진행합니다.');
+    }
+    const config = await readConfig(cwd, {
+      onWarning: (message) => result.warnings.push(message),
+      strict: options.strict,
+    });
+    result.config = config.input;
+    result.secrets = getRequiredSecrets(config);
+
+    if (mode === 'generate') {
+      const generated = await generateWorkflowFiles(cwd, config, { force: options.force });
+      result.files = generated.files;
+      result.unchanged = generated.unchanged;
+      result.removed = generated.removed;
+      return result;
+    }
+    if (mode === 'clean') {
+      result.removed = (await cleanGeneratedFiles(cwd, config, { force: options.force })).removed;
+      return result;
+    }
+
+    const changes = await planGeneratedFiles(cwd, config);
+    result.files = changes.filter((c) => c.status !== 'unchanged').map((c) => c.file.path);
+    result.unchanged = changes.filter((c) => c.status === 'unchanged').map((c) => c.file.path);
+    result.changes = changes.map((change) => ({
+      path: change.file.path,
+      status: change.status,
+      ...(change.handEdited ? { handEdited: true } : {}),
+      ...(mode === 'dry-run' && change.status !== 'unchanged' ? { diff: formatUnifiedDiff(change) } : {}),
+    }));
+    if (mode === 'check') {
+      result.ok = result.files.length === 0;
+    }
+    return result;
+  } catch (error) {
+    result.ok = false;
+    result.error = error instanceof Error ? error.message : String(error);
+    return result;
+  }
+}
+
+async function runInit(cwd: string, options: CliOptions): Promise<void> {
+  let input: InputConfig | undefined;
+  if (!(await hasInputFiles(cwd))) {
+    // 프로젝트 스택 감지 → pr-test 체크 제안
+    const stacks = await detectProjectStacks(cwd);
+    if (stacks.length > 0) {
+      console.log(chalk.cyan('🔍 감지된 프로젝트 스택:'));
+      for (const stack of stacks) {
+        console.log(chalk.gray(`  ${stack.label} (${stack.files.join(', ')})`));
+      }
+      console.log();
+    }
+    const suggestedChecks = getSuggestedChecks(stacks);
+
+    // 터미널에서 실행하면 대화형 마법사로 설정 구성 (-y 또는 비대화형이면 제안 그대로 사용)
+    if (!options.yes && process.stdin.isTTY) {
+      input = await runInitWizard(suggestedChecks);
+      console.log();
+    } else {
+      input = createInitialConfig(suggestedChecks);
+    }
+  }
+
   const spinner = ora('설정 파일 생성 중...').start();
 
   try {
-    const files = await createDefaultFiles(cwd);
+    const files = await createDefaultFiles(cwd, input);
 
     if (files.length === 0) {
       spinner.info('설정 파일이 이미 존재합니다.');
@@ -124,6 +370,309 @@ async function runInit(cwd: string): Promise<void> {
   }
 }
 
+async function runDryRun(cwd: string, config: Config): Promise<void> {
+  const changes = await planGeneratedFiles(cwd, config);
+  const pending = changes.filter((c) => c.status !== 'unchanged');
+
+  for (const change of pending) {
+    console.log(colorizeDiff(formatUnifiedDiff(change)));
+  }
+
+  console.log(chalk.bold('📝 dry-run 결과 (파일은 변경되지 않았습니다):'));
+  for (const change of changes) {
+    const handEdited = change.handEdited ? chalk.red(' [직접 수정됨: --force 필요]') : '';
+    if (change.status === 'added') {
+      console.log(chalk.green(`  + ${change.file.path} (새 파일)`));
+    } else if (change.status === 'modified') {
+      console.log(chalk.yellow(`  ~ ${change.file.path} (변경)`) + handEdited);
+    } else if (change.status === 'removed') {
+      console.log(chalk.red(`  - ${change.file.path} (삭제)`) + handEdited);
+    } else {
+      console.log(chalk.gray(`  = ${change.file.path} (변경 없음)`));
+    }
+  }
+  console.log();
+}
+
+async function runCheck(cwd: string, config: Config): Promise<void> {
+  const changes = await planGeneratedFiles(cwd, config);
+  const drifted = changes.filter((c) => c.status !== 'unchanged');
+
+  if (drifted.length === 0) {
+    console.log(chalk.green(`✔ 생성 파일 ${changes.length}개가 모두 설정과 일치합니다.`));
+    return;
+  }
+
+  console.log(chalk.red(`✖ 설정과 일치하지 않는 생성 파일이 ${drifted.length}개 있습니다:`));
+  for (const change of drifted) {
+    const reason =
+      change.status === 'added'
+        ? '파일 없음'
+        : change.status === 'removed'
+          ? '삭제 필요'
+          : change.handEdited
+            ? '직접 수정됨'
+            : '내용 다름';
+    console.log(chalk.red(`  - ${change.file.path} (${reason})`));
+  }
+  console.log(chalk.gray('\n생성 파일을 직접 수정하지 말고 .pr-checks/config.yml을 수정한 뒤 다시 생성하세요.'));
+  console.log(chalk.gray('  npx create-pr-checks --dry-run   # 차이 확인'));
+  console.log(chalk.gray('  npx create-pr-checks             # 다시 생성\n'));
+  process.exit(1);
+}
+
+async function runClean(cwd: string, options: CliOptions): Promise<void> {
+  const config = await readConfig(cwd, { strict: options.strict });
+
+  if (!options.yes) {
+    const proceed = await confirm({
+      message: '생성된 워크플로우와 스크립트를 모두 삭제할까요? (.pr-checks/config.yml은 유지)',
+      default: false,
+    });
+    if (!proceed) {
+      console.log(chalk.yellow('\n취소되었습니다.'));
+      process.exit(0);
+    }
+  }
+
+  try {
+    const result = await cleanGeneratedFiles(cwd, config, { force: options.force });
+
+    if (result.removed.length === 0) {
+      console.log(chalk.gray('삭제할 생성 파일이 없습니다.'));
+      return;
+    }
+    for (const file of result.removed) {
+      console.log(chalk.yellow(`  - ${file} 삭제됨`));
+    }
+    console.log(chalk.green(`\n✔ 생성 파일 ${result.removed.length}개를 삭제했습니다.`));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`\n오류: ${errorMessage}`));
+    process.exit(1);
+  }
+}
+
+function colorizeDiff(patch: string): string {
+  return patch
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line);
+      if (line.startsWith('+')) return chalk.green(line);
+      if (line.startsWith('-')) return chalk.red(line);
+      if (line.startsWith('@@')) return chalk.cyan(line);
+      return line;
+    })
+    .join('\n');
+}
+
+async function runValidate(cwd: string, options: CliOptions): Promise<void> {
+  const report = await validateConfigFile(cwd, { strict: options.strict });
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printValidationReport(report);
+  }
+
+  if (!report.valid) {
+    process.exit(1);
+  }
+}
+
+async function runSchema(cwd: string, options: CliOptions): Promise<void> {
+  // --json: 파일을 쓰지 않고 스키마만 stdout으로 출력
+  if (options.json) {
+    console.log(JSON.stringify(CONFIG_SCHEMA, null, 2));
+    return;
+  }
+
+  const file = await writeConfigSchemaFile(cwd);
+  console.log(chalk.green(`✓ ${file}`));
+
+  // config.ts/config.mjs는 defineConfig 타입으로 자동완성
+  const { file: configFile = 'config.yml' } = await findConfigFile(cwd);
+  const extension = path.extname(configFile);
+  if (['.yml', '.json'].includes(extension) && !(await hasSchemaModeline(cwd))) {
+    if (extension === '.json') {
+      console.log(chalk.gray('\n  에디터 자동완성을 사용하려면 config.json에 추가하세요:'));
+      console.log(chalk.cyan(`  "$schema": "./${SCHEMA_FILE}"`));
+    } else {
+      console.log(chalk.gray('\n  에디터 자동완성을 사용하려면 config.yml 첫 줄에 추가하세요:'));
+      console.log(chalk.cyan(`  # yaml-language-server: $schema=./${SCHEMA_FILE}`));
+    }
+  }
+}
+
+async function runMigrate(cwd: string, options: CliOptions): Promise<void> {
+  const result = await migrateConfigFile(cwd, { dryRun: options.dryRun });
+  const diff = formatUnifiedDiff({
+    file: { path: result.file, content: result.content, executable: false },
+    status: 'modified',
+    previous: result.previous,
+  });
+
+  if (options.json) {
+    const { previous: _previous, content: _content, ...summary } = result;
+    console.log(JSON.stringify({ ...summary, ...(options.dryRun && result.updated ? { diff } : {}) }, null, 2));
+    return;
+  }
+
+  if (!result.updated) {
+    console.log(chalk.green(`✓ 이미 최신 형식입니다 (version: ${result.toVersion}): ${result.file}`));
+    return;
+  }
+
+  console.log(chalk.bold(`${result.file}: version ${result.fromVersion} → ${result.toVersion}`));
+  for (const change of result.changes) {
+    console.log(chalk.gray(`  - ${change}`));
+  }
+
+  if (options.dryRun) {
+    console.log('');
+    console.log(colorizeDiff(diff));
+    console.log(chalk.gray('\n--dry-run: 파일은 변경되지 않았습니다.'));
+    return;
+  }
+  console.log(chalk.green(`\n✓ ${result.file}을 업데이트했습니다. 주석과 키 순서는 유지됩니다.`));
+}
+
+const EXPLAIN_EVENTS: readonly ExplainEventName[] = ['pull_request', 'issue_comment'];
+
+async function runExplain(cwd: string, options: CliOptions): Promise<void> {
+  if (!options.event || !EXPLAIN_EVENTS.includes(options.event as ExplainEventName)) {
+    console.error(chalk.red(`--event는 ${EXPLAIN_EVENTS.join(' 또는 ')}이어야 합니다.`));
+    console.error(chalk.gray('  예: create-pr-checks explain --event issue_comment --comment "/checks"'));
+    process.exit(1);
+  }
+  if (options.event === 'issue_comment' && options.comment === undefined) {
+    console.error(chalk.red('issue_comment 이벤트에는 --comment가 필요합니다.'));
+    process.exit(1);
+  }
+
+  const config = await readConfig(cwd, { strict: options.strict });
+  const result = explainEvent(config, {
+    event: options.event as ExplainEventName,
+    action: options.event === 'pull_request' ? (options.action ?? 'synchronize') : undefined,
+    draft: options.draft,
+    base: options.base,
+    comment: options.comment,
+    failing: options.fail,
+    changed: options.changed,
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+  printExplainResult(result);
+}
+
+function printExplainResult(result: ExplainResult): void {
+  const { event } = result;
+  const label =
+    event.event === 'pull_request'
+      ? `pull_request (${event.action}${event.draft ? ', draft' : ''})`
+      : `issue_comment (${JSON.stringify(event.comment)})`;
+  console.log(chalk.bold(`🔎 ${label} 시뮬레이션\n`));
+
+  if (!result.triggered) {
+    console.log(chalk.yellow('  워크플로우가 트리거되지 않습니다.'));
+  }
+
+  const width = Math.max(0, ...result.jobs.map((job) => job.job.length));
+  for (const job of result.jobs) {
+    const name = job.job.padEnd(width);
+    if (job.runs) {
+      console.log(`  ${chalk.green('✔')} ${chalk.bold(name)}  ${job.reason}`);
+    } else {
+      console.log(chalk.gray(`  ○ ${name}  ${job.reason}`));
+    }
+  }
+
+  if (result.official !== undefined) {
+    console.log(`\n공식 실행: ${result.official ? chalk.green('예') : chalk.yellow('아니오 (status 미반영)')}`);
+  }
+  for (const note of result.notes) {
+    console.log(chalk.gray(`참고: ${note}`));
+  }
+  console.log();
+}
+
+async function runDoctorCommand(cwd: string, options: CliOptions): Promise<void> {
+  const report = await runDoctor(cwd);
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printDoctorReport(report);
+  }
+
+  if (!report.ok) {
+    process.exit(1);
+  }
+}
+
+function printDoctorReport(report: DoctorReport): void {
+  console.log(chalk.bold.cyan('\n🩺 create-pr-checks doctor\n'));
+
+  if (report.defaultBranch) {
+    console.log(chalk.gray(`기본 브랜치: ${report.defaultBranch}\n`));
+  }
+
+  for (const finding of report.findings) {
+    const label = finding.severity === 'error' ? chalk.red('✖') : chalk.yellow('⚠');
+    console.log(`${label} ${finding.message}`);
+    if (finding.hint) {
+      console.log(chalk.gray(`    → ${finding.hint}`));
+    }
+  }
+  if (report.findings.length > 0) {
+    console.log();
+  }
+
+  if (report.secrets.length > 0) {
+    console.log(chalk.bold('🔑 필요한 Secrets:'));
+    for (const secret of report.secrets) {
+      console.log(`  • ${secret}`);
+    }
+    console.log();
+  }
+
+  if (report.statusContexts.length > 0) {
+    console.log(chalk.bold('🛡️  Branch Protection에 추가할 status check:'));
+    for (const context of report.statusContexts) {
+      console.log(`  • ${context}`);
+    }
+    console.log();
+  }
+
+  const errorCount = report.findings.filter((finding) => finding.severity === 'error').length;
+  if (report.ok) {
+    console.log(chalk.green('✔ 워크플로우 실행 준비 완료'));
+  } else {
+    console.log(chalk.red(`✖ 문제 ${errorCount}개를 해결해야 합니다.`));
+  }
+}
+
+function printValidationReport(report: ValidationReport): void {
+  for (const d of report.diagnostics) {
+    const label = d.severity === 'error' ? chalk.red('error') : chalk.yellow('warning');
+    console.log(`${chalk.gray(`${d.file}:${d.line}:${d.column}`)} ${label} ${d.message}`);
+  }
+
+  if (report.diagnostics.length > 0) {
+    console.log();
+  }
+
+  if (report.valid) {
+    const warnings = report.warningCount > 0 ? chalk.yellow(` (경고 ${report.warningCount}개)`) : '';
+    console.log(chalk.green(`✔ ${report.file} 검증 통과`) + warnings);
+  } else {
+    console.log(chalk.red(`✖ ${report.file}: 에러 ${report.errorCount}개, 경고 ${report.warningCount}개`));
+  }
+}
+
 function printSummary(config: Config): void {
   const { input } = config;
 
@@ -134,10 +683,21 @@ function printSummary(config: Config): void {
     const required = check.mustRun ? '필수' : '선택';
     const mustPass = check.mustPass ? ', 통과 필수' : '';
     if (isPrTestCheck(check)) {
-      console.log(`    - ${check.name} (${check.trigger}): ${check.command} [${required}${mustPass}]`);
+      const matrix = check.matrix ? ` (매트릭스 ${getMatrixLegCount(check.matrix)}개 조합)` : '';
+      console.log(`    - ${check.name} (${check.trigger}): ${check.command}${matrix} [${required}${mustPass}]`);
     } else if (isPrReviewCheck(check)) {
       const providerInfo = check.provider === 'cli' ? check.cliTool : check.model;
       console.log(`    - ${check.name} (${check.trigger}): ${check.provider}/${providerInfo} [${required}${mustPass}]`);
+    } else if (isPrLintCheck(check)) {
+      console.log(`    - ${check.name} (${check.trigger}): PR 제목/본문 검사 [${required}${mustPass}]`);
+    } else if (isPrSizeCheck(check)) {
+      console.log(`    - ${check.name} (${check.trigger}): PR 크기 검사 [${required}${mustPass}]`);
+    } else if (isPrCommitsCheck(check)) {
+      console.log(`    - ${check.name} (${check.trigger}): 커밋 검사 [${required}${mustPass}]`);
+    } else if (isPrLabelsCheck(check)) {
+      console.log(`    - ${check.name} (${check.trigger}): 라벨 정책 검사 [${required}${mustPass}]`);
+    } else if (isPrScriptCheck(check)) {
+      console.log(`    - ${check.name} (${check.trigger}): 커스텀 스크립트 ${check.command} [${required}${mustPass}]`);
     }
   }
 
@@ -150,12 +710,7 @@ function printNextSteps(config: Config): void {
   const { input } = config;
 
   // AI 리뷰에 사용되는 시크릿 수집
-  const secrets = new Set<string>();
-  for (const check of input.checks) {
-    if (isPrReviewCheck(check) && check.apiKeySecret) {
-      secrets.add(check.apiKeySecret);
-    }
-  }
+  const secrets = new Set(getRequiredSecrets(config));
 
   console.log(chalk.bold.cyan('\n🎉 완료!\n'));
   console.log(chalk.bold('다음 단계:'));
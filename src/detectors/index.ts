@@ -0,0 +1,376 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { InputConfig, PrTestCheck, SetupStep, TestFramework } from '../types/config.js';
+import { DEFAULT_INPUT_CONFIG, isPrTestCheck } from '../types/config.js';
+
+/**
+ * 감지 가능한 프로젝트 스택
+ */
+export type StackId = 'node' | 'go' | 'rust' | 'python' | 'java' | 'dotnet';
+
+/**
+ * 감지된 스택과 제안 체크
+ */
+export interface DetectedStack {
+  id: StackId;
+  /** 출력용 이름 (예: "Node.js (pnpm)") */
+  label: string;
+  /** 감지 근거가 된 파일 (cwd 기준 상대 경로) */
+  files: string[];
+  /** 스택 공통 셋업 스텝 */
+  setupSteps: SetupStep[];
+  /** 제안 체크 (이름/트리거는 스택 간 충돌 해결 전) */
+  checks: PrTestCheck[];
+}
+
+/**
+ * deprecated framework 옵션의 셋업 스텝
+ * @deprecated 새 설정은 `--init`의 스택 감지 결과(setupSteps)를 사용
+ */
+export const FRAMEWORK_SETUP_STEPS: Record<TestFramework, SetupStep[]> = {
+  node: [
+    { name: 'Setup Node.js', uses: 'actions/setup-node@v4', with: { 'node-version': '20' } },
+    { name: 'Install dependencies', run: 'npm ci' },
+  ],
+  python: [
+    { name: 'Install uv', uses: 'astral-sh/setup-uv@v4' },
+  ],
+  go: [
+    { name: 'Setup Go', uses: 'actions/setup-go@v5', with: { 'go-version': '1.22' } },
+  ],
+  rust: [
+    { name: 'Setup Rust', uses: 'dtolnay/rust-toolchain@stable' },
+  ],
+  custom: [],
+};
+
+/** npm init 기본 test 스크립트 (실제 테스트 아님) */
+const NPM_PLACEHOLDER_TEST = /no test specified/;
+
+/** 하위 디렉토리 탐색 시 제외 */
+const IGNORED_DIRS = new Set(['node_modules', 'vendor', 'target', 'dist', 'build', 'bin', 'obj']);
+
+type NodePackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+function createCheck(name: string, command: string, setupSteps: SetupStep[]): PrTestCheck {
+  return {
+    name,
+    trigger: `/${name}`,
+    type: 'pr-test',
+    mustRun: true,
+    mustPass: true,
+    command,
+    setupSteps: structuredClone(setupSteps),
+  };
+}
+
+async function exists(cwd: string, file: string): Promise<boolean> {
+  return fs.pathExists(path.join(cwd, file));
+}
+
+async function readJson(filePath: string): Promise<Record<string, unknown> | undefined> {
+  try {
+    const parsed: unknown = await fs.readJson(filePath);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function readText(filePath: string): Promise<string> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Node.js: package.json + lockfile로 패키지 매니저 판별, scripts의 test/lint/typecheck 제안
+ */
+async function detectNode(cwd: string): Promise<DetectedStack | undefined> {
+  const pkg = await readJson(path.join(cwd, 'package.json'));
+  if (!pkg) return undefined;
+
+  const files = ['package.json'];
+  const lockfiles: [string, NodePackageManager][] = [
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['yarn.lock', 'yarn'],
+    ['bun.lock', 'bun'],
+    ['bun.lockb', 'bun'],
+    ['package-lock.json', 'npm'],
+  ];
+  let manager: NodePackageManager = 'npm';
+  let lockfile: string | undefined;
+  for (const [file, pm] of lockfiles) {
+    if (await exists(cwd, file)) {
+      manager = pm;
+      lockfile = file;
+      files.push(file);
+      break;
+    }
+  }
+
+  const versionFile = (await exists(cwd, '.nvmrc')) ? '.nvmrc' : (await exists(cwd, '.node-version')) ? '.node-version' : undefined;
+  const nodeWith: Record<string, string> = versionFile ? { 'node-version-file': versionFile } : { 'node-version': '20' };
+  if (lockfile && manager !== 'bun') {
+    nodeWith.cache = manager;
+  }
+
+  const setupSteps: SetupStep[] = [];
+  if (manager === 'pnpm') {
+    // packageManager 필드가 없으면 pnpm 버전 명시 필요
+    setupSteps.push(
+      typeof pkg.packageManager === 'string'
+        ? { name: 'Setup pnpm', uses: 'pnpm/action-setup@v4' }
+        : { name: 'Setup pnpm', uses: 'pnpm/action-setup@v4', with: { version: '9' } }
+    );
+  }
+  if (manager === 'bun') {
+    setupSteps.push({ name: 'Setup Bun', uses: 'oven-sh/setup-bun@v2' });
+  } else {
+    setupSteps.push({ name: 'Setup Node.js', uses: 'actions/setup-node@v4', with: nodeWith });
+  }
+
+  const installCommands: Record<NodePackageManager, string> = {
+    npm: lockfile ? 'npm ci' : 'npm install',
+    pnpm: 'pnpm install --frozen-lockfile',
+    yarn: (await exists(cwd, '.yarnrc.yml')) ? 'yarn install --immutable' : 'yarn install --frozen-lockfile',
+    bun: 'bun install --frozen-lockfile',
+  };
+  setupSteps.push({ name: 'Install dependencies', run: installCommands[manager] });
+
+  const runScript = (script: string): string => {
+    if (script === 'test' && manager !== 'bun') return `${manager} test`;
+    return manager === 'yarn' ? `yarn ${script}` : `${manager} run ${script}`;
+  };
+
+  const scripts = (pkg.scripts && typeof pkg.scripts === 'object' ? pkg.scripts : {}) as Record<string, unknown>;
+  const hasScript = (name: string): boolean => typeof scripts[name] === 'string' && !!(scripts[name] as string).trim();
+
+  const checks: PrTestCheck[] = [];
+  if (hasScript('test') && !NPM_PLACEHOLDER_TEST.test(scripts.test as string)) {
+    checks.push(createCheck('test', runScript('test'), setupSteps));
+  }
+  if (hasScript('lint')) {
+    checks.push(createCheck('lint', runScript('lint'), setupSteps));
+  }
+  const typecheckScript = ['typecheck', 'type-check'].find(hasScript);
+  if (typecheckScript) {
+    checks.push(createCheck('typecheck', runScript(typecheckScript), setupSteps));
+  }
+
+  const label = manager === 'npm' ? 'Node.js' : `Node.js (${manager})`;
+  return { id: 'node', label, files, setupSteps, checks };
+}
+
+/**
+ * Go: go.mod의 go 버전 사용
+ */
+async function detectGo(cwd: string): Promise<DetectedStack | undefined> {
+  if (!(await exists(cwd, 'go.mod'))) return undefined;
+
+  const setupSteps: SetupStep[] = [
+    { name: 'Setup Go', uses: 'actions/setup-go@v5', with: { 'go-version-file': 'go.mod' } },
+  ];
+  return {
+    id: 'go',
+    label: 'Go',
+    files: ['go.mod'],
+    setupSteps,
+    checks: [createCheck('test', 'go test ./...', setupSteps), createCheck('lint', 'go vet ./...', setupSteps)],
+  };
+}
+
+/**
+ * Rust: cargo test + clippy
+ */
+async function detectRust(cwd: string): Promise<DetectedStack | undefined> {
+  if (!(await exists(cwd, 'Cargo.toml'))) return undefined;
+
+  const setupSteps: SetupStep[] = [
+    { name: 'Setup Rust', uses: 'dtolnay/rust-toolchain@stable', with: { components: 'clippy' } },
+  ];
+  return {
+    id: 'rust',
+    label: 'Rust',
+    files: ['Cargo.toml'],
+    setupSteps,
+    checks: [
+      createCheck('test', 'cargo test', setupSteps),
+      createCheck('lint', 'cargo clippy --all-targets -- -D warnings', setupSteps),
+    ],
+  };
+}
+
+/**
+ * Python: uv.lock → uv, poetry.lock → poetry, 그 외 pip
+ * pyproject.toml에 ruff 설정이 있으면 lint 체크 제안
+ */
+async function detectPython(cwd: string): Promise<DetectedStack | undefined> {
+  const hasPyproject = await exists(cwd, 'pyproject.toml');
+  const hasRequirements = await exists(cwd, 'requirements.txt');
+  if (!hasPyproject && !hasRequirements) return undefined;
+
+  const files = [hasPyproject ? 'pyproject.toml' : 'requirements.txt'];
+  const pyproject = hasPyproject ? await readText(path.join(cwd, 'pyproject.toml')) : '';
+  const usesRuff = /\[tool\.ruff\b|\bruff\b/.test(pyproject);
+
+  let label: string;
+  let run: (command: string) => string;
+  const setupSteps: SetupStep[] = [];
+
+  if (await exists(cwd, 'uv.lock')) {
+    files.push('uv.lock');
+    label = 'Python (uv)';
+    run = (command) => `uv run ${command}`;
+    setupSteps.push({ name: 'Install uv', uses: 'astral-sh/setup-uv@v4' }, { name: 'Install dependencies', run: 'uv sync --all-extras --dev' });
+  } else if (await exists(cwd, 'poetry.lock')) {
+    files.push('poetry.lock');
+    label = 'Python (poetry)';
+    run = (command) => `poetry run ${command}`;
+    setupSteps.push(
+      { name: 'Install poetry', run: 'pipx install poetry' },
+      { name: 'Setup Python', uses: 'actions/setup-python@v5', with: { 'python-version': '3.12', cache: 'poetry' } },
+      { name: 'Install dependencies', run: 'poetry install' }
+    );
+  } else {
+    label = 'Python';
+    run = (command) => command;
+    setupSteps.push(
+      { name: 'Setup Python', uses: 'actions/setup-python@v5', with: { 'python-version': '3.12', cache: 'pip' } },
+      { name: 'Install dependencies', run: hasRequirements ? 'pip install -r requirements.txt' : 'pip install -e .' }
+    );
+  }
+
+  const checks = [createCheck('test', run('pytest'), setupSteps)];
+  if (usesRuff) {
+    checks.push(createCheck('lint', run('ruff check .'), setupSteps));
+  }
+  return { id: 'python', label, files, setupSteps, checks };
+}
+
+/**
+ * Java: Maven(pom.xml) 또는 Gradle(build.gradle[.kts]), wrapper가 있으면 우선 사용
+ */
+async function detectJava(cwd: string): Promise<DetectedStack | undefined> {
+  let gradleFile: string | undefined;
+  for (const file of ['build.gradle', 'build.gradle.kts']) {
+    if (await exists(cwd, file)) {
+      gradleFile = file;
+      break;
+    }
+  }
+  const isMaven = await exists(cwd, 'pom.xml');
+  if (!isMaven && !gradleFile) return undefined;
+
+  const tool = isMaven ? 'maven' : 'gradle';
+  const setupSteps: SetupStep[] = [
+    { name: 'Setup Java', uses: 'actions/setup-java@v4', with: { distribution: 'temurin', 'java-version': '21', cache: tool } },
+  ];
+
+  let command: string;
+  if (isMaven) {
+    command = (await exists(cwd, 'mvnw')) ? './mvnw -B test' : 'mvn -B test';
+  } else {
+    command = (await exists(cwd, 'gradlew')) ? './gradlew test' : 'gradle test';
+  }
+
+  return {
+    id: 'java',
+    label: isMaven ? 'Java (Maven)' : 'Java (Gradle)',
+    files: [isMaven ? 'pom.xml' : (gradleFile as string)],
+    setupSteps,
+    checks: [createCheck('test', command, setupSteps)],
+  };
+}
+
+/**
+ * .NET: 루트 또는 한 단계 하위 디렉토리의 *.sln / *.csproj
+ */
+async function detectDotnet(cwd: string): Promise<DetectedStack | undefined> {
+  const projectFiles: string[] = [];
+  const entries = await fs.readdir(cwd, { withFileTypes: true }).catch(() => []);
+
+  for (const entry of entries) {
+    if (entry.isFile() && /\.(sln|csproj)$/.test(entry.name)) {
+      projectFiles.push(entry.name);
+    }
+  }
+  if (projectFiles.length === 0) {
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.') || IGNORED_DIRS.has(entry.name)) continue;
+      const children = await fs.readdir(path.join(cwd, entry.name)).catch(() => [] as string[]);
+      for (const child of children) {
+        if (child.endsWith('.csproj')) {
+          projectFiles.push(`${entry.name}/${child}`);
+        }
+      }
+    }
+  }
+  if (projectFiles.length === 0) return undefined;
+
+  const setupSteps: SetupStep[] = [
+    { name: 'Setup .NET', uses: 'actions/setup-dotnet@v4', with: { 'dotnet-version': '8.0.x' } },
+  ];
+  // 루트에 솔루션/프로젝트가 여러 개면 dotnet test가 대상을 고르지 못함
+  const rootFiles = projectFiles.filter((file) => !file.includes('/'));
+  const target = rootFiles.length === 1 ? '' : ` ${projectFiles.find((file) => file.endsWith('.sln')) ?? projectFiles[0]}`;
+
+  return {
+    id: 'dotnet',
+    label: '.NET',
+    files: projectFiles.sort(),
+    setupSteps,
+    checks: [createCheck('test', `dotnet test${target}`, setupSteps)],
+  };
+}
+
+/**
+ * 프로젝트 루트의 파일로 사용 중인 스택 감지
+ * 감지 순서 = 제안 체크 순서
+ */
+export async function detectProjectStacks(cwd: string): Promise<DetectedStack[]> {
+  const detectors = [detectNode, detectGo, detectRust, detectPython, detectJava, detectDotnet];
+  const stacks: DetectedStack[] = [];
+  for (const detect of detectors) {
+    const stack = await detect(cwd);
+    if (stack) stacks.push(stack);
+  }
+  return stacks;
+}
+
+/**
+ * 감지된 스택의 제안 체크를 하나의 목록으로 병합
+ * 이름/트리거가 겹치면 스택 id를 접두사로 붙임 (예: test → go-test)
+ */
+export function getSuggestedChecks(stacks: DetectedStack[]): PrTestCheck[] {
+  const counts = new Map<string, number>();
+  for (const check of stacks.flatMap((stack) => stack.checks)) {
+    counts.set(check.name, (counts.get(check.name) ?? 0) + 1);
+  }
+
+  return stacks.flatMap((stack) =>
+    stack.checks.map((check) => {
+      if ((counts.get(check.name) ?? 0) < 2) return check;
+      const name = `${stack.id}-${check.name}`;
+      return { ...check, name, trigger: `/${name}` };
+    })
+  );
+}
+
+/**
+ * 기본 설정의 pr-test 체크를 제안 체크로 교체 (제안이 없으면 기본 설정 그대로)
+ * 남은 체크의 needs는 기본 pr-test 대신 mustRun 제안 체크를 가리키도록 바꿈 (없으면 needs 삭제)
+ */
+export function createInitialConfig(suggestedChecks: PrTestCheck[]): InputConfig {
+  const input = structuredClone(DEFAULT_INPUT_CONFIG);
+  if (suggestedChecks.length > 0) {
+    const needs = suggestedChecks.filter((check) => check.mustRun).map((check) => check.name);
+    const rest = input.checks
+      .filter((check) => !isPrTestCheck(check))
+      .map(({ needs: defaultNeeds, ...check }) => (defaultNeeds && needs.length > 0 ? { ...check, needs } : check));
+    input.checks = [...structuredClone(suggestedChecks), ...rest];
+  }
+  return input;
+}
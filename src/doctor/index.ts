@@ -0,0 +1,339 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import fs from 'fs-extra';
+import path from 'path';
+import type { Config, Platform } from '../types/config.js';
+import { isPrReviewCheck } from '../types/config.js';
+import { STATUS_CONTEXTS } from '../templates/constants/contexts.js';
+import { hasInputFiles, readConfig, validateConfigFile } from '../readers/index.js';
+import { getWorkflowsDir } from '../generators/workflow.js';
+import { planGeneratedFiles } from '../generators/plan.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * 진단 심각도
+ * - error: 워크플로우가 런타임에 실패하거나 실행되지 않음
+ * - warning: 동작은 하지만 확인 필요
+ */
+export type DoctorSeverity = 'error' | 'warning';
+
+export interface DoctorFinding {
+  severity: DoctorSeverity;
+  message: string;
+  /** 해결 방법 */
+  hint?: string;
+  /** 관련 파일 (cwd 기준 상대 경로) */
+  file?: string;
+}
+
+/**
+ * doctor 명령 결과
+ */
+export interface DoctorReport {
+  ok: boolean;
+  findings: DoctorFinding[];
+  /** 설정해야 하는 Secret 이름 */
+  secrets: string[];
+  /** Branch protection에 추가해야 하는 status context */
+  statusContexts: string[];
+  /** 비교에 사용한 기본 브랜치 ref (git 저장소가 아니거나 찾지 못하면 undefined) */
+  defaultBranch?: string;
+}
+
+/**
+ * git 명령 실행 (실패 시 undefined)
+ */
+async function git(cwd: string, args: string[]): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 });
+    return stdout;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * `git ls-files -s` / `git ls-tree` 출력 → 경로별 파일 모드 (예: 100755)
+ */
+function parseModes(output: string | undefined): Map<string, string> {
+  const modes = new Map<string, string>();
+  for (const line of (output ?? '').split('\n')) {
+    const tab = line.indexOf('\t');
+    if (tab === -1) continue;
+    modes.set(line.slice(tab + 1), line.split(' ')[0]);
+  }
+  return modes;
+}
+
+/**
+ * 기본 브랜치 ref 찾기 (네트워크 없이 로컬 ref만 사용)
+ * origin/HEAD → 설정의 branches 순서대로 로컬/원격 브랜치
+ */
+async function resolveDefaultBranch(cwd: string, branches: string[]): Promise<string | undefined> {
+  const originHead = await git(cwd, ['symbolic-ref', '--quiet', '--short', 'refs/remotes/origin/HEAD']);
+  if (originHead?.trim()) {
+    return originHead.trim();
+  }
+  for (const branch of branches) {
+    for (const ref of [`refs/heads/${branch}`, `refs/remotes/origin/${branch}`]) {
+      if ((await git(cwd, ['rev-parse', '--verify', '--quiet', ref])) !== undefined) {
+        return ref.replace(/^refs\/(heads|remotes)\//, '');
+      }
+    }
+  }
+  return undefined;
+}
+
+function toGitPath(file: string): string {
+  return file.split(path.sep).join('/');
+}
+
+/**
+ * 설정한 platform과 다른 디렉토리에 워크플로우가 있는지 확인
+ */
+async function checkPlatformDir(cwd: string, platform: Platform): Promise<DoctorFinding[]> {
+  const otherPlatform: Platform = platform === 'github' ? 'gitea' : 'github';
+  const otherFile = path.join(getWorkflowsDir(otherPlatform), 'pr-checks.yml');
+  if (!(await fs.pathExists(path.join(cwd, otherFile)))) {
+    return [];
+  }
+  return [
+    {
+      severity: 'error',
+      file: toGitPath(otherFile),
+      message: `platform이 ${platform}인데 ${toGitPath(getWorkflowsDir(otherPlatform))}에 워크플로우가 있습니다. ${otherPlatform}용 워크플로우는 실행되지 않습니다.`,
+      hint: `platform 설정을 확인하거나 ${toGitPath(otherFile)}를 삭제하세요.`,
+    },
+  ];
+}
+
+/**
+ * 생성 파일의 존재/실행 권한/커밋 여부/기본 브랜치 반영 여부 확인
+ */
+async function checkGeneratedFiles(cwd: string, config: Config, defaultBranch: string | undefined, isGitRepo: boolean): Promise<DoctorFinding[]> {
+  const findings: DoctorFinding[] = [];
+  const changes = await planGeneratedFiles(cwd, config);
+  const paths = changes.filter((change) => change.status !== 'removed').map((change) => toGitPath(change.file.path));
+
+  const indexModes = isGitRepo ? parseModes(await git(cwd, ['ls-files', '-s', '--', ...paths])) : new Map<string, string>();
+  const branchModes = defaultBranch
+    ? parseModes(await git(cwd, ['ls-tree', '-r', defaultBranch, '--', ...paths]))
+    : new Map<string, string>();
+
+  for (const change of changes) {
+    const file = toGitPath(change.file.path);
+
+    if (change.status === 'added') {
+      findings.push({
+        severity: 'error',
+        file,
+        message: `${file}이 생성되지 않았습니다.`,
+        hint: 'create-pr-checks를 실행해 워크플로우를 생성하세요.',
+      });
+      continue;
+    }
+    if (change.status === 'removed') {
+      findings.push({
+        severity: 'warning',
+        file,
+        message: `${file}은 현재 설정에서 생성하지 않는 파일입니다.`,
+        hint: 'create-pr-checks를 다시 실행하면 삭제됩니다.',
+      });
+      continue;
+    }
+    if (change.status === 'modified') {
+      findings.push({
+        severity: 'warning',
+        file,
+        message: change.handEdited ? `${file}이 직접 수정되었습니다.` : `${file}이 현재 설정과 다릅니다.`,
+        hint: change.handEdited
+          ? '수정 내용을 .pr-checks/config.yml로 옮긴 뒤 다시 생성하세요.'
+          : 'create-pr-checks --dry-run으로 차이를 확인하고 다시 생성하세요.',
+      });
+    }
+
+    if (change.file.executable) {
+      const stat = await fs.stat(path.join(cwd, change.file.path));
+      if ((stat.mode & 0o111) === 0) {
+        findings.push({
+          severity: 'error',
+          file,
+          message: `${file}에 실행 권한이 없습니다.`,
+          hint: `chmod +x ${file}`,
+        });
+      }
+    }
+
+    if (!isGitRepo) continue;
+
+    const indexMode = indexModes.get(file);
+    if (!indexMode) {
+      findings.push({
+        severity: 'error',
+        file,
+        message: `${file}이 git에 커밋되지 않았습니다.`,
+        hint: `git add ${file} 후 커밋하세요.`,
+      });
+      continue;
+    }
+    if (change.file.executable && indexMode !== '100755') {
+      findings.push({
+        severity: 'error',
+        file,
+        message: `${file}이 git에 실행 권한 없이 커밋되어 있습니다.`,
+        hint: `git update-index --chmod=+x ${file}`,
+      });
+    }
+
+    if (defaultBranch && !branchModes.has(file)) {
+      findings.push({
+        severity: 'warning',
+        file,
+        message: `${file}이 기본 브랜치(${defaultBranch})에 없습니다. 코멘트 트리거는 기본 브랜치의 워크플로우만 실행합니다.`,
+        hint: '워크플로우를 추가하는 PR을 먼저 머지하세요.',
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * cliCommand가 저장소 내 파일을 가리키면 존재/실행 권한 확인
+ */
+async function checkCliCommands(cwd: string, config: Config, isGitRepo: boolean): Promise<DoctorFinding[]> {
+  const findings: DoctorFinding[] = [];
+
+  for (const check of config.input.checks) {
+    if (!isPrReviewCheck(check) || !check.cliCommand) continue;
+
+    // PATH에서 찾는 명령어(예: claude)는 runner 환경이므로 검사하지 않음
+    const [executable] = check.cliCommand.trim().split(/\s+/);
+    if (!executable.includes('/') || path.isAbsolute(executable)) continue;
+
+    const file = toGitPath(path.normalize(executable));
+    const filePath = path.join(cwd, executable);
+    if (!(await fs.pathExists(filePath))) {
+      findings.push({
+        severity: 'error',
+        file,
+        message: `'${check.name}' 체크의 cliCommand 파일이 없습니다: ${executable}`,
+        hint: '경로를 확인하거나 스크립트를 추가하세요.',
+      });
+      continue;
+    }
+    const stat = await fs.stat(filePath);
+    if ((stat.mode & 0o111) === 0) {
+      findings.push({
+        severity: 'error',
+        file,
+        message: `'${check.name}' 체크의 cliCommand 파일에 실행 권한이 없습니다: ${executable}`,
+        hint: `chmod +x ${file}`,
+      });
+    }
+    if (isGitRepo && !(await git(cwd, ['ls-files', '--', file]))?.trim()) {
+      findings.push({
+        severity: 'error',
+        file,
+        message: `'${check.name}' 체크의 cliCommand 파일이 git에 커밋되지 않았습니다: ${executable}`,
+        hint: `git add ${file} 후 커밋하세요.`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Branch protection에 필요한 status context
+ * mustRun + mustPass 체크는 개별 context로도 머지를 막을 수 있음
+ * (프로젝트 체크는 프로젝트가 바뀐 PR에만 status가 생기므로 PR Checks Status로만 확인)
+ */
+export function getRequiredStatusContexts(config: Config): string[] {
+  return [
+    STATUS_CONTEXTS.prChecksStatus,
+    ...config.input.checks
+      .filter((check) => check.mustRun && check.mustPass && !check.project)
+      .map((check) => check.name),
+  ];
+}
+
+/**
+ * 워크플로우에 필요한 Secret 이름 (AI 리뷰 API 키, 체크별 secrets)
+ */
+export function getRequiredSecrets(config: Config): string[] {
+  const secrets = new Set<string>();
+  for (const check of config.input.checks) {
+    if (isPrReviewCheck(check) && check.apiKeySecret) {
+      secrets.add(check.apiKeySecret);
+    }
+    check.secrets?.forEach((name) => secrets.add(name));
+  }
+  return [...secrets];
+}
+
+/**
+ * 로컬 checkout을 검사해 워크플로우 런타임 문제를 찾음 (네트워크 사용 안 함)
+ */
+export async function runDoctor(cwd: string): Promise<DoctorReport> {
+  const findings: DoctorFinding[] = [];
+
+  if (!(await hasInputFiles(cwd))) {
+    findings.push({
+      severity: 'warning',
+      file: '.pr-checks/config.yml',
+      message: '설정 파일이 없어 기본 설정으로 검사합니다.',
+      hint: 'create-pr-checks --init으로 설정 파일을 생성하세요.',
+    });
+  } else {
+    const validation = await validateConfigFile(cwd);
+    if (!validation.valid) {
+      findings.push({
+        severity: 'error',
+        file: validation.file,
+        message: `설정 파일에 에러가 ${validation.errorCount}개 있습니다.`,
+        hint: 'create-pr-checks validate로 확인하세요.',
+      });
+      return { ok: false, findings, secrets: [], statusContexts: [] };
+    }
+    for (const diagnostic of validation.diagnostics.filter((d) => d.deprecated)) {
+      findings.push({
+        severity: 'warning',
+        file: validation.file,
+        message: diagnostic.message,
+        hint: 'create-pr-checks migrate --dry-run으로 변경 내용을 확인하세요.',
+      });
+    }
+  }
+
+  const config = await readConfig(cwd);
+  const isGitRepo = (await git(cwd, ['rev-parse', '--is-inside-work-tree']))?.trim() === 'true';
+  const defaultBranch = isGitRepo ? await resolveDefaultBranch(cwd, config.input.branches) : undefined;
+
+  if (!isGitRepo) {
+    findings.push({
+      severity: 'warning',
+      message: 'git 저장소가 아니어서 커밋/기본 브랜치 검사를 건너뜁니다.',
+    });
+  } else if (!defaultBranch) {
+    findings.push({
+      severity: 'warning',
+      message: `기본 브랜치를 찾지 못해 기본 브랜치 반영 여부 검사를 건너뜁니다. (branches: ${config.input.branches.join(', ')})`,
+    });
+  }
+
+  findings.push(
+    ...(await checkPlatformDir(cwd, config.input.platform)),
+    ...(await checkGeneratedFiles(cwd, config, defaultBranch, isGitRepo)),
+    ...(await checkCliCommands(cwd, config, isGitRepo))
+  );
+
+  return {
+    ok: !findings.some((finding) => finding.severity === 'error'),
+    findings,
+    secrets: getRequiredSecrets(config),
+    statusContexts: getRequiredStatusContexts(config),
+    defaultBranch,
+  };
+}
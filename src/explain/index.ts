@@ -0,0 +1,427 @@
+import type { Config, Check, PullRequestAction } from '../types/config.js';
+import {
+  isPrTestCheck,
+  isPrScriptCheck,
+  isPrReviewCheck,
+  isPrLintCheck,
+  isPrSizeCheck,
+  isPrCommitsCheck,
+  isPrLabelsCheck,
+  getCheckAutoRunOn,
+  getCheckJobId,
+  getCheckDependencies,
+  getMatrixReportJobId,
+  getMatrixLegCount,
+  hasPathFilters,
+  pathGlobToRegex,
+} from '../types/config.js';
+
+/**
+ * 시뮬레이션할 이벤트
+ */
+export type ExplainEventName = 'pull_request' | 'issue_comment';
+
+export interface ExplainEvent {
+  event: ExplainEventName;
+  /** pull_request: 이벤트 액션 (예: synchronize) */
+  action?: string;
+  /** pull_request: draft PR 여부 */
+  draft?: boolean;
+  /** pull_request: 대상(base) 브랜치 (생략하면 branches 필터 통과로 가정) */
+  base?: string;
+  /** issue_comment: 코멘트 본문 */
+  comment?: string;
+  /** 실패한다고 가정할 체크 이름 (나머지는 성공 가정) */
+  failing?: string[];
+  /** PR에서 바뀐 파일 (프로젝트/paths 필터 판정용, 생략하면 모든 프로젝트와 paths에 맞는 파일이 바뀐 것으로 가정) */
+  changed?: string[];
+}
+
+/**
+ * job별 실행 여부와 이유
+ */
+export interface JobExplanation {
+  job: string;
+  runs: boolean;
+  reason: string;
+}
+
+export interface ExplainResult {
+  event: ExplainEvent;
+  /** 워크플로우 자체가 트리거되는지 (on: 필터) */
+  triggered: boolean;
+  /** check-trigger가 매칭한 트리거 명령어 */
+  trigger?: string;
+  /** 공식 실행 여부 (false면 pr-review status를 설정하지 않음) */
+  official?: boolean;
+  jobs: JobExplanation[];
+  /** 시뮬레이션에서 가정한 내용 */
+  notes: string[];
+}
+
+/**
+ * check-trigger job의 출력 (should_continue=false면 undefined)
+ */
+interface TriggerOutputs {
+  trigger: string;
+  official: boolean;
+  autoRun: Set<string>;
+  /** 경로 아래 파일이 바뀐 프로젝트 이름 */
+  affected: Set<string>;
+  /** paths/pathsIgnore에 맞는 파일이 바뀐 체크 이름 (필터가 없는 체크는 제외) */
+  relevant: Set<string>;
+}
+
+/**
+ * pull_request.types에 들어가는 액션 (generatePrChecksWorkflow와 동일)
+ */
+function getWorkflowPrTypes(checks: Check[]): Set<string> {
+  const actions = new Set<string>(['opened']);
+  for (const check of checks) {
+    getCheckAutoRunOn(check).forEach((a) => actions.add(a));
+  }
+  return actions;
+}
+
+/**
+ * check-trigger job의 if 조건에 들어가는 액션 (generateCheckTriggerJob과 동일)
+ */
+function getCheckTriggerActions(checks: Check[]): Set<string> {
+  const actions = new Set<string>();
+  for (const check of checks) {
+    getCheckAutoRunOn(check).forEach((a) => actions.add(a));
+  }
+  if (actions.size === 0) {
+    actions.add('synchronize');
+  }
+  return actions;
+}
+
+/**
+ * 코멘트 첫 비어있지 않은 줄의 첫 단어와 나머지 메시지 분리 (check-trigger 스크립트와 동일)
+ */
+function parseComment(body: string): { firstWord: string; message: string } {
+  const lines = body.split('\n');
+  const index = lines.findIndex((line) => line.trim() !== '');
+  if (index === -1) {
+    return { firstWord: '', message: '' };
+  }
+  const firstLine = lines[index].trimStart();
+  const firstWord = firstLine.split(/\s+/)[0];
+  const rest = [firstLine.slice(firstWord.length).trimStart(), ...lines.slice(index + 1)];
+  return { firstWord, message: rest.join('\n').trim() };
+}
+
+/**
+ * 체크 job의 실행 조건 (개별 트리거 / ciTrigger / 자동 실행, 프로젝트 변경 여부와 paths 필터까지)
+ */
+function explainRunCondition(check: Check, config: Config, outputs: TriggerOutputs): JobExplanation {
+  const explanation = explainTriggerCondition(check, config, outputs);
+  if (!explanation.runs || outputs.trigger === check.trigger) {
+    return explanation;
+  }
+  if (check.project && !outputs.affected.has(check.project)) {
+    const project = config.input.projects?.find((p) => p.name === check.project);
+    return {
+      job: explanation.job,
+      runs: false,
+      reason: `${explanation.reason}이지만 ${check.project} 프로젝트(${project?.path}/)에 바뀐 파일이 없음`,
+    };
+  }
+  if (hasPathFilters(check) && !outputs.relevant.has(check.name)) {
+    return {
+      job: explanation.job,
+      runs: false,
+      reason: `${explanation.reason}이지만 paths/pathsIgnore에 맞는 바뀐 파일이 없음 (skip-checks가 success status 설정)`,
+    };
+  }
+  return explanation;
+}
+
+function explainTriggerCondition(check: Check, config: Config, outputs: TriggerOutputs): JobExplanation {
+  const { ciTrigger } = config.input;
+  const job = getCheckJobId(check);
+
+  if (outputs.trigger === check.trigger) {
+    return { job, runs: true, reason: `개별 트리거 ${check.trigger}` };
+  }
+  if (outputs.trigger === ciTrigger) {
+    return check.mustRun
+      ? { job, runs: true, reason: `ciTrigger ${ciTrigger} (mustRun: true)` }
+      : { job, runs: false, reason: `mustRun: false라서 ciTrigger ${ciTrigger}에 포함되지 않음` };
+  }
+  if (outputs.trigger) {
+    return { job, runs: false, reason: `트리거 ${outputs.trigger}는 이 체크(${check.trigger})와 무관` };
+  }
+  if (outputs.autoRun.has(check.name)) {
+    return { job, runs: true, reason: `autoRunOn에 포함된 액션 (자동 실행)` };
+  }
+  const autoRunOn = getCheckAutoRunOn(check);
+  return {
+    job,
+    runs: false,
+    reason: autoRunOn.length === 0 ? 'autoRunOn이 비어 있음 (자동 실행 안 함)' : `autoRunOn(${autoRunOn.join(', ')})에 없는 액션`,
+  };
+}
+
+/**
+ * 바뀐 파일이 경로 아래에 있는 프로젝트 (changed가 없으면 모든 프로젝트)
+ */
+function getAffectedProjects(config: Config, changed: string[] | undefined): Set<string> {
+  const projects = config.input.projects ?? [];
+  return new Set(
+    projects
+      .filter((project) => !changed || changed.some((file) => file.startsWith(`${project.path}/`)))
+      .map((project) => project.name)
+  );
+}
+
+/**
+ * paths/pathsIgnore에 맞는 파일이 바뀐 체크 (changed가 없으면 필터가 있는 모든 체크)
+ */
+function getRelevantChecks(config: Config, changed: string[] | undefined): Set<string> {
+  const matchesAny = (file: string, globs: string[]) => globs.some((glob) => new RegExp(pathGlobToRegex(glob)).test(file));
+  return new Set(
+    config.input.checks
+      .filter(hasPathFilters)
+      .filter(
+        (check) =>
+          !changed ||
+          changed.some(
+            (file) => (!check.paths || matchesAny(file, check.paths)) && !(check.pathsIgnore && matchesAny(file, check.pathsIgnore))
+          )
+      )
+      .map((check) => check.name)
+  );
+}
+
+/**
+ * pull_request 이벤트의 check-trigger 판정
+ */
+function explainPullRequest(config: Config, event: ExplainEvent, result: ExplainResult): TriggerOutputs | undefined {
+  const { checks, branches } = config.input;
+  const action = event.action ?? 'synchronize';
+
+  if (!getWorkflowPrTypes(checks).has(action)) {
+    result.triggered = false;
+    result.notes.push(`pull_request.types에 '${action}'이 없어 워크플로우가 실행되지 않습니다.`);
+    return undefined;
+  }
+  if (event.base !== undefined && !branches.includes(event.base)) {
+    result.triggered = false;
+    result.notes.push(`대상 브랜치 '${event.base}'가 branches(${branches.join(', ')})에 없어 워크플로우가 실행되지 않습니다.`);
+    return undefined;
+  }
+
+  result.jobs.push(
+    action === 'opened'
+      ? { job: 'guide-comment', runs: true, reason: 'PR 생성(opened) 시 가이드 코멘트 작성' }
+      : { job: 'guide-comment', runs: false, reason: 'opened 액션에서만 실행' }
+  );
+
+  if (!getCheckTriggerActions(checks).has(action)) {
+    result.jobs.push({ job: 'check-trigger', runs: false, reason: `어떤 체크의 autoRunOn에도 '${action}'이 없음` });
+    return undefined;
+  }
+  if (event.draft) {
+    result.jobs.push({ job: 'check-trigger', runs: true, reason: 'Draft PR이라 자동 실행을 건너뜀 (should_continue=false)' });
+    return undefined;
+  }
+
+  result.jobs.push({ job: 'check-trigger', runs: true, reason: `pull_request ${action} 자동 실행` });
+  result.official = true;
+  return {
+    trigger: '',
+    official: true,
+    autoRun: new Set(checks.filter((c) => getCheckAutoRunOn(c).includes(action as PullRequestAction)).map((c) => c.name)),
+    affected: getAffectedProjects(config, event.changed),
+    relevant: getRelevantChecks(config, event.changed),
+  };
+}
+
+/**
+ * issue_comment 이벤트의 check-trigger 판정
+ */
+function explainIssueComment(config: Config, event: ExplainEvent, result: ExplainResult): TriggerOutputs | undefined {
+  const { checks, ciTrigger } = config.input;
+
+  result.jobs.push({ job: 'guide-comment', runs: false, reason: 'pull_request opened에서만 실행' });
+  result.notes.push('PR에 작성된 코멘트이고 작성자에게 write 이상 권한이 있다고 가정합니다.');
+
+  const { firstWord, message } = parseComment(event.comment ?? '');
+  const triggers = [...checks.map((c) => c.trigger), ciTrigger];
+  if (!triggers.includes(firstWord)) {
+    const reason = firstWord
+      ? `'${firstWord}'는 등록된 트리거가 아님 (${triggers.join(', ')})`
+      : '코멘트가 비어 있음';
+    result.jobs.push({ job: 'check-trigger', runs: true, reason: `${reason} (should_continue=false)` });
+    return undefined;
+  }
+
+  result.trigger = firstWord;
+  result.official = message === '';
+  result.jobs.push({
+    job: 'check-trigger',
+    runs: true,
+    reason: result.official ? `트리거 ${firstWord} 매칭` : `트리거 ${firstWord} 매칭 (추가 메시지가 있어 비공식 실행)`,
+  });
+  return {
+    trigger: firstWord,
+    official: result.official,
+    autoRun: new Set(),
+    affected: getAffectedProjects(config, event.changed),
+    relevant: getRelevantChecks(config, event.changed),
+  };
+}
+
+/**
+ * 이벤트에 대해 pr-checks.yml의 if:/needs: 조건을 정적으로 평가
+ * (generateCheckTriggerJob, generatePrTestJob, generatePrLintJob, generatePrCommitsJob, generatePrSizeJob, generatePrReviewJob,
+ *  generateBlockedChecksJob, generateReviewStatusJob과 동일한 규칙)
+ */
+export function explainEvent(config: Config, event: ExplainEvent): ExplainResult {
+  const { checks } = config.input;
+  const failing = new Set(event.failing ?? []);
+  const result: ExplainResult = { event, triggered: true, jobs: [], notes: [] };
+
+  const outputs =
+    event.event === 'pull_request' ? explainPullRequest(config, event, result) : explainIssueComment(config, event, result);
+
+  if (!result.triggered) {
+    return result;
+  }
+
+  const skippedAll = (job: string): JobExplanation => ({
+    job,
+    runs: false,
+    reason: 'check-trigger의 should_continue가 true가 아님',
+  });
+
+  if (!outputs) {
+    result.jobs.push(...checks.map((c) => skippedAll(getCheckJobId(c))));
+    result.jobs.push(...checks.filter(isPrTestCheck).filter((c) => c.matrix).map((c) => skippedAll(getMatrixReportJobId(c))));
+    if (checks.some(hasPathFilters)) {
+      result.jobs.push(skippedAll('skip-checks'));
+    }
+    if (checks.some((c) => getCheckDependencies(c, checks).length > 0)) {
+      result.jobs.push(skippedAll('blocked-checks'));
+    }
+    result.jobs.push(skippedAll('review-status'));
+    return result;
+  }
+
+  // needs: 이번 실행의 대상인 앞 체크가 모두 job 성공해야 실행 (실패를 가정했거나 스킵된 앞 체크는 통과하지 못함)
+  // pr-review는 리뷰 결과를 status로만 남기고, onExceed: warn인 pr-size는 크기를 넘어도 job이 성공함
+  const failsJob = (check: Check) =>
+    failing.has(check.name) && !isPrReviewCheck(check) && !(isPrSizeCheck(check) && check.onExceed === 'warn');
+  const runConditions = new Map(checks.map((c) => [c.name, explainRunCondition(c, config, outputs)]));
+  const explained = new Map<string, JobExplanation>();
+  const blocked = new Map<string, string>();
+  const explainCheck = (check: Check): JobExplanation => {
+    const cached = explained.get(check.name);
+    if (cached) return cached;
+
+    const explanation = { ...runConditions.get(check.name)! };
+    const dependencies = getCheckDependencies(check, checks);
+    if (explanation.runs && dependencies.length > 0) {
+      const blocker = dependencies.find((d) => runConditions.get(d.name)!.runs && (!explainCheck(d).runs || failsJob(d)));
+      if (blocker) {
+        explanation.runs = false;
+        explanation.reason = `needs의 ${blocker.name}이(가) ${failsJob(blocker) ? '실패해' : '스킵되어'} 실행하지 않음 (blocked-checks가 'Blocked by ${blocker.name}' failure status 설정)`;
+        blocked.set(check.name, blocker.name);
+      } else {
+        explanation.reason += ` + needs(${dependencies.map((d) => d.name).join(', ')}) 통과 후`;
+      }
+    }
+    if (explanation.runs && isPrReviewCheck(check) && !outputs.official) {
+      explanation.reason += ', 비공식 실행이라 status는 설정하지 않음';
+    }
+    explained.set(check.name, explanation);
+    return explanation;
+  };
+
+  // 체크 job (타입 순서, matrix pr-test는 조합이 모두 끝난 뒤 결과 종합 job이 status와 코멘트를 남김)
+  const orderedChecks = [
+    ...checks.filter(isPrTestCheck),
+    ...checks.filter(isPrScriptCheck),
+    ...checks.filter(isPrLintCheck),
+    ...checks.filter(isPrCommitsCheck),
+    ...checks.filter(isPrLabelsCheck),
+    ...checks.filter(isPrSizeCheck),
+    ...checks.filter(isPrReviewCheck),
+  ];
+  for (const check of orderedChecks) {
+    const explanation = explainCheck(check);
+    result.jobs.push(explanation);
+    if (isPrTestCheck(check) && check.matrix) {
+      result.jobs.push({
+        job: getMatrixReportJobId(check),
+        runs: explanation.runs,
+        reason: explanation.runs
+          ? `${check.name}의 매트릭스 ${getMatrixLegCount(check.matrix)}개 조합 결과를 모아 status와 코멘트 (always)`
+          : `${check.name} job이 실행되지 않아 함께 실행하지 않음`,
+      });
+    }
+  }
+
+  // skip-checks: ciTrigger/자동 실행 대상이지만 paths에 맞지 않아 실행하지 않은 체크
+  if (checks.some(hasPathFilters)) {
+    const skipped = checks.filter(
+      (c) =>
+        hasPathFilters(c) &&
+        outputs.trigger !== c.trigger &&
+        explainTriggerCondition(c, config, outputs).runs &&
+        (!c.project || outputs.affected.has(c.project)) &&
+        !outputs.relevant.has(c.name)
+    );
+    result.jobs.push({
+      job: 'skip-checks',
+      runs: true,
+      reason:
+        skipped.length > 0
+          ? `${skipped.map((c) => c.name).join(', ')}에 success status 설정 (paths에 맞는 바뀐 파일 없음)`
+          : 'paths 때문에 스킵하는 체크가 없어 모든 스텝을 건너뜀',
+    });
+  }
+
+  // blocked-checks: needs에 적은 체크가 통과하지 못해 실행하지 않은 체크 (pr-review는 공식 실행에서만)
+  if (checks.some((c) => getCheckDependencies(c, checks).length > 0)) {
+    const statuses = [...blocked]
+      .filter(([name]) => outputs.official || !checks.some((c) => c.name === name && isPrReviewCheck(c)))
+      .map(([name, blocker]) => `${name}(Blocked by ${blocker})`);
+    result.jobs.push({
+      job: 'blocked-checks',
+      runs: true,
+      reason:
+        statuses.length > 0
+          ? `${statuses.join(', ')}에 failure status 설정`
+          : 'needs 때문에 막힌 체크가 없어 모든 스텝을 건너뜀',
+    });
+  }
+
+  // mustPass pr-labels 실패는 Approve로 override되지 않음 (이번에 실행하지 않았어도 마지막 status 기준)
+  const blockingLabels = checks.filter((c) => isPrLabelsCheck(c) && c.mustRun && c.mustPass && failing.has(c.name));
+  result.jobs.push({
+    job: 'review-status',
+    runs: true,
+    reason:
+      '모든 체크 job 완료 후 PR Checks Status 재계산 (always)' +
+      (blockingLabels.length > 0
+        ? `, 라벨 정책(${blockingLabels.map((c) => c.name).join(', ')}) 위반으로 Approve가 있어도 머지 불가`
+        : ''),
+  });
+
+  if (config.input.projects?.length && !event.changed) {
+    result.notes.push('모든 프로젝트에 바뀐 파일이 있다고 가정합니다. --changed <path>로 바뀐 파일을 지정할 수 있습니다.');
+  }
+  if (checks.some(hasPathFilters) && !event.changed) {
+    result.notes.push('paths/pathsIgnore가 있는 체크에 맞는 파일이 바뀌었다고 가정합니다. --changed <path>로 바뀐 파일을 지정할 수 있습니다.');
+  }
+  if (failing.size > 0) {
+    result.notes.push(`실패 가정: ${[...failing].join(', ')} (나머지 체크는 성공 가정)`);
+  } else if (checks.some((c) => getCheckDependencies(c, checks).length > 0)) {
+    result.notes.push('모든 체크가 성공한다고 가정합니다. --fail <name>으로 실패를 가정할 수 있습니다.');
+  }
+
+  return result;
+}
@@ -0,0 +1,116 @@
+import { createHash } from 'node:crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import type { GeneratedFile } from './workflow.js';
+
+export const MANIFEST_FILE = '.pr-checks/manifest.json';
+
+/**
+ * 생성 파일이 들어가는 디렉토리 (manifest 키는 이 디렉토리 바로 아래 파일만 허용)
+ */
+const GENERATED_DIRS = ['.github/workflows', '.gitea/workflows', '.pr-checks/scripts'];
+
+/**
+ * 생성 파일 기록
+ */
+export interface ManifestEntry {
+  /** 생성 시점 내용의 sha256 (직접 수정 여부 판단용) */
+  sha256: string;
+}
+
+/**
+ * .pr-checks/manifest.json 구조
+ */
+export interface Manifest {
+  generator: string;
+  /** 파일을 생성한 create-pr-checks 버전 */
+  version: string;
+  /** 경로(/ 구분, cwd 기준) → 생성 기록 */
+  files: Record<string, ManifestEntry>;
+}
+
+let generatorVersion: string | undefined;
+
+/**
+ * package.json의 버전 (src/, dist/ 모두 두 단계 위가 패키지 루트)
+ */
+export async function getGeneratorVersion(): Promise<string> {
+  if (!generatorVersion) {
+    const pkg = await fs.readJson(new URL('../../package.json', import.meta.url));
+    generatorVersion = String(pkg.version);
+  }
+  return generatorVersion;
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * 매니페스트 키 (OS와 무관하게 / 구분)
+ */
+export function toManifestPath(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+/**
+ * manifest 키가 생성 디렉토리 안의 파일인지 확인 (../, 절대 경로 등은 삭제 대상이 되지 않도록 거부)
+ */
+function isGeneratedPath(cwd: string, manifestPath: string): boolean {
+  const resolved = path.resolve(cwd, ...manifestPath.split('/'));
+  return GENERATED_DIRS.some((dir) => path.dirname(resolved) === path.resolve(cwd, ...dir.split('/')));
+}
+
+/**
+ * manifest.json 읽기 (없으면 undefined)
+ * 생성 디렉토리 밖의 경로가 기록되어 있으면 에러 (clean/generate가 생성하지 않은 파일을 지우지 않도록)
+ */
+export async function readManifest(cwd: string): Promise<Manifest | undefined> {
+  const manifestPath = path.join(cwd, MANIFEST_FILE);
+  if (!(await fs.pathExists(manifestPath))) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = await fs.readJson(manifestPath);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`manifest.json 파싱 실패: ${errorMessage}\n파일 경로: ${manifestPath}`);
+  }
+
+  const files = (parsed as Partial<Manifest> | null)?.files;
+  if (!files || typeof files !== 'object' || Array.isArray(files)) {
+    throw new Error(`manifest.json 형식이 올바르지 않습니다: ${manifestPath}`);
+  }
+
+  const outside = Object.keys(files).filter((file) => !isGeneratedPath(cwd, file));
+  if (outside.length > 0) {
+    throw new Error(
+      `manifest.json에 생성 디렉토리(${GENERATED_DIRS.join(', ')}) 밖의 경로가 있습니다: ${outside.join(', ')}\n` +
+        `파일 경로: ${manifestPath}\nmanifest.json을 삭제한 뒤 다시 실행하세요.`
+    );
+  }
+  return parsed as Manifest;
+}
+
+/**
+ * 생성한 파일 목록으로 manifest.json 쓰기
+ */
+export async function writeManifest(cwd: string, files: GeneratedFile[]): Promise<void> {
+  const manifest: Manifest = {
+    generator: 'create-pr-checks',
+    version: await getGeneratorVersion(),
+    files: Object.fromEntries(
+      files.map((file) => [toManifestPath(file.path), { sha256: hashContent(file.content) }])
+    ),
+  };
+
+  const manifestPath = path.join(cwd, MANIFEST_FILE);
+  try {
+    await fs.outputFile(manifestPath, JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`manifest.json 쓰기 실패: ${manifestPath}\n${errorMessage}`);
+  }
+}
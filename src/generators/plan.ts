@@ -0,0 +1,86 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { createTwoFilesPatch, FILE_HEADERS_ONLY } from 'diff';
+import type { Config } from '../types/config.js';
+import type { GeneratedFile } from './workflow.js';
+import { renderGeneratedFiles } from './workflow.js';
+import { readManifest, hashContent, toManifestPath } from './manifest.js';
+
+/**
+ * 디스크의 기존 파일과 비교한 상태
+ * - added: 아직 없는 파일
+ * - modified: 내용이 달라짐
+ * - unchanged: 동일
+ * - removed: 이전에 생성했지만 현재 설정에서는 생성하지 않는 파일 (삭제 대상)
+ */
+export type FileChangeStatus = 'added' | 'modified' | 'unchanged' | 'removed';
+
+export interface FileChange {
+  /** removed면 content는 빈 문자열 */
+  file: GeneratedFile;
+  status: FileChangeStatus;
+  /** 디스크의 기존 내용 (없으면 undefined) */
+  previous?: string;
+  /** manifest에 기록된 생성 당시 내용과 디스크 내용이 다름 (직접 수정됨) */
+  handEdited?: boolean;
+}
+
+/**
+ * 생성될 파일을 메모리에서 만들고 디스크의 기존 파일과 비교 (쓰기 없음)
+ * manifest.json이 있으면 삭제 대상과 직접 수정된 파일도 판별
+ */
+export async function planGeneratedFiles(cwd: string, config: Config): Promise<FileChange[]> {
+  const manifest = await readManifest(cwd);
+  const isHandEdited = (file: GeneratedFile, previous: string): boolean => {
+    const entry = manifest?.files[toManifestPath(file.path)];
+    return entry !== undefined && entry.sha256 !== hashContent(previous);
+  };
+
+  const changes: FileChange[] = [];
+  const rendered = renderGeneratedFiles(config);
+
+  for (const file of rendered) {
+    const filePath = path.join(cwd, file.path);
+    if (!(await fs.pathExists(filePath))) {
+      changes.push({ file, status: 'added' });
+      continue;
+    }
+    const previous = await fs.readFile(filePath, 'utf-8');
+    if (previous === file.content) {
+      changes.push({ file, status: 'unchanged', previous });
+    } else {
+      changes.push({ file, status: 'modified', previous, handEdited: isHandEdited(file, previous) });
+    }
+  }
+
+  // 설정에서 제거된 체크의 스크립트, 플랫폼 변경 전 워크플로우 등
+  const renderedPaths = new Set(rendered.map((file) => toManifestPath(file.path)));
+  for (const manifestPath of Object.keys(manifest?.files ?? {})) {
+    if (renderedPaths.has(manifestPath)) continue;
+    const file: GeneratedFile = { path: path.join(...manifestPath.split('/')), content: '', executable: false };
+    const filePath = path.join(cwd, file.path);
+    if (!(await fs.pathExists(filePath))) continue;
+    const previous = await fs.readFile(filePath, 'utf-8');
+    changes.push({ file, status: 'removed', previous, handEdited: isHandEdited(file, previous) });
+  }
+
+  return changes;
+}
+
+/**
+ * 변경 내용을 unified diff 형식으로 변환
+ * 새 파일/삭제 파일은 /dev/null과 비교
+ */
+export function formatUnifiedDiff(change: FileChange): string {
+  const oldName = change.status === 'added' ? '/dev/null' : `a/${change.file.path}`;
+  const newName = change.status === 'removed' ? '/dev/null' : `b/${change.file.path}`;
+  return createTwoFilesPatch(
+    oldName,
+    newName,
+    change.previous ?? '',
+    change.file.content,
+    undefined,
+    undefined,
+    { context: 3, headerOptions: FILE_HEADERS_ONLY }
+  );
+}
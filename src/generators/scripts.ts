@@ -1,8 +1,34 @@
 import fs from 'fs-extra';
 import path from 'path';
-import type { Config, PrTestCheck } from '../types/config.js';
+import type { Config, PrTestCheck, PrScriptCheck, PrScriptAnnotationLevel } from '../types/config.js';
+import { getCheckJobId, getMatrixLegCount } from '../types/config.js';
+import { PR_SCRIPT_RESULT_FILE } from '../templates/jobs/pr-script.js';
 import { STATUS_MESSAGES } from '../templates/constants/messages.js';
 import { COMMENT_MARKERS, METADATA_PREFIX, METADATA_SUFFIX } from '../templates/constants/comments.js';
+import type { GeneratedFile } from './workflow.js';
+
+const SCRIPTS_DIR = '.pr-checks/scripts';
+
+/**
+ * 실행 로그 URL(RUN_URL) 계산 스크립트
+ */
+const RUN_URL_SCRIPT = `# GitHub uses run_id in URL, Gitea uses run_number
+# Note: Gitea's github.run_number incorrectly returns run_id, so we query API to get correct run_number
+if [[ "$GITHUB_SERVER_URL" == *"github.com"* ]]; then
+  RUN_URL="\${GITHUB_SERVER_URL}/\${GITHUB_REPOSITORY}/actions/runs/\${GITHUB_RUN_ID}"
+else
+  # Gitea: Query API to get correct run_number from run_id
+  ACTUAL_RUN_NUMBER=\$(curl -sf -H "Authorization: token \$GITHUB_TOKEN" \\
+    "\$GITHUB_API_URL/repos/\$GITHUB_REPOSITORY/actions/runs/\$GITHUB_RUN_ID" \\
+    | jq -r '.run_number // empty' 2>/dev/null)
+  if [ -n "\$ACTUAL_RUN_NUMBER" ]; then
+    RUN_URL="\${GITHUB_SERVER_URL}/\${GITHUB_REPOSITORY}/actions/runs/\${ACTUAL_RUN_NUMBER}"
+  else
+    # Fallback to run_id if API fails
+    RUN_URL="\${GITHUB_SERVER_URL}/\${GITHUB_REPOSITORY}/actions/runs/\${GITHUB_RUN_ID}"
+  fi
+fi
+`;
 
 /**
  * pr-test-report.sh 스크립트 생성
@@ -26,23 +52,7 @@ TEST_PASSED="$3"
 
 SHORT_SHA="\${HEAD_SHA:0:7}"
 
-# GitHub uses run_id in URL, Gitea uses run_number
-# Note: Gitea's github.run_number incorrectly returns run_id, so we query API to get correct run_number
-if [[ "$GITHUB_SERVER_URL" == *"github.com"* ]]; then
-  RUN_URL="\${GITHUB_SERVER_URL}/\${GITHUB_REPOSITORY}/actions/runs/\${GITHUB_RUN_ID}"
-else
-  # Gitea: Query API to get correct run_number from run_id
-  ACTUAL_RUN_NUMBER=\$(curl -sf -H "Authorization: token \$GITHUB_TOKEN" \\
-    "\$GITHUB_API_URL/repos/\$GITHUB_REPOSITORY/actions/runs/\$GITHUB_RUN_ID" \\
-    | jq -r '.run_number // empty' 2>/dev/null)
-  if [ -n "\$ACTUAL_RUN_NUMBER" ]; then
-    RUN_URL="\${GITHUB_SERVER_URL}/\${GITHUB_REPOSITORY}/actions/runs/\${ACTUAL_RUN_NUMBER}"
-  else
-    # Fallback to run_id if API fails
-    RUN_URL="\${GITHUB_SERVER_URL}/\${GITHUB_REPOSITORY}/actions/runs/\${GITHUB_RUN_ID}"
-  fi
-fi
-
+${RUN_URL_SCRIPT}
 if [ "$TEST_PASSED" = "true" ]; then
   STATE="success"
   DESC="${passDesc}"
@@ -112,6 +122,298 @@ echo "Done."
 `;
 }
 
+/**
+ * 매트릭스 pr-test-report.sh 스크립트 생성
+ * 조합별 결과(<results_dir>/<job ID>-leg-<index>/leg.json)를 모아 status 하나와 코멘트 하나로 보고
+ * 조합이 하나라도 실패하거나 결과가 없으면(취소, 업로드 실패) 실패
+ */
+function generatePrTestMatrixReportScript(check: PrTestCheck): string {
+  const jobId = getCheckJobId(check);
+  const passMarker = COMMENT_MARKERS.prTestPass(check.name);
+  const failMarker = COMMENT_MARKERS.prTestFail(check.name);
+  const passDesc = STATUS_MESSAGES.success.passed;
+  const failDesc = STATUS_MESSAGES.failure.failed;
+
+  return `#!/bin/bash
+# PR Test Matrix Report Script
+# Usage: bash pr-test-report.sh <head_sha> <pr_number> <results_dir>
+# Env: GITHUB_TOKEN, GITHUB_API_URL, GITHUB_REPOSITORY, GITHUB_SERVER_URL, GITHUB_RUN_ID, GITHUB_RUN_NUMBER
+
+set +e
+
+HEAD_SHA="$1"
+PR_NUMBER="$2"
+RESULTS_DIR="$3"
+EXPECTED_LEGS=${getMatrixLegCount(check.matrix ?? {})}
+
+SHORT_SHA="\${HEAD_SHA:0:7}"
+
+${RUN_URL_SCRIPT}
+# Collect leg results (one table row per leg, output tail for failed legs)
+PASSED_LEGS=0
+: > legs.md
+: > leg_failures.md
+for ((i = 0; i < EXPECTED_LEGS; i++)); do
+  LEG_FILE="$RESULTS_DIR/${jobId}-leg-$i/leg.json"
+  if [ ! -f "$LEG_FILE" ]; then
+    echo "| #$i | ⚠️ 결과 없음 |" >> legs.md
+    continue
+  fi
+  LEG_NAME=$(jq -r '.matrix | to_entries | map("\\(.key)=\\(.value)") | join(", ")' "$LEG_FILE")
+  if [ "$(jq -r '.passed' "$LEG_FILE")" = "true" ]; then
+    PASSED_LEGS=$((PASSED_LEGS + 1))
+    echo "| $LEG_NAME | ✅ 통과 |" >> legs.md
+  else
+    echo "| $LEG_NAME | ❌ 실패 |" >> legs.md
+    {
+      echo "<details>"
+      echo "<summary>$LEG_NAME 출력</summary>"
+      echo ""
+      printf '\`\`\`\\n'
+      cat "$(dirname "$LEG_FILE")/test_output.txt" 2>/dev/null || echo "(no output)"
+      printf '\\n\`\`\`\\n'
+      echo "</details>"
+      echo ""
+    } >> leg_failures.md
+  fi
+done
+echo "Legs passed: $PASSED_LEGS/$EXPECTED_LEGS"
+
+if [ "$PASSED_LEGS" = "$EXPECTED_LEGS" ]; then
+  TEST_PASSED="true"
+  STATE="success"
+  DESC="${passDesc} ($PASSED_LEGS/$EXPECTED_LEGS legs passed)"
+else
+  TEST_PASSED="false"
+  STATE="failure"
+  DESC="${failDesc} ($PASSED_LEGS/$EXPECTED_LEGS legs passed)"
+fi
+
+# Set commit status (one context for all legs)
+echo "Setting commit status..."
+curl -sS -f -H "Authorization: token $GITHUB_TOKEN" \\
+  -H "Content-Type: application/json" \\
+  -X POST "$GITHUB_API_URL/repos/$GITHUB_REPOSITORY/statuses/$HEAD_SHA" \\
+  -d "{\\"state\\":\\"$STATE\\",\\"context\\":\\"${check.name}\\",\\"description\\":\\"$DESC\\"}" || echo "Warning: Status API failed"
+
+# Build comment with metadata
+echo "Building comment..."
+# Metadata: type, check name, sha, collapsed state
+METADATA="${METADATA_PREFIX}{\\"type\\":\\"pr-test\\",\\"check\\":\\"${check.name}\\",\\"sha\\":\\"$HEAD_SHA\\",\\"collapsed\\":false}${METADATA_SUFFIX}"
+
+{
+  echo "$METADATA"
+  if [ "$TEST_PASSED" = "true" ]; then
+    echo "${passMarker} - PASS"
+  else
+    echo "${failMarker} - FAIL"
+  fi
+  echo ""
+  echo "<details open>"
+  echo "<summary>상세 내용</summary>"
+  echo ""
+  # 커맨드에 matrix 참조(\${{ matrix.node }} 등)가 들어가므로 셸 확장 없이 출력
+  cat <<'PR_CHECKS_COMMAND'
+📋 테스트 실행 커맨드: \`${check.command}\`
+PR_CHECKS_COMMAND
+  echo ""
+  echo "| 조합 | 결과 |"
+  echo "|------|------|"
+  cat legs.md
+  echo ""
+  cat leg_failures.md
+  echo "🔗 [상세 로그]($RUN_URL) | 📌 $SHORT_SHA"
+  echo ""
+  echo "\\\`${check.trigger}\\\` 명령에 대한 응답"
+  echo "</details>"
+} > comment.md
+
+# Post PR comment
+echo "Posting comment..."
+BODY=$(jq -Rs '.' comment.md)
+curl -sS -f -H "Authorization: token $GITHUB_TOKEN" \\
+  -H "Content-Type: application/json" \\
+  -X POST "$GITHUB_API_URL/repos/$GITHUB_REPOSITORY/issues/$PR_NUMBER/comments" \\
+  -d "{\\"body\\": $BODY}" || echo "Warning: Comment API failed"
+
+# Save result for later steps
+echo "$TEST_PASSED" > test_result.txt
+echo "Done."
+`;
+}
+
+/**
+ * pr-script annotation 수준별 workflow command와 코멘트 아이콘
+ */
+const PR_SCRIPT_ANNOTATIONS: Record<PrScriptAnnotationLevel, { command: string; icon: string }> = {
+  notice: { command: 'notice', icon: 'ℹ️' },
+  warning: { command: 'warning', icon: '⚠️' },
+  failure: { command: 'error', icon: '❌' },
+};
+
+/**
+ * pr-script annotation 최대 개수 (GitHub Actions는 job당 50개까지만 표시, 코멘트 목록도 같은 개수로 제한)
+ */
+const MAX_PR_SCRIPT_ANNOTATIONS = 50;
+
+/**
+ * pr-script details 최대 길이 (PR 코멘트 본문 제한 65536자)
+ */
+const MAX_PR_SCRIPT_DETAILS = 60000;
+
+/**
+ * pr-script-report.sh 스크립트 생성
+ * 명령어가 쓴 결과 파일(PrScriptResult)로 status, 코멘트, annotation 작성
+ * 결과 파일이 없거나 형식이 잘못되면 failure + 출력 끝부분을 코멘트
+ */
+function generatePrScriptReportScript(check: PrScriptCheck): string {
+  const passMarker = COMMENT_MARKERS.prScriptPass(check.name);
+  const failMarker = COMMENT_MARKERS.prScriptFail(check.name);
+  const passDesc = STATUS_MESSAGES.success.passed;
+  const failDesc = STATUS_MESSAGES.failure.failed;
+  const commands = JSON.stringify(
+    Object.fromEntries(Object.entries(PR_SCRIPT_ANNOTATIONS).map(([level, { command }]) => [level, command]))
+  );
+  const icons = JSON.stringify(
+    Object.fromEntries(Object.entries(PR_SCRIPT_ANNOTATIONS).map(([level, { icon }]) => [level, icon]))
+  );
+
+  return `#!/bin/bash
+# PR Script Report Script
+# Usage: bash pr-script-report.sh <head_sha> <pr_number> <exit_code>
+# Env: GITHUB_TOKEN, GITHUB_API_URL, GITHUB_REPOSITORY, GITHUB_SERVER_URL, GITHUB_RUN_ID, GITHUB_RUN_NUMBER
+
+set +e
+
+HEAD_SHA="$1"
+PR_NUMBER="$2"
+EXIT_CODE="$3"
+RESULT_FILE="${PR_SCRIPT_RESULT_FILE}"
+MAX_ANNOTATIONS=${MAX_PR_SCRIPT_ANNOTATIONS}
+
+SHORT_SHA="\${HEAD_SHA:0:7}"
+
+${RUN_URL_SCRIPT}
+# Validate result file (state required, annotations need path and message)
+if jq -e '
+  (.state == "success" or .state == "failure")
+  and ((.summary // "") | type == "string")
+  and ((.details // "") | type == "string")
+  and ((.annotations // []) | type == "array")
+  and all((.annotations // [])[];
+    (.path | type == "string") and (.message | type == "string")
+    and ((.line // 0) | type == "number") and ((.endLine // 0) | type == "number")
+    and ((.title // "") | type == "string")
+    and ((.level // "warning") | IN(${Object.keys(PR_SCRIPT_ANNOTATIONS).map((level) => `"${level}"`).join(', ')})))
+' "$RESULT_FILE" > /dev/null 2>&1; then
+  RESULT_VALID="true"
+  STATE=$(jq -r '.state' "$RESULT_FILE")
+  if [ "$STATE" = "success" ]; then
+    DEFAULT_DESC="${passDesc}"
+  else
+    DEFAULT_DESC="${failDesc}"
+  fi
+  # First line of summary (status description limit: 140 chars)
+  DESC=$(jq -r --arg default "$DEFAULT_DESC" '(.summary // "") | (split("\\n")[0] // "") | if . == "" then $default else .[0:140] end' "$RESULT_FILE")
+else
+  RESULT_VALID="false"
+  STATE="failure"
+  DESC="${STATUS_MESSAGES.failure.invalidResult}"
+  echo "Missing or invalid result file: $RESULT_FILE (exit code: $EXIT_CODE)"
+fi
+echo "Result: $STATE ($DESC)"
+
+# Set commit status
+echo "Setting commit status..."
+STATUS_BODY=$(jq -n --arg state "$STATE" --arg desc "$DESC" '{state: $state, context: "${check.name}", description: $desc}')
+curl -sS -f -H "Authorization: token $GITHUB_TOKEN" \\
+  -H "Content-Type: application/json" \\
+  -X POST "$GITHUB_API_URL/repos/$GITHUB_REPOSITORY/statuses/$HEAD_SHA" \\
+  -d "$STATUS_BODY" || echo "Warning: Status API failed"
+
+# Annotations (GitHub Actions workflow commands, failure → error)
+if [ "$RESULT_VALID" = "true" ]; then
+  jq -r --argjson max "$MAX_ANNOTATIONS" '
+    def data: gsub("%"; "%25") | gsub("\\r"; "%0D") | gsub("\\n"; "%0A");
+    def property: data | gsub(":"; "%3A") | gsub(","; "%2C");
+    ${commands} as $commands
+    | (.annotations // [])[:$max][]
+    | "::" + $commands[.level // "warning"]
+      + " file=" + (.path | property)
+      + (if .line then ",line=\\(.line)" else "" end)
+      + (if .endLine then ",endLine=\\(.endLine)" else "" end)
+      + (if .title then ",title=" + (.title | property) else "" end)
+      + "::" + (.message | data)
+  ' "$RESULT_FILE"
+fi
+
+# Build comment with metadata
+echo "Building comment..."
+# Metadata: type, check name, sha, collapsed state
+METADATA="${METADATA_PREFIX}{\\"type\\":\\"pr-script\\",\\"check\\":\\"${check.name}\\",\\"sha\\":\\"$HEAD_SHA\\",\\"collapsed\\":false}${METADATA_SUFFIX}"
+
+{
+  echo "$METADATA"
+  if [ "$STATE" = "success" ]; then
+    echo "${passMarker} - PASS"
+  else
+    echo "${failMarker} - FAIL"
+  fi
+  echo ""
+  echo "<details open>"
+  echo "<summary>상세 내용</summary>"
+  echo ""
+  # 커맨드를 셸 확장 없이 출력
+  cat <<'PR_CHECKS_COMMAND'
+📋 실행 커맨드: \`${check.command}\`
+PR_CHECKS_COMMAND
+  echo ""
+  if [ "$RESULT_VALID" = "true" ]; then
+    jq -r '.summary // empty' "$RESULT_FILE"
+    echo ""
+    jq -r --argjson max ${MAX_PR_SCRIPT_DETAILS} '(.details // "") | if length > $max then .[0:$max] + "\\n\\n…(생략)" else . end' "$RESULT_FILE"
+    echo ""
+    jq -r --argjson max "$MAX_ANNOTATIONS" '
+      ${icons} as $icons
+      | (.annotations // []) as $all
+      | ($all[:$max][]
+        | "- " + $icons[.level // "warning"] + " \`" + .path + (if .line then ":\\(.line)" else "" end) + "\`"
+          + (if .title then " **" + .title + "**" else "" end)
+          + " " + (.message | gsub("\\n"; " "))),
+        (if ($all | length) > $max then "- 외 \\(($all | length) - $max)개" else empty end)
+    ' "$RESULT_FILE"
+    echo ""
+  else
+    echo "⚠️ 결과 파일(\\\`$RESULT_FILE\\\`)이 없거나 형식이 잘못되었습니다 (종료 코드: $EXIT_CODE)."
+    echo ""
+    printf '\`\`\`\\n'
+    tail -100 test_output.txt 2>/dev/null || echo "(no output)"
+    printf '\\n\`\`\`\\n\\n'
+  fi
+  echo "🔗 [상세 로그]($RUN_URL) | 📌 $SHORT_SHA"
+  echo ""
+  echo "\\\`${check.trigger}\\\` 명령에 대한 응답"
+  echo "</details>"
+} > comment.md
+
+# Post PR comment
+echo "Posting comment..."
+BODY=$(jq -Rs '.' comment.md)
+curl -sS -f -H "Authorization: token $GITHUB_TOKEN" \\
+  -H "Content-Type: application/json" \\
+  -X POST "$GITHUB_API_URL/repos/$GITHUB_REPOSITORY/issues/$PR_NUMBER/comments" \\
+  -d "{\\"body\\": $BODY}" || echo "Warning: Comment API failed"
+
+# Save result for later steps
+if [ "$STATE" = "success" ]; then
+  echo "true" > script_result.txt
+else
+  echo "false" > script_result.txt
+fi
+echo "Done."
+`;
+}
+
 /**
  * collapse-comments.sh 스크립트 생성
  * 메타데이터 기반으로 이전 코멘트 접기
@@ -188,31 +490,62 @@ done
 }
 
 /**
- * 스크립트 파일들 생성
+ * 스크립트 파일들을 메모리에서 생성
  */
-export async function generateScriptFiles(cwd: string, config: Config): Promise<string[]> {
-  const scriptsDir = path.join(cwd, '.pr-checks', 'scripts');
-  await fs.mkdir(scriptsDir, { recursive: true });
-
-  const files: string[] = [];
+export function renderScriptFiles(config: Config): GeneratedFile[] {
+  const files: GeneratedFile[] = [];
 
   for (const check of config.input.checks) {
     if (check.type === 'pr-test') {
       const prTestCheck = check as PrTestCheck;
 
       // pr-test-report.sh
-      const reportScript = generatePrTestReportScript(prTestCheck);
-      const reportPath = path.join(scriptsDir, `${check.name}-report.sh`);
-      await fs.writeFile(reportPath, reportScript, { mode: 0o755 });
-      files.push(`.pr-checks/scripts/${check.name}-report.sh`);
+      files.push({
+        path: `${SCRIPTS_DIR}/${getCheckJobId(check)}-report.sh`,
+        content: prTestCheck.matrix
+          ? generatePrTestMatrixReportScript(prTestCheck)
+          : generatePrTestReportScript(prTestCheck),
+        executable: true,
+      });
 
       // collapse-comments.sh
-      const collapseScript = generateCollapseCommentsScript(check.name);
-      const collapsePath = path.join(scriptsDir, `${check.name}-collapse.sh`);
-      await fs.writeFile(collapsePath, collapseScript, { mode: 0o755 });
-      files.push(`.pr-checks/scripts/${check.name}-collapse.sh`);
+      files.push({
+        path: `${SCRIPTS_DIR}/${getCheckJobId(check)}-collapse.sh`,
+        content: generateCollapseCommentsScript(check.name),
+        executable: true,
+      });
+    } else if (check.type === 'pr-script') {
+      // pr-script-report.sh
+      files.push({
+        path: `${SCRIPTS_DIR}/${getCheckJobId(check)}-report.sh`,
+        content: generatePrScriptReportScript(check),
+        executable: true,
+      });
+
+      // collapse-comments.sh
+      files.push({
+        path: `${SCRIPTS_DIR}/${getCheckJobId(check)}-collapse.sh`,
+        content: generateCollapseCommentsScript(check.name),
+        executable: true,
+      });
     }
   }
 
   return files;
 }
+
+/**
+ * 스크립트 파일들 생성
+ */
+export async function generateScriptFiles(cwd: string, config: Config): Promise<string[]> {
+  await fs.mkdir(path.join(cwd, SCRIPTS_DIR), { recursive: true });
+
+  const files: string[] = [];
+
+  for (const file of renderScriptFiles(config)) {
+    await fs.writeFile(path.join(cwd, file.path), file.content, { mode: 0o755 });
+    files.push(file.path);
+  }
+
+  return files;
+}
@@ -1,30 +1,63 @@
 import fs from 'fs-extra';
 import path from 'path';
 import yaml from 'yaml';
-import type { Config } from '../types/config.js';
+import type { Config, Platform } from '../types/config.js';
 import { generateWorkflows } from '../templates/index.js';
-import { generateScriptFiles } from './scripts.js';
+import { renderScriptFiles } from './scripts.js';
+import type { FileChange } from './plan.js';
+import { planGeneratedFiles } from './plan.js';
+import { MANIFEST_FILE, readManifest, writeManifest, hashContent } from './manifest.js';
 
 export interface GenerateResult {
+  /** 새로 쓰거나 내용이 바뀐 파일 */
   files: string[];
+  /** 내용이 같아 다시 쓰지 않은 파일 */
+  unchanged: string[];
+  /** 설정에서 제거되어 삭제한 파일 */
+  removed: string[];
   workflowsDir: string;
 }
 
-export async function generateWorkflowFiles(cwd: string, config: Config): Promise<GenerateResult> {
-  const platformDir = config.input.platform === 'gitea' ? '.gitea' : '.github';
-  const workflowsDir = path.join(cwd, platformDir, 'workflows');
+export interface GenerateOptions {
+  /** 직접 수정된 생성 파일도 덮어쓰기/삭제 */
+  force?: boolean;
+}
 
-  try {
-    await fs.ensureDir(workflowsDir);
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new Error(`디렉토리 생성 실패: ${workflowsDir}\n${errorMessage}`);
-  }
+/**
+ * clean 결과
+ */
+export interface CleanResult {
+  /** 삭제한 파일 */
+  removed: string[];
+}
 
+/**
+ * 메모리에 생성된 파일 (아직 디스크에 쓰지 않음)
+ */
+export interface GeneratedFile {
+  /** cwd 기준 상대 경로 (예: .github/workflows/pr-checks.yml) */
+  path: string;
+  content: string;
+  /** 실행 권한 필요 여부 (스크립트 파일) */
+  executable: boolean;
+}
+
+/**
+ * 플랫폼별 워크플로우 디렉토리 (cwd 기준 상대 경로)
+ */
+export function getWorkflowsDir(platform: Platform): string {
+  return path.join(platform === 'gitea' ? '.gitea' : '.github', 'workflows');
+}
+
+/**
+ * 워크플로우 + 스크립트 파일을 메모리에서 생성
+ * 생성된 워크플로우가 유효한 YAML인지도 검증
+ */
+export function renderGeneratedFiles(config: Config): GeneratedFile[] {
+  const workflowsDir = getWorkflowsDir(config.input.platform);
   const workflows = generateWorkflows(config);
-  const files: string[] = [];
+  const files: GeneratedFile[] = [];
 
-  // Generate workflow files
   for (const [filename, content] of Object.entries(workflows)) {
     if (content) {
       // YAML 파싱 검증
@@ -34,21 +67,144 @@ export async function generateWorkflowFiles(cwd: string, config: Config): Promis
         const errorMessage = error instanceof Error ? error.message : String(error);
         throw new Error(`생성된 워크플로우가 유효하지 않은 YAML입니다: ${filename}\n${errorMessage}`);
       }
+      files.push({ path: path.join(workflowsDir, filename), content, executable: false });
+    }
+  }
 
-      const filePath = path.join(workflowsDir, filename);
-      try {
-        await fs.writeFile(filePath, content, 'utf-8');
-        files.push(path.relative(cwd, filePath));
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        throw new Error(`워크플로우 파일 쓰기 실패: ${filename}\n${errorMessage}`);
-      }
+  files.push(...renderScriptFiles(config));
+
+  return files;
+}
+
+/**
+ * 직접 수정된 파일이 있으면 에러 (force면 통과)
+ */
+function assertNotHandEdited(changes: FileChange[], force: boolean | undefined, action: string): void {
+  const handEdited = changes.filter((change) => change.handEdited);
+  if (handEdited.length === 0 || force) return;
+
+  const list = handEdited.map((change) => `  - ${change.file.path}`).join('\n');
+  throw new Error(
+    `직접 수정된 생성 파일이 있어 ${action}하지 않았습니다:\n${list}\n` +
+      '수정 내용을 .pr-checks/config.yml로 옮긴 뒤 다시 실행하거나, --force로 덮어쓰세요.'
+  );
+}
+
+async function removeFile(cwd: string, filePath: string): Promise<void> {
+  try {
+    await fs.remove(path.join(cwd, filePath));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`파일 삭제 실패: ${filePath}\n${errorMessage}`);
+  }
+}
+
+/**
+ * 디렉토리가 비어 있으면 삭제 (상위 디렉토리까지, cwd는 제외)
+ */
+async function removeEmptyDirs(cwd: string, dir: string): Promise<void> {
+  let current = path.join(cwd, dir);
+  while (current.startsWith(cwd + path.sep)) {
+    if (!(await fs.pathExists(current)) || (await fs.readdir(current)).length > 0) return;
+    await fs.rmdir(current);
+    current = path.dirname(current);
+  }
+}
+
+/**
+ * 워크플로우 + 스크립트 파일 생성
+ * - 내용이 같은 파일은 다시 쓰지 않음
+ * - manifest.json 기준으로 직접 수정된 파일은 force 없이 덮어쓰지 않음
+ * - 설정에서 제거된 체크의 스크립트 등 이전 생성 파일은 삭제
+ */
+export async function generateWorkflowFiles(cwd: string, config: Config, options: GenerateOptions = {}): Promise<GenerateResult> {
+  const workflowsDir = path.join(cwd, getWorkflowsDir(config.input.platform));
+
+  try {
+    await fs.ensureDir(workflowsDir);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`디렉토리 생성 실패: ${workflowsDir}\n${errorMessage}`);
+  }
+
+  const changes = await planGeneratedFiles(cwd, config);
+  assertNotHandEdited(changes, options.force, '덮어쓰기');
+
+  const files: string[] = [];
+  const unchanged: string[] = [];
+  const removed: string[] = [];
+
+  for (const change of changes) {
+    const { file } = change;
+    const filePath = path.join(cwd, file.path);
+    if (change.status === 'unchanged') {
+      unchanged.push(file.path);
+      continue;
+    }
+    if (change.status === 'removed') {
+      await removeFile(cwd, file.path);
+      removed.push(file.path);
+      continue;
+    }
+    try {
+      await fs.ensureDir(path.dirname(filePath));
+      await fs.writeFile(filePath, file.content, file.executable ? { mode: 0o755 } : 'utf-8');
+      files.push(file.path);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`파일 쓰기 실패: ${file.path}\n${errorMessage}`);
+    }
+  }
+
+  await writeManifest(
+    cwd,
+    changes.filter((change) => change.status !== 'removed').map((change) => change.file)
+  );
+
+  return { files, unchanged, removed, workflowsDir };
+}
+
+/**
+ * manifest.json에 기록된 생성 파일과 manifest.json 삭제
+ * manifest가 없으면 현재 설정으로 생성되는 파일을 대상으로 함
+ */
+export async function cleanGeneratedFiles(cwd: string, config: Config, options: GenerateOptions = {}): Promise<CleanResult> {
+  const manifest = await readManifest(cwd);
+  const targets = new Map<string, string | undefined>();
+
+  if (manifest) {
+    for (const [manifestPath, entry] of Object.entries(manifest.files)) {
+      targets.set(path.join(...manifestPath.split('/')), entry.sha256);
+    }
+  } else {
+    for (const file of renderGeneratedFiles(config)) {
+      targets.set(file.path, hashContent(file.content));
     }
   }
 
-  // Generate script files
-  const scriptFiles = await generateScriptFiles(cwd, config);
-  files.push(...scriptFiles);
+  const existing: FileChange[] = [];
+  for (const [filePath, sha256] of targets) {
+    const absolutePath = path.join(cwd, filePath);
+    if (!(await fs.pathExists(absolutePath))) continue;
+    const previous = await fs.readFile(absolutePath, 'utf-8');
+    existing.push({
+      file: { path: filePath, content: '', executable: false },
+      status: 'removed',
+      previous,
+      handEdited: sha256 !== hashContent(previous),
+    });
+  }
+  assertNotHandEdited(existing, options.force, '삭제');
+
+  const removed: string[] = [];
+  for (const change of existing) {
+    await removeFile(cwd, change.file.path);
+    removed.push(change.file.path);
+    await removeEmptyDirs(cwd, path.dirname(change.file.path));
+  }
+  if (manifest) {
+    await removeFile(cwd, MANIFEST_FILE);
+  }
 
-  return { files, workflowsDir };
+  return { removed };
 }
@@ -1,24 +1,60 @@
 #!/usr/bin/env node
 
 import meow from 'meow';
-import { run } from './cli.js';
+import { run, CLI_COMMANDS } from './cli.js';
+import type { CliCommand } from './cli.js';
 
 const cli = meow(`
   Usage
-    $ create-pr-checks [options]
+    $ create-pr-checks [command] [options]
+
+  Commands
+    validate      설정 파일 검증 (모든 문제를 파일:줄:열과 함께 출력, 에러 시 exit 1)
+    doctor        저장소 준비 상태 점검 (생성 파일 커밋/실행 권한, Secrets, Branch protection)
+    clean         생성된 워크플로우/스크립트 삭제 (.pr-checks/manifest.json 기준)
+    explain       이벤트에 대해 실행/스킵되는 job과 이유를 시뮬레이션
+    schema        에디터 자동완성용 JSON Schema 쓰기 (.pr-checks/config.schema.json)
+    migrate       이전 버전 config.yml을 현재 형식으로 변환 (주석 유지, --dry-run으로 미리보기)
 
   Options
     --init        설정 파일만 생성 (.pr-checks/)
     --yes, -y     확인 없이 진행
     --cwd <path>  대상 디렉토리 지정 (기본: 현재 디렉토리)
+    --dry-run     파일을 쓰지 않고 변경될 내용을 diff로 출력
+    --check       생성 파일이 설정과 다르면 exit 1 (CI용 drift 검사)
+    --force       직접 수정된 생성 파일도 덮어쓰기/삭제
+    --strict      config.yml의 알 수 없는 키를 경고 대신 에러로 처리
+    --json        프롬프트 없이 결과를 JSON으로 출력 (스크립트용)
     --help        도움말 표시
     --version     버전 표시
 
+  Explain Options
+    --event <name>     pull_request 또는 issue_comment
+    --action <action>  pull_request 액션 (기본: synchronize)
+    --draft            draft PR로 가정
+    --base <branch>    대상 브랜치
+    --comment <text>   issue_comment 본문 (예: "/checks")
+    --fail <name>      실패를 가정할 체크 (여러 번 지정 가능)
+    --changed <path>   PR에서 바뀐 파일 (projects, paths 판정용, 여러 번 지정 가능)
+
   Examples
     $ create-pr-checks --init          # 설정 파일 생성
     $ create-pr-checks                  # 워크플로우 생성
     $ create-pr-checks --yes            # 확인 없이 생성
+    $ create-pr-checks --dry-run        # 변경 내용 미리보기
+    $ create-pr-checks --check          # 생성 파일 drift 검사
+    $ create-pr-checks --json           # 생성 결과 JSON 출력
     $ create-pr-checks --cwd ./my-project
+    $ create-pr-checks validate         # 설정 파일 검증
+    $ create-pr-checks validate --json  # 검증 결과 JSON 출력
+    $ create-pr-checks validate --strict  # 오타 등 알 수 없는 키도 에러로 처리
+    $ create-pr-checks doctor           # 저장소 준비 상태 점검
+    $ create-pr-checks clean --yes      # 생성 파일 삭제
+    $ create-pr-checks explain --event issue_comment --comment "/checks"
+    $ create-pr-checks explain --event pull_request --action synchronize --draft
+    $ create-pr-checks schema           # JSON Schema 쓰기
+    $ create-pr-checks schema --json    # JSON Schema를 stdout으로 출력
+    $ create-pr-checks migrate --dry-run  # config.yml 변환 내용 미리보기
 
   Workflow
     1. create-pr-checks --init          # 설정 파일 생성
@@ -39,16 +75,82 @@ const cli = meow(`
       type: 'boolean',
       default: false,
     },
+    json: {
+      type: 'boolean',
+      default: false,
+    },
+    dryRun: {
+      type: 'boolean',
+      default: false,
+    },
+    check: {
+      type: 'boolean',
+      default: false,
+    },
+    force: {
+      type: 'boolean',
+      default: false,
+    },
+    strict: {
+      type: 'boolean',
+      default: false,
+    },
+    event: {
+      type: 'string',
+    },
+    action: {
+      type: 'string',
+    },
+    draft: {
+      type: 'boolean',
+      default: false,
+    },
+    base: {
+      type: 'string',
+    },
+    comment: {
+      type: 'string',
+    },
+    fail: {
+      type: 'string',
+      isMultiple: true,
+    },
+    changed: {
+      type: 'string',
+      isMultiple: true,
+    },
   },
 });
 
+const [commandName] = cli.input;
+if (commandName !== undefined && !CLI_COMMANDS.includes(commandName as CliCommand)) {
+  console.error(`알 수 없는 명령어입니다: ${commandName}\n사용 가능한 명령어: ${CLI_COMMANDS.join(', ')}`);
+  process.exit(1);
+}
+
 // 비대화형 환경(LLM, CI, 스크립트)에서는 자동으로 -y 적용
 const isNonInteractive = !process.stdout.isTTY;
+if (isNonInteractive && !cli.flags.yes && !cli.flags.json && (commandName === undefined || commandName === 'clean')) {
+  console.error('비대화형 환경이 감지되어 --yes로 진행합니다. (구조화된 결과가 필요하면 --json 사용)');
+}
 
 run({
+  command: commandName as CliCommand | undefined,
   yes: cli.flags.yes || isNonInteractive,
   cwd: cli.flags.cwd,
   init: cli.flags.init,
+  json: cli.flags.json,
+  dryRun: cli.flags.dryRun,
+  check: cli.flags.check,
+  force: cli.flags.force,
+  strict: cli.flags.strict,
+  event: cli.flags.event,
+  action: cli.flags.action,
+  draft: cli.flags.draft,
+  base: cli.flags.base,
+  comment: cli.flags.comment,
+  fail: cli.flags.fail,
+  changed: cli.flags.changed,
 }).catch((error) => {
   console.error(error);
   process.exit(1);
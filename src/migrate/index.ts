@@ -0,0 +1,243 @@
+import fs from 'fs-extra';
+import path from 'path';
+import yaml, { isMap, isScalar, isSeq } from 'yaml';
+import yn from 'yn';
+import type { Document, Scalar, YAMLMap, YAMLSeq } from 'yaml';
+import type { CheckType, PrSizeExceedAction, TestFramework } from '../types/config.js';
+import { CONFIG_VERSION, getLegacyReviewNeeds } from '../types/config.js';
+import { FRAMEWORK_SETUP_STEPS } from '../detectors/index.js';
+import { findConfigFile, getPrChecksDir } from '../readers/index.js';
+
+/**
+ * 버전을 하나 올리는 마이그레이션
+ */
+interface Migration {
+  /** 적용 후 버전 */
+  version: number;
+  /** 문서를 직접 수정하고 변경 설명 목록 반환 */
+  apply: (doc: Document) => string[];
+}
+
+/**
+ * migrate 결과
+ */
+export interface MigrationResult {
+  /** 설정 파일 (cwd 기준 상대 경로) */
+  file: string;
+  fromVersion: number;
+  toVersion: number;
+  /** 변경 설명 (버전 변경만 있으면 빈 배열) */
+  changes: string[];
+  /** 파일 내용이 바뀌는지 */
+  updated: boolean;
+  /** 마이그레이션 전 내용 */
+  previous: string;
+  /** 마이그레이션 후 내용 (주석, 키 순서 유지) */
+  content: string;
+}
+
+function findPairIndex(map: YAMLMap, key: string): number {
+  return map.items.findIndex((pair) => isScalar(pair.key) && pair.key.value === key);
+}
+
+/**
+ * 문서의 체크 목록 (최상위 checks와 projects[].checks)
+ */
+interface DocumentCheckList {
+  seq: YAMLSeq;
+  /** 설정 경로 (예: projects[0].checks) */
+  at: string;
+  /** 프로젝트 이름 (프로젝트 체크 목록만) */
+  project?: string;
+}
+
+function collectCheckLists(doc: Document): DocumentCheckList[] {
+  const lists: DocumentCheckList[] = [];
+  const checks = doc.get('checks', true);
+  if (isSeq(checks)) {
+    lists.push({ seq: checks, at: 'checks' });
+  }
+  const projects = doc.get('projects', true);
+  if (isSeq(projects)) {
+    projects.items.forEach((project, index) => {
+      if (!isMap(project)) return;
+      const projectChecks = project.get('checks', true);
+      if (!isSeq(projectChecks)) return;
+      const name = project.get('name') ?? String(project.get('path') ?? '').split('/').pop();
+      lists.push({ seq: projectChecks, at: `projects[${index}].checks`, project: String(name).trim() });
+    });
+  }
+  return lists;
+}
+
+/**
+ * 1 → 2: deprecated framework를 같은 위치의 setupSteps로 교체 (프로젝트 체크 포함)
+ * setupSteps가 이미 있으면 framework는 무시되고 있었으므로 삭제만 함
+ */
+function migrateFrameworkToSetupSteps(doc: Document): string[] {
+  return collectCheckLists(doc).flatMap(({ seq, at }) =>
+    seq.items.flatMap((check, index) => migrateCheckFramework(doc, check, `${at}[${index}]`) ?? [])
+  );
+}
+
+/**
+ * 체크 하나의 framework 교체 (변경 설명 반환, 바꿀 것이 없으면 undefined)
+ */
+function migrateCheckFramework(doc: Document, check: unknown, at: string): string | undefined {
+  if (!isMap(check)) return undefined;
+  const pairIndex = findPairIndex(check, 'framework');
+  if (pairIndex === -1) return undefined;
+
+  const label = `${at}${check.get('name') ? ` (${String(check.get('name'))})` : ''}`;
+  const framework = String(check.get('framework'));
+  const steps = FRAMEWORK_SETUP_STEPS[framework as TestFramework];
+  if (!steps) {
+    // 지원하지 않는 값은 validate가 보고하도록 그대로 둠
+    return undefined;
+  }
+
+  if (check.has('setupSteps') || steps.length === 0) {
+    check.items.splice(pairIndex, 1);
+    return `${label}: framework: ${framework} 삭제 (${steps.length === 0 ? '셋업 스텝 없음' : 'setupSteps 사용 중'})`;
+  }
+  check.items.splice(pairIndex, 1, doc.createPair('setupSteps', structuredClone(steps)));
+  return `${label}: framework: ${framework} → setupSteps (${steps.map((step) => step.name).join(', ')})`;
+}
+
+/**
+ * 문서의 체크 (프로젝트 체크 이름은 '프로젝트/체크', readConfig와 같은 규칙)
+ */
+interface DocumentCheck {
+  node: YAMLMap;
+  label: string;
+  name: string;
+  type: CheckType;
+  mustRun: boolean;
+  onExceed?: PrSizeExceedAction;
+  project?: string;
+}
+
+function collectDocumentChecks(doc: Document): DocumentCheck[] {
+  const checks: DocumentCheck[] = [];
+  for (const { seq, at, project } of collectCheckLists(doc)) {
+    seq.items.forEach((check, index) => {
+      if (!isMap(check) || typeof check.get('name') !== 'string') return;
+      const name = String(check.get('name')).trim();
+      checks.push({
+        node: check,
+        label: `${at}[${index}] (${name})`,
+        name: project ? `${project}/${name}` : name,
+        type: check.get('type') as CheckType,
+        mustRun: yn(check.get('mustRun')) ?? true,
+        onExceed: check.get('onExceed') as PrSizeExceedAction | undefined,
+        project,
+      });
+    });
+  }
+  return checks;
+}
+
+/**
+ * 2 → 3: pr-review가 암묵적으로 기다리던 체크를 needs로 명시
+ * (mustRun pr-review는 필수 pr-test, 모든 pr-review는 크기 초과 시 실패하는 pr-size)
+ * 같은 프로젝트의 체크는 프로젝트 안 이름으로 적음, extends로 가져온 체크는 이 파일에서 알 수 없으므로 직접 추가해야 함
+ */
+function migrateImplicitReviewNeeds(doc: Document): string[] {
+  const changes: string[] = [];
+  const checks = collectDocumentChecks(doc);
+
+  for (const check of checks.filter((c) => c.type === 'pr-review' && !c.node.has('needs'))) {
+    const needs = getLegacyReviewNeeds(check, checks).map((name) =>
+      check.project && name.startsWith(`${check.project}/`) ? name.slice(check.project.length + 1) : name
+    );
+    if (needs.length === 0) continue;
+
+    const node = doc.createNode(needs);
+    node.flow = true;
+    check.node.set('needs', node);
+    changes.push(`${check.label}: needs: [${needs.join(', ')}] 추가 (버전 3부터 pr-review는 needs에 적은 체크만 기다림)`);
+  }
+
+  return changes;
+}
+
+const MIGRATIONS: Migration[] = [
+  { version: 2, apply: migrateFrameworkToSetupSteps },
+  { version: 3, apply: migrateImplicitReviewNeeds },
+];
+
+/**
+ * config.yml 내용을 현재 버전으로 변환 (yaml Document API로 주석과 키 순서 유지)
+ */
+export function migrateConfigContent(content: string): Omit<MigrationResult, 'file'> {
+  const doc = yaml.parseDocument(content);
+  if (doc.errors.length > 0) {
+    throw new Error(`config.yml 파싱 실패: ${doc.errors[0].message.split('\n')[0]}`);
+  }
+  if (doc.contents !== null && !isMap(doc.contents)) {
+    throw new Error('config.yml은 객체 형식이어야 합니다.');
+  }
+
+  const rawVersion: unknown = doc.get('version') ?? 1;
+  if (typeof rawVersion !== 'number' || !Number.isInteger(rawVersion) || rawVersion < 1) {
+    throw new Error(`version: 1 이상의 정수여야 합니다: ${String(rawVersion)}`);
+  }
+  if (rawVersion > CONFIG_VERSION) {
+    throw new Error(
+      `version: 설정 파일 버전(${rawVersion})이 이 create-pr-checks가 지원하는 버전(${CONFIG_VERSION})보다 높습니다. create-pr-checks를 업데이트하세요.`
+    );
+  }
+
+  const changes: string[] = [];
+  for (const migration of MIGRATIONS.filter((m) => m.version > rawVersion)) {
+    changes.push(...migration.apply(doc));
+  }
+
+  if (rawVersion < CONFIG_VERSION) {
+    if (isMap(doc.contents) && !doc.contents.has('version')) {
+      // 가장 위에 추가하고, 첫 키에 붙어 있던 파일 상단 주석은 version 위로 옮김
+      const root = doc.contents as YAMLMap;
+      const versionPair = doc.createPair('version', CONFIG_VERSION);
+      const firstKey = root.items[0]?.key;
+      if (isScalar(firstKey) && firstKey.commentBefore) {
+        (versionPair.key as Scalar).commentBefore = firstKey.commentBefore;
+        firstKey.commentBefore = undefined;
+        firstKey.spaceBefore = true;
+      }
+      root.items.unshift(versionPair);
+    } else {
+      doc.set('version', CONFIG_VERSION);
+    }
+  }
+
+  const migrated = rawVersion < CONFIG_VERSION ? doc.toString({ flowCollectionPadding: false }) : content;
+  return {
+    fromVersion: rawVersion,
+    toVersion: CONFIG_VERSION,
+    changes,
+    updated: migrated !== content,
+    previous: content,
+    content: migrated,
+  };
+}
+
+/**
+ * .pr-checks/config.yml을 현재 버전으로 변환해 덮어씀
+ * @param options.dryRun 파일을 쓰지 않고 결과만 반환
+ */
+export async function migrateConfigFile(cwd: string, options: { dryRun?: boolean } = {}): Promise<MigrationResult> {
+  const { file: configPath } = await findConfigFile(cwd);
+  if (!configPath) {
+    throw new Error(`설정 파일이 없습니다: ${path.relative(cwd, path.join(getPrChecksDir(cwd), 'config.yml'))}`);
+  }
+  const file = path.relative(cwd, configPath);
+  if (path.extname(configPath) !== '.yml') {
+    throw new Error(`${file}: migrate는 config.yml만 지원합니다. 설정 파일을 직접 수정하세요.`);
+  }
+
+  const result = { file, ...migrateConfigContent(await fs.readFile(configPath, 'utf-8')) };
+  if (result.updated && !options.dryRun) {
+    await fs.writeFile(configPath, result.content, 'utf-8');
+  }
+  return result;
+}
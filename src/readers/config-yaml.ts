@@ -0,0 +1,98 @@
+import { Document, isMap, isScalar, isSeq } from 'yaml';
+import type { InputConfig } from '../types/config.js';
+
+/**
+ * config.yml 상단 안내 주석
+ */
+const HEADER_COMMENT = [
+  ' create-pr-checks 설정 파일',
+  ' 수정 후 `npx create-pr-checks`로 워크플로우를 다시 생성하세요.',
+  ' 검증: `npx create-pr-checks validate`',
+].join('\n');
+
+/**
+ * 전역 설정 키별 설명 주석 (키 위에 표시)
+ */
+const TOP_LEVEL_COMMENTS: Record<string, string> = {
+  version: ' 설정 파일 형식 버전 (create-pr-checks migrate로 업데이트)',
+  platform: ' 플랫폼: github 또는 gitea',
+  runner: ' Runner 레이블 (self-hosted는 배열: [self-hosted, macOS, ARM64])',
+  checks: [
+    ' 체크 목록',
+    ' - pr-test: 명령어 기반 체크 (테스트, 린트, 빌드)',
+    ' - pr-review: AI 코드 리뷰 (provider: bedrock 또는 cli)',
+    ' - pr-lint: PR 제목/본문 규칙 검사',
+    ' - pr-size: PR 크기 라벨, 임계값 초과 시 실패/경고',
+    ' - pr-commits: 커밋 메시지, fixup 커밋, DCO sign-off 검사',
+    ' - pr-labels: 필수/금지 라벨 검사 (라벨 추가/제거 시 다시 검사)',
+    ' - pr-script: 커스텀 스크립트 (PR_CHECKS_RESULT에 쓴 JSON 결과로 status/코멘트/annotation)',
+  ].join('\n'),
+  ciTrigger: ' 전체 실행 트리거 (mustRun: true인 체크만 실행)',
+  generateApprovalOverride: ' Approve 시 머지 게이트(PR Checks Status) 해제 워크플로우 생성',
+  branches: ' 대상 브랜치',
+  selfHosted: ' Self-hosted runner 설정 (저장소 캐싱, docker: true면 Docker Desktop 자동 시작)',
+  guideMessage: ' PR 가이드 코멘트에 추가할 문구',
+};
+
+/**
+ * 체크 속성별 설명 주석 (값 오른쪽에 표시)
+ */
+const CHECK_FIELD_COMMENTS: Record<string, string> = {
+  name: ' status context 이름',
+  trigger: ' PR 코멘트 트리거',
+  mustRun: ' true: ciTrigger/자동 실행에 포함, 실행해야 머지 가능',
+  mustPass: ' true: 성공해야 머지 가능',
+  command: ' 실행 명령어',
+  provider: ' bedrock 또는 cli',
+  model: ' Bedrock 모델 ID',
+  apiKeySecret: ' GitHub Secret 이름',
+  cliTool: ' claude, codex, gemini, kiro',
+  cliCommand: ' 커스텀 리뷰 명령어 (PR 번호가 인자로 전달됨)',
+  minDescriptionLength: ' PR 본문 최소 길이 (HTML 주석, 공백 제외)',
+  maxLines: ' 변경 줄 수(추가 + 삭제) 임계값',
+  maxFiles: ' 변경 파일 수 임계값',
+  onExceed: ' fail 또는 warn',
+};
+
+/**
+ * InputConfig를 설명 주석이 포함된 config.yml 문자열로 변환
+ */
+export function renderConfigYaml(input: InputConfig): string {
+  // undefined 값은 출력하지 않음
+  const doc = new Document(JSON.parse(JSON.stringify(input)));
+  doc.commentBefore = HEADER_COMMENT;
+
+  if (!isMap(doc.contents)) {
+    return doc.toString();
+  }
+
+  doc.contents.items.forEach((pair, index) => {
+    if (!isScalar(pair.key)) return;
+    const comment = TOP_LEVEL_COMMENTS[String(pair.key.value)];
+    if (comment) {
+      pair.key.commentBefore = comment;
+    }
+    pair.key.spaceBefore = index > 0;
+
+    if (pair.key.value === 'checks' && isSeq(pair.value)) {
+      pair.value.items.forEach((item, checkIndex) => {
+        if (!isMap(item)) return;
+        item.spaceBefore = checkIndex > 0;
+        for (const field of item.items) {
+          // needs는 [lint, build]처럼 한 줄로
+          if (isScalar(field.key) && field.key.value === 'needs' && isSeq(field.value)) {
+            field.value.flow = true;
+          }
+          if (isScalar(field.key) && isScalar(field.value)) {
+            const fieldComment = CHECK_FIELD_COMMENTS[String(field.key.value)];
+            if (fieldComment) {
+              field.value.comment = fieldComment;
+            }
+          }
+        }
+      });
+    }
+  });
+
+  return doc.toString();
+}
@@ -0,0 +1,209 @@
+import fs from 'fs-extra';
+import path from 'path';
+import yaml, { LineCounter, isNode } from 'yaml';
+import type { Document } from 'yaml';
+import { isModuleConfig } from './loader.js';
+
+/**
+ * 설정 경로 (예: ['checks', 3, 'trigger'] → checks[3].trigger)
+ */
+export type ConfigPath = (string | number)[];
+
+/**
+ * 문제 심각도
+ * - error: 워크플로우 생성 불가
+ * - warning: 생성은 가능하지만 확인 필요
+ */
+export type IssueSeverity = 'error' | 'warning';
+
+/**
+ * 설정 검증 중 발견된 문제 (위치 정보 없음)
+ */
+export interface ConfigIssue {
+  path: ConfigPath;
+  message: string;
+  severity: IssueSeverity;
+  /** 문제가 있는 파일 절대 경로 (extends로 상속한 파일, 생략하면 검증 대상 파일) */
+  source?: string;
+  /** deprecated 옵션/이전 버전 설정 경고 (validate/doctor에서만 보고, readConfig는 출력하지 않음) */
+  deprecated?: boolean;
+}
+
+/**
+ * 파일 위치가 포함된 진단 결과 (line/column은 1부터 시작)
+ */
+export interface ConfigDiagnostic extends ConfigIssue {
+  file: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * validate 명령 결과
+ */
+export interface ValidationReport {
+  file: string;
+  valid: boolean;
+  errorCount: number;
+  warningCount: number;
+  diagnostics: ConfigDiagnostic[];
+}
+
+/**
+ * 설정 경로에 해당하는 YAML 노드 위치 찾기
+ * 경로가 없으면 (누락된 키 등) 가장 가까운 상위 노드 위치를 사용
+ */
+function locatePath(doc: Document, lineCounter: LineCounter, configPath: ConfigPath): { line: number; column: number } {
+  for (let depth = configPath.length; depth >= 0; depth--) {
+    const node = depth === 0 ? doc.contents : doc.getIn(configPath.slice(0, depth), true);
+    if (isNode(node) && node.range) {
+      const pos = lineCounter.linePos(node.range[0]);
+      return { line: pos.line, column: pos.col };
+    }
+  }
+  return { line: 1, column: 1 };
+}
+
+/**
+ * 진단 결과를 위치 순으로 정렬하고 요약 생성
+ */
+function buildReport(file: string, diagnostics: ConfigDiagnostic[]): ValidationReport {
+  const sorted = [...diagnostics].sort((a, b) => a.line - b.line || a.column - b.column);
+  const errorCount = sorted.filter((d) => d.severity === 'error').length;
+  return {
+    file,
+    valid: errorCount === 0,
+    errorCount,
+    warningCount: sorted.length - errorCount,
+    diagnostics: sorted,
+  };
+}
+
+interface ParsedSource {
+  doc: Document;
+  lineCounter: LineCounter;
+}
+
+/**
+ * 위치 계산용으로 다른 설정 파일(extends 대상) 파싱 (읽기 실패 또는 config.ts 등 코드 파일이면 undefined)
+ */
+async function parseSource(file: string): Promise<ParsedSource | undefined> {
+  if (isModuleConfig(file)) {
+    return undefined;
+  }
+  try {
+    const lineCounter = new LineCounter();
+    return { doc: yaml.parseDocument(await fs.readFile(file, 'utf-8'), { lineCounter }), lineCounter };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 설정 파일 검증 (모든 문제를 위치 정보와 함께 수집)
+ * @param configPath 설정 파일 절대 경로
+ * @param displayPath 출력용 파일 경로
+ * @param collectIssues 파싱된 객체에서 문제를 수집하는 함수
+ * @param toDisplayPath 다른 파일(issue.source)의 출력용 경로
+ */
+export async function validateConfigSource(
+  configPath: string,
+  displayPath: string,
+  collectIssues: (parsed: Record<string, unknown>) => ConfigIssue[] | Promise<ConfigIssue[]>,
+  toDisplayPath: (file: string) => string = (file) => file
+): Promise<ValidationReport> {
+  const at = (severity: IssueSeverity, message: string, line = 1, column = 1): ConfigDiagnostic => ({
+    file: displayPath,
+    line,
+    column,
+    path: [],
+    message,
+    severity,
+  });
+
+  if (!(await fs.pathExists(configPath))) {
+    return buildReport(displayPath, [at('error', `설정 파일이 없습니다: ${displayPath}`)]);
+  }
+
+  const content = await fs.readFile(configPath, 'utf-8');
+  const lineCounter = new LineCounter();
+  const doc = yaml.parseDocument(content, { lineCounter });
+
+  // YAML 문법 오류가 있으면 구조 검증은 불가능
+  const syntaxDiagnostics = [
+    ...doc.errors.map((e) => at('error', `YAML 문법 오류: ${e.message.split('\n')[0]}`, e.linePos?.[0].line, e.linePos?.[0].col)),
+    ...doc.warnings.map((e) => at('warning', e.message.split('\n')[0], e.linePos?.[0].line, e.linePos?.[0].col)),
+  ];
+  if (doc.errors.length > 0) {
+    return buildReport(displayPath, syntaxDiagnostics);
+  }
+
+  const parsed: unknown = doc.toJS();
+  if (parsed === null || parsed === undefined) {
+    return buildReport(displayPath, [
+      ...syntaxDiagnostics,
+      at('warning', `${path.basename(configPath)}이 비어있습니다. 기본값을 사용합니다.`),
+    ]);
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return buildReport(displayPath, [...syntaxDiagnostics, at('error', `${path.basename(configPath)}은 객체 형식이어야 합니다.`)]);
+  }
+
+  const sources = new Map<string, ParsedSource | undefined>([[configPath, { doc, lineCounter }]]);
+  const diagnostics = await locateIssues(
+    await collectIssues(parsed as Record<string, unknown>),
+    configPath,
+    displayPath,
+    sources,
+    toDisplayPath
+  );
+  return buildReport(displayPath, [...syntaxDiagnostics, ...diagnostics]);
+}
+
+/**
+ * config.ts/config.mjs 검증 (위치는 1:1, 메시지의 설정 경로로 문제를 찾음)
+ * @param load 설정 파일을 불러와 default export를 반환하는 함수
+ */
+export async function validateConfigModule(
+  configPath: string,
+  displayPath: string,
+  load: () => Promise<Record<string, unknown> | undefined>,
+  collectIssues: (parsed: Record<string, unknown>) => ConfigIssue[] | Promise<ConfigIssue[]>,
+  toDisplayPath: (file: string) => string = (file) => file
+): Promise<ValidationReport> {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = (await load()) ?? {};
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return buildReport(displayPath, [{ file: displayPath, line: 1, column: 1, path: [], message: errorMessage, severity: 'error' }]);
+  }
+
+  const sources = new Map<string, ParsedSource | undefined>([[configPath, undefined]]);
+  return buildReport(displayPath, await locateIssues(await collectIssues(parsed), configPath, displayPath, sources, toDisplayPath));
+}
+
+/**
+ * 문제에 파일 위치 붙이기 (다른 파일의 문제는 필요할 때 그 파일을 파싱)
+ */
+async function locateIssues(
+  issues: ConfigIssue[],
+  configPath: string,
+  displayPath: string,
+  sources: Map<string, ParsedSource | undefined>,
+  toDisplayPath: (file: string) => string
+): Promise<ConfigDiagnostic[]> {
+  const diagnostics: ConfigDiagnostic[] = [];
+  for (const { source = configPath, ...issue } of issues) {
+    if (!sources.has(source)) {
+      sources.set(source, await parseSource(source));
+    }
+    const parsedSource = sources.get(source);
+    diagnostics.push({
+      file: source === configPath ? displayPath : toDisplayPath(source),
+      ...(parsedSource ? locatePath(parsedSource.doc, parsedSource.lineCounter, issue.path) : { line: 1, column: 1 }),
+      ...issue,
+    });
+  }
+  return diagnostics;
+}
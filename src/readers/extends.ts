@@ -0,0 +1,233 @@
+import { createRequire } from 'node:module';
+import fs from 'fs-extra';
+import path from 'path';
+import type { ConfigIssue, ConfigPath } from './diagnostics.js';
+import { loadConfigObject } from './loader.js';
+
+/**
+ * 병합 결과의 경로가 어느 파일의 어느 경로에서 왔는지
+ */
+export interface ConfigOrigin {
+  /** 설정 파일 절대 경로 */
+  file: string;
+  path: ConfigPath;
+}
+
+export interface ExtendsResult {
+  /** extends/removeChecks를 적용한 설정 객체 */
+  merged: Record<string, unknown>;
+  /** 병합 결과 경로 → 원본 파일/경로 (진단 위치 표시용) */
+  locate: (configPath: ConfigPath) => ConfigOrigin;
+}
+
+/**
+ * 병합된 checks[i]의 출처 (체크 전체 + 필드별)
+ */
+interface CheckOrigin {
+  origin: ConfigOrigin;
+  fields: Map<string, ConfigOrigin>;
+}
+
+/**
+ * 설정 레이어 (파일 하나에서 읽은 설정, extends는 이미 펼친 상태)
+ */
+interface Layer {
+  merged: Record<string, unknown>;
+  /** 전역 키 → 값을 정의한 파일 */
+  keys: Map<string, string>;
+  checks: CheckOrigin[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * extends 값 해석
+ * - ./, ../, 절대 경로: 선언한 파일 기준 상대 경로
+ * - 그 외: node_modules의 패키지 (확장자가 없으면 .yml, .yaml, .json 순서로 시도)
+ */
+function resolveExtendsPath(spec: string, fromFile: string): string | undefined {
+  if (spec.startsWith('./') || spec.startsWith('../') || path.isAbsolute(spec)) {
+    const resolved = path.resolve(path.dirname(fromFile), spec);
+    return fs.pathExistsSync(resolved) ? resolved : undefined;
+  }
+
+  const require = createRequire(fromFile);
+  const candidates = path.extname(spec) ? [spec] : [spec, `${spec}.yml`, `${spec}.yaml`, `${spec}.json`];
+  for (const candidate of candidates) {
+    try {
+      return require.resolve(candidate);
+    } catch {
+      // 다음 후보 시도
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 한 파일의 설정을 레이어로 변환 (모든 값의 출처를 자기 자신으로 기록)
+ */
+function toLayer(raw: Record<string, unknown>, file: string): Layer {
+  const checks = Array.isArray(raw.checks) ? raw.checks : [];
+  return {
+    merged: raw,
+    keys: new Map(Object.keys(raw).map((key) => [key, file])),
+    checks: checks.map((check: unknown, index) => ({
+      origin: { file, path: ['checks', index] },
+      fields: new Map(
+        Object.keys(isObject(check) ? check : {}).map((field) => [field, { file, path: ['checks', index, field] }])
+      ),
+    })),
+  };
+}
+
+/**
+ * 두 레이어 병합 (child가 우선)
+ * - 전역 설정: child 값으로 통째로 덮어씀
+ * - checks: name이 같으면 필드 단위로 덮어쓰고 (type이 다르면 통째로 교체), 새 name은 뒤에 추가
+ */
+function mergeLayers(base: Layer, child: Layer): Layer {
+  const merged: Record<string, unknown> = { ...base.merged, ...child.merged };
+  const keys = new Map([...base.keys, ...child.keys]);
+
+  const checks: unknown[] = Array.isArray(base.merged.checks) ? [...base.merged.checks] : [];
+  const origins: CheckOrigin[] = base.checks.map((o) => ({ origin: o.origin, fields: new Map(o.fields) }));
+  const childChecks = Array.isArray(child.merged.checks) ? child.merged.checks : [];
+
+  childChecks.forEach((check: unknown, index) => {
+    const childOrigin = child.checks[index];
+    const target = isObject(check)
+      ? checks.findIndex((existing) => isObject(existing) && typeof check.name === 'string' && existing.name === check.name)
+      : -1;
+
+    if (target === -1) {
+      checks.push(check);
+      origins.push(childOrigin);
+      return;
+    }
+
+    const existing = checks[target] as Record<string, unknown>;
+    const override = check as Record<string, unknown>;
+    if (override.type !== undefined && override.type !== existing.type) {
+      checks[target] = override;
+      origins[target] = childOrigin;
+      return;
+    }
+    checks[target] = { ...existing, ...override };
+    origins[target] = { origin: childOrigin.origin, fields: new Map([...origins[target].fields, ...childOrigin.fields]) };
+  });
+
+  if (base.keys.has('checks') || child.keys.has('checks')) {
+    merged.checks = checks;
+  }
+  return { merged, keys, checks: origins };
+}
+
+/**
+ * removeChecks에 지정한 체크 제거 (상속받은 체크를 빼는 용도)
+ */
+function removeChecks(layer: Layer, raw: unknown, file: string, issues: ConfigIssue[]): Layer {
+  if (raw === undefined || raw === null) return layer;
+  if (!Array.isArray(raw)) {
+    issues.push({ path: ['removeChecks'], message: 'removeChecks: 배열이어야 합니다 (예: [e2e]).', severity: 'error', source: file });
+    return layer;
+  }
+
+  const checks = Array.isArray(layer.merged.checks) ? layer.merged.checks : [];
+  const removed = new Set<number>();
+  raw.forEach((name: unknown, i) => {
+    const index = checks.findIndex((check) => isObject(check) && check.name === name);
+    if (index === -1) {
+      issues.push({
+        path: ['removeChecks', i],
+        message: `removeChecks[${i}]: 상속받은 체크 중에 없는 이름입니다: ${String(name)}`,
+        severity: 'warning',
+        source: file,
+      });
+      return;
+    }
+    removed.add(index);
+  });
+  if (removed.size === 0) return layer;
+
+  return {
+    ...layer,
+    merged: { ...layer.merged, checks: checks.filter((_, index) => !removed.has(index)) },
+    checks: layer.checks.filter((_, index) => !removed.has(index)),
+  };
+}
+
+/**
+ * extends를 재귀적으로 펼친 레이어 (순환 참조는 에러)
+ */
+async function expandLayer(raw: Record<string, unknown>, file: string, chain: string[], issues: ConfigIssue[]): Promise<Layer> {
+  const { extends: rawExtends, removeChecks: rawRemoveChecks, ...rest } = raw;
+  const own = toLayer(rest, file);
+
+  const specs = rawExtends === undefined || rawExtends === null ? [] : Array.isArray(rawExtends) ? rawExtends : [rawExtends];
+  const error = (configPath: ConfigPath, message: string) =>
+    issues.push({ path: configPath, message, severity: 'error', source: file });
+
+  let base: Layer | undefined;
+  for (const [i, spec] of specs.entries()) {
+    const at: ConfigPath = Array.isArray(rawExtends) ? ['extends', i] : ['extends'];
+    if (typeof spec !== 'string' || !spec.trim()) {
+      error(at, 'extends: 파일 경로 또는 패키지 이름(문자열)이어야 합니다.');
+      continue;
+    }
+
+    const resolved = resolveExtendsPath(spec.trim(), file);
+    if (!resolved) {
+      error(at, `extends: 설정 파일을 찾을 수 없습니다: ${spec}`);
+      continue;
+    }
+    if (chain.includes(resolved)) {
+      error(at, `extends: 순환 참조입니다: ${[...chain, resolved].map((f) => path.basename(f)).join(' → ')}`);
+      continue;
+    }
+
+    let parent: Record<string, unknown>;
+    try {
+      parent = (await loadConfigObject(resolved)) ?? {};
+    } catch (loadError) {
+      const errorMessage = loadError instanceof Error ? loadError.message : String(loadError);
+      error(at, `extends: ${errorMessage.split('\n')[0]}`);
+      continue;
+    }
+
+    const layer = await expandLayer(parent, resolved, [...chain, resolved], issues);
+    base = base ? mergeLayers(base, layer) : layer;
+  }
+
+  // removeChecks는 상속받은 체크에만 적용한 뒤 현재 파일의 체크를 병합
+  const inherited = removeChecks(base ?? toLayer({}, file), rawRemoveChecks, file, issues);
+  return base ? mergeLayers(inherited, own) : own;
+}
+
+/**
+ * config.yml의 extends를 해석해 하나의 설정 객체로 병합
+ * 병합 규칙:
+ * - 전역 설정(platform, runner, branches, guideMessage 등): 나중 파일이 통째로 덮어씀
+ * - checks: name이 같으면 필드 단위로 덮어쓰고, 새 name은 뒤에 추가
+ * - removeChecks: 상속받은 체크를 name으로 제거
+ * extends가 여러 개면 앞에서부터 차례로 병합한 뒤 현재 파일을 병합
+ */
+export async function resolveExtends(raw: Record<string, unknown>, file: string, issues: ConfigIssue[]): Promise<ExtendsResult> {
+  const layer = await expandLayer(raw, file, [file], issues);
+
+  return {
+    merged: layer.merged,
+    locate: (configPath) => {
+      const [key, index, field] = configPath;
+      if (key === 'checks' && typeof index === 'number' && layer.checks[index]) {
+        const check = layer.checks[index];
+        const fieldOrigin = typeof field === 'string' ? check.fields.get(field) : undefined;
+        return fieldOrigin
+          ? { file: fieldOrigin.file, path: [...fieldOrigin.path, ...configPath.slice(3)] }
+          : { file: check.origin.file, path: [...check.origin.path, ...configPath.slice(2)] };
+      }
+      return { file: layer.keys.get(String(key)) ?? file, path: configPath };
+    },
+  };
+}
@@ -1,6 +1,5 @@
 import fs from 'fs-extra';
 import path from 'path';
-import yaml from 'yaml';
 import yn from 'yn';
 import type {
   InputConfig,
@@ -8,83 +7,124 @@ import type {
   Check,
   PrTestCheck,
   PrReviewCheck,
+  PrLintCheck,
+  PrSizeCheck,
+  PrSizeExceedAction,
+  PrCommitsCheck,
+  PrLabelsCheck,
+  PrScriptCheck,
   SetupStep,
+  TestMatrix,
   TestFramework,
   Platform,
   CliTool,
   SelfHostedConfig,
   PullRequestAction,
+  ProjectConfig,
 } from '../types/config.js';
-import { DEFAULT_INPUT_CONFIG, isPrTestCheck, isPrReviewCheck } from '../types/config.js';
+import {
+  DEFAULT_INPUT_CONFIG,
+  CONFIG_VERSION,
+  PLATFORMS,
+  AI_PROVIDERS,
+  CLI_TOOLS,
+  TEST_FRAMEWORKS,
+  CHECK_TYPES,
+  PULL_REQUEST_ACTIONS,
+  PR_SIZE_EXCEED_ACTIONS,
+  isPrTestCheck,
+  isPrScriptCheck,
+  isPrReviewCheck,
+  isPrSizeCheck,
+  getCheckJobId,
+  getLegacyReviewNeeds,
+  getMatrixReportJobId,
+  getMatrixLegCount,
+  pathGlobToRegex,
+} from '../types/config.js';
+import type { ConfigIssue, ConfigPath, ValidationReport } from './diagnostics.js';
+import { validateConfigSource, validateConfigModule } from './diagnostics.js';
+import { renderConfigYaml } from './config-yaml.js';
+import { FRAMEWORK_SETUP_STEPS } from '../detectors/index.js';
+import {
+  CONFIG_SCHEMA,
+  CHECK_TYPE_KEYS,
+  PROVIDER_KEYS,
+  SETUP_STEP_KEYS,
+  NAME_PATTERN,
+  CHECK_NAME_PATTERN,
+  PROJECT_PATH_PATTERN,
+  ENV_NAME_PATTERN,
+  SCHEMA_FILE,
+  formatConfigPath,
+  renderConfigSchema,
+  validateSchema,
+} from '../schema/index.js';
+import { suggestKey } from './suggest.js';
+import { resolveExtends } from './extends.js';
+import { findConfigFiles, isModuleConfig, loadConfigObject } from './loader.js';
 
 const PR_CHECKS_DIR = '.pr-checks';
 const CONFIG_FILE = 'config.yml';
 
-/**
- * 테스트 프레임워크별 기본 setup steps
- */
-const TEST_SETUP_STEPS: Record<TestFramework, SetupStep[]> = {
-  node: [
-    { name: 'Setup Node.js', uses: 'actions/setup-node@v4', with: { 'node-version': '20' } },
-    { name: 'Install dependencies', run: 'npm ci' },
-  ],
-  python: [
-    { name: 'Install uv', uses: 'astral-sh/setup-uv@v4' },
-  ],
-  go: [
-    { name: 'Setup Go', uses: 'actions/setup-go@v5', with: { 'go-version': '1.22' } },
-  ],
-  rust: [
-    { name: 'Setup Rust', uses: 'dtolnay/rust-toolchain@stable' },
-  ],
-  custom: [],
-};
-
 export function getPrChecksDir(cwd: string): string {
   return path.join(cwd, PR_CHECKS_DIR);
 }
 
+/**
+ * 사용할 설정 파일 찾기 (CONFIG_FILES 순서로 첫 번째 파일, 여러 개면 경고 메시지 포함)
+ */
+export async function findConfigFile(cwd: string): Promise<{ file?: string; warning?: string }> {
+  const files = await findConfigFiles(getPrChecksDir(cwd));
+  if (files.length <= 1) {
+    return { file: files[0] };
+  }
+  const names = files.map((file) => path.basename(file));
+  return {
+    file: files[0],
+    warning: `${PR_CHECKS_DIR}/에 설정 파일이 여러 개 있습니다: ${names.join(', ')}. ${names[0]}만 사용합니다.`,
+  };
+}
+
 export async function hasInputFiles(cwd: string): Promise<boolean> {
-  const configPath = path.join(cwd, PR_CHECKS_DIR, CONFIG_FILE);
-  return fs.pathExists(configPath);
+  return (await findConfigFile(cwd)).file !== undefined;
 }
 
-export async function readConfig(cwd: string): Promise<Config> {
-  const prChecksDir = getPrChecksDir(cwd);
-  const configPath = path.join(prChecksDir, CONFIG_FILE);
+export interface ReadConfigOptions {
+  /** 경고 처리 (기본값: console.warn으로 출력) */
+  onWarning?: (message: string) => void;
+  /** 알 수 없는 키/적용되지 않는 키를 경고 대신 에러로 처리 */
+  strict?: boolean;
+}
+
+export async function readConfig(cwd: string, options: ReadConfigOptions = {}): Promise<Config> {
+  const onWarning = options.onWarning ?? ((message: string) => console.warn(`경고: ${message}`));
+  const { file: configPath, warning } = await findConfigFile(cwd);
 
   let input: InputConfig;
 
-  if (await fs.pathExists(configPath)) {
-    let configContent: string;
-    try {
-      configContent = await fs.readFile(configPath, 'utf-8');
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`설정 파일 읽기 실패: ${configPath}\n${errorMessage}`);
+  if (configPath) {
+    if (warning) {
+      onWarning(warning);
     }
 
-    let parsed: Record<string, unknown>;
-    try {
-      const result = yaml.parse(configContent);
-      if (result === null || result === undefined) {
-        console.warn('경고: config.yml이 비어있습니다. 기본값을 사용합니다.');
-        parsed = {};
-      } else if (typeof result !== 'object' || Array.isArray(result)) {
-        throw new Error('config.yml은 객체 형식이어야 합니다.');
-      } else {
-        parsed = result as Record<string, unknown>;
-      }
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('config.yml')) {
-        throw error;
-      }
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`config.yml 파싱 실패: ${errorMessage}\n파일 경로: ${configPath}`);
+    let parsed = await loadConfigObject(configPath);
+    if (!parsed) {
+      onWarning(`${path.basename(configPath)}이 비어있습니다. 기본값을 사용합니다.`);
+      parsed = {};
     }
 
-    input = mergeWithDefaults(parsed);
-    validateConfig(input);
+    let issues: ConfigIssue[];
+    ({ input, issues } = await parseConfigWithExtends(parsed, configPath, options.strict));
+
+    const errors = issues.filter((issue) => issue.severity === 'error');
+    if (errors.length > 0) {
+      throw new Error(errors.map((issue) => issue.message).join('\n'));
+    }
+    // deprecated 경고는 validate/doctor에서 migrate 안내와 함께 보고 (생성/explain/--json 출력마다 반복하지 않음)
+    for (const warning of issues.filter((issue) => issue.severity === 'warning' && !issue.deprecated)) {
+      onWarning(warning.message);
+    }
   } else {
     input = structuredClone(DEFAULT_INPUT_CONFIG);
   }
@@ -92,13 +132,9 @@ export async function readConfig(cwd: string): Promise<Config> {
   // pr-test 체크에 framework 기반 setupSteps 추가 (deprecated)
   input.checks = input.checks.map((check) => {
     if (isPrTestCheck(check) && check.framework && !check.setupSteps) {
-      console.warn(
-        `경고: '${check.name}' 체크의 'framework' 옵션은 deprecated입니다. ` +
-          `setupSteps를 직접 사용하세요.`
-      );
       return {
         ...check,
-        setupSteps: TEST_SETUP_STEPS[check.framework],
+        setupSteps: FRAMEWORK_SETUP_STEPS[check.framework],
       };
     }
     return check;
@@ -107,23 +143,55 @@ export async function readConfig(cwd: string): Promise<Config> {
   return { input };
 }
 
+/**
+ * 설정 파일의 모든 문제를 위치 정보와 함께 수집 (validate 명령용)
+ * readConfig와 달리 첫 번째 에러에서 멈추지 않음
+ * config.ts/config.mjs는 줄 위치 없이 설정 경로로만 표시
+ */
+export async function validateConfigFile(cwd: string, options: Pick<ReadConfigOptions, 'strict'> = {}): Promise<ValidationReport> {
+  const { file = path.join(getPrChecksDir(cwd), CONFIG_FILE), warning } = await findConfigFile(cwd);
+  const collectIssues = async (parsed: Record<string, unknown>) => [
+    ...(warning ? [{ path: [], message: warning, severity: 'warning' as const }] : []),
+    ...(await parseConfigWithExtends(parsed, file, options.strict)).issues,
+  ];
+  const toDisplayPath = (source: string) => path.relative(cwd, source);
+
+  return isModuleConfig(file)
+    ? validateConfigModule(file, toDisplayPath(file), () => loadConfigObject(file), collectIssues, toDisplayPath)
+    : validateConfigSource(file, toDisplayPath(file), collectIssues, toDisplayPath);
+}
+
 function parseString(value: unknown, defaultValue: string): string {
   if (value === undefined || value === null) return defaultValue;
   return String(value);
 }
 
-function parseBoolean(value: unknown, defaultValue: boolean): boolean {
+/**
+ * yn으로 boolean 파싱 (인식할 수 없는 값은 기본값, issues가 있으면 경고 기록)
+ */
+function parseBoolean(value: unknown, defaultValue: boolean, issues?: ConfigIssue[], configPath?: ConfigPath): boolean {
   if (value === undefined || value === null) return defaultValue;
-  const result = yn(value, { default: defaultValue });
+  const result = yn(value);
+  if (result === undefined) {
+    if (issues && configPath) {
+      pushWarning(
+        issues,
+        configPath,
+        `${formatConfigPath(configPath)}: true/false로 인식할 수 없는 값입니다: ${String(value)}. 기본값 ${defaultValue}을 사용합니다.`
+      );
+    }
+    return defaultValue;
+  }
   return result;
 }
 
-function parsePlatform(value: unknown, defaultValue: Platform): Platform {
+function parsePlatform(value: unknown, defaultValue: Platform, issues: ConfigIssue[]): Platform {
   if (value === undefined || value === null) return defaultValue;
   const str = String(value).toLowerCase();
-  if (str === 'github' || str === 'gitea') {
-    return str;
+  if ((PLATFORMS as readonly string[]).includes(str)) {
+    return str as Platform;
   }
+  pushWarning(issues, ['platform'], `지원하지 않는 platform입니다: ${String(value)}. ${defaultValue}을 사용합니다.`);
   return defaultValue;
 }
 
@@ -144,51 +212,663 @@ function parseSelfHostedConfig(raw: unknown): SelfHostedConfig | undefined {
   };
 }
 
-function parseCheck(rawCheck: Record<string, unknown>, index: number): Check {
+function pushError(issues: ConfigIssue[], configPath: ConfigPath, message: string): void {
+  issues.push({ path: configPath, message, severity: 'error' });
+}
+
+function pushWarning(issues: ConfigIssue[], configPath: ConfigPath, message: string): void {
+  issues.push({ path: configPath, message, severity: 'warning' });
+}
+
+function pushDeprecation(issues: ConfigIssue[], configPath: ConfigPath, message: string): void {
+  issues.push({ path: configPath, message, severity: 'warning', deprecated: true });
+}
+
+/**
+ * autoRunOn 파싱: PullRequestAction 배열인지 항목별로 검사
+ */
+function parseAutoRunOn(raw: unknown, at: ConfigPath, issues: ConfigIssue[]): PullRequestAction[] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw)) {
+    pushError(issues, at, `${formatConfigPath(at)}: 배열이어야 합니다 (예: [opened, synchronize]).`);
+    return undefined;
+  }
+
+  const actions: PullRequestAction[] = [];
+  raw.forEach((value: unknown, i) => {
+    const action = PULL_REQUEST_ACTIONS.find((a) => a === value);
+    if (!action) {
+      pushError(
+        issues,
+        [...at, i],
+        `${formatConfigPath([...at, i])}: 지원하지 않는 PR 이벤트입니다: ${String(value)} (사용 가능: ${PULL_REQUEST_ACTIONS.join(', ')})`
+      );
+    } else if (actions.includes(action)) {
+      pushError(issues, [...at, i], `${formatConfigPath([...at, i])}: 중복된 PR 이벤트입니다: ${action}`);
+    } else {
+      actions.push(action);
+    }
+  });
+  return actions;
+}
+
+function isScalar(value: unknown): value is string | number | boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/**
+ * setupSteps 파싱: name 필수, uses/run 중 정확히 하나, with 값은 스칼라
+ */
+function parseSetupSteps(raw: unknown, at: ConfigPath, issues: ConfigIssue[]): SetupStep[] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw)) {
+    pushError(issues, at, `${formatConfigPath(at)}: 배열이어야 합니다.`);
+    return undefined;
+  }
+
+  const steps: SetupStep[] = [];
+  raw.forEach((rawStep: unknown, i) => {
+    const stepAt: ConfigPath = [...at, i];
+    const label = formatConfigPath(stepAt);
+    if (typeof rawStep !== 'object' || rawStep === null || Array.isArray(rawStep)) {
+      pushError(issues, stepAt, `${label}: 객체여야 합니다 (name과 uses 또는 run 지정).`);
+      return;
+    }
+    const obj = rawStep as Record<string, unknown>;
+
+    if (typeof obj.name !== 'string' || !obj.name.trim()) {
+      pushError(issues, [...stepAt, 'name'], `${label}.name은 필수입니다.`);
+    }
+    for (const key of ['uses', 'run'] as const) {
+      if (obj[key] !== undefined && obj[key] !== null && (typeof obj[key] !== 'string' || !obj[key].trim())) {
+        pushError(issues, [...stepAt, key], `${label}.${key}: 비어 있지 않은 문자열이어야 합니다.`);
+      }
+    }
+    const hasUses = obj.uses !== undefined && obj.uses !== null;
+    const hasRun = obj.run !== undefined && obj.run !== null;
+    if (hasUses && hasRun) {
+      pushError(issues, stepAt, `${label}: uses와 run 중 하나만 지정해야 합니다.`);
+    } else if (!hasUses && !hasRun) {
+      pushError(issues, stepAt, `${label}: uses 또는 run 중 하나를 지정해야 합니다.`);
+    }
+
+    let withInputs: Record<string, string> | undefined;
+    if (obj.with !== undefined && obj.with !== null) {
+      if (typeof obj.with !== 'object' || Array.isArray(obj.with)) {
+        pushError(issues, [...stepAt, 'with'], `${label}.with: 객체여야 합니다 (키: 값).`);
+      } else {
+        withInputs = {};
+        for (const [key, value] of Object.entries(obj.with as Record<string, unknown>)) {
+          if (!isScalar(value)) {
+            pushError(issues, [...stepAt, 'with', key], `${label}.with.${key}: 문자열, 숫자, boolean 값이어야 합니다.`);
+            continue;
+          }
+          withInputs[key] = String(value);
+        }
+      }
+    }
+
+    steps.push({
+      name: typeof obj.name === 'string' ? obj.name.trim() : '',
+      uses: typeof obj.uses === 'string' ? obj.uses.trim() : undefined,
+      run: typeof obj.run === 'string' ? obj.run : undefined,
+      with: withInputs,
+    });
+  });
+  return steps;
+}
+
+/**
+ * 매트릭스 키 (GitHub Actions matrix 키, include/exclude는 지원하지 않음)
+ */
+const MATRIX_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/**
+ * 매트릭스 최대 조합 수 (GitHub Actions 제한)
+ */
+const MAX_MATRIX_LEGS = 256;
+
+/**
+ * matrix 파싱: 키별 스칼라 값 배열
+ */
+function parseMatrix(raw: unknown, at: ConfigPath, issues: ConfigIssue[]): TestMatrix | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const label = formatConfigPath(at);
+  if (typeof raw !== 'object' || Array.isArray(raw) || Object.keys(raw).length === 0) {
+    pushError(issues, at, `${label}: 1개 이상의 키를 가진 객체여야 합니다 (예: { node: [18, 20, 22] }).`);
+    return undefined;
+  }
+
+  const matrix: TestMatrix = {};
+  for (const [key, values] of Object.entries(raw as Record<string, unknown>)) {
+    const keyAt: ConfigPath = [...at, key];
+    if (key === 'include' || key === 'exclude') {
+      pushError(issues, keyAt, `${label}.${key}: include/exclude는 지원하지 않습니다.`);
+      continue;
+    }
+    if (!MATRIX_KEY_PATTERN.test(key)) {
+      pushError(issues, keyAt, `${label}.${key}: 키는 영문자나 '_'로 시작하고 영문자/숫자/하이픈/언더스코어만 사용해야 합니다.`);
+      continue;
+    }
+    if (!Array.isArray(values) || values.length === 0) {
+      pushError(issues, keyAt, `${label}.${key}: 1개 이상의 값(문자열, 숫자, boolean) 배열이어야 합니다.`);
+      continue;
+    }
+    const parsed: (string | number | boolean)[] = [];
+    values.forEach((value: unknown, i) => {
+      if (!isScalar(value) || (typeof value === 'string' && (!value.trim() || value.includes('${{')))) {
+        pushError(issues, [...keyAt, i], `${label}.${key}[${i}]: 비어 있지 않은 문자열, 숫자, boolean이어야 합니다 ('\${{' 불가).`);
+      } else if (parsed.includes(value)) {
+        pushError(issues, [...keyAt, i], `${label}.${key}[${i}]: 중복된 값입니다: ${String(value)}`);
+      } else {
+        parsed.push(value);
+      }
+    });
+    if (parsed.length > 0) {
+      matrix[key] = parsed;
+    }
+  }
+
+  if (Object.keys(matrix).length === 0) return undefined;
+  const legs = getMatrixLegCount(matrix);
+  if (legs > MAX_MATRIX_LEGS) {
+    pushError(issues, at, `${label}: 조합이 ${legs}개입니다. 최대 ${MAX_MATRIX_LEGS}개까지 사용할 수 있습니다.`);
+  }
+  return matrix;
+}
+
+/**
+ * command/setupSteps의 \${{ matrix.<키> }}가 matrix에 있는 키인지 검사 (없는 키는 빈 문자열이 됨)
+ */
+function validateMatrixReferences(check: PrTestCheck, checkAt: ConfigPath, issues: ConfigIssue[]): void {
+  const sources: { at: ConfigPath; text: string }[] = [{ at: [...checkAt, 'command'], text: check.command }];
+  check.setupSteps?.forEach((step, i) => {
+    sources.push({ at: [...checkAt, 'setupSteps', i], text: [step.run ?? '', ...Object.values(step.with ?? {})].join('\n') });
+  });
+
+  for (const { at, text } of sources) {
+    for (const match of text.matchAll(/\$\{\{\s*matrix\.([A-Za-z0-9_-]+)/g)) {
+      if (!check.matrix || !(match[1] in check.matrix)) {
+        pushError(issues, at, `${formatConfigPath(at)}: matrix에 없는 키를 사용합니다: matrix.${match[1]}`);
+      }
+    }
+  }
+}
+
+/**
+ * runs-on 레이블/브랜치 이름 검사 (워크플로우 YAML에 따옴표 없이 들어감)
+ */
+function validateName(value: unknown, at: ConfigPath, kind: string, issues: ConfigIssue[]): value is string {
+  const label = formatConfigPath(at);
+  if (typeof value !== 'string') {
+    pushError(issues, at, `${label}: 문자열이어야 합니다. 숫자처럼 보이는 이름은 따옴표로 감싸세요.`);
+    return false;
+  }
+  if (!value.trim()) {
+    pushError(issues, at, `${label}: 비어 있을 수 없습니다.`);
+    return false;
+  }
+  if (!new RegExp(NAME_PATTERN).test(value)) {
+    pushError(issues, at, `${label}: 유효하지 않은 ${kind}입니다: '${value}' (공백, 쉼표, 따옴표, YAML 특수문자 사용 불가)`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * runner 파싱: 레이블 문자열 또는 레이블 배열 (전역 runner, 체크별 runner 공통)
+ */
+function parseRunner(
+  raw: unknown,
+  defaultValue: string | string[],
+  issues: ConfigIssue[],
+  at: ConfigPath = ['runner']
+): string | string[] {
+  if (raw === undefined || raw === null) return defaultValue;
+  const label = formatConfigPath(at);
+
+  if (typeof raw === 'string' && raw.includes(',')) {
+    pushError(
+      issues,
+      at,
+      `${label}: '${raw}'에 쉼표가 있습니다. 여러 레이블은 배열로 지정하세요 (예: [${raw.split(',').map((l) => l.trim()).join(', ')}]).`
+    );
+    return raw;
+  }
+  if (Array.isArray(raw)) {
+    if (raw.length === 0) {
+      pushError(issues, at, `${label}: 최소 1개 이상의 레이블이 필요합니다.`);
+    }
+    raw.forEach((item: unknown, i) => {
+      if (validateName(item, [...at, i], '레이블', issues) && raw.indexOf(item) !== i) {
+        pushError(issues, [...at, i], `${label}[${i}]: 중복된 레이블입니다: ${item}`);
+      }
+    });
+    return raw.map(String);
+  }
+  if (typeof raw !== 'string') {
+    pushError(issues, at, `${label}: 문자열 또는 배열이어야 합니다.`);
+    return defaultValue;
+  }
+  validateName(raw, at, '레이블', issues);
+  return raw;
+}
+
+/**
+ * timeoutMinutes 파싱: 1 이상의 정수
+ */
+function parseTimeoutMinutes(raw: unknown, at: ConfigPath, issues: ConfigIssue[]): number | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'number' || !Number.isInteger(raw) || raw < 1) {
+    pushError(issues, at, `${formatConfigPath(at)}: 1 이상의 정수(분)여야 합니다: ${String(raw)}`);
+    return undefined;
+  }
+  return raw;
+}
+
+/**
+ * env 파싱: 환경 변수 이름 → 값 (값은 문자열로 변환)
+ */
+function parseEnv(raw: unknown, at: ConfigPath, issues: ConfigIssue[]): Record<string, string> | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const label = formatConfigPath(at);
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    pushError(issues, at, `${label}: 객체여야 합니다 (예: { NODE_ENV: test }).`);
+    return undefined;
+  }
+
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!new RegExp(ENV_NAME_PATTERN).test(key)) {
+      pushError(issues, [...at, key], `${label}.${key}: 환경 변수 이름은 영문자, 숫자, 밑줄만 사용할 수 있습니다.`);
+      continue;
+    }
+    if (!isScalar(value)) {
+      pushError(issues, [...at, key], `${label}.${key}: 문자열, 숫자, boolean 값이어야 합니다.`);
+      continue;
+    }
+    env[key] = String(value);
+  }
+  return env;
+}
+
+/**
+ * secrets 파싱: Secret 이름 배열 (env와 이름이 겹치면 에러)
+ */
+function parseSecrets(
+  raw: unknown,
+  at: ConfigPath,
+  env: Record<string, string> | undefined,
+  issues: ConfigIssue[]
+): string[] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const label = formatConfigPath(at);
+  if (!Array.isArray(raw)) {
+    pushError(issues, at, `${label}: 배열이어야 합니다 (예: [NPM_TOKEN]).`);
+    return undefined;
+  }
+
+  raw.forEach((name: unknown, i) => {
+    if (typeof name !== 'string' || !new RegExp(ENV_NAME_PATTERN).test(name)) {
+      pushError(issues, [...at, i], `${label}[${i}]: Secret 이름은 영문자, 숫자, 밑줄만 사용할 수 있습니다: ${String(name)}`);
+    } else if (raw.indexOf(name) !== i) {
+      pushError(issues, [...at, i], `${label}[${i}]: 중복된 Secret입니다: ${name}`);
+    } else if (env && name in env) {
+      pushError(issues, [...at, i], `${label}[${i}]: env에 같은 이름의 환경 변수가 있습니다: ${name}`);
+    }
+  });
+  return raw.map(String);
+}
+
+/**
+ * needs 파싱: 체크 이름 배열 (없는 체크, 순환 의존성은 모든 체크를 읽은 뒤 validateCheckNeeds에서 검사)
+ */
+function parseNeeds(raw: unknown, at: ConfigPath, issues: ConfigIssue[]): string[] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const label = formatConfigPath(at);
+  if (!Array.isArray(raw) || raw.length === 0) {
+    pushError(issues, at, `${label}: 1개 이상의 체크 이름 배열이어야 합니다 (예: [lint, build]).`);
+    return undefined;
+  }
+
+  const names = raw.map((name: unknown) => (typeof name === 'string' ? name.trim() : ''));
+  names.forEach((name, i) => {
+    if (!name) {
+      pushError(issues, [...at, i], `${label}[${i}]: 체크 이름이어야 합니다: ${String(raw[i])}`);
+    } else if (names.indexOf(name) !== i) {
+      pushError(issues, [...at, i], `${label}[${i}]: 중복된 체크입니다: ${name}`);
+    }
+  });
+  return names.filter((name) => name !== '');
+}
+
+/**
+ * workingDirectory 파싱: 저장소 루트 기준 상대 경로
+ */
+function parseWorkingDirectory(raw: unknown, at: ConfigPath, issues: ConfigIssue[]): string | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const label = formatConfigPath(at);
+  const value = String(raw).trim();
+  if (!value) {
+    pushError(issues, at, `${label}: 비어 있을 수 없습니다.`);
+    return undefined;
+  }
+  if (path.posix.isAbsolute(value) || value.split('/').includes('..')) {
+    pushError(issues, at, `${label}: 저장소 루트 기준 상대 경로여야 합니다: ${value}`);
+    return undefined;
+  }
+  return value.replace(/\/+$/, '');
+}
+
+/**
+ * 글로브를 정규식으로 바꿀 수 있는지 (문자 클래스 범위가 거꾸로인 경우 등)
+ */
+function isValidPathGlob(glob: string): boolean {
+  try {
+    new RegExp(pathGlobToRegex(glob));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * paths/pathsIgnore/exclude 파싱: 저장소 루트 기준 글로브 배열
+ * @param negationHint '!' 패턴 대신 쓸 옵션 안내 (생략하면 안내 없음)
+ */
+function parsePathFilters(
+  raw: unknown,
+  at: ConfigPath,
+  issues: ConfigIssue[],
+  negationHint?: string
+): string[] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const label = formatConfigPath(at);
+  if (!Array.isArray(raw) || raw.length === 0) {
+    pushError(issues, at, `${label}: 1개 이상의 글로브 배열이어야 합니다 (예: ['src/**', 'package.json']).`);
+    return undefined;
+  }
+
+  const globs: string[] = [];
+  raw.forEach((item: unknown, i) => {
+    const glob = typeof item === 'string' ? item.trim().replace(/^\.\//, '') : '';
+    if (!glob) {
+      pushError(issues, [...at, i], `${label}[${i}]: 비어 있지 않은 문자열이어야 합니다.`);
+    } else if (glob.startsWith('!')) {
+      const hint = negationHint ? `. ${negationHint}` : '';
+      pushError(issues, [...at, i], `${label}[${i}]: '!' 제외 패턴은 지원하지 않습니다${hint}: ${glob}`);
+    } else if (glob.startsWith('/') || glob.split('/').includes('..')) {
+      pushError(issues, [...at, i], `${label}[${i}]: 저장소 루트 기준 상대 경로여야 합니다: ${glob}`);
+    } else if (glob.includes("'")) {
+      pushError(issues, [...at, i], `${label}[${i}]: 작은따옴표(')는 사용할 수 없습니다: ${glob}`);
+    } else if (!isValidPathGlob(glob)) {
+      pushError(issues, [...at, i], `${label}[${i}]: 문자 클래스가 잘못되었습니다 (예: [a-z], [!abc]): ${glob}`);
+    } else if (globs.includes(glob)) {
+      pushError(issues, [...at, i], `${label}[${i}]: 중복된 글로브입니다: ${glob}`);
+    } else {
+      globs.push(glob);
+    }
+  });
+  return globs.length > 0 ? globs : undefined;
+}
+
+/**
+ * pr-lint/pr-commits 정규식 파싱 (워크플로우에서 jq test()로 검사)
+ */
+function parsePattern(raw: unknown, at: ConfigPath, issues: ConfigIssue[]): string | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const label = formatConfigPath(at);
+  if (typeof raw !== 'string' || !raw.trim()) {
+    pushError(issues, at, `${label}: 비어 있지 않은 정규식 문자열이어야 합니다.`);
+    return undefined;
+  }
+  if (raw.includes('${{')) {
+    pushError(issues, at, `${label}: '\${{'는 사용할 수 없습니다: ${raw}`);
+    return undefined;
+  }
+  try {
+    new RegExp(raw);
+  } catch (error) {
+    pushError(issues, at, `${label}: 올바른 정규식이 아닙니다: ${(error as Error).message}`);
+    return undefined;
+  }
+  return raw;
+}
+
+/**
+ * minDescriptionLength/maxLines/maxFiles 파싱: 1 이상의 정수
+ * @param unit 에러 메시지에 표시할 단위 (예: 글자 수)
+ */
+function parsePositiveInteger(raw: unknown, at: ConfigPath, issues: ConfigIssue[], unit: string): number | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'number' || !Number.isInteger(raw) || raw < 1) {
+    pushError(issues, at, `${formatConfigPath(at)}: 1 이상의 정수(${unit})여야 합니다: ${String(raw)}`);
+    return undefined;
+  }
+  return raw;
+}
+
+/**
+ * requiredSections 파싱: PR 본문 heading 이름 배열 (앞의 '#'은 제거)
+ */
+function parseRequiredSections(raw: unknown, at: ConfigPath, issues: ConfigIssue[]): string[] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const label = formatConfigPath(at);
+  if (!Array.isArray(raw) || raw.length === 0) {
+    pushError(issues, at, `${label}: 1개 이상의 섹션 이름 배열이어야 합니다 (예: [Summary, Test plan]).`);
+    return undefined;
+  }
+
+  const sections: string[] = [];
+  raw.forEach((item: unknown, i) => {
+    const section = typeof item === 'string' ? item.replace(/^\s*#+/, '').trim() : '';
+    if (!section) {
+      pushError(issues, [...at, i], `${label}[${i}]: 비어 있지 않은 문자열이어야 합니다.`);
+    } else if (sections.some((s) => s.toLowerCase() === section.toLowerCase())) {
+      // 워크플로우는 대소문자를 무시하고 비교하므로 중복도 같은 기준으로 판단
+      pushError(issues, [...at, i], `${label}[${i}]: 중복된 섹션입니다: ${section}`);
+    } else {
+      sections.push(section);
+    }
+  });
+  return sections;
+}
+
+/**
+ * allowedEmailDomains 파싱: 도메인 배열 (앞의 '@'는 제거하고 소문자로 비교)
+ */
+function parseEmailDomains(raw: unknown, at: ConfigPath, issues: ConfigIssue[]): string[] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const label = formatConfigPath(at);
+  if (!Array.isArray(raw) || raw.length === 0) {
+    pushError(issues, at, `${label}: 1개 이상의 도메인 배열이어야 합니다 (예: [example.com]).`);
+    return undefined;
+  }
+
+  const domains: string[] = [];
+  raw.forEach((item: unknown, i) => {
+    const domain = typeof item === 'string' ? item.trim().replace(/^@/, '').toLowerCase() : '';
+    if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain)) {
+      pushError(issues, [...at, i], `${label}[${i}]: 올바른 도메인이 아닙니다: ${String(item)}`);
+    } else if (domains.includes(domain)) {
+      pushError(issues, [...at, i], `${label}[${i}]: 중복된 도메인입니다: ${domain}`);
+    } else {
+      domains.push(domain);
+    }
+  });
+  return domains.length > 0 ? domains : undefined;
+}
+
+/**
+ * requiredLabels/forbiddenLabels 파싱: 라벨 패턴 배열 ('*' 와일드카드, 대소문자 무시하고 중복 검사)
+ */
+function parseLabelPatterns(raw: unknown, at: ConfigPath, issues: ConfigIssue[]): string[] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const label = formatConfigPath(at);
+  if (!Array.isArray(raw) || raw.length === 0) {
+    pushError(issues, at, `${label}: 1개 이상의 라벨 배열이어야 합니다 (예: [do-not-merge, 'type/*']).`);
+    return undefined;
+  }
+
+  const patterns: string[] = [];
+  raw.forEach((item: unknown, i) => {
+    const pattern = typeof item === 'string' ? item.trim() : '';
+    if (!pattern) {
+      pushError(issues, [...at, i], `${label}[${i}]: 비어 있지 않은 문자열이어야 합니다.`);
+    } else if (pattern.includes('${{')) {
+      pushError(issues, [...at, i], `${label}[${i}]: '\${{'는 사용할 수 없습니다: ${pattern}`);
+    } else if (patterns.some((p) => p.toLowerCase() === pattern.toLowerCase())) {
+      pushError(issues, [...at, i], `${label}[${i}]: 중복된 라벨입니다: ${pattern}`);
+    } else {
+      patterns.push(pattern);
+    }
+  });
+  return patterns.length > 0 ? patterns : undefined;
+}
+
+/**
+ * exclusiveLabels 파싱: 라벨 패턴 그룹 배열
+ * 패턴이 하나인 그룹은 와일드카드가 있어야 의미가 있음 (예: ['priority/*'])
+ */
+function parseExclusiveLabels(raw: unknown, at: ConfigPath, issues: ConfigIssue[]): string[][] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const label = formatConfigPath(at);
+  if (!Array.isArray(raw) || raw.length === 0) {
+    pushError(issues, at, `${label}: 1개 이상의 라벨 그룹 배열이어야 합니다 (예: [[priority/high, priority/low]]).`);
+    return undefined;
+  }
+
+  const groups: string[][] = [];
+  raw.forEach((item: unknown, i) => {
+    const group = parseLabelPatterns(item ?? [], [...at, i], issues);
+    if (!group) return;
+    if (group.length === 1 && !group[0].includes('*')) {
+      pushError(
+        issues,
+        [...at, i],
+        `${label}[${i}]: 라벨이 하나인 그룹은 '*' 패턴이어야 합니다 (예: ['priority/*']): ${group[0]}`
+      );
+      return;
+    }
+    groups.push(group);
+  });
+  return groups.length > 0 ? groups : undefined;
+}
+
+/**
+ * branches 파싱: 브랜치 이름 배열
+ */
+function parseBranches(raw: unknown, defaultValue: string[], issues: ConfigIssue[]): string[] {
+  if (raw === undefined || raw === null) return defaultValue;
+  if (!Array.isArray(raw)) {
+    pushError(issues, ['branches'], 'branches: 배열이어야 합니다 (예: [main]).');
+    return defaultValue;
+  }
+  raw.forEach((branch: unknown, i) => {
+    if (validateName(branch, ['branches', i], '브랜치 이름', issues) && raw.indexOf(branch) !== i) {
+      pushError(issues, ['branches', i], `branches[${i}]: 중복된 브랜치입니다: ${branch}`);
+    }
+  });
+  return raw.map(String);
+}
+
+/**
+ * 개별 체크 파싱 + 체크 단위 검증
+ * 문제가 있어도 가능한 한 끝까지 검사해서 issues에 모두 기록
+ * type을 알 수 없으면 undefined 반환
+ */
+function parseCheck(rawCheck: Record<string, unknown>, checkAt: ConfigPath, issues: ConfigIssue[]): Check | undefined {
+  const at = (field: string): ConfigPath => [...checkAt, field];
+  const label = formatConfigPath(checkAt);
   const type = rawCheck.type as string;
 
   if (!type) {
-    throw new Error(`checks[${index}].type은 필수입니다.`);
+    pushError(issues, at('type'), `${label}.type은 필수입니다.`);
   }
 
   const name = rawCheck.name as string | undefined;
   if (!name || !name.trim()) {
-    throw new Error(`checks[${index}].name은 필수입니다.`);
-  }
-
-  // name 패턴 검증: bash 변수명으로도 사용되므로 소문자로 시작해야 함
-  const namePattern = /^[a-z][a-z0-9_-]*$/;
-  if (!namePattern.test(name.trim())) {
-    throw new Error(
-      `checks[${index}].name: '${name}'은 유효하지 않습니다. ` +
+    pushError(issues, at('name'), `${label}.name은 필수입니다.`);
+  } else if (!new RegExp(CHECK_NAME_PATTERN).test(name.trim())) {
+    // name 패턴 검증: bash 변수명으로도 사용되므로 소문자로 시작해야 함
+    pushError(
+      issues,
+      at('name'),
+      `${label}.name: '${name}'은 유효하지 않습니다. ` +
         `소문자로 시작하고, 소문자/숫자/하이픈/언더스코어만 사용해야 합니다.`
     );
   }
 
   const trigger = rawCheck.trigger as string | undefined;
   if (!trigger || !trigger.trim()) {
-    throw new Error(`checks[${index}].trigger는 필수입니다.`);
+    pushError(issues, at('trigger'), `${label}.trigger는 필수입니다.`);
+  } else if (!trigger.trim().startsWith('/')) {
+    pushError(issues, at('trigger'), `${label}.trigger는 '/'로 시작해야 합니다: ${trigger.trim()}`);
   }
 
+  const env = parseEnv(rawCheck.env, at('env'), issues);
   const baseCheck = {
-    name: name.trim(),
-    trigger: trigger.trim(),
-    mustRun: parseBoolean(rawCheck.mustRun, true),
-    mustPass: parseBoolean(rawCheck.mustPass, false),
-    autoRunOn: rawCheck.autoRunOn as PullRequestAction[] | undefined,
+    name: name?.trim() ?? '',
+    trigger: trigger?.trim() ?? '',
+    mustRun: parseBoolean(rawCheck.mustRun, true, issues, at('mustRun')),
+    mustPass: parseBoolean(rawCheck.mustPass, false, issues, at('mustPass')),
+    autoRunOn: parseAutoRunOn(rawCheck.autoRunOn, at('autoRunOn'), issues),
+    runner:
+      rawCheck.runner === undefined || rawCheck.runner === null
+        ? undefined
+        : parseRunner(rawCheck.runner, '', issues, at('runner')),
+    timeoutMinutes: parseTimeoutMinutes(rawCheck.timeoutMinutes, at('timeoutMinutes'), issues),
+    env,
+    secrets: parseSecrets(rawCheck.secrets, at('secrets'), env, issues),
+    paths: parsePathFilters(rawCheck.paths, at('paths'), issues, 'pathsIgnore를 사용하세요'),
+    pathsIgnore: parsePathFilters(rawCheck.pathsIgnore, at('pathsIgnore'), issues, 'pathsIgnore를 사용하세요'),
+    needs: parseNeeds(rawCheck.needs, at('needs'), issues),
   };
 
   if (type === 'pr-test') {
     const command = rawCheck.command as string | undefined;
     if (!command || !command.trim()) {
-      throw new Error(`checks[${index}].command는 필수입니다.`);
+      pushError(issues, at('command'), `${label}.command는 필수입니다.`);
     }
     const check: PrTestCheck = {
       ...baseCheck,
       type: 'pr-test',
-      command: command.trim(),
+      command: command?.trim() ?? '',
       framework: rawCheck.framework as TestFramework | undefined,
-      setupSteps: rawCheck.setupSteps as SetupStep[] | undefined,
+      setupSteps: parseSetupSteps(rawCheck.setupSteps, at('setupSteps'), issues),
+      workingDirectory: parseWorkingDirectory(rawCheck.workingDirectory, at('workingDirectory'), issues),
+      matrix: parseMatrix(rawCheck.matrix, at('matrix'), issues),
+    };
+    validateMatrixReferences(check, checkAt, issues);
+    // matrix.os는 runs-on으로 사용
+    if (check.matrix?.os && baseCheck.runner !== undefined) {
+      pushError(issues, at('runner'), `${label}.runner: matrix.os와 함께 사용할 수 없습니다 (matrix.os가 runs-on이 됨).`);
+    }
+    if (check.framework) {
+      if (!TEST_FRAMEWORKS.includes(check.framework)) {
+        pushError(issues, at('framework'), `${label}.framework: 지원하지 않는 프레임워크입니다: ${check.framework}`);
+      } else if (!check.setupSteps) {
+        pushDeprecation(
+          issues,
+          at('framework'),
+          `'${check.name}' 체크의 'framework' 옵션은 deprecated입니다. create-pr-checks migrate로 setupSteps로 바꾸세요.`
+        );
+      }
+    }
+    return check;
+  }
+
+  if (type === 'pr-script') {
+    const command = rawCheck.command as string | undefined;
+    if (!command || !command.trim()) {
+      pushError(issues, at('command'), `${label}.command는 필수입니다.`);
+    }
+    const check: PrScriptCheck = {
+      ...baseCheck,
+      type: 'pr-script',
+      command: command?.trim() ?? '',
+      setupSteps: parseSetupSteps(rawCheck.setupSteps, at('setupSteps'), issues),
+      workingDirectory: parseWorkingDirectory(rawCheck.workingDirectory, at('workingDirectory'), issues),
     };
     return check;
   }
@@ -205,140 +885,580 @@ function parseCheck(rawCheck: Record<string, unknown>, index: number): Check {
       cliCommand: provider === 'cli' ? (parseString(rawCheck.cliCommand, '').trim() || undefined) : undefined,
       customRules: rawCheck.customRules as string | undefined,
     };
+
+    if (!AI_PROVIDERS.includes(check.provider)) {
+      pushError(issues, at('provider'), `${label}.provider: 지원하지 않는 프로바이더입니다: ${check.provider}`);
+    }
+    if (check.provider === 'bedrock') {
+      if (!check.model?.trim()) {
+        pushError(issues, at('model'), `${label}.model은 bedrock provider에서 필수입니다.`);
+      }
+      if (!check.apiKeySecret?.trim()) {
+        pushError(issues, at('apiKeySecret'), `${label}.apiKeySecret은 bedrock provider에서 필수입니다.`);
+      }
+    }
+    if (check.provider === 'cli') {
+      // cliCommand가 있으면 cliTool 불필요
+      if (!check.cliCommand) {
+        if (!check.cliTool || !CLI_TOOLS.includes(check.cliTool)) {
+          pushError(
+            issues,
+            at('cliTool'),
+            `${label}.cliTool: cli provider에서는 ${CLI_TOOLS.join(', ')} 중 하나를 지정하거나 cliCommand를 사용해야 합니다.`
+          );
+        }
+      }
+    }
+    return check;
+  }
+
+  if (type === 'pr-lint') {
+    const check: PrLintCheck = {
+      ...baseCheck,
+      type: 'pr-lint',
+      titlePattern: parsePattern(rawCheck.titlePattern, at('titlePattern'), issues),
+      conventionalCommits:
+        rawCheck.conventionalCommits === undefined || rawCheck.conventionalCommits === null
+          ? undefined
+          : parseBoolean(rawCheck.conventionalCommits, false, issues, at('conventionalCommits')),
+      issueKeyPattern: parsePattern(rawCheck.issueKeyPattern, at('issueKeyPattern'), issues),
+      minDescriptionLength: parsePositiveInteger(rawCheck.minDescriptionLength, at('minDescriptionLength'), issues, '글자 수'),
+      requiredSections: parseRequiredSections(rawCheck.requiredSections, at('requiredSections'), issues),
+    };
+
+    // conventionalCommits: false만 있으면 검사할 규칙이 없음
+    const rules = ['titlePattern', 'conventionalCommits', 'issueKeyPattern', 'minDescriptionLength', 'requiredSections'];
+    const isUnset = (rule: string) =>
+      rawCheck[rule] === undefined || rawCheck[rule] === null || (rule === 'conventionalCommits' && !check.conventionalCommits);
+    if (rules.every(isUnset)) {
+      pushError(issues, checkAt, `${label}: pr-lint 체크에는 ${rules.join(', ')} 중 하나 이상이 필요합니다.`);
+    }
+    return check;
+  }
+
+  if (type === 'pr-commits') {
+    const optionalBoolean = (field: string) =>
+      rawCheck[field] === undefined || rawCheck[field] === null
+        ? undefined
+        : parseBoolean(rawCheck[field], false, issues, at(field));
+    const check: PrCommitsCheck = {
+      ...baseCheck,
+      type: 'pr-commits',
+      conventionalCommits: optionalBoolean('conventionalCommits'),
+      messagePattern: parsePattern(rawCheck.messagePattern, at('messagePattern'), issues),
+      noFixup: optionalBoolean('noFixup'),
+      requireSignOff: optionalBoolean('requireSignOff'),
+      allowedEmailDomains: parseEmailDomains(rawCheck.allowedEmailDomains, at('allowedEmailDomains'), issues),
+    };
+
+    // false로 끈 규칙만 있으면 검사할 규칙이 없음
+    const rules = ['conventionalCommits', 'messagePattern', 'noFixup', 'requireSignOff', 'allowedEmailDomains'] as const;
+    const isUnset = (rule: (typeof rules)[number]) =>
+      rawCheck[rule] === undefined || rawCheck[rule] === null || check[rule] === false;
+    if (rules.every(isUnset)) {
+      pushError(issues, checkAt, `${label}: pr-commits 체크에는 ${rules.join(', ')} 중 하나 이상이 필요합니다.`);
+    }
+    return check;
+  }
+
+  if (type === 'pr-labels') {
+    const check: PrLabelsCheck = {
+      ...baseCheck,
+      type: 'pr-labels',
+      requiredLabels: parseLabelPatterns(rawCheck.requiredLabels, at('requiredLabels'), issues),
+      forbiddenLabels: parseLabelPatterns(rawCheck.forbiddenLabels, at('forbiddenLabels'), issues),
+      exclusiveLabels: parseExclusiveLabels(rawCheck.exclusiveLabels, at('exclusiveLabels'), issues),
+    };
+
+    const rules = ['requiredLabels', 'forbiddenLabels', 'exclusiveLabels'];
+    if (rules.every((rule) => rawCheck[rule] === undefined || rawCheck[rule] === null)) {
+      pushError(issues, checkAt, `${label}: pr-labels 체크에는 ${rules.join(', ')} 중 하나 이상이 필요합니다.`);
+    }
     return check;
   }
 
-  throw new Error(`checks[${index}].type: 지원하지 않는 타입입니다: ${type}`);
+  if (type === 'pr-size') {
+    const onExceed = rawCheck.onExceed as PrSizeExceedAction | undefined;
+    const check: PrSizeCheck = {
+      ...baseCheck,
+      type: 'pr-size',
+      maxLines: parsePositiveInteger(rawCheck.maxLines, at('maxLines'), issues, '줄 수'),
+      maxFiles: parsePositiveInteger(rawCheck.maxFiles, at('maxFiles'), issues, '파일 수'),
+      onExceed: onExceed ?? undefined,
+      exclude: parsePathFilters(rawCheck.exclude, at('exclude'), issues),
+      sizeLabels:
+        rawCheck.sizeLabels === undefined || rawCheck.sizeLabels === null
+          ? undefined
+          : parseBoolean(rawCheck.sizeLabels, true, issues, at('sizeLabels')),
+    };
+    if (onExceed !== undefined && onExceed !== null && !PR_SIZE_EXCEED_ACTIONS.includes(onExceed)) {
+      pushError(
+        issues,
+        at('onExceed'),
+        `${label}.onExceed: ${PR_SIZE_EXCEED_ACTIONS.join(', ')} 중 하나여야 합니다: ${String(onExceed)}`
+      );
+    }
+    return check;
+  }
+
+  if (type) {
+    pushError(issues, at('type'), `${label}.type: 지원하지 않는 타입입니다: ${type}`);
+  }
+  return undefined;
 }
 
-function mergeWithDefaults(parsed: Record<string, unknown>): InputConfig {
-  const defaults = DEFAULT_INPUT_CONFIG;
+/**
+ * 위치 정보가 있는 체크 (이름/트리거 중복 검사용)
+ */
+interface LocatedCheck {
+  check: Check;
+  at: ConfigPath;
+}
 
-  // checks 배열 파싱
-  let checks: Check[];
-  if (Array.isArray(parsed.checks) && parsed.checks.length > 0) {
-    checks = parsed.checks.map((rawCheck, index) => {
-      if (typeof rawCheck !== 'object' || rawCheck === null) {
-        throw new Error(`checks[${index}]는 객체여야 합니다.`);
+/**
+ * checks 배열 파싱
+ * 프로젝트 체크는 이름에 프로젝트 이름을 붙이고 pr-test 작업 디렉토리와 paths/pathsIgnore/exclude를 프로젝트 기준으로 바꿈
+ */
+function parseChecks(rawChecks: unknown[], at: ConfigPath, issues: ConfigIssue[], project?: ProjectConfig): LocatedCheck[] {
+  const located: LocatedCheck[] = [];
+
+  rawChecks.forEach((rawCheck, index) => {
+    const checkAt: ConfigPath = [...at, index];
+    if (typeof rawCheck !== 'object' || rawCheck === null || Array.isArray(rawCheck)) {
+      pushError(issues, checkAt, `${formatConfigPath(checkAt)}는 객체여야 합니다.`);
+      return;
+    }
+    const check = parseCheck(rawCheck as Record<string, unknown>, checkAt, issues);
+    if (!check) return;
+
+    if (project) {
+      check.project = project.name;
+      check.name = `${project.name}/${check.name}`;
+      if (isPrTestCheck(check) || isPrScriptCheck(check)) {
+        check.workingDirectory = path.posix.join(project.path, check.workingDirectory ?? '');
+      }
+      check.paths = check.paths?.map((glob) => `${project.path}/${glob}`);
+      check.pathsIgnore = check.pathsIgnore?.map((glob) => `${project.path}/${glob}`);
+      if (isPrSizeCheck(check)) {
+        check.exclude = check.exclude?.map((glob) => `${project.path}/${glob}`);
       }
-      return parseCheck(rawCheck as Record<string, unknown>, index);
+    }
+    located.push({ check, at: checkAt });
+  });
+
+  return located;
+}
+
+/**
+ * 체크 이름/job ID/트리거 중복 검사 (전역 checks와 프로젝트 체크 전체)
+ */
+function validateUniqueChecks(located: LocatedCheck[], issues: ConfigIssue[]): void {
+  const names = new Set<string>();
+  const jobIds = new Map<string, string>();
+  const triggers = new Set<string>();
+
+  for (const { check, at } of located) {
+    if (check.name) {
+      const jobId = getCheckJobId(check);
+      if (names.has(check.name)) {
+        pushError(issues, [...at, 'name'], `중복된 체크 이름입니다: ${check.name}`);
+      } else if (jobIds.has(jobId)) {
+        pushError(issues, [...at, 'name'], `'${check.name}' 체크의 job ID가 '${jobIds.get(jobId)}' 체크와 같습니다: ${jobId}`);
+      }
+      names.add(check.name);
+      jobIds.set(jobId, jobIds.get(jobId) ?? check.name);
+
+      // 매트릭스 pr-test는 결과 종합 job도 만듦
+      if (isPrTestCheck(check) && check.matrix) {
+        const reportJobId = getMatrixReportJobId(check);
+        if (jobIds.has(reportJobId)) {
+          pushError(
+            issues,
+            [...at, 'name'],
+            `'${check.name}' 체크의 매트릭스 결과 job ID가 '${jobIds.get(reportJobId)}' 체크와 같습니다: ${reportJobId}`
+          );
+        }
+        jobIds.set(reportJobId, jobIds.get(reportJobId) ?? check.name);
+      }
+    }
+    if (check.trigger) {
+      if (triggers.has(check.trigger)) {
+        pushError(issues, [...at, 'trigger'], `중복된 트리거입니다: ${check.trigger}`);
+      }
+      triggers.add(check.trigger);
+    }
+  }
+}
+
+/**
+ * needs 검사: 없는 체크, 자기 자신, 순환 의존성
+ * 프로젝트 체크의 needs는 같은 프로젝트의 체크('프로젝트/이름')를 먼저 찾고, 찾은 전체 이름으로 바꿈
+ */
+function validateCheckNeeds(located: LocatedCheck[], issues: ConfigIssue[]): void {
+  const byName = new Map(located.map((entry) => [entry.check.name, entry]));
+
+  for (const { check, at } of located) {
+    if (!check.needs) continue;
+    const label = formatConfigPath([...at, 'needs']);
+    const resolvedNames = new Set<string>();
+    check.needs = check.needs.map((name, i) => {
+      const resolved = check.project && byName.has(`${check.project}/${name}`) ? `${check.project}/${name}` : name;
+      // 'test'와 'api/test'처럼 다르게 적은 같은 체크
+      if (resolvedNames.has(resolved) && !check.needs!.slice(0, i).includes(name)) {
+        pushError(issues, [...at, 'needs', i], `${label}[${i}]: 중복된 체크입니다: ${name}`);
+      }
+      resolvedNames.add(resolved);
+      if (!byName.has(resolved)) {
+        pushError(issues, [...at, 'needs', i], `${label}[${i}]: 없는 체크입니다: ${name}`);
+      } else if (resolved === check.name) {
+        pushError(issues, [...at, 'needs', i], `${label}[${i}]: 자기 자신은 needs에 넣을 수 없습니다.`);
+      }
+      return resolved;
     });
-  } else {
-    checks = structuredClone(defaults.checks);
   }
 
-  // runner 파싱: 문자열 또는 배열
-  let runner: string | string[];
-  if (parsed.runner === undefined || parsed.runner === null) {
-    runner = defaults.runner;
-  } else if (Array.isArray(parsed.runner)) {
-    runner = parsed.runner.map(String);
-  } else {
-    runner = String(parsed.runner);
+  // 순환 의존성: 순환을 닫는 체크의 needs에 보고 (순환마다 한 번)
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (name: string, path: string[]): void => {
+    if (state.get(name) === 'done') return;
+    if (state.get(name) === 'visiting') {
+      const { at } = byName.get(path[path.length - 1])!;
+      const cycle = [...path.slice(path.indexOf(name)), name];
+      pushError(issues, [...at, 'needs'], `${formatConfigPath([...at, 'needs'])}: 순환 의존성입니다: ${cycle.join(' → ')}`);
+      return;
+    }
+    state.set(name, 'visiting');
+    for (const dependency of byName.get(name)?.check.needs ?? []) {
+      if (dependency !== name && byName.has(dependency)) {
+        visit(dependency, [...path, name]);
+      }
+    }
+    state.set(name, 'done');
+  };
+  for (const name of byName.keys()) {
+    visit(name, []);
+  }
+}
+
+/**
+ * version 3 전 설정: needs가 없는 pr-review에 필수 pr-test/크기 초과 시 실패하는 pr-size를 needs로 추가
+ * 이전에는 ciTrigger로 실행할 때만 필수 pr-test 성공을 기다렸지만, needs는 개별 트리거와 자동 실행에서도 기다리고
+ * 실패하면 'Blocked by'로 실패하므로 동작이 바뀐다는 경고를 남김 (validate/doctor에서 migrate 안내)
+ */
+function applyLegacyReviewNeeds(located: LocatedCheck[], version: number | undefined, issues: ConfigIssue[]): void {
+  if ((version ?? 1) >= 3) return;
+  const checks = located.map(({ check }) => check);
+  for (const { check, at } of located) {
+    if (isPrReviewCheck(check) && !check.needs) {
+      const needs = getLegacyReviewNeeds(check, checks);
+      if (needs.length > 0) {
+        check.needs = needs;
+        pushDeprecation(
+          issues,
+          at,
+          `${formatConfigPath(at)}: version ${version ?? 1} 설정이라 needs가 없는 pr-review가 ${needs.join(', ')}를 기다립니다. ` +
+            `ciTrigger뿐 아니라 개별 트리거와 자동 실행에서도 기다리고, 실패하면 'Blocked by'로 실패합니다. ` +
+            `create-pr-checks migrate로 needs를 명시하세요.`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * projects 파싱: 프로젝트 목록을 반환하고 프로젝트 체크는 located에 추가
+ */
+function parseProjects(raw: unknown, issues: ConfigIssue[], located: LocatedCheck[]): ProjectConfig[] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw)) {
+    pushError(issues, ['projects'], 'projects: 배열이어야 합니다 (예: [{ path: services/api, checks: [...] }]).');
+    return undefined;
   }
 
+  const projects: ProjectConfig[] = [];
+  raw.forEach((rawProject: unknown, index) => {
+    const at: ConfigPath = ['projects', index];
+    const label = formatConfigPath(at);
+    if (typeof rawProject !== 'object' || rawProject === null || Array.isArray(rawProject)) {
+      pushError(issues, at, `${label}: 객체여야 합니다 (path와 checks 지정).`);
+      return;
+    }
+    const obj = rawProject as Record<string, unknown>;
+
+    let projectPath: string | undefined;
+    if (obj.path === undefined || obj.path === null) {
+      pushError(issues, [...at, 'path'], `${label}.path는 필수입니다.`);
+    } else if (!new RegExp(PROJECT_PATH_PATTERN).test(String(obj.path).trim())) {
+      pushError(
+        issues,
+        [...at, 'path'],
+        `${label}.path: 영문자, 숫자, . _ - @ +로 된 디렉토리 경로여야 합니다: ${String(obj.path)}`
+      );
+    } else {
+      projectPath = parseWorkingDirectory(obj.path, [...at, 'path'], issues);
+    }
+
+    const name = obj.name === undefined || obj.name === null ? projectPath?.split('/').pop() : String(obj.name).trim();
+    if (name !== undefined && !new RegExp(CHECK_NAME_PATTERN).test(name)) {
+      pushError(
+        issues,
+        [...at, 'name'],
+        `${label}.name: '${name}'은 유효하지 않습니다. 소문자로 시작하고, 소문자/숫자/하이픈/언더스코어만 사용해야 합니다.` +
+          (obj.name === undefined || obj.name === null ? ' path와 다른 이름은 name으로 지정하세요.' : '')
+      );
+    } else if (name !== undefined && projects.some((project) => project.name === name)) {
+      pushError(issues, [...at, 'name'], `${label}.name: 중복된 프로젝트 이름입니다: ${name}`);
+    }
+
+    if (!Array.isArray(obj.checks) || obj.checks.length === 0) {
+      pushError(issues, [...at, 'checks'], `${label}.checks는 최소 1개 이상이어야 합니다.`);
+    }
+    if (!projectPath || !name) return;
+
+    const project: ProjectConfig = { name, path: projectPath };
+    projects.push(project);
+    if (Array.isArray(obj.checks)) {
+      located.push(...parseChecks(obj.checks, [...at, 'checks'], issues, project));
+    }
+  });
+  return projects;
+}
+
+function mergeWithDefaults(parsed: Record<string, unknown>, issues: ConfigIssue[]): InputConfig {
+  const defaults = DEFAULT_INPUT_CONFIG;
+
+  // checks 배열 파싱 (projects만 있으면 기본 체크를 추가하지 않음)
+  const located: LocatedCheck[] = [];
+  if (Array.isArray(parsed.checks) && parsed.checks.length > 0) {
+    located.push(...parseChecks(parsed.checks, ['checks'], issues));
+  } else if (parsed.projects === undefined || parsed.projects === null) {
+    located.push(...structuredClone(defaults.checks).map((check) => ({ check, at: ['checks'] })));
+  }
+  const projects = parseProjects(parsed.projects, issues, located);
+  validateUniqueChecks(located, issues);
+  validateCheckNeeds(located, issues);
+  const checks = located.map(({ check }) => check);
+  const version = parseVersion(parsed.version, issues);
+  applyLegacyReviewNeeds(located, version, issues);
+
   return {
-    platform: parsePlatform(parsed.platform, defaults.platform),
-    runner,
+    version,
+    platform: parsePlatform(parsed.platform, defaults.platform, issues),
+    runner: parseRunner(parsed.runner, defaults.runner, issues),
     checks,
+    projects,
     ciTrigger: parseString(parsed.ciTrigger, defaults.ciTrigger),
-    generateApprovalOverride: parseBoolean(parsed.generateApprovalOverride, defaults.generateApprovalOverride),
-    branches: Array.isArray(parsed.branches) ? parsed.branches.map(String) : defaults.branches,
+    generateApprovalOverride: parseBoolean(
+      parsed.generateApprovalOverride,
+      defaults.generateApprovalOverride,
+      issues,
+      ['generateApprovalOverride']
+    ),
+    branches: parseBranches(parsed.branches, defaults.branches, issues),
     selfHosted: parseSelfHostedConfig(parsed.selfHosted),
     guideMessage: parsed.guideMessage as string | undefined,
   };
 }
 
-function validateConfig(config: InputConfig): void {
+/**
+ * version 파싱: 이 패키지가 지원하는 버전보다 높으면 에러 (새 형식을 잘못 해석하지 않도록)
+ */
+function parseVersion(raw: unknown, issues: ConfigIssue[]): number | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'number' || !Number.isInteger(raw) || raw < 1) {
+    pushError(issues, ['version'], `version: 1 이상의 정수여야 합니다: ${String(raw)}`);
+    return undefined;
+  }
+  if (raw > CONFIG_VERSION) {
+    pushError(
+      issues,
+      ['version'],
+      `version: 설정 파일 버전(${raw})이 이 create-pr-checks가 지원하는 버전(${CONFIG_VERSION})보다 높습니다. create-pr-checks를 업데이트하세요.`
+    );
+  }
+  return raw;
+}
+
+/**
+ * 전역 설정 검증 (체크 단위 검증은 parseCheck에서 수행)
+ */
+function validateConfig(config: InputConfig, issues: ConfigIssue[]): void {
   // checks 배열 검증
-  if (config.checks.length === 0) {
-    throw new Error('checks는 최소 1개 이상이어야 합니다.');
+  if (config.checks.length === 0 && !issues.some((issue) => issue.path[0] === 'checks' || issue.path[0] === 'projects')) {
+    pushError(issues, ['checks'], 'checks는 최소 1개 이상이어야 합니다.');
   }
 
-  // 이름 중복 검사
-  const names = new Set<string>();
-  for (const check of config.checks) {
-    if (names.has(check.name)) {
-      throw new Error(`중복된 체크 이름입니다: ${check.name}`);
-    }
-    names.add(check.name);
+  // ciTrigger가 개별 트리거와 중복되지 않는지 확인
+  if (config.checks.some((check) => check.trigger === config.ciTrigger)) {
+    pushError(issues, ['ciTrigger'], `ciTrigger(${config.ciTrigger})가 개별 체크 트리거와 중복됩니다.`);
   }
 
-  // 트리거 중복 검사
-  const triggers = new Set<string>();
-  for (const check of config.checks) {
-    if (triggers.has(check.trigger)) {
-      throw new Error(`중복된 트리거입니다: ${check.trigger}`);
-    }
-    triggers.add(check.trigger);
+  // ciTrigger 검증
+  if (!config.ciTrigger.startsWith('/')) {
+    pushError(issues, ['ciTrigger'], `ciTrigger는 '/'로 시작해야 합니다: ${config.ciTrigger}`);
   }
 
-  // ciTrigger가 개별 트리거와 중복되지 않는지 확인
-  if (triggers.has(config.ciTrigger)) {
-    throw new Error(`ciTrigger(${config.ciTrigger})가 개별 체크 트리거와 중복됩니다.`);
+  // branches 검증
+  if (config.branches.length === 0) {
+    pushError(issues, ['branches'], 'branches는 최소 1개 이상이어야 합니다.');
   }
+}
 
-  // 각 체크 검증
-  for (let i = 0; i < config.checks.length; i++) {
-    const check = config.checks[i];
+/**
+ * 두 경로가 같거나 한쪽이 다른 쪽의 상위 경로인지
+ */
+function isRelatedPath(a: ConfigPath, b: ConfigPath): boolean {
+  const length = Math.min(a.length, b.length);
+  return a.slice(0, length).every((key, index) => key === b[index]);
+}
 
-    if (!check.name.trim()) {
-      throw new Error(`checks[${i}].name은 필수입니다.`);
+/**
+ * JSON Schema(config.schema.json) 검증
+ * 위 파서가 이미 더 구체적인 메시지로 보고한 위치의 문제는 제외
+ */
+function validateWithSchema(parsed: Record<string, unknown>, issues: ConfigIssue[]): void {
+  const reported = issues.map((issue) => issue.path);
+  for (const issue of validateSchema(parsed, CONFIG_SCHEMA)) {
+    if (!reported.some((reportedPath) => isRelatedPath(reportedPath, issue.path))) {
+      issues.push(issue);
     }
+  }
+}
+
+/**
+ * 알 수 없는 키 메시지 (편집 거리로 가장 가까운 키 제안)
+ */
+function unknownKeyMessage(configPath: ConfigPath, candidates: readonly string[]): string {
+  const key = String(configPath[configPath.length - 1]);
+  const suggestion = suggestKey(key, candidates);
+  const message = `${formatConfigPath(configPath)}: 알 수 없는 키입니다 (무시됨).`;
+  return suggestion ? `${message} 혹시 '${suggestion}'인가요?` : message;
+}
+
+/**
+ * 파서가 무시하는 키 검사 (오타, 체크 타입/provider에 적용되지 않는 키)
+ * strict면 에러, 아니면 경고
+ */
+function validateKeys(parsed: Record<string, unknown>, issues: ConfigIssue[], strict: boolean): void {
+  const push = strict ? pushError : pushWarning;
+  const topLevelKeys = Object.keys(CONFIG_SCHEMA.properties ?? {});
 
-    if (!check.trigger.startsWith('/')) {
-      throw new Error(`checks[${i}].trigger는 '/'로 시작해야 합니다: ${check.trigger}`);
+  for (const key of Object.keys(parsed)) {
+    if (!topLevelKeys.includes(key)) {
+      push(issues, [key], unknownKeyMessage([key], topLevelKeys));
     }
+  }
 
-    if (isPrTestCheck(check)) {
-      if (!check.command.trim()) {
-        throw new Error(`checks[${i}].command는 필수입니다.`);
-      }
-      if (check.framework) {
-        const validFrameworks = ['node', 'python', 'go', 'rust', 'custom'];
-        if (!validFrameworks.includes(check.framework)) {
-          throw new Error(`checks[${i}].framework: 지원하지 않는 프레임워크입니다: ${check.framework}`);
-        }
+  if (Array.isArray(parsed.checks)) {
+    validateCheckKeys(parsed.checks, ['checks'], issues, push);
+  }
+
+  if (!Array.isArray(parsed.projects)) return;
+  const projectKeys = Object.keys(CONFIG_SCHEMA.properties?.projects.items?.properties ?? {});
+  parsed.projects.forEach((rawProject: unknown, index) => {
+    if (typeof rawProject !== 'object' || rawProject === null || Array.isArray(rawProject)) return;
+    const project = rawProject as Record<string, unknown>;
+    for (const key of Object.keys(project)) {
+      if (!projectKeys.includes(key)) {
+        push(issues, ['projects', index, key], unknownKeyMessage(['projects', index, key], projectKeys));
       }
     }
+    if (Array.isArray(project.checks)) {
+      validateCheckKeys(project.checks, ['projects', index, 'checks'], issues, push);
+    }
+  });
+}
 
-    if (isPrReviewCheck(check)) {
-      const validProviders = ['bedrock', 'cli'];
-      if (!validProviders.includes(check.provider)) {
-        throw new Error(`checks[${i}].provider: 지원하지 않는 프로바이더입니다: ${check.provider}`);
+/**
+ * checks 배열 항목의 키 검사 (전역 checks, 프로젝트 checks 공통)
+ */
+function validateCheckKeys(
+  rawChecks: unknown[],
+  checksAt: ConfigPath,
+  issues: ConfigIssue[],
+  push: typeof pushError
+): void {
+  const checkKeys = Object.keys(CONFIG_SCHEMA.properties?.checks.items?.properties ?? {});
+
+  rawChecks.forEach((rawCheck: unknown, index) => {
+    if (typeof rawCheck !== 'object' || rawCheck === null || Array.isArray(rawCheck)) return;
+    const raw = rawCheck as Record<string, unknown>;
+    const type = CHECK_TYPES.find((t) => t === raw.type);
+    const provider = AI_PROVIDERS.find((p) => p === (raw.provider ?? 'bedrock'));
+
+    for (const key of Object.keys(raw)) {
+      const at: ConfigPath = [...checksAt, index, key];
+      if (!checkKeys.includes(key)) {
+        push(issues, at, unknownKeyMessage(at, checkKeys));
+        continue;
       }
-      if (check.provider === 'bedrock') {
-        if (!check.model?.trim()) {
-          throw new Error(`checks[${i}].model은 bedrock provider에서 필수입니다.`);
-        }
-        if (!check.apiKeySecret?.trim()) {
-          throw new Error(`checks[${i}].apiKeySecret은 bedrock provider에서 필수입니다.`);
-        }
+
+      // conventionalCommits처럼 여러 타입에서 사용하는 키도 있음
+      const keyTypes = CHECK_TYPES.filter((t) => CHECK_TYPE_KEYS[t].includes(key));
+      if (type && keyTypes.length > 0 && !keyTypes.includes(type)) {
+        push(issues, at, `${formatConfigPath(at)}: ${type} 체크에서는 사용하지 않는 키입니다 (무시됨).`);
+        continue;
       }
-      if (check.provider === 'cli') {
-        // cliCommand가 있으면 cliTool 불필요
-        if (!check.cliCommand) {
-          const validCliTools = ['claude', 'codex', 'gemini', 'kiro'];
-          if (!check.cliTool || !validCliTools.includes(check.cliTool)) {
-            throw new Error(`checks[${i}].cliTool: cli provider에서는 claude, codex, gemini, kiro 중 하나를 지정하거나 cliCommand를 사용해야 합니다.`);
-          }
-        }
+
+      const keyProvider = AI_PROVIDERS.find((p) => PROVIDER_KEYS[p].includes(key));
+      if (type === 'pr-review' && provider && keyProvider && keyProvider !== provider) {
+        push(issues, at, `${formatConfigPath(at)}: ${provider} provider에서는 사용하지 않는 키입니다 (무시됨).`);
       }
     }
-  }
 
-  // ciTrigger 검증
-  if (!config.ciTrigger.startsWith('/')) {
-    throw new Error(`ciTrigger는 '/'로 시작해야 합니다: ${config.ciTrigger}`);
-  }
+    if ((type !== 'pr-test' && type !== 'pr-script') || !Array.isArray(raw.setupSteps)) return;
+    raw.setupSteps.forEach((rawStep: unknown, stepIndex) => {
+      if (typeof rawStep !== 'object' || rawStep === null || Array.isArray(rawStep)) return;
+      const step = rawStep as Record<string, unknown>;
+      for (const key of Object.keys(step)) {
+        const at: ConfigPath = [...checksAt, index, 'setupSteps', stepIndex, key];
+        if (!(SETUP_STEP_KEYS as readonly string[]).includes(key)) {
+          push(issues, at, unknownKeyMessage(at, SETUP_STEP_KEYS));
+        } else if (key === 'with' && step.uses === undefined && step.run !== undefined) {
+          push(issues, at, `${formatConfigPath(at)}: run 스텝에서는 사용하지 않는 키입니다 (무시됨).`);
+        }
+      }
+    });
+  });
+}
 
-  // branches 검증
-  if (config.branches.length === 0) {
-    throw new Error('branches는 최소 1개 이상이어야 합니다.');
+/**
+ * extends를 병합한 뒤 파싱하고, 문제 위치를 병합 전 파일/경로로 되돌림
+ */
+async function parseConfigWithExtends(
+  parsed: Record<string, unknown>,
+  configPath: string,
+  strict = false
+): Promise<{ input: InputConfig; issues: ConfigIssue[] }> {
+  const issues: ConfigIssue[] = [];
+  const { merged, locate } = await resolveExtends(parsed, configPath, issues);
+
+  const parseIssues: ConfigIssue[] = [];
+  const input = parseInputConfig(merged, parseIssues, strict);
+  for (const issue of parseIssues) {
+    const origin = locate(issue.path);
+    issues.push({ ...issue, path: origin.path, source: origin.file === configPath ? undefined : origin.file });
   }
+
+  return { input, issues };
 }
 
-export async function createDefaultFiles(cwd: string): Promise<string[]> {
+/**
+ * 파싱된 config 객체를 InputConfig로 변환하고 모든 문제를 issues에 수집
+ */
+function parseInputConfig(parsed: Record<string, unknown>, issues: ConfigIssue[], strict = false): InputConfig {
+  const input = mergeWithDefaults(parsed, issues);
+  validateConfig(input, issues);
+  validateKeys(parsed, issues, strict);
+  validateWithSchema(parsed, issues);
+  return input;
+}
+
+/**
+ * 설정 파일 생성 (이미 있으면 건너뜀)
+ * @param input 기록할 설정 (기본: DEFAULT_INPUT_CONFIG)
+ */
+export async function createDefaultFiles(cwd: string, input: InputConfig = DEFAULT_INPUT_CONFIG): Promise<string[]> {
   const prChecksDir = getPrChecksDir(cwd);
 
   try {
@@ -351,9 +1471,9 @@ export async function createDefaultFiles(cwd: string): Promise<string[]> {
   const files: string[] = [];
   const configPath = path.join(prChecksDir, CONFIG_FILE);
 
-  if (!(await fs.pathExists(configPath))) {
+  if (!(await hasInputFiles(cwd))) {
     try {
-      await fs.writeFile(configPath, yaml.stringify(DEFAULT_INPUT_CONFIG), 'utf-8');
+      await fs.writeFile(configPath, renderConfigYaml(input), 'utf-8');
       files.push(path.relative(cwd, configPath));
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -363,3 +1483,33 @@ export async function createDefaultFiles(cwd: string): Promise<string[]> {
 
   return files;
 }
+
+/**
+ * 에디터 자동완성용 JSON Schema를 .pr-checks/config.schema.json에 쓰기 (항상 덮어씀)
+ * @returns cwd 기준 상대 경로
+ */
+export async function writeConfigSchemaFile(cwd: string): Promise<string> {
+  const schemaPath = path.join(getPrChecksDir(cwd), SCHEMA_FILE);
+  try {
+    await fs.outputFile(schemaPath, renderConfigSchema(), 'utf-8');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`스키마 파일 쓰기 실패: ${schemaPath}\n${errorMessage}`);
+  }
+  return path.relative(cwd, schemaPath);
+}
+
+/**
+ * 설정 파일에 스키마 지정이 있는지
+ * (config.yml: yaml-language-server 주석, config.json: $schema 키, config.ts/mjs는 defineConfig 타입 사용)
+ */
+export async function hasSchemaModeline(cwd: string): Promise<boolean> {
+  const { file: configPath } = await findConfigFile(cwd);
+  if (!configPath || isModuleConfig(configPath)) {
+    return false;
+  }
+  const content = await fs.readFile(configPath, 'utf-8');
+  return path.extname(configPath) === '.json'
+    ? content.includes('"$schema"')
+    : content.includes('yaml-language-server: $schema=');
+}
@@ -0,0 +1,127 @@
+import { createRequire } from 'node:module';
+import { pathToFileURL } from 'node:url';
+import fs from 'fs-extra';
+import path from 'path';
+import yaml from 'yaml';
+
+/**
+ * .pr-checks/에서 찾는 설정 파일 (여러 개면 앞의 파일을 사용)
+ */
+export const CONFIG_FILES = ['config.yml', 'config.json', 'config.ts', 'config.mjs'] as const;
+
+/**
+ * 코드로 작성한 설정 파일 여부 (default export를 불러옴, 줄 위치 정보 없음)
+ */
+export function isModuleConfig(file: string): boolean {
+  return ['.ts', '.mts', '.mjs', '.js'].includes(path.extname(file));
+}
+
+/**
+ * 디렉토리에 있는 설정 파일 목록 (CONFIG_FILES 순서)
+ */
+export async function findConfigFiles(dir: string): Promise<string[]> {
+  const found: string[] = [];
+  for (const file of CONFIG_FILES) {
+    const filePath = path.join(dir, file);
+    if (await fs.pathExists(filePath)) {
+      found.push(filePath);
+    }
+  }
+  return found;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+interface TsImportApi {
+  tsImport: (specifier: string, parentURL: string) => Promise<Record<string, unknown>>;
+}
+
+/**
+ * tsx의 tsImport 찾기 (설정 파일 기준 → create-pr-checks 기준 순서)
+ */
+async function loadTsImport(file: string): Promise<TsImportApi['tsImport'] | undefined> {
+  for (const from of [file, import.meta.url]) {
+    try {
+      const api = (await import(pathToFileURL(createRequire(from).resolve('tsx/esm/api')).href)) as TsImportApi;
+      return api.tsImport;
+    } catch {
+      // 다음 위치 시도
+    }
+  }
+  return undefined;
+}
+
+/**
+ * config.ts/config.mjs 불러오기
+ * .ts는 Node.js 내장 TypeScript 지원이 없으면 tsx로 불러옴
+ */
+async function importModule(file: string): Promise<Record<string, unknown>> {
+  const { mtimeMs } = await fs.stat(file);
+  // 같은 프로세스에서 수정된 파일을 다시 읽을 수 있도록 쿼리로 캐시 회피
+  const url = `${pathToFileURL(file).href}?t=${mtimeMs}`;
+
+  if (['.ts', '.mts'].includes(path.extname(file)) && !(process.features as { typescript?: unknown }).typescript) {
+    const tsImport = await loadTsImport(file);
+    if (!tsImport) {
+      throw new Error(
+        'TypeScript 설정 파일을 불러오려면 tsx가 필요합니다. npm install -D tsx로 설치하거나 Node.js 22.18 이상을 사용하세요.'
+      );
+    }
+    const loaded = await tsImport(url, import.meta.url);
+    // package.json에 "type": "module"이 없으면 CommonJS로 변환되어 default가 한 번 더 감싸짐
+    const wrapped = loaded.default as { __esModule?: boolean } | undefined;
+    return wrapped?.__esModule ? (wrapped as Record<string, unknown>) : loaded;
+  }
+  return import(url);
+}
+
+/**
+ * 설정 파일을 읽어 객체로 반환 (비어 있으면 undefined)
+ * - config.yml, config.json: YAML 파서로 파싱 (JSON은 YAML의 부분집합)
+ * - config.ts, config.mjs: default export 사용 (defineConfig로 작성)
+ */
+export async function loadConfigObject(file: string): Promise<Record<string, unknown> | undefined> {
+  const name = path.basename(file);
+
+  if (isModuleConfig(file)) {
+    let loaded: Record<string, unknown>;
+    try {
+      loaded = await importModule(file);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`${name} 불러오기 실패: ${errorMessage}\n파일 경로: ${file}`);
+    }
+    if (loaded.default === undefined) {
+      throw new Error(`${name}: default export가 없습니다. export default defineConfig({ ... }) 형식으로 작성하세요.`);
+    }
+    if (!isObject(loaded.default)) {
+      throw new Error(`${name}: default export는 객체여야 합니다.`);
+    }
+    return loaded.default;
+  }
+
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`설정 파일 읽기 실패: ${file}\n${errorMessage}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = yaml.parse(content);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`${name} 파싱 실패: ${errorMessage}\n파일 경로: ${file}`);
+  }
+  if (parsed === null || parsed === undefined) {
+    return undefined;
+  }
+  if (!isObject(parsed)) {
+    throw new Error(`${name}은 객체 형식이어야 합니다.`);
+  }
+  return parsed;
+}
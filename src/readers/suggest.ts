@@ -0,0 +1,38 @@
+/**
+ * 두 문자열의 편집 거리 (Damerau-Levenshtein, 인접 문자 교환을 1회로 계산)
+ */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * 오타로 보이는 키에 가장 가까운 후보 찾기 (대소문자 무시)
+ * 키 길이의 1/3(최소 1, 최대 3)보다 멀면 undefined
+ */
+export function suggestKey(key: string, candidates: readonly string[]): string | undefined {
+  const maxDistance = Math.min(3, Math.max(1, Math.floor(key.length / 3)));
+  let best: { candidate: string; distance: number } | undefined;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  }
+
+  return best?.candidate;
+}
@@ -0,0 +1,534 @@
+import {
+  PLATFORMS,
+  AI_PROVIDERS,
+  CLI_TOOLS,
+  TEST_FRAMEWORKS,
+  CHECK_TYPES,
+  PULL_REQUEST_ACTIONS,
+  PR_SIZE_EXCEED_ACTIONS,
+  CONFIG_VERSION,
+} from '../types/config.js';
+import type { AiProvider, CheckType } from '../types/config.js';
+import type { ConfigIssue, ConfigPath } from '../readers/diagnostics.js';
+
+export const SCHEMA_FILE = 'config.schema.json';
+
+type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+type JsonValue = string | number | boolean | null;
+
+/**
+ * 이 패키지가 사용하는 JSON Schema (draft-07) 부분집합
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  enum?: readonly JsonValue[];
+  const?: JsonValue;
+  pattern?: string;
+  minLength?: number;
+  minimum?: number;
+  minItems?: number;
+  uniqueItems?: boolean;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  propertyNames?: JsonSchema;
+  additionalProperties?: JsonSchema | false;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  if?: JsonSchema;
+  then?: JsonSchema;
+  else?: JsonSchema;
+  default?: unknown;
+  /** @deprecated 표시 (VS Code 확장 키워드) */
+  deprecationMessage?: string;
+}
+
+/**
+ * yn이 인식하는 문자열 (대소문자 무시: y, yes, t, true, 1, on / n, no, f, false, 0, off)
+ */
+const YN_PATTERN = '^\\s*([yY]([eE][sS])?|[tT]([rR][uU][eE])?|[oO]([nN]|[fF][fF])|[nN][oO]?|[fF]([aA][lL][sS][eE])?|[01])\\s*$';
+
+/**
+ * yn으로 파싱되는 boolean 값 (true/false 외에 "yes", "0" 등 허용)
+ */
+const booleanLike = (description: string, defaultValue: boolean): JsonSchema => ({
+  description,
+  default: defaultValue,
+  anyOf: [
+    { type: 'boolean' },
+    { type: 'string', title: 'yes/no 등 문자열', pattern: YN_PATTERN },
+    { type: 'integer', enum: [0, 1] },
+  ],
+});
+
+/**
+ * runs-on 레이블/브랜치 이름 (워크플로우 YAML에 따옴표 없이 들어가므로 공백, 쉼표, 따옴표, YAML 특수문자 불가)
+ */
+export const NAME_PATTERN = '^[^\\s,\'"\\[\\]{}#&*!|>%@`]+$';
+
+/**
+ * 체크/프로젝트 이름 (job ID와 bash 변수명으로도 사용되므로 소문자로 시작)
+ */
+export const CHECK_NAME_PATTERN = '^[a-z][a-z0-9_-]*$';
+
+/**
+ * 프로젝트 경로 (변경 파일 매칭 스크립트에 들어가므로 영문자, 숫자, . _ - @ +와 /만 허용)
+ */
+export const PROJECT_PATH_PATTERN = '^[A-Za-z0-9._@+-]+(/[A-Za-z0-9._@+-]+)*/?$';
+
+/**
+ * 셋업 스텝에서 사용하는 키 (나머지는 생성 시 무시됨)
+ */
+export const SETUP_STEP_KEYS = ['name', 'uses', 'run', 'with'] as const;
+
+const setupStepSchema: JsonSchema = {
+  type: 'object',
+  description: '테스트 셋업 스텝 (uses 또는 run 중 하나)',
+  required: ['name'],
+  additionalProperties: false,
+  oneOf: [{ required: ['uses'] }, { required: ['run'] }],
+  properties: {
+    name: { type: 'string', description: '스텝 이름', minLength: 1 },
+    uses: { type: 'string', description: '사용할 액션 (예: actions/setup-node@v4)' },
+    run: { type: 'string', description: '실행할 셸 명령어' },
+    with: {
+      type: 'object',
+      description: '액션 입력값',
+      additionalProperties: { type: ['string', 'number', 'boolean'] },
+    },
+  },
+};
+
+/**
+ * 체크 타입별로만 사용하는 키 (다른 타입에 있으면 무시됨)
+ */
+export const CHECK_TYPE_KEYS: Record<CheckType, readonly string[]> = {
+  'pr-test': ['command', 'framework', 'setupSteps', 'workingDirectory', 'matrix'],
+  'pr-review': ['provider', 'model', 'apiKeySecret', 'cliTool', 'cliCommand', 'customRules'],
+  'pr-lint': ['titlePattern', 'conventionalCommits', 'issueKeyPattern', 'minDescriptionLength', 'requiredSections'],
+  'pr-size': ['maxLines', 'maxFiles', 'onExceed', 'exclude', 'sizeLabels'],
+  'pr-commits': ['conventionalCommits', 'messagePattern', 'noFixup', 'requireSignOff', 'allowedEmailDomains'],
+  'pr-labels': ['requiredLabels', 'forbiddenLabels', 'exclusiveLabels'],
+  'pr-script': ['command', 'setupSteps', 'workingDirectory'],
+};
+
+/**
+ * pr-review provider별로만 사용하는 키
+ */
+export const PROVIDER_KEYS: Record<AiProvider, readonly string[]> = {
+  bedrock: ['model', 'apiKeySecret'],
+  cli: ['cliTool', 'cliCommand'],
+};
+
+/**
+ * 환경 변수/Secret 이름 (워크플로우 env 키로 사용)
+ */
+export const ENV_NAME_PATTERN = '^[A-Za-z_][A-Za-z0-9_]*$';
+
+/**
+ * runs-on 값 (레이블 문자열 또는 레이블 배열)
+ */
+const runnerSchema = (description: string, defaultValue?: string): JsonSchema => ({
+  description,
+  ...(defaultValue !== undefined ? { default: defaultValue } : {}),
+  anyOf: [
+    { type: 'string', pattern: NAME_PATTERN },
+    { type: 'array', items: { type: 'string', pattern: NAME_PATTERN }, minItems: 1, uniqueItems: true },
+  ],
+});
+
+/**
+ * paths/pathsIgnore/exclude 글로브 배열 (저장소 루트 기준, 프로젝트 체크는 프로젝트 디렉토리 기준)
+ */
+const pathFiltersSchema = (description: string): JsonSchema => ({
+  type: 'array',
+  description,
+  items: { type: 'string', pattern: "^[^/!'][^']*$" },
+  minItems: 1,
+  uniqueItems: true,
+});
+
+/**
+ * pr-labels 라벨 패턴 배열 ('*'는 아무 문자열, 대소문자 무시)
+ */
+const labelPatternsSchema = (description: string): JsonSchema => ({
+  type: 'array',
+  description,
+  items: { type: 'string', minLength: 1 },
+  minItems: 1,
+  uniqueItems: true,
+});
+
+const checkSchema: JsonSchema = {
+  type: 'object',
+  required: ['name'],
+  additionalProperties: false,
+  properties: {
+    name: {
+      type: 'string',
+      description: '체크 이름 (status context로 사용). 소문자로 시작하고 소문자/숫자/하이픈/언더스코어만 사용',
+      pattern: CHECK_NAME_PATTERN,
+    },
+    trigger: { type: 'string', description: "트리거 명령어 (예: /test)", pattern: '^/' },
+    type: { type: 'string', description: '체크 타입', enum: CHECK_TYPES },
+    mustRun: booleanLike('실행 필수 여부: true면 실행해야 머지 가능', true),
+    mustPass: booleanLike('머지 게이트 통과 조건: true면 성공해야 함, false면 실행만 하면 됨', false),
+    autoRunOn: {
+      type: 'array',
+      description:
+        '자동 실행할 PR 이벤트 (기본값: mustRun이면 [opened, synchronize], pr-lint는 edited, pr-labels는 labeled/unlabeled 포함, 아니면 [])',
+      items: { type: 'string', enum: PULL_REQUEST_ACTIONS },
+      uniqueItems: true,
+    },
+    runner: runnerSchema('이 체크의 Runner 레이블 (생략하면 전역 runner)'),
+    timeoutMinutes: { type: 'integer', description: 'job 제한 시간 (분)', minimum: 1 },
+    env: {
+      type: 'object',
+      description: 'job 환경 변수',
+      propertyNames: { pattern: ENV_NAME_PATTERN },
+      additionalProperties: { type: ['string', 'number', 'boolean'] },
+    },
+    secrets: {
+      type: 'array',
+      description: 'job 환경 변수로 전달할 Secret 이름 (같은 이름의 환경 변수로 설정)',
+      items: { type: 'string', pattern: ENV_NAME_PATTERN },
+      uniqueItems: true,
+    },
+    paths: pathFiltersSchema('이 파일들이 바뀐 PR에서만 ciTrigger/자동 실행 (글로브, 예: src/**)'),
+    pathsIgnore: pathFiltersSchema('이 파일들만 바뀐 PR에서는 ciTrigger/자동 실행하지 않음 (글로브, 예: docs/**)'),
+    needs: {
+      type: 'array',
+      description:
+        "먼저 끝나야 하는 체크 이름 (ciTrigger/자동 실행에서 하나라도 실패하면 실행하지 않고 'Blocked by <체크>' failure status, 예: [lint, build])",
+      items: { type: 'string', minLength: 1 },
+      minItems: 1,
+      uniqueItems: true,
+    },
+    command: {
+      type: 'string',
+      description: '테스트 실행 명령어 (pr-test) 또는 PR_CHECKS_RESULT 경로에 JSON 결과 파일을 쓰는 명령어 (pr-script)',
+    },
+    framework: {
+      type: 'string',
+      description: '테스트 프레임워크 (pr-test, deprecated: setupSteps를 사용하세요)',
+      enum: TEST_FRAMEWORKS,
+      deprecationMessage: 'framework는 deprecated입니다. setupSteps를 직접 사용하세요.',
+    },
+    setupSteps: { type: 'array', description: '실행 환경 셋업 스텝 (pr-test, pr-script)', items: setupStepSchema },
+    workingDirectory: {
+      type: 'string',
+      description: '명령어를 실행할 디렉토리 (pr-test, pr-script, 저장소 루트 기준 상대 경로)',
+      minLength: 1,
+    },
+    matrix: {
+      type: 'object',
+      description: '매트릭스 빌드 (pr-test, 예: { node: [18, 20, 22] }). command/setupSteps에서 ${{ matrix.<키> }}로 사용, os 키는 runs-on',
+      propertyNames: { pattern: '^(?!include$|exclude$)[A-Za-z_][A-Za-z0-9_-]*$' },
+      additionalProperties: {
+        type: 'array',
+        items: { type: ['string', 'number', 'boolean'] },
+        minItems: 1,
+        uniqueItems: true,
+      },
+    },
+    provider: { type: 'string', description: 'AI 프로바이더 (pr-review)', enum: AI_PROVIDERS, default: 'bedrock' },
+    model: { type: 'string', description: 'AI 모델 ID (pr-review, bedrock)' },
+    apiKeySecret: { type: 'string', description: 'API 키 Secret 이름 (pr-review, bedrock)' },
+    cliTool: { type: 'string', description: 'CLI 도구 (pr-review, cli)', enum: CLI_TOOLS },
+    cliCommand: { type: 'string', description: '커스텀 리뷰 명령어 (pr-review, cli). PR 번호만 인자로 전달' },
+    customRules: { type: 'string', description: '프로젝트별 추가 리뷰 규칙 (pr-review)' },
+    titlePattern: { type: 'string', description: 'PR 제목이 맞아야 하는 정규식 (pr-lint)', minLength: 1 },
+    conventionalCommits: booleanLike('PR 제목(pr-lint) 또는 커밋 제목(pr-commits)이 Conventional Commits 형식이어야 하는지', false),
+    issueKeyPattern: {
+      type: 'string',
+      description: 'PR 제목이나 본문에 있어야 하는 이슈 키 정규식 (pr-lint, 예: [A-Z]+-[0-9]+)',
+      minLength: 1,
+    },
+    minDescriptionLength: { type: 'integer', description: 'PR 본문 최소 길이 (pr-lint, HTML 주석 제외)', minimum: 1 },
+    requiredSections: {
+      type: 'array',
+      description: 'PR 본문에 있어야 하는 섹션 제목 (pr-lint, 예: [Summary, Test plan])',
+      items: { type: 'string', minLength: 1 },
+      minItems: 1,
+      uniqueItems: true,
+    },
+    maxLines: { type: 'integer', description: '변경 줄 수(추가 + 삭제) 임계값 (pr-size)', minimum: 1 },
+    maxFiles: { type: 'integer', description: '변경 파일 수 임계값 (pr-size)', minimum: 1 },
+    onExceed: {
+      type: 'string',
+      description: '임계값 초과 시 동작 (pr-size, fail: failure status, warn: 경고만)',
+      enum: PR_SIZE_EXCEED_ACTIONS,
+      default: 'fail',
+    },
+    exclude: pathFiltersSchema('크기 계산에서 제외할 파일 (pr-size, 글로브, 예: package-lock.json)'),
+    sizeLabels: booleanLike('PR에 size/XS ~ size/XL 라벨 설정 (pr-size)', true),
+    messagePattern: { type: 'string', description: '커밋 제목이 맞아야 하는 정규식 (pr-commits)', minLength: 1 },
+    noFixup: booleanLike('fixup!/squash!/amend!/WIP 커밋 금지 (pr-commits)', false),
+    requireSignOff: booleanLike('커밋에 Signed-off-by 트레일러 필수 (pr-commits, DCO)', false),
+    allowedEmailDomains: {
+      type: 'array',
+      description: '허용하는 커밋 작성자 이메일 도메인 (pr-commits, 예: [example.com])',
+      items: { type: 'string', minLength: 1 },
+      minItems: 1,
+      uniqueItems: true,
+    },
+    requiredLabels: labelPatternsSchema("패턴마다 맞는 라벨이 하나 이상 있어야 함 (pr-labels, '*' 사용 가능, 예: ['type/*'])"),
+    forbiddenLabels: labelPatternsSchema('맞는 라벨이 있으면 실패 (pr-labels, 예: [do-not-merge, wip])'),
+    exclusiveLabels: {
+      type: 'array',
+      description: '그룹마다 맞는 라벨이 두 개 이상이면 실패 (pr-labels, 예: [[priority/high, priority/low]])',
+      items: labelPatternsSchema('함께 붙일 수 없는 라벨 패턴'),
+      minItems: 1,
+    },
+  },
+};
+
+/**
+ * 완성된 체크의 필수 항목 (extends를 사용하면 상속받은 체크를 name만으로 덮어쓸 수 있어 병합 후에만 적용)
+ */
+const completeCheckSchema: JsonSchema = {
+  required: ['trigger', 'type'],
+  allOf: [
+    {
+      if: { properties: { type: { enum: ['pr-test', 'pr-script'] } }, required: ['type'] },
+      then: { required: ['command'] },
+    },
+    {
+      // provider 생략 시 bedrock
+      if: { properties: { type: { const: 'pr-review' }, provider: { const: 'bedrock' } }, required: ['type'] },
+      then: { required: ['model', 'apiKeySecret'] },
+    },
+    {
+      if: { properties: { type: { const: 'pr-review' }, provider: { const: 'cli' } }, required: ['type', 'provider'] },
+      then: { anyOf: [{ required: ['cliTool'] }, { required: ['cliCommand'] }] },
+    },
+    {
+      if: { properties: { type: { const: 'pr-lint' } }, required: ['type'] },
+      then: { anyOf: CHECK_TYPE_KEYS['pr-lint'].map((key) => ({ required: [key] })) },
+    },
+    {
+      if: { properties: { type: { const: 'pr-commits' } }, required: ['type'] },
+      then: { anyOf: CHECK_TYPE_KEYS['pr-commits'].map((key) => ({ required: [key] })) },
+    },
+    {
+      if: { properties: { type: { const: 'pr-labels' } }, required: ['type'] },
+      then: { anyOf: CHECK_TYPE_KEYS['pr-labels'].map((key) => ({ required: [key] })) },
+    },
+  ],
+};
+
+const projectSchema: JsonSchema = {
+  type: 'object',
+  description: '모노레포 프로젝트 (path 아래 파일이 바뀐 PR에서만 ciTrigger/자동 실행)',
+  required: ['path', 'checks'],
+  additionalProperties: false,
+  properties: {
+    name: {
+      type: 'string',
+      description: '프로젝트 이름 (체크 이름 접두사, 생략하면 path의 마지막 디렉토리)',
+      pattern: CHECK_NAME_PATTERN,
+    },
+    path: {
+      type: 'string',
+      description: '프로젝트 디렉토리 (저장소 루트 기준 상대 경로)',
+      pattern: PROJECT_PATH_PATTERN,
+    },
+    checks: { type: 'array', description: '프로젝트 체크 목록', items: checkSchema, minItems: 1 },
+  },
+};
+
+/**
+ * .pr-checks/config.yml의 JSON Schema
+ */
+export const CONFIG_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'https://unpkg.com/create-pr-checks/schema/config.schema.json',
+  title: 'create-pr-checks 설정 (.pr-checks/config.yml)',
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string', description: 'JSON Schema 경로 (config.json 에디터 자동완성용)' },
+    version: {
+      type: 'integer',
+      description: `설정 파일 형식 버전 (생략하면 1, 현재 ${CONFIG_VERSION}). create-pr-checks migrate로 업데이트`,
+      minimum: 1,
+      default: CONFIG_VERSION,
+    },
+    extends: {
+      description: '상속할 설정 (./ 상대 경로 또는 npm 패키지, 여러 개면 앞에서부터 병합)',
+      anyOf: [{ type: 'string', minLength: 1 }, { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 }],
+    },
+    removeChecks: {
+      type: 'array',
+      description: '상속받은 체크 중 제거할 체크 이름',
+      items: { type: 'string' },
+      uniqueItems: true,
+    },
+    platform: { type: 'string', description: '플랫폼', enum: PLATFORMS, default: 'github' },
+    runner: runnerSchema('Runner 레이블 (self-hosted 사용 시 배열로 지정)', 'ubuntu-latest'),
+    checks: { type: 'array', description: '체크 목록', items: checkSchema },
+    projects: { type: 'array', description: '모노레포 프로젝트 목록', items: projectSchema },
+    ciTrigger: {
+      type: 'string',
+      description: '전체 실행 명령어 (mustRun: true인 체크만 실행)',
+      pattern: '^/',
+      default: '/checks',
+    },
+    generateApprovalOverride: booleanLike('Approval override 워크플로우 생성 여부', true),
+    branches: {
+      type: 'array',
+      description: '대상 브랜치 목록',
+      items: { type: 'string', pattern: NAME_PATTERN },
+      minItems: 1,
+      uniqueItems: true,
+      default: ['main', 'master'],
+    },
+    selfHosted: {
+      description: 'Self-hosted runner 설정 (true 또는 { docker: true })',
+      anyOf: [
+        { type: 'boolean' },
+        {
+          type: 'object',
+          properties: { docker: booleanLike('Docker Desktop 자동 시작 (macOS)', true) },
+        },
+      ],
+    },
+    guideMessage: { type: 'string', description: 'PR 가이드 코멘트에 추가할 문구' },
+  },
+  if: { required: ['extends'] },
+  else: {
+    properties: {
+      checks: { items: completeCheckSchema },
+      projects: { items: { properties: { checks: { items: completeCheckSchema } } } },
+    },
+  },
+};
+
+/**
+ * config.schema.json 내용
+ */
+export function renderConfigSchema(): string {
+  return JSON.stringify(CONFIG_SCHEMA, null, 2) + '\n';
+}
+
+/**
+ * 설정 경로를 사람이 읽는 형태로 변환 (예: checks[0].autoRunOn[1])
+ */
+export function formatConfigPath(configPath: ConfigPath): string {
+  return configPath
+    .map((key, index) => (typeof key === 'number' ? `[${key}]` : index === 0 ? key : `.${key}`))
+    .join('');
+}
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+}
+
+function matchesType(value: unknown, type: JsonType | JsonType[]): boolean {
+  const actual = typeOf(value);
+  const types = Array.isArray(type) ? type : [type];
+  return types.some((t) => t === actual || (t === 'number' && actual === 'integer'));
+}
+
+/**
+ * anyOf 실패 메시지에 쓸 허용 형식 설명
+ */
+function describeSchema(schema: JsonSchema): string {
+  if (schema.title) return schema.title;
+  if (schema.enum) return schema.enum.join(', ');
+  if (schema.const !== undefined) return String(schema.const);
+  if (schema.type) return Array.isArray(schema.type) ? schema.type.join(', ') : schema.type;
+  if (schema.required) return `${schema.required.join(', ')} 지정`;
+  return '허용된 형식';
+}
+
+/**
+ * 값을 스키마로 검증하고 문제를 issues에 수집 (config.yml 검증에 필요한 키워드만 지원)
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, configPath: ConfigPath = []): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const label = formatConfigPath(configPath) || '설정';
+  const error = (message: string, at: ConfigPath = configPath) => issues.push({ path: at, message, severity: 'error' });
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    error(`${label}: ${Array.isArray(schema.type) ? schema.type.join(' 또는 ') : schema.type} 타입이어야 합니다.`);
+    return issues;
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    error(`${label}: ${String(schema.const)}이어야 합니다.`);
+  }
+  if (schema.enum && !schema.enum.includes(value as JsonValue)) {
+    error(`${label}: 허용되지 않는 값입니다: ${String(value)} (허용: ${schema.enum.join(', ')})`);
+  }
+  if (schema.minLength !== undefined && typeof value === 'string' && value.length < schema.minLength) {
+    error(`${label}: 최소 ${schema.minLength}자 이상이어야 합니다.`);
+  }
+  if (schema.pattern && typeof value === 'string' && !new RegExp(schema.pattern).test(value)) {
+    error(`${label}: 형식이 올바르지 않습니다: ${value} (패턴: ${schema.pattern})`);
+  }
+  if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+    error(`${label}: ${schema.minimum} 이상이어야 합니다.`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      error(`${label}: 최소 ${schema.minItems}개 이상이어야 합니다.`);
+    }
+    if (schema.uniqueItems) {
+      value.forEach((item, index) => {
+        if (value.indexOf(item) !== index) {
+          error(`${label}: 중복된 값입니다: ${String(item)}`, [...configPath, index]);
+        }
+      });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => issues.push(...validateSchema(item, schema.items!, [...configPath, index])));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined || obj[key] === null) {
+        error(`${formatConfigPath([...configPath, key])}: 필수 항목입니다.`, [...configPath, key]);
+      }
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      if (schema.propertyNames) {
+        issues.push(...validateSchema(key, schema.propertyNames, [...configPath, key]));
+      }
+      const propertySchema = schema.properties?.[key] ?? schema.additionalProperties;
+      if (propertySchema === false) {
+        error(`${formatConfigPath([...configPath, key])}: 알 수 없는 키입니다.`, [...configPath, key]);
+      } else if (propertySchema && child !== undefined && child !== null) {
+        issues.push(...validateSchema(child, propertySchema, [...configPath, key]));
+      }
+    }
+  }
+
+  if (schema.anyOf && !schema.anyOf.some((branch) => validateSchema(value, branch, configPath).length === 0)) {
+    error(`${label}: ${schema.anyOf.map(describeSchema).join(' 또는 ')} 중 하나여야 합니다.`);
+  }
+  if (schema.oneOf && schema.oneOf.filter((branch) => validateSchema(value, branch, configPath).length === 0).length !== 1) {
+    error(`${label}: ${schema.oneOf.map(describeSchema).join(', ')} 중 정확히 하나여야 합니다.`);
+  }
+  for (const sub of schema.allOf ?? []) {
+    issues.push(...validateSchema(value, sub, configPath));
+  }
+  if (schema.if && (schema.then || schema.else)) {
+    const branch = validateSchema(value, schema.if, configPath).length === 0 ? schema.then : schema.else;
+    if (branch) {
+      issues.push(...validateSchema(value, branch, configPath));
+    }
+  }
+
+  return issues;
+}
@@ -2,7 +2,7 @@
  * 코멘트 메타데이터 타입
  */
 export interface CommentMetadata {
-  type: 'pr-test' | 'pr-review';
+  type: 'pr-test' | 'pr-review' | 'pr-lint' | 'pr-size' | 'pr-commits' | 'pr-labels' | 'pr-script';
   check: string;
   sha: string;
   collapsed: boolean;
@@ -53,6 +53,60 @@ export const COMMENT_MARKERS = {
    */
   prTestPattern: (checkName: string) => `^## [✅❌] ${checkName}`,
 
+  /**
+   * PR 제목/본문 검사 통과 댓글 시작 패턴 생성
+   * @param checkName 체크 이름
+   */
+  prLintPass: (checkName: string) => `## ✅ ${checkName}`,
+
+  /**
+   * PR 제목/본문 검사 실패 댓글 시작 패턴 생성
+   * @param checkName 체크 이름
+   */
+  prLintFail: (checkName: string) => `## ❌ ${checkName}`,
+
+  /**
+   * 커밋 검사 통과 댓글 시작 패턴 생성
+   * @param checkName 체크 이름
+   */
+  prCommitsPass: (checkName: string) => `## ✅ ${checkName}`,
+
+  /**
+   * 커밋 검사 실패 댓글 시작 패턴 생성
+   * @param checkName 체크 이름
+   */
+  prCommitsFail: (checkName: string) => `## ❌ ${checkName}`,
+
+  /**
+   * PR 크기 경고 댓글 시작 패턴 생성 (onExceed: warn)
+   * @param checkName 체크 이름
+   */
+  prSizeWarning: (checkName: string) => `## ⚠️ ${checkName}`,
+
+  /**
+   * PR 크기 초과 댓글 시작 패턴 생성 (onExceed: fail)
+   * @param checkName 체크 이름
+   */
+  prSizeFail: (checkName: string) => `## ❌ ${checkName}`,
+
+  /**
+   * 라벨 정책 위반 댓글 시작 패턴 생성
+   * @param checkName 체크 이름
+   */
+  prLabelsFail: (checkName: string) => `## ❌ ${checkName}`,
+
+  /**
+   * 커스텀 스크립트 체크 성공 댓글 시작 패턴 생성
+   * @param checkName 체크 이름
+   */
+  prScriptPass: (checkName: string) => `## ✅ ${checkName}`,
+
+  /**
+   * 커스텀 스크립트 체크 실패 댓글 시작 패턴 생성
+   * @param checkName 체크 이름
+   */
+  prScriptFail: (checkName: string) => `## ❌ ${checkName}`,
+
   /**
    * 리뷰 댓글 시작 패턴 (jq test용 정규식)
    * 3단계: ✅ OK, ⚠️ WARNING, ❌ CRITICAL
@@ -7,3 +7,4 @@ export * from './contexts.js';
 export * from './messages.js';
 export * from './prompts.js';
 export * from './comments.js';
+export * from './patterns.js';
@@ -17,14 +17,35 @@ export const STATUS_MESSAGES = {
 
     /** 모든 필수 체크 완료 */
     allPassed: 'All required checks passed',
+
+    /** paths 필터에 맞는 변경 파일이 없어 실행하지 않음 */
+    skipped: 'Skipped: no relevant changes',
+
+    /** PR 크기 임계값 초과 (onExceed: warn) */
+    tooLargeWarning: 'Warning: PR too large',
   },
 
   failure: {
     /** 체크 실패 */
     failed: 'Check failed',
 
+    /** pr-script 결과 파일이 없거나 형식이 잘못됨 */
+    invalidResult: 'Invalid result file',
+
     /** 승인 필요 */
     approvalRequired: 'Approval required',
+
+    /** PR 크기 임계값 초과 (onExceed: fail) */
+    tooLarge: 'PR too large',
+
+    /** 라벨 정책 위반 (pr-labels) */
+    labelPolicy: 'Label policy not met',
+
+    /** 라벨 정책 위반으로 머지 불가 (PR Checks Status, Approve로 override 안 됨) */
+    blockedByLabels: 'Blocked by label policy',
+
+    /** needs에 적은 체크가 실패해 실행하지 않음 (뒤에 체크 이름) */
+    blockedBy: 'Blocked by',
   },
 } as const;
 
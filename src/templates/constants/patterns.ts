@@ -0,0 +1,13 @@
+/**
+ * 워크플로우 검사에 사용하는 정규식 (jq test() 문법)
+ */
+
+/**
+ * Conventional Commits 제목 형식 (예: feat(api)!: 로그인 추가)
+ */
+export const CONVENTIONAL_COMMIT_PATTERN = '^(build|chore|ci|docs|feat|fix|perf|refactor|revert|style|test)(\\([^()]+\\))?!?: .+';
+
+/**
+ * 머지 전에 정리해야 하는 커밋 제목 (git commit --fixup/--squash, 작업 중 커밋)
+ */
+export const FIXUP_COMMIT_PATTERN = '^((fixup|squash|amend)! |\\[?wip\\b)';
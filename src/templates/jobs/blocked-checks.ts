@@ -0,0 +1,64 @@
+import type { Config } from '../../types/config.js';
+import { getCheckDependencies, getCheckJobId, isPrReviewCheck } from '../../types/config.js';
+import { formatRunConditions, formatDependencyPassedCondition } from '../utils/index.js';
+import { STATUS_MESSAGES } from '../constants/messages.js';
+
+/**
+ * needs 차단 job (needs가 있는 체크가 없으면 생성하지 않음)
+ *
+ * 역할:
+ * 1. ciTrigger/자동 실행 대상이지만 needs에 적은 체크가 통과하지 못해 스킵된 체크 확인
+ * 2. 처음으로 통과하지 못한 체크 이름으로 'Blocked by <체크>' failure status 설정 (mustRun 체크가 none으로 남지 않도록)
+ */
+export function generateBlockedChecksJob(config: Config): string | undefined {
+  const { input } = config;
+  const dependentChecks = input.checks.filter((c) => getCheckDependencies(c, input.checks).length > 0);
+  if (dependentChecks.length === 0) {
+    return undefined;
+  }
+
+  // needs에 한 번이라도 적힌 체크 job (설정 순서)
+  const upstreamJobIds = input.checks
+    .filter((c) => dependentChecks.some((d) => d.needs?.includes(c.name)))
+    .map(getCheckJobId);
+
+  const steps = dependentChecks
+    .map((check) => {
+      const passed = getCheckDependencies(check, input.checks).map((d) => ({
+        name: d.name,
+        condition: formatDependencyPassedCondition(d, input.ciTrigger),
+      }));
+      // pr-review는 공식 실행에서만 status를 설정
+      const official = isPrReviewCheck(check) ? ` && needs.check-trigger.outputs.is_official == 'true'` : '';
+      const findBlocker = passed
+        .map(
+          ({ name, condition }) => `          if [ -z "\$BLOCKED_BY" ] && [ "\${{ ${condition} }}" != "true" ]; then
+            BLOCKED_BY="${name}"
+          fi`
+        )
+        .join('\n');
+
+      return `      - name: Block ${check.name}
+        if: (${formatRunConditions(check, input.ciTrigger)}) && !(${passed.map((p) => p.condition).join(' && ')})${official}
+        run: |
+          BLOCKED_BY=""
+${findBlocker}
+          curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+            -H "Content-Type: application/json" \\
+            -X POST "\${{ github.api_url }}/repos/\${{ github.repository }}/statuses/\${{ needs.check-trigger.outputs.head_sha }}" \\
+            -d '{"state":"failure","context":"${check.name}","description":"${STATUS_MESSAGES.failure.blockedBy} '"\$BLOCKED_BY"'"}'
+          echo "⛔ ${check.name}: \$BLOCKED_BY 체크가 통과하지 못해 실행하지 않음"`;
+    })
+    .join('\n\n');
+
+  return `  # needs에 적은 체크가 통과하지 못해 실행하지 않은 체크
+  blocked-checks:
+    needs: [check-trigger, ${upstreamJobIds.join(', ')}]
+    if: always() && needs.check-trigger.outputs.should_continue == 'true'
+    runs-on: ubuntu-latest
+    permissions:
+      statuses: write
+
+    steps:
+${steps}`;
+}
@@ -1,5 +1,11 @@
-import type { Config } from '../../types/config.js';
-import { getDefaultAutoRunOn } from '../../types/config.js';
+import type { Check, Config, ProjectConfig } from '../../types/config.js';
+import { getCheckAutoRunOn, getCheckJobId, hasPathFilters } from '../../types/config.js';
+import { toAffectedShellVar, toRelevantShellVar } from '../utils/index.js';
+import {
+  generateChangedFilesScript,
+  generateAffectedProjectsScript,
+  generateRelevantChecksScript,
+} from '../steps/index.js';
 
 /**
  * 트리거 체크 job
@@ -33,6 +39,43 @@ function generatePermissionCheck(platform: 'github' | 'gitea'): string {
   }
 }
 
+/**
+ * 변경 파일 판정 스텝 (projects 또는 paths/pathsIgnore가 있을 때만)
+ * outputs: affected_<프로젝트>, relevant_<체크 job ID>
+ */
+function generateChangedFilesStep(projects: ProjectConfig[], filteredChecks: Check[]): string {
+  const scripts = [generateChangedFilesScript()];
+  const outputs: string[] = [];
+  if (projects.length > 0) {
+    scripts.push(generateAffectedProjectsScript(projects));
+    outputs.push(
+      ...projects.map(
+        (project, index) => `          echo "affected_${project.name}=\$${toAffectedShellVar(index, project.name)}" >> \$GITHUB_OUTPUT`
+      )
+    );
+  }
+  if (filteredChecks.length > 0) {
+    scripts.push(generateRelevantChecksScript(filteredChecks));
+    outputs.push(
+      ...filteredChecks.map(
+        (check, index) => `          echo "relevant_${getCheckJobId(check)}=\$${toRelevantShellVar(index, check)}" >> \$GITHUB_OUTPUT`
+      )
+    );
+  }
+
+  return `
+
+      - name: Detect changed files
+        id: changes
+        if: steps.check.outputs.should_continue == 'true'
+        run: |
+          PR_NUMBER="\${{ steps.check.outputs.pr_number }}"
+
+${scripts.join('\n\n')}
+
+${outputs.join('\n')}`;
+}
+
 export function generateCheckTriggerJob(config: Config): string {
   const { input } = config;
 
@@ -44,13 +87,27 @@ export function generateCheckTriggerJob(config: Config): string {
 
   // 각 체크별 auto_run output 생성
   const autoRunOutputs = input.checks
-    .map((c) => `      auto_run_${c.name}: \${{ steps.check.outputs.auto_run_${c.name} }}`)
+    .map((c) => `      auto_run_${getCheckJobId(c)}: \${{ steps.check.outputs.auto_run_${getCheckJobId(c)} }}`)
     .join('\n');
 
+  // 프로젝트별 변경 여부 output
+  const projects = input.projects ?? [];
+  const affectedOutputs = projects
+    .map((project) => `\n      affected_${project.name}: \${{ steps.changes.outputs.affected_${project.name} }}`)
+    .join('');
+
+  // paths/pathsIgnore 필터 판정 output
+  const filteredChecks = input.checks.filter(hasPathFilters);
+  const relevantOutputs = filteredChecks
+    .map((c) => `\n      relevant_${getCheckJobId(c)}: \${{ steps.changes.outputs.relevant_${getCheckJobId(c)} }}`)
+    .join('');
+  const changedFilesStep =
+    projects.length > 0 || filteredChecks.length > 0 ? generateChangedFilesStep(projects, filteredChecks) : '';
+
   // 모든 체크에서 사용하는 PR 액션 수집 (워크플로우 if 조건용)
   const allActions = new Set<string>();
   for (const c of input.checks) {
-    const actions = c.autoRunOn ?? getDefaultAutoRunOn(c.mustRun);
+    const actions = getCheckAutoRunOn(c);
     actions.forEach((a) => allActions.add(a));
   }
   // 최소한 synchronize는 포함 (기존 동작 호환)
@@ -64,15 +121,15 @@ export function generateCheckTriggerJob(config: Config): string {
   // 각 체크별 autoRunOn 설정에 따른 자동 실행 로직 생성
   const autoRunLogic = input.checks
     .map((c) => {
-      const autoRunOn = c.autoRunOn ?? getDefaultAutoRunOn(c.mustRun);
+      const autoRunOn = getCheckAutoRunOn(c);
       if (autoRunOn.length === 0) {
-        return `            echo "auto_run_${c.name}=false" >> \$GITHUB_OUTPUT`;
+        return `            echo "auto_run_${getCheckJobId(c)}=false" >> \$GITHUB_OUTPUT`;
       } else {
         const conditions = autoRunOn.map((a) => `"\$ACTION" = "${a}"`).join(' ] || [ ');
         return `            if [ ${conditions} ]; then
-              echo "auto_run_${c.name}=true" >> \$GITHUB_OUTPUT
+              echo "auto_run_${getCheckJobId(c)}=true" >> \$GITHUB_OUTPUT
             else
-              echo "auto_run_${c.name}=false" >> \$GITHUB_OUTPUT
+              echo "auto_run_${getCheckJobId(c)}=false" >> \$GITHUB_OUTPUT
             fi`;
       }
     })
@@ -91,7 +148,7 @@ export function generateCheckTriggerJob(config: Config): string {
       trigger: \${{ steps.check.outputs.trigger }}
       user_message: \${{ steps.check.outputs.user_message }}
       is_official: \${{ steps.check.outputs.is_official }}
-${autoRunOutputs}
+${autoRunOutputs}${affectedOutputs}${relevantOutputs}
     steps:
       - name: Check trigger
         id: check
@@ -209,5 +266,5 @@ ${permissionCheck}
           echo "pr_number=\$PR_NUMBER" >> \$GITHUB_OUTPUT
           echo "head_sha=\$HEAD_SHA" >> \$GITHUB_OUTPUT
           echo "trigger=\$TRIGGER" >> \$GITHUB_OUTPUT
-          echo "should_continue=true" >> \$GITHUB_OUTPUT`;
+          echo "should_continue=true" >> \$GITHUB_OUTPUT${changedFilesStep}`;
 }
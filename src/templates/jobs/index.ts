@@ -6,7 +6,14 @@
 // PR Checks 워크플로우 jobs
 export * from './check-trigger.js';
 export * from './pr-test.js';
+export * from './pr-script.js';
 export * from './pr-review.js';
+export * from './pr-lint.js';
+export * from './pr-size.js';
+export * from './pr-commits.js';
+export * from './pr-labels.js';
+export * from './skip-checks.js';
+export * from './blocked-checks.js';
 export * from './review-status.js';
 
 // Approval Override 워크플로우 jobs
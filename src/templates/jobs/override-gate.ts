@@ -1,12 +1,12 @@
 import { STATUS_CONTEXTS, OVERRIDE_KEYWORD } from '../constants/contexts.js';
-import { OVERRIDE_DESCRIPTION } from '../constants/messages.js';
+import { STATUS_MESSAGES, OVERRIDE_DESCRIPTION } from '../constants/messages.js';
 
 /**
  * Override Gate job (approval-override.yml)
  *
  * 역할:
  * 1. PR Approve 시 PR Checks Status 확인
- * 2. 실패 상태면 success로 override
+ * 2. 실패 상태면 success로 override (라벨 정책 위반으로 막힌 상태는 제외)
  * 3. 코멘트로 알림
  *
  * @param branchCondition 대상 브랜치 조건
@@ -33,6 +33,13 @@ export function generateOverrideGateJob(branchCondition: string): string {
             | jq '[.[] | select(.context == "${STATUS_CONTEXTS.prChecksStatus}")] | sort_by(.updated_at) | last')
 
           GATE_STATE=\$(echo "\$GATE_STATUS" | jq -r '.state // "none"')
+          GATE_DESC=\$(echo "\$GATE_STATUS" | jq -r '.description // ""')
+
+          # 라벨 정책 위반 (pr-labels)은 Approve로 override하지 않음
+          if [ "\$GATE_DESC" = "${STATUS_MESSAGES.failure.blockedByLabels}" ]; then
+            echo "Blocked by label policy - skipping override"
+            exit 0
+          fi
 
           if [ "\$GATE_STATE" != "success" ]; then
             curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
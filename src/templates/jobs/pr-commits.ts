@@ -0,0 +1,199 @@
+import type { Config, PrCommitsCheck } from '../../types/config.js';
+import { getCheckRunner, getCheckJobId } from '../../types/config.js';
+import { STATUS_MESSAGES } from '../constants/messages.js';
+import { COMMENT_MARKERS, METADATA_PREFIX, METADATA_SUFFIX } from '../constants/comments.js';
+import { CONVENTIONAL_COMMIT_PATTERN, FIXUP_COMMIT_PATTERN } from '../constants/patterns.js';
+import { generateCollapsePrReviewCommentsScript } from '../scripts/collapse-comments.js';
+import {
+  indent,
+  formatRunner,
+  formatJobSettings,
+  formatRunConditions,
+  formatCheckNeeds,
+  formatDependencyConditions,
+  quoteYaml,
+} from '../utils/index.js';
+
+/**
+ * 커밋별 검사 규칙(jq 식)과 스텝 환경 변수 생성
+ * 각 규칙은 위반 시 이유 문자열, 통과 시 empty를 반환 ($c: 커밋, $subject: 커밋 제목)
+ * 사용자 정규식/도메인은 jq 프로그램에 직접 넣지 않고 환경 변수 → $ENV로 전달 (command injection 방지)
+ */
+function generateCommitRules(check: PrCommitsCheck): { env: Record<string, string>; rules: string[] } {
+  const env: Record<string, string> = {};
+  const rules: string[] = [];
+
+  if (check.conventionalCommits) {
+    env.CONVENTIONAL_PATTERN = CONVENTIONAL_COMMIT_PATTERN;
+    rules.push('(if ($subject | test($ENV.CONVENTIONAL_PATTERN) | not) then "Conventional Commits 형식이 아님" else empty end)');
+  }
+
+  if (check.messagePattern) {
+    env.MESSAGE_PATTERN = check.messagePattern;
+    rules.push('(if ($subject | test($ENV.MESSAGE_PATTERN) | not) then "제목이 `" + $ENV.MESSAGE_PATTERN + "` 형식에 맞지 않음" else empty end)');
+  }
+
+  if (check.noFixup) {
+    env.FIXUP_PATTERN = FIXUP_COMMIT_PATTERN;
+    rules.push('(if ($subject | test($ENV.FIXUP_PATTERN; "i")) then "fixup/squash/WIP 커밋 (rebase로 정리 필요)" else empty end)');
+  }
+
+  if (check.requireSignOff) {
+    rules.push('(if ($c.message | split("\\n") | any(test("^Signed-off-by: .+ <[^>]+>\\\\s*$")) | not) then "Signed-off-by 없음 (git commit -s)" else empty end)');
+  }
+
+  if (check.allowedEmailDomains) {
+    env.ALLOWED_EMAIL_DOMAINS = JSON.stringify(check.allowedEmailDomains);
+    rules.push(`(($c.email | ascii_downcase | split("@") | last) as $domain
+  | if any(($ENV.ALLOWED_EMAIL_DOMAINS | fromjson)[]; . == $domain) then empty else "허용되지 않은 작성자 이메일 (" + $c.email + ")" end)`);
+  }
+
+  return { env, rules };
+}
+
+/**
+ * PR 커밋 검사 job 생성
+ *
+ * 역할:
+ * 1. PR 커밋 목록 조회 (체크아웃 없음, 머지 커밋은 제외)
+ * 2. 커밋 제목 형식, fixup/WIP 커밋, Signed-off-by, 작성자 이메일 도메인 검사
+ * 3. 결과에 따른 status 설정
+ * 4. 이전 검사 코멘트 접기 (같은 커밋에서 다시 검사하므로 현재 커밋 코멘트도 접음) + 위반 커밋 목록 코멘트
+ */
+export function generatePrCommitsJob(check: PrCommitsCheck, config: Config): string {
+  const { input } = config;
+  const jobId = getCheckJobId(check);
+  const runsOn = formatRunner(getCheckRunner(check, input));
+  const { env, rules } = generateCommitRules(check);
+  const envLines = Object.entries(env)
+    .map(([key, value]) => `\n          ${key}: ${quoteYaml(value)}`)
+    .join('');
+
+  return `  # ${check.name}
+  ${jobId}:
+    if: |${formatDependencyConditions(check, input.checks, input.ciTrigger)}
+      needs.check-trigger.outputs.should_continue == 'true' &&
+      (${formatRunConditions(check, input.ciTrigger)})
+    needs: ${formatCheckNeeds(check, input.checks)}
+    runs-on: ${runsOn}${formatJobSettings(check)}
+    permissions:
+      pull-requests: write
+      statuses: write
+
+    steps:
+      - name: Lint PR commits
+        id: lint${envLines ? `\n        env:${envLines}` : ''}
+        run: |
+          PR_NUMBER="\${{ needs.check-trigger.outputs.pr_number }}"
+
+          # PR 커밋 목록 (GitHub: per_page, Gitea: limit)
+          COMMITS='[]'
+          PAGE=1
+          while [ "\$PAGE" -le 100 ]; do
+            COMMITS_RESPONSE=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+              "\${{ github.api_url }}/repos/\${{ github.repository }}/pulls/\$PR_NUMBER/commits?per_page=100&limit=100&page=\$PAGE") || {
+              echo "Failed to fetch commits for PR #\$PR_NUMBER"
+              exit 1
+            }
+            if [ "\$(echo "\$COMMITS_RESPONSE" | jq 'length')" = "0" ]; then
+              break
+            fi
+            COMMITS=\$(jq -n --argjson commits "\$COMMITS" --argjson page "\$COMMITS_RESPONSE" \\
+              '\$commits + [\$page[] | {sha, message: .commit.message, email: (.commit.author.email // ""), merge: ((.parents // []) | length > 1)}]')
+            PAGE=\$((PAGE + 1))
+          done
+          COMMIT_COUNT=\$(echo "\$COMMITS" | jq '[.[] | select(.merge | not)] | length')
+          echo "commit_count=\$COMMIT_COUNT" >> \$GITHUB_OUTPUT
+
+          # 커밋별 검사 (위반 커밋만 한 줄씩)
+          echo "\$COMMITS" | jq -r '
+            .[] | select(.merge | not) | . as \$c | (\$c.message | split("\\n")[0]) as \$subject
+            | [
+${indent(rules.join(',\n'), 16)}
+              ]
+            | select(length > 0)
+            | "- \`" + \$c.sha[0:7] + "\` " + \$subject + ": " + join(", ")
+          ' > commit_errors.md
+
+          if [ -s commit_errors.md ]; then
+            cat commit_errors.md
+            echo "passed=false" >> \$GITHUB_OUTPUT
+          else
+            echo "passed=true" >> \$GITHUB_OUTPUT
+          fi
+
+      - name: Set status
+        run: |
+          HEAD_SHA="\${{ needs.check-trigger.outputs.head_sha }}"
+          if [ "\${{ steps.lint.outputs.passed }}" = "true" ]; then
+            STATE="success"
+            DESC="${STATUS_MESSAGES.success.passed}"
+          else
+            STATE="failure"
+            DESC="${STATUS_MESSAGES.failure.failed}"
+          fi
+          curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+            -H "Content-Type: application/json" \\
+            -X POST "\${{ github.api_url }}/repos/\${{ github.repository }}/statuses/\$HEAD_SHA" \\
+            -d "{\\"state\\":\\"\$STATE\\",\\"context\\":\\"${check.name}\\",\\"description\\":\\"\$DESC\\"}"
+
+      - name: Collapse old commit lint comments
+        run: |
+          PR_NUMBER="\${{ needs.check-trigger.outputs.pr_number }}"
+          HEAD_SHA="\${{ needs.check-trigger.outputs.head_sha }}"
+
+${indent(generateCollapsePrReviewCommentsScript(check.name, true), 10)}
+
+      - name: Post PR comment
+        run: |
+          PR_NUMBER="\${{ needs.check-trigger.outputs.pr_number }}"
+          HEAD_SHA="\${{ needs.check-trigger.outputs.head_sha }}"
+          SHORT_SHA="\${HEAD_SHA:0:7}"
+
+          # GitHub uses run_id in URL, Gitea uses run_number
+          if [[ "\${{ github.server_url }}" == *"github.com"* ]]; then
+            RUN_URL="\${{ github.server_url }}/\${{ github.repository }}/actions/runs/\${{ github.run_id }}"
+          else
+            ACTUAL_RUN_NUMBER=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+              "\${{ github.api_url }}/repos/\${{ github.repository }}/actions/runs/\${{ github.run_id }}" \\
+              | jq -r '.run_number // empty' 2>/dev/null)
+            RUN_URL="\${{ github.server_url }}/\${{ github.repository }}/actions/runs/\${ACTUAL_RUN_NUMBER:-\${{ github.run_id }}}"
+          fi
+
+          METADATA='${METADATA_PREFIX}{"type":"pr-commits","check":"${check.name}","sha":"'"\$HEAD_SHA"'","collapsed":false}${METADATA_SUFFIX}'
+
+          {
+            echo "\$METADATA"
+            if [ "\${{ steps.lint.outputs.passed }}" = "true" ]; then
+              echo "${COMMENT_MARKERS.prCommitsPass(check.name)} - PASS"
+            else
+              echo "${COMMENT_MARKERS.prCommitsFail(check.name)} - FAIL"
+            fi
+            echo ""
+            echo "${COMMENT_MARKERS.detailsOpen}"
+            echo "<summary>상세 내용</summary>"
+            echo ""
+            if [ -s commit_errors.md ]; then
+              echo "규칙을 지키지 않은 커밋 (전체 \${{ steps.lint.outputs.commit_count }}개, 머지 커밋 제외):"
+              echo ""
+              cat commit_errors.md
+            else
+              echo "모든 커밋(\${{ steps.lint.outputs.commit_count }}개)이 규칙을 통과했습니다."
+            fi
+            echo ""
+            echo "🔗 [상세 로그](\$RUN_URL) | 📌 \$SHORT_SHA"
+            echo ""
+            echo "\\\`${check.trigger}\\\` 명령에 대한 응답"
+            echo "</details>"
+          } > comment.md
+
+          BODY=\$(jq -Rs '.' comment.md)
+          curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+            -H "Content-Type: application/json" \\
+            -X POST "\${{ github.api_url }}/repos/\${{ github.repository }}/issues/\$PR_NUMBER/comments" \\
+            -d "{\\"body\\": \$BODY}"
+
+      - name: Fail if commit lint failed
+        if: steps.lint.outputs.passed != 'true'
+        run: exit 1`;
+}
@@ -0,0 +1,168 @@
+import type { Config, PrLabelsCheck } from '../../types/config.js';
+import { getCheckRunner, getCheckJobId, getCheckAutoRunOn, labelPatternToRegex } from '../../types/config.js';
+import { STATUS_MESSAGES } from '../constants/messages.js';
+import { COMMENT_MARKERS, METADATA_PREFIX, METADATA_SUFFIX } from '../constants/comments.js';
+import { generateCollapsePrReviewCommentsScript } from '../scripts/collapse-comments.js';
+import {
+  indent,
+  formatRunner,
+  formatJobSettings,
+  formatRunConditions,
+  formatCheckNeeds,
+  formatDependencyConditions,
+  quoteYaml,
+} from '../utils/index.js';
+
+/**
+ * 라벨 검사 규칙(jq 식)과 스텝 환경 변수 생성
+ * 각 규칙은 위반 내용 문자열을 0개 이상 반환 (matching($rule): $rule.regex에 맞는 현재 라벨 배열)
+ * 라벨 패턴은 정규식으로 바꿔 환경 변수 → $ENV로 전달 (command injection 방지)
+ */
+function generateLabelRules(check: PrLabelsCheck): { env: Record<string, string>; rules: string[] } {
+  const env: Record<string, string> = {};
+  const rules: string[] = [];
+  const toRules = (patterns: string[]) => patterns.map((pattern) => ({ pattern, regex: labelPatternToRegex(pattern) }));
+
+  if (check.requiredLabels) {
+    env.REQUIRED_LABELS = JSON.stringify(toRules(check.requiredLabels));
+    rules.push('(($ENV.REQUIRED_LABELS | fromjson)[] | select(matching(.) | length == 0) | "필수 라벨 없음: `" + .pattern + "`")');
+  }
+
+  if (check.forbiddenLabels) {
+    env.FORBIDDEN_LABELS = JSON.stringify(toRules(check.forbiddenLabels));
+    rules.push('([($ENV.FORBIDDEN_LABELS | fromjson)[] | matching(.)[]] | unique[] | "금지된 라벨: `" + . + "`")');
+  }
+
+  if (check.exclusiveLabels) {
+    env.EXCLUSIVE_LABELS = JSON.stringify(check.exclusiveLabels.map(toRules));
+    rules.push(`(($ENV.EXCLUSIVE_LABELS | fromjson)[] | [.[] as $rule | matching($rule)[]] | unique
+  | select(length > 1) | "함께 붙일 수 없는 라벨: \`" + join("\`, \`") + "\`")`);
+  }
+
+  return { env, rules };
+}
+
+/**
+ * PR 라벨 정책 검사 job 생성
+ *
+ * 역할:
+ * 1. PR 라벨 조회 (체크아웃 없음)
+ * 2. 필수 라벨, 금지 라벨, 함께 붙일 수 없는 라벨 그룹 검사
+ * 3. 결과에 따른 status 설정 (mustPass면 review-status가 Approve로도 override하지 않음)
+ * 4. 이전 검사 코멘트 접기 (라벨만 바뀌어 같은 커밋에서 다시 검사하므로 현재 커밋 코멘트도 접음) + 위반 시 코멘트
+ */
+export function generatePrLabelsJob(check: PrLabelsCheck, config: Config): string {
+  const { input } = config;
+  const jobId = getCheckJobId(check);
+  const runsOn = formatRunner(getCheckRunner(check, input));
+  const { env, rules } = generateLabelRules(check);
+  const envLines = Object.entries(env)
+    .map(([key, value]) => `\n          ${key}: ${quoteYaml(value)}`)
+    .join('');
+  const autoRunOn = getCheckAutoRunOn(check);
+  const rerunHint =
+    autoRunOn.includes('labeled') || autoRunOn.includes('unlabeled')
+      ? `
+            echo "라벨을 바꾸면 자동으로 다시 검사합니다."
+            echo ""`
+      : '';
+
+  return `  # ${check.name}
+  ${jobId}:
+    if: |${formatDependencyConditions(check, input.checks, input.ciTrigger)}
+      needs.check-trigger.outputs.should_continue == 'true' &&
+      (${formatRunConditions(check, input.ciTrigger)})
+    needs: ${formatCheckNeeds(check, input.checks)}
+    runs-on: ${runsOn}${formatJobSettings(check)}
+    permissions:
+      pull-requests: write
+      statuses: write
+
+    steps:
+      - name: Check PR labels
+        id: labels
+        env:${envLines}
+        run: |
+          PR_NUMBER="\${{ needs.check-trigger.outputs.pr_number }}"
+
+          # 이벤트 payload 대신 API로 조회 (코멘트 트리거, 같은 실행 중 바뀐 라벨 반영)
+          LABELS_RESPONSE=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+            "\${{ github.api_url }}/repos/\${{ github.repository }}/issues/\$PR_NUMBER/labels?per_page=100&limit=100") || {
+            echo "Failed to fetch labels for PR #\$PR_NUMBER"
+            exit 1
+          }
+          LABELS=\$(echo "\$LABELS_RESPONSE" | jq -c '[.[].name]')
+          echo "Labels: \$LABELS"
+          echo "\$LABELS" | jq -r 'if length == 0 then "(없음)" else map("\`" + . + "\`") | join(", ") end' > current_labels.md
+
+          # 규칙 위반 내용 (한 줄씩)
+          echo "\$LABELS" | jq -r '
+            . as \$labels
+            | def matching(\$rule): [\$labels[] | select(test(\$rule.regex; "i"))];
+${indent(rules.join(',\n'), 14)}
+            | "- " + .
+          ' > label_errors.md
+
+          if [ -s label_errors.md ]; then
+            cat label_errors.md
+            echo "passed=false" >> \$GITHUB_OUTPUT
+          else
+            echo "passed=true" >> \$GITHUB_OUTPUT
+          fi
+
+      - name: Set status
+        run: |
+          HEAD_SHA="\${{ needs.check-trigger.outputs.head_sha }}"
+          if [ "\${{ steps.labels.outputs.passed }}" = "true" ]; then
+            STATE="success"
+            DESC="${STATUS_MESSAGES.success.passed}"
+          else
+            STATE="failure"
+            DESC="${STATUS_MESSAGES.failure.labelPolicy}"
+          fi
+          curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+            -H "Content-Type: application/json" \\
+            -X POST "\${{ github.api_url }}/repos/\${{ github.repository }}/statuses/\$HEAD_SHA" \\
+            -d "{\\"state\\":\\"\$STATE\\",\\"context\\":\\"${check.name}\\",\\"description\\":\\"\$DESC\\"}"
+
+      - name: Collapse old label comments
+        run: |
+          PR_NUMBER="\${{ needs.check-trigger.outputs.pr_number }}"
+          HEAD_SHA="\${{ needs.check-trigger.outputs.head_sha }}"
+
+${indent(generateCollapsePrReviewCommentsScript(check.name, true), 10)}
+
+      - name: Post PR comment
+        if: steps.labels.outputs.passed != 'true'
+        run: |
+          PR_NUMBER="\${{ needs.check-trigger.outputs.pr_number }}"
+          HEAD_SHA="\${{ needs.check-trigger.outputs.head_sha }}"
+          SHORT_SHA="\${HEAD_SHA:0:7}"
+
+          METADATA='${METADATA_PREFIX}{"type":"pr-labels","check":"${check.name}","sha":"'"\$HEAD_SHA"'","collapsed":false}${METADATA_SUFFIX}'
+
+          {
+            echo "\$METADATA"
+            echo "${COMMENT_MARKERS.prLabelsFail(check.name)} - FAIL"
+            echo ""
+            echo "${COMMENT_MARKERS.detailsOpen}"
+            echo "<summary>상세 내용</summary>"
+            echo ""
+            echo "현재 라벨: \$(cat current_labels.md)"
+            echo ""
+            cat label_errors.md
+            echo ""${rerunHint}
+            echo "📌 \$SHORT_SHA | \\\`${check.trigger}\\\` 명령에 대한 응답"
+            echo "</details>"
+          } > comment.md
+
+          BODY=\$(jq -Rs '.' comment.md)
+          curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+            -H "Content-Type: application/json" \\
+            -X POST "\${{ github.api_url }}/repos/\${{ github.repository }}/issues/\$PR_NUMBER/comments" \\
+            -d "{\\"body\\": \$BODY}"
+
+      - name: Fail if label policy not met
+        if: steps.labels.outputs.passed != 'true'
+        run: exit 1`;
+}
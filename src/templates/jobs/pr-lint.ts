@@ -0,0 +1,193 @@
+import type { Config, PrLintCheck } from '../../types/config.js';
+import { getCheckRunner, getCheckJobId } from '../../types/config.js';
+import { STATUS_MESSAGES } from '../constants/messages.js';
+import { COMMENT_MARKERS, METADATA_PREFIX, METADATA_SUFFIX } from '../constants/comments.js';
+import { CONVENTIONAL_COMMIT_PATTERN } from '../constants/patterns.js';
+import { generateCollapsePrReviewCommentsScript } from '../scripts/collapse-comments.js';
+import {
+  indent,
+  formatRunner,
+  formatJobSettings,
+  formatRunConditions,
+  formatCheckNeeds,
+  formatDependencyConditions,
+  quoteYaml,
+} from '../utils/index.js';
+
+/**
+ * 검사 규칙별 스크립트와 스텝 환경 변수 생성
+ * 사용자 정규식/섹션 이름은 스크립트에 직접 넣지 않고 환경 변수 → jq --arg로 전달 (command injection 방지)
+ */
+function generateLintRules(check: PrLintCheck): { env: Record<string, string>; script: string } {
+  const env: Record<string, string> = {};
+  const rules: string[] = [];
+
+  if (check.conventionalCommits) {
+    env.CONVENTIONAL_PATTERN = CONVENTIONAL_COMMIT_PATTERN;
+    rules.push(`# 제목: Conventional Commits
+if ! jq -en --arg title "\$TITLE" --arg pattern "\$CONVENTIONAL_PATTERN" '\$title | test(\$pattern)' > /dev/null; then
+  echo "- 제목이 Conventional Commits 형식이 아닙니다 (예: \\\`feat(api): 로그인 추가\\\`)." >> lint_errors.md
+fi`);
+  }
+
+  if (check.titlePattern) {
+    env.TITLE_PATTERN = check.titlePattern;
+    rules.push(`# 제목: titlePattern
+if ! jq -en --arg title "\$TITLE" --arg pattern "\$TITLE_PATTERN" '\$title | test(\$pattern)' > /dev/null; then
+  echo "- 제목이 \\\`\$TITLE_PATTERN\\\` 형식에 맞지 않습니다." >> lint_errors.md
+fi`);
+  }
+
+  if (check.issueKeyPattern) {
+    env.ISSUE_KEY_PATTERN = check.issueKeyPattern;
+    rules.push(`# 제목/본문: 이슈 키
+if ! jq -en --arg title "\$TITLE" --arg body "\$BODY" --arg pattern "\$ISSUE_KEY_PATTERN" '(\$title + " " + \$body) | test(\$pattern)' > /dev/null; then
+  echo "- 제목이나 본문에 이슈 키(\\\`\$ISSUE_KEY_PATTERN\\\`)가 없습니다." >> lint_errors.md
+fi`);
+  }
+
+  if (check.minDescriptionLength) {
+    rules.push(`# 본문: 최소 길이 (HTML 주석과 공백 제외)
+BODY_LENGTH=\$(jq -n --arg body "\$BODY" '\$body | gsub("<!--([^-]|-[^-])*-->"; "") | gsub("[[:space:]]"; "") | length')
+if [ "\$BODY_LENGTH" -lt ${check.minDescriptionLength} ]; then
+  echo "- 본문이 너무 짧습니다 (\$BODY_LENGTH자, 최소 ${check.minDescriptionLength}자, 공백 제외)." >> lint_errors.md
+fi`);
+  }
+
+  if (check.requiredSections) {
+    env.REQUIRED_SECTIONS = JSON.stringify(check.requiredSections);
+    rules.push(`# 본문: 필수 섹션 (대소문자 무시)
+jq -nr --arg body "\$BODY" --argjson sections "\$REQUIRED_SECTIONS" '
+  [\$body | split("\\n")[] | select(test("^#{1,6}[[:space:]]")) | sub("^#+[[:space:]]*"; "") | sub("[[:space:]]+$"; "") | ascii_downcase] as \$headings
+  | \$sections[] | select(ascii_downcase as \$s | any(\$headings[]; . == \$s) | not)
+  | "- 본문에 \`## " + . + "\` 섹션이 없습니다."' >> lint_errors.md`);
+  }
+
+  return { env, script: rules.join('\n\n') };
+}
+
+/**
+ * PR 제목/본문 검사 job 생성
+ *
+ * 역할:
+ * 1. PR 정보 조회 (체크아웃 없음)
+ * 2. 제목 형식, 이슈 키, 본문 길이, 필수 섹션 검사
+ * 3. 결과에 따른 status 설정
+ * 4. 이전 검사 코멘트 접기 (같은 커밋에서 다시 검사하므로 현재 커밋 코멘트도 접음) + 결과 코멘트
+ */
+export function generatePrLintJob(check: PrLintCheck, config: Config): string {
+  const { input } = config;
+  const jobId = getCheckJobId(check);
+  const runsOn = formatRunner(getCheckRunner(check, input));
+  const { env, script } = generateLintRules(check);
+  const envLines = Object.entries(env)
+    .map(([key, value]) => `\n          ${key}: ${quoteYaml(value)}`)
+    .join('');
+
+  return `  # ${check.name}
+  ${jobId}:
+    if: |${formatDependencyConditions(check, input.checks, input.ciTrigger)}
+      needs.check-trigger.outputs.should_continue == 'true' &&
+      (${formatRunConditions(check, input.ciTrigger)})
+    needs: ${formatCheckNeeds(check, input.checks)}
+    runs-on: ${runsOn}${formatJobSettings(check)}
+    permissions:
+      pull-requests: write
+      statuses: write
+
+    steps:
+      - name: Lint PR title and description
+        id: lint${envLines ? `\n        env:${envLines}` : ''}
+        run: |
+          PR_NUMBER="\${{ needs.check-trigger.outputs.pr_number }}"
+          PR_RESPONSE=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+            "\${{ github.api_url }}/repos/\${{ github.repository }}/pulls/\$PR_NUMBER") || {
+            echo "Failed to fetch PR #\$PR_NUMBER"
+            exit 1
+          }
+          TITLE=\$(echo "\$PR_RESPONSE" | jq -r '.title // ""')
+          BODY=\$(echo "\$PR_RESPONSE" | jq -r '.body // ""')
+          : > lint_errors.md
+
+${indent(script, 10)}
+
+          if [ -s lint_errors.md ]; then
+            cat lint_errors.md
+            echo "passed=false" >> \$GITHUB_OUTPUT
+          else
+            echo "passed=true" >> \$GITHUB_OUTPUT
+          fi
+
+      - name: Set status
+        run: |
+          HEAD_SHA="\${{ needs.check-trigger.outputs.head_sha }}"
+          if [ "\${{ steps.lint.outputs.passed }}" = "true" ]; then
+            STATE="success"
+            DESC="${STATUS_MESSAGES.success.passed}"
+          else
+            STATE="failure"
+            DESC="${STATUS_MESSAGES.failure.failed}"
+          fi
+          curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+            -H "Content-Type: application/json" \\
+            -X POST "\${{ github.api_url }}/repos/\${{ github.repository }}/statuses/\$HEAD_SHA" \\
+            -d "{\\"state\\":\\"\$STATE\\",\\"context\\":\\"${check.name}\\",\\"description\\":\\"\$DESC\\"}"
+
+      - name: Collapse old lint comments
+        run: |
+          PR_NUMBER="\${{ needs.check-trigger.outputs.pr_number }}"
+          HEAD_SHA="\${{ needs.check-trigger.outputs.head_sha }}"
+
+${indent(generateCollapsePrReviewCommentsScript(check.name, true), 10)}
+
+      - name: Post PR comment
+        run: |
+          PR_NUMBER="\${{ needs.check-trigger.outputs.pr_number }}"
+          HEAD_SHA="\${{ needs.check-trigger.outputs.head_sha }}"
+          SHORT_SHA="\${HEAD_SHA:0:7}"
+
+          # GitHub uses run_id in URL, Gitea uses run_number
+          if [[ "\${{ github.server_url }}" == *"github.com"* ]]; then
+            RUN_URL="\${{ github.server_url }}/\${{ github.repository }}/actions/runs/\${{ github.run_id }}"
+          else
+            ACTUAL_RUN_NUMBER=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+              "\${{ github.api_url }}/repos/\${{ github.repository }}/actions/runs/\${{ github.run_id }}" \\
+              | jq -r '.run_number // empty' 2>/dev/null)
+            RUN_URL="\${{ github.server_url }}/\${{ github.repository }}/actions/runs/\${ACTUAL_RUN_NUMBER:-\${{ github.run_id }}}"
+          fi
+
+          METADATA='${METADATA_PREFIX}{"type":"pr-lint","check":"${check.name}","sha":"'"\$HEAD_SHA"'","collapsed":false}${METADATA_SUFFIX}'
+
+          {
+            echo "\$METADATA"
+            if [ "\${{ steps.lint.outputs.passed }}" = "true" ]; then
+              echo "${COMMENT_MARKERS.prLintPass(check.name)} - PASS"
+            else
+              echo "${COMMENT_MARKERS.prLintFail(check.name)} - FAIL"
+            fi
+            echo ""
+            echo "${COMMENT_MARKERS.detailsOpen}"
+            echo "<summary>상세 내용</summary>"
+            echo ""
+            if [ -s lint_errors.md ]; then
+              cat lint_errors.md
+            else
+              echo "PR 제목과 본문이 모든 규칙을 통과했습니다."
+            fi
+            echo ""
+            echo "🔗 [상세 로그](\$RUN_URL) | 📌 \$SHORT_SHA"
+            echo ""
+            echo "\\\`${check.trigger}\\\` 명령에 대한 응답"
+            echo "</details>"
+          } > comment.md
+
+          BODY=\$(jq -Rs '.' comment.md)
+          curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+            -H "Content-Type: application/json" \\
+            -X POST "\${{ github.api_url }}/repos/\${{ github.repository }}/issues/\$PR_NUMBER/comments" \\
+            -d "{\\"body\\": \$BODY}"
+
+      - name: Fail if lint failed
+        if: steps.lint.outputs.passed != 'true'
+        run: exit 1`;
+}
@@ -1,9 +1,18 @@
-import type { Config, PrReviewCheck, PrTestCheck, CliTool } from '../../types/config.js';
+import type { Config, PrReviewCheck, CliTool, SelfHostedConfig } from '../../types/config.js';
+import { getCheckRunner, getCheckJobId } from '../../types/config.js';
 import { STATUS_MESSAGES } from '../constants/messages.js';
 import { COMMENT_MARKERS } from '../constants/comments.js';
 import { buildPromptForJq, CLI_REVIEW_PROMPT } from '../constants/prompts.js';
 import { generateCollapsePrReviewCommentsScript } from '../scripts/collapse-comments.js';
-import { indent, formatRunner } from '../utils/index.js';
+import {
+  indent,
+  formatRunner,
+  formatJobSettings,
+  formatRunConditions,
+  formatCheckNeeds,
+  formatDependencyConditions,
+  isSelfHostedRunner,
+} from '../utils/index.js';
 import {
   generateDockerCheckStep,
   generateRepoCacheStep,
@@ -224,9 +233,8 @@ function generateCliReviewStep(check: PrReviewCheck): string {
  * - 명령어가 diff, 프롬프트, LLM 호출 모두 처리
  * - exit 0 = pass, exit 1 = fail
  */
-function generateCustomCommandReviewStep(check: PrReviewCheck, config: Config): string {
+function generateCustomCommandReviewStep(check: PrReviewCheck, selfHosted: SelfHostedConfig | undefined): string {
   const command = check.cliCommand!;
-  const { selfHosted } = config.input;
 
   // selfHosted는 repo 서브디렉토리로 클론
   const workingDir = selfHosted ? '\n        working-directory: repo' : '';
@@ -281,14 +289,14 @@ function generateCustomCommandReviewStep(check: PrReviewCheck, config: Config):
 /**
  * AI 리뷰 스텝 생성 (provider에 따라 다른 구현)
  */
-function generateReviewStep(check: PrReviewCheck, config: Config): string {
+function generateReviewStep(check: PrReviewCheck, selfHosted: SelfHostedConfig | undefined): string {
   if (check.provider === 'bedrock') {
     return generateBedrockReviewStep(check);
   }
   if (check.provider === 'cli') {
     // cliCommand가 있으면 커스텀 명령어 사용
     if (check.cliCommand) {
-      return generateCustomCommandReviewStep(check, config);
+      return generateCustomCommandReviewStep(check, selfHosted);
     }
     return generateCliReviewStep(check);
   }
@@ -299,9 +307,7 @@ function generateReviewStep(check: PrReviewCheck, config: Config): string {
 /**
  * Diff 가져오기 스텝 생성 (selfHosted 여부에 따라 다름)
  */
-function generateDiffSteps(config: Config): string {
-  const { selfHosted } = config.input;
-
+function generateDiffSteps(config: Config, selfHosted: SelfHostedConfig | undefined): string {
   if (selfHosted) {
     // selfHosted: repo-cache + pr-fetch + git-diff 사용
     return `${generateRepoCacheStep(config)}
@@ -332,42 +338,15 @@ ${generateGitDiffStep(config)}`;
  * 3. 결과에 따른 status 설정
  * 4. PR 코멘트 작성
  */
-export function generatePrReviewJob(
-  check: PrReviewCheck,
-  config: Config,
-  requiredPrTests: PrTestCheck[]
-): string {
+export function generatePrReviewJob(check: PrReviewCheck, config: Config): string {
   const { input } = config;
-  const jobId = check.name;
-  const selfHosted = input.selfHosted;
+  const jobId = getCheckJobId(check);
+  const runner = getCheckRunner(check, input);
+  // selfHosted 스텝은 self-hosted runner에서 실행하는 job에만 적용
+  const selfHosted = isSelfHostedRunner(runner, input.platform) ? input.selfHosted : undefined;
   const diffStepId = selfHosted ? 'git-diff' : 'diff';
 
-  // 실행 조건: 개별 트리거, ciTrigger(mustRun일 때), 자동 실행
-  const runConditions = [
-    `needs.check-trigger.outputs.trigger == '${check.trigger}'`,
-  ];
-  if (check.mustRun) {
-    runConditions.push(`needs.check-trigger.outputs.trigger == '${input.ciTrigger}'`);
-  }
-  runConditions.push(`needs.check-trigger.outputs.auto_run_${check.name} == 'true'`);
-
-  // 의존성: check-trigger + required pr-test jobs (ciTrigger인 경우)
-  const dependencies = ['check-trigger'];
-  for (const prTest of requiredPrTests) {
-    dependencies.push(prTest.name);
-  }
-
-  // ciTrigger인 경우 pr-test 성공 조건 추가
-  let prTestSuccessCondition = '';
-  if (check.mustRun && requiredPrTests.length > 0) {
-    const prTestConditions = requiredPrTests.map(
-      (pt) => `needs.${pt.name}.result == 'success'`
-    );
-    prTestSuccessCondition = `
-      (needs.check-trigger.outputs.trigger != '${input.ciTrigger}' || (${prTestConditions.join(' && ')})) &&`;
-  }
-
-  const runsOn = formatRunner(input.runner);
+  const runsOn = formatRunner(runner);
 
   // Docker 체크 스텝 (selfHosted + docker일 때)
   const dockerStep = selfHosted?.docker
@@ -393,17 +372,16 @@ ${generatePrFetchStep()}`;
           submodules: recursive`;
     }
   } else {
-    diffSteps = generateDiffSteps(config);
+    diffSteps = generateDiffSteps(config, selfHosted);
   }
 
   return `  # ${check.name}
   ${jobId}:
-    if: |
-      always() &&
-      needs.check-trigger.outputs.should_continue == 'true' &&${prTestSuccessCondition}
-      (${runConditions.join(' || ')})
-    needs: [${dependencies.join(', ')}]
-    runs-on: ${runsOn}
+    if: |${formatDependencyConditions(check, input.checks, input.ciTrigger)}
+      needs.check-trigger.outputs.should_continue == 'true' &&
+      (${formatRunConditions(check, input.ciTrigger)})
+    needs: ${formatCheckNeeds(check, input.checks)}
+    runs-on: ${runsOn}${formatJobSettings(check)}
     permissions:
       contents: read
       pull-requests: write
@@ -421,7 +399,7 @@ ${dockerStep}${diffSteps}
             -X POST "\${{ github.api_url }}/repos/\${{ github.repository }}/statuses/\$HEAD_SHA" \\
             -d '{"state":"pending","context":"${check.name}","description":"${STATUS_MESSAGES.pending.inProgress}"}'
 
-${generateReviewStep(check, config)}
+${generateReviewStep(check, selfHosted)}
 
       - name: Set final status
         if: needs.check-trigger.outputs.is_official == 'true'
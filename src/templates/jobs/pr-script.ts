@@ -0,0 +1,99 @@
+import type { Config, PrScriptCheck } from '../../types/config.js';
+import { getCheckRunner, getCheckJobId } from '../../types/config.js';
+import {
+  formatRunner,
+  formatJobSettings,
+  formatRunConditions,
+  formatCheckNeeds,
+  formatDependencyConditions,
+  isSelfHostedRunner,
+  indentCommand,
+} from '../utils/index.js';
+import { generateDockerCheckStep, generateCheckoutSteps, generateSetupSteps } from '../steps/index.js';
+
+/**
+ * pr-script 결과 파일 이름 (WORK_DIR 기준, 리포트 스크립트가 읽음)
+ */
+export const PR_SCRIPT_RESULT_FILE = 'pr_script_result.json';
+
+/**
+ * 커스텀 스크립트 체크 job 생성
+ *
+ * 역할:
+ * 1. PR 브랜치 체크아웃 + 실행 환경 셋업
+ * 2. 명령어 실행 (PR_CHECKS_RESULT 경로에 JSON 결과 파일 작성)
+ * 3. 결과 파일의 state로 status 설정, summary/details/annotations로 코멘트와 annotation 작성
+ *    (결과 파일이 없거나 형식이 잘못되면 failure)
+ */
+export function generatePrScriptJob(check: PrScriptCheck, config: Config): string {
+  const { input } = config;
+  const jobId = getCheckJobId(check);
+  const runner = getCheckRunner(check, input);
+  // selfHosted 스텝은 self-hosted runner에서 실행하는 job에만 적용
+  const selfHosted = isSelfHostedRunner(runner, input.platform) ? input.selfHosted : undefined;
+
+  const setupSteps = generateSetupSteps(check.setupSteps);
+  const dockerStep = selfHosted?.docker ? `${generateDockerCheckStep()}\n\n` : '';
+  const checkoutSteps = generateCheckoutSteps(config, selfHosted);
+
+  // workingDirectory: 명령어만 하위 디렉토리에서 실행 (결과/출력 파일은 리포트 스크립트가 읽도록 WORK_DIR에 저장)
+  const commandDir = check.workingDirectory ? `\${{ env.WORK_DIR }}/${check.workingDirectory}` : '\${{ env.WORK_DIR }}';
+
+  return `  # ${check.name}
+  ${jobId}:
+    if: |${formatDependencyConditions(check, input.checks, input.ciTrigger)}
+      needs.check-trigger.outputs.should_continue == 'true' &&
+      (${formatRunConditions(check, input.ciTrigger)})
+    needs: ${formatCheckNeeds(check, input.checks)}
+    runs-on: ${formatRunner(runner)}${formatJobSettings(check)}
+    steps:
+${dockerStep}${checkoutSteps}
+
+${setupSteps}
+
+      - name: Run ${check.name}
+        id: script
+        shell: bash
+        working-directory: ${commandDir}
+        env:
+          PR_CHECKS_RESULT: \${{ env.WORK_DIR }}/${PR_SCRIPT_RESULT_FILE}
+        run: |
+          set +e
+          # 이전 실행에서 남은 결과 파일 제거 (selfHosted 저장소 캐시)
+          rm -f "\$PR_CHECKS_RESULT"
+          (${indentCommand(check.command)}) 2>&1 | tee "\$WORK_DIR/test_output.txt"
+          echo "exit_code=\${PIPESTATUS[0]}" >> \$GITHUB_OUTPUT
+
+      - name: Collapse old comments
+        shell: bash
+        working-directory: \${{ env.WORK_DIR }}
+        env:
+          GITHUB_TOKEN: \${{ secrets.GITHUB_TOKEN }}
+          GITHUB_API_URL: \${{ github.api_url }}
+          GITHUB_REPOSITORY: \${{ github.repository }}
+        run: |
+          bash .pr-checks/scripts/${jobId}-collapse.sh \\
+            "\${{ needs.check-trigger.outputs.pr_number }}" \\
+            "\${{ needs.check-trigger.outputs.head_sha }}"
+
+      - name: Set status and post comment
+        shell: bash
+        working-directory: \${{ env.WORK_DIR }}
+        env:
+          GITHUB_TOKEN: \${{ secrets.GITHUB_TOKEN }}
+          GITHUB_API_URL: \${{ github.api_url }}
+          GITHUB_REPOSITORY: \${{ github.repository }}
+          GITHUB_SERVER_URL: \${{ github.server_url }}
+          GITHUB_RUN_ID: \${{ github.run_id }}
+          GITHUB_RUN_NUMBER: \${{ github.run_number }}
+        run: |
+          bash .pr-checks/scripts/${jobId}-report.sh \\
+            "\${{ needs.check-trigger.outputs.head_sha }}" \\
+            "\${{ needs.check-trigger.outputs.pr_number }}" \\
+            "\${{ steps.script.outputs.exit_code }}"
+
+      - name: Fail if check failed
+        shell: bash
+        working-directory: \${{ env.WORK_DIR }}
+        run: test "\$(cat script_result.txt 2>/dev/null)" = "true"`;
+}
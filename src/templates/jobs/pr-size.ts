@@ -0,0 +1,292 @@
+import type { Config, PrSizeCheck, Platform } from '../../types/config.js';
+import { getCheckRunner, getCheckJobId, pathGlobToRegex } from '../../types/config.js';
+import { STATUS_MESSAGES } from '../constants/messages.js';
+import { COMMENT_MARKERS, METADATA_PREFIX, METADATA_SUFFIX } from '../constants/comments.js';
+import { generateCollapsePrReviewCommentsScript } from '../scripts/collapse-comments.js';
+import {
+  indent,
+  formatRunner,
+  formatJobSettings,
+  formatRunConditions,
+  formatCheckNeeds,
+  formatDependencyConditions,
+  isSelfHostedRunner,
+  quoteYaml,
+} from '../utils/index.js';
+import { generateRepoCacheStep, generatePrFetchStep } from '../steps/index.js';
+
+/**
+ * 크기 라벨 (변경 줄 수 기준, 마지막 항목은 상한 없음)
+ */
+const PR_SIZE_LABELS: { size: string; maxLines?: number }[] = [
+  { size: 'XS', maxLines: 9 },
+  { size: 'S', maxLines: 99 },
+  { size: 'M', maxLines: 499 },
+  { size: 'L', maxLines: 999 },
+  { size: 'XL' },
+];
+
+/**
+ * 크기 라벨 이름 접두사 (예: size/M)
+ */
+const PR_SIZE_LABEL_PREFIX = 'size/';
+
+/**
+ * 변경 파일 목록 조회 스크립트 ([{filename, additions, deletions}] JSON을 FILES에 저장)
+ * - 기본: PR files API (GitHub: per_page, Gitea: limit)
+ * - selfHosted: 캐시된 저장소에서 git diff --numstat (바이너리 파일은 0줄)
+ */
+function generateFetchFilesScript(selfHosted: boolean): string {
+  if (selfHosted) {
+    return `cd "\${{ steps.repo-cache.outputs.repo_dir }}"
+BASE_BRANCH=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+  "\${{ github.api_url }}/repos/\${{ github.repository }}/pulls/\$PR_NUMBER" | jq -r '.base.ref')
+git fetch origin \$BASE_BRANCH
+FILES=\$(git -c core.quotePath=false diff --numstat --no-renames origin/\$BASE_BRANCH...\${{ steps.pr-fetch.outputs.pr_branch }} \\
+  | jq -Rn '[inputs | split("\\t") | {filename: .[2], additions: ((.[0] | tonumber?) // 0), deletions: ((.[1] | tonumber?) // 0)}]')
+cd "\${{ github.workspace }}"`;
+  }
+
+  return `FILES='[]'
+PAGE=1
+while [ "\$PAGE" -le 100 ]; do
+  FILES_RESPONSE=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+    "\${{ github.api_url }}/repos/\${{ github.repository }}/pulls/\$PR_NUMBER/files?per_page=100&limit=100&page=\$PAGE") || {
+    echo "Failed to fetch changed files for PR #\$PR_NUMBER"
+    exit 1
+  }
+  if [ "\$(echo "\$FILES_RESPONSE" | jq 'length')" = "0" ]; then
+    break
+  fi
+  FILES=\$(jq -n --argjson files "\$FILES" --argjson page "\$FILES_RESPONSE" '\$files + [\$page[] | {filename, additions, deletions}]')
+  PAGE=\$((PAGE + 1))
+done`;
+}
+
+/**
+ * 크기 라벨 설정 스크립트 (이전 size/* 라벨 제거 후 현재 크기 라벨 추가)
+ * GitHub는 라벨 이름으로, Gitea는 라벨 ID로 설정 (Gitea는 저장소에 라벨이 없으면 먼저 생성)
+ */
+function generateLabelScript(platform: Platform): string {
+  const auth = '-H "Authorization: token \${{ secrets.GITHUB_TOKEN }}"';
+  const issueLabelsUrl = '\${{ github.api_url }}/repos/\${{ github.repository }}/issues/\$PR_NUMBER/labels';
+  const sizePattern = `^${PR_SIZE_LABEL_PREFIX}(${PR_SIZE_LABELS.map((l) => l.size).join('|')})$`;
+  const oldLabelKey = platform === 'gitea' ? '.id' : '.name | @uri';
+
+  const addLabel =
+    platform === 'gitea'
+      ? `  LABEL_ID=\$(curl -sf ${auth} "\${{ github.api_url }}/repos/\${{ github.repository }}/labels?limit=100" \\
+    | jq -r --arg label "\$LABEL" '.[] | select(.name == \$label) | .id' | head -n 1)
+  if [ -z "\$LABEL_ID" ]; then
+    LABEL_ID=\$(curl -sf ${auth} \\
+      -H "Content-Type: application/json" \\
+      -X POST "\${{ github.api_url }}/repos/\${{ github.repository }}/labels" \\
+      -d "{\\"name\\":\\"\$LABEL\\",\\"color\\":\\"#ededed\\"}" | jq -r '.id // empty')
+  fi
+  if [ -n "\$LABEL_ID" ]; then
+    curl -sf ${auth} \\
+      -H "Content-Type: application/json" \\
+      -X POST "${issueLabelsUrl}" \\
+      -d "{\\"labels\\":[\$LABEL_ID]}" > /dev/null || echo "Warning: Failed to add label \$LABEL"
+  else
+    echo "Warning: Failed to create label \$LABEL"
+  fi`
+      : `  curl -sf ${auth} \\
+    -H "Content-Type: application/json" \\
+    -X POST "${issueLabelsUrl}" \\
+    -d "{\\"labels\\":[\\"\$LABEL\\"]}" > /dev/null || echo "Warning: Failed to add label \$LABEL"`;
+
+  return `LABEL="${PR_SIZE_LABEL_PREFIX}\${{ steps.size.outputs.size }}"
+CURRENT_LABELS=\$(curl -sf ${auth} "${issueLabelsUrl}") || CURRENT_LABELS='[]'
+
+# 이전 크기 라벨 제거
+for OLD_LABEL in \$(echo "\$CURRENT_LABELS" | jq -r --arg label "\$LABEL" \\
+  '.[] | select(.name | test("${sizePattern}")) | select(.name != \$label) | ${oldLabelKey}'); do
+  curl -sf ${auth} -X DELETE "${issueLabelsUrl}/\$OLD_LABEL" > /dev/null || echo "Warning: Failed to remove label \$OLD_LABEL"
+done
+
+# 현재 크기 라벨 추가 (이미 있으면 스킵)
+if ! echo "\$CURRENT_LABELS" | jq -e --arg label "\$LABEL" 'any(.[]; .name == \$label)' > /dev/null; then
+${addLabel}
+fi`;
+}
+
+/**
+ * 변경 줄 수로 크기 라벨을 정하는 스크립트
+ */
+function generateSizeScript(): string {
+  const branches = PR_SIZE_LABELS.map(({ size, maxLines }, i) => {
+    if (maxLines === undefined) return `else\n  SIZE="${size}"`;
+    return `${i === 0 ? 'if' : 'elif'} [ "\$LINES" -le ${maxLines} ]; then\n  SIZE="${size}"`;
+  });
+  return `${branches.join('\n')}\nfi`;
+}
+
+/**
+ * PR 크기 검사 job 생성
+ *
+ * 역할:
+ * 1. 변경 파일별 추가/삭제 줄 수 조회 (PR API 또는 selfHosted에서 git diff --numstat)
+ * 2. exclude 글로브에 맞는 파일을 빼고 줄/파일 수 계산
+ * 3. size/XS ~ size/XL 라벨 설정
+ * 4. 임계값 초과 시 실패 또는 경고 status + 코멘트 (이전 코멘트는 접음)
+ */
+export function generatePrSizeJob(check: PrSizeCheck, config: Config): string {
+  const { input } = config;
+  const jobId = getCheckJobId(check);
+  const runner = getCheckRunner(check, input);
+  // selfHosted 스텝은 self-hosted runner에서 실행하는 job에만 적용
+  const selfHosted = isSelfHostedRunner(runner, input.platform) && input.selfHosted !== undefined;
+  const warnOnly = check.onExceed === 'warn';
+  const exceededMarker = warnOnly ? COMMENT_MARKERS.prSizeWarning(check.name) : COMMENT_MARKERS.prSizeFail(check.name);
+
+  // 사용자 글로브/경로는 스크립트에 직접 넣지 않고 환경 변수 → jq --arg로 전달
+  const env: Record<string, string> = {};
+  if (check.exclude) {
+    env.EXCLUDE_PATTERN = check.exclude.map(pathGlobToRegex).join('|');
+  }
+  const projectPath = check.project ? input.projects?.find((p) => p.name === check.project)?.path : undefined;
+  if (projectPath) {
+    env.PROJECT_PATH = `${projectPath}/`;
+  }
+  const envLines = Object.entries(env)
+    .map(([key, value]) => `\n          ${key}: ${quoteYaml(value)}`)
+    .join('');
+
+  const thresholdRules = [
+    ...(check.maxLines
+      ? [`if [ "\$LINES" -gt ${check.maxLines} ]; then
+  echo "- 변경 줄 수가 \$LINES줄로 최대 ${check.maxLines}줄을 넘었습니다." >> size_errors.md
+fi`]
+      : []),
+    ...(check.maxFiles
+      ? [`if [ "\$FILE_COUNT" -gt ${check.maxFiles} ]; then
+  echo "- 변경 파일 수가 \$FILE_COUNT개로 최대 ${check.maxFiles}개를 넘었습니다." >> size_errors.md
+fi`]
+      : []),
+  ];
+
+  const checkoutSteps = selfHosted ? `${generateRepoCacheStep(config)}\n\n${generatePrFetchStep()}\n\n` : '';
+
+  const labelStep =
+    check.sizeLabels === false
+      ? ''
+      : `
+
+      - name: Set size label
+        run: |
+          PR_NUMBER="\${{ needs.check-trigger.outputs.pr_number }}"
+${indent(generateLabelScript(input.platform), 10)}`;
+
+  const failStep = warnOnly
+    ? ''
+    : `
+
+      - name: Fail if PR is too large
+        if: steps.size.outputs.exceeded == 'true'
+        run: exit 1`;
+
+  return `  # ${check.name}
+  ${jobId}:
+    if: |${formatDependencyConditions(check, input.checks, input.ciTrigger)}
+      needs.check-trigger.outputs.should_continue == 'true' &&
+      (${formatRunConditions(check, input.ciTrigger)})
+    needs: ${formatCheckNeeds(check, input.checks)}
+    runs-on: ${formatRunner(runner)}${formatJobSettings(check)}
+    permissions:
+      contents: read
+      issues: write
+      pull-requests: write
+      statuses: write
+
+    steps:
+${checkoutSteps}      - name: Calculate PR size
+        id: size${envLines ? `\n        env:${envLines}` : ''}
+        run: |
+          PR_NUMBER="\${{ needs.check-trigger.outputs.pr_number }}"
+
+${indent(generateFetchFilesScript(selfHosted), 10)}
+
+          # 프로젝트 밖 파일과 exclude에 맞는 파일 제외
+          INCLUDED=\$(echo "\$FILES" | jq -c --arg project "\${PROJECT_PATH:-}" --arg exclude "\${EXCLUDE_PATTERN:-}" \\
+            '[.[] | select(.filename | startswith(\$project)) | select(\$exclude == "" or (.filename | test(\$exclude) | not))]')
+          LINES=\$(echo "\$INCLUDED" | jq '[.[] | .additions + .deletions] | add // 0')
+          FILE_COUNT=\$(echo "\$INCLUDED" | jq 'length')
+          EXCLUDED_COUNT=\$(( \$(echo "\$FILES" | jq 'length') - FILE_COUNT ))
+
+${indent(generateSizeScript(), 10)}
+          echo "Size: \$SIZE (\$LINES lines, \$FILE_COUNT files, \$EXCLUDED_COUNT excluded)"
+
+          : > size_errors.md
+${indent(thresholdRules.join('\n'), 10)}
+
+          if [ -s size_errors.md ]; then
+            cat size_errors.md
+            echo "exceeded=true" >> \$GITHUB_OUTPUT
+          else
+            echo "exceeded=false" >> \$GITHUB_OUTPUT
+          fi
+          {
+            echo "size=\$SIZE"
+            echo "lines=\$LINES"
+            echo "files=\$FILE_COUNT"
+            echo "excluded=\$EXCLUDED_COUNT"
+          } >> \$GITHUB_OUTPUT${labelStep}
+
+      - name: Set status
+        run: |
+          HEAD_SHA="\${{ needs.check-trigger.outputs.head_sha }}"
+          SUMMARY="size/\${{ steps.size.outputs.size }}, \${{ steps.size.outputs.lines }} lines, \${{ steps.size.outputs.files }} files"
+          if [ "\${{ steps.size.outputs.exceeded }}" = "true" ]; then
+            STATE="${warnOnly ? 'success' : 'failure'}"
+            DESC="${warnOnly ? STATUS_MESSAGES.success.tooLargeWarning : STATUS_MESSAGES.failure.tooLarge} (\$SUMMARY)"
+          else
+            STATE="success"
+            DESC="${STATUS_MESSAGES.success.passed} (\$SUMMARY)"
+          fi
+          curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+            -H "Content-Type: application/json" \\
+            -X POST "\${{ github.api_url }}/repos/\${{ github.repository }}/statuses/\$HEAD_SHA" \\
+            -d "{\\"state\\":\\"\$STATE\\",\\"context\\":\\"${check.name}\\",\\"description\\":\\"\$DESC\\"}"
+
+      - name: Collapse old size comments
+        run: |
+          PR_NUMBER="\${{ needs.check-trigger.outputs.pr_number }}"
+          HEAD_SHA="\${{ needs.check-trigger.outputs.head_sha }}"
+
+${indent(generateCollapsePrReviewCommentsScript(check.name, true), 10)}
+
+      - name: Post PR comment
+        if: steps.size.outputs.exceeded == 'true'
+        run: |
+          PR_NUMBER="\${{ needs.check-trigger.outputs.pr_number }}"
+          HEAD_SHA="\${{ needs.check-trigger.outputs.head_sha }}"
+          SHORT_SHA="\${HEAD_SHA:0:7}"
+
+          METADATA='${METADATA_PREFIX}{"type":"pr-size","check":"${check.name}","sha":"'"\$HEAD_SHA"'","collapsed":false}${METADATA_SUFFIX}'
+
+          {
+            echo "\$METADATA"
+            echo "${exceededMarker} - size/\${{ steps.size.outputs.size }}"
+            echo ""
+            echo "${COMMENT_MARKERS.detailsOpen}"
+            echo "<summary>상세 내용</summary>"
+            echo ""
+            echo "| 변경 줄 | 변경 파일 | 제외된 파일 |"
+            echo "|---------|-----------|-------------|"
+            echo "| \${{ steps.size.outputs.lines }} | \${{ steps.size.outputs.files }} | \${{ steps.size.outputs.excluded }} |"
+            echo ""
+            cat size_errors.md
+            echo ""
+            echo "PR을 작은 단위로 나누면 리뷰(AI 리뷰 포함)가 더 정확해집니다."
+            echo ""
+            echo "📌 \$SHORT_SHA | \\\`${check.trigger}\\\` 명령에 대한 응답"
+            echo "</details>"
+          } > comment.md
+
+          BODY=\$(jq -Rs '.' comment.md)
+          curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+            -H "Content-Type: application/json" \\
+            -X POST "\${{ github.api_url }}/repos/\${{ github.repository }}/issues/\$PR_NUMBER/comments" \\
+            -d "{\\"body\\": \$BODY}"${failStep}`;
+}
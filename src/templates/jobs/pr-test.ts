@@ -1,92 +1,169 @@
-import type { Config, PrTestCheck, SetupStep } from '../../types/config.js';
-import { formatRunner } from '../utils/index.js';
+import type { Config, Platform, PrTestCheck, TestMatrix } from '../../types/config.js';
+import { getCheckRunner, getCheckJobId, getMatrixReportJobId, getMatrixLegCount } from '../../types/config.js';
+import {
+  formatRunner,
+  formatJobSettings,
+  formatRunConditions,
+  formatCheckNeeds,
+  formatDependencyConditions,
+  isSelfHostedRunner,
+  indentCommand,
+} from '../utils/index.js';
 import {
   generateDockerCheckStep,
-  generateRepoCacheStep,
-  generatePrFetchStep,
+  generateCheckoutSteps,
+  generateSetupSteps,
 } from '../steps/index.js';
 
 /**
- * 멀티라인 명령어를 YAML에 맞게 들여쓰기 처리
- * @param command 명령어 문자열
- * @param indent 들여쓰기 공백 수
+ * 매트릭스 조합 결과 artifact 액션 (Gitea는 v4 artifact API를 지원하지 않는 버전이 있어 v3 사용)
  */
-function indentCommand(command: string, indent: number = 10): string {
-  const lines = command.split('\n');
-  if (lines.length === 1) {
-    return command;
-  }
-  const padding = ' '.repeat(indent);
-  return lines.map((line, i) => (i === 0 ? line : padding + line)).join('\n');
-}
+const ARTIFACT_ACTIONS: Record<Platform, { upload: string; download: string }> = {
+  github: { upload: 'actions/upload-artifact@v4', download: 'actions/download-artifact@v4' },
+  gitea: { upload: 'actions/upload-artifact@v3', download: 'actions/download-artifact@v3' },
+};
+
+/**
+ * 매트릭스 조합 결과를 내려받는 디렉토리 (조합마다 <job ID>-leg-<index> 하위 디렉토리)
+ */
+const MATRIX_RESULTS_DIR = 'matrix-results';
 
 /**
- * 테스트 셋업 스텝 생성 (helper)
+ * strategy.matrix YAML 생성 (한 조합이 실패해도 나머지 조합은 끝까지 실행)
  */
-function generateTestSetupSteps(steps?: SetupStep[]): string {
-  if (!steps || steps.length === 0) return '';
-
-  return steps
-    .map((step) => {
-      const lines: string[] = [];
-      if (step.uses) {
-        lines.push(`      - name: ${step.name}`);
-        lines.push(`        uses: ${step.uses}`);
-        if (step.with) {
-          lines.push('        with:');
-          for (const [key, value] of Object.entries(step.with)) {
-            lines.push(`          ${key}: '${value}'`);
-          }
-        }
-      } else if (step.run) {
-        lines.push(`      - name: ${step.name || 'Setup'}`);
-        if (step.run.includes('\n')) {
-          lines.push('        run: |');
-          step.run.split('\n').forEach((line) => {
-            lines.push(`          ${line}`);
-          });
-        } else {
-          lines.push(`        run: ${step.run}`);
-        }
-      }
-      return lines.join('\n');
-    })
-    .join('\n\n');
+function formatMatrixStrategy(matrix: TestMatrix): string {
+  const lines = Object.entries(matrix).map(
+    ([key, values]) => `        ${key}: [${values.map((value) => JSON.stringify(value)).join(', ')}]`
+  );
+  return `
+    strategy:
+      fail-fast: false
+      matrix:
+${lines.join('\n')}`;
 }
 
 /**
- * 체크아웃 스텝 생성 (selfHosted 여부에 따라 다름)
+ * 매트릭스 조합 결과 저장 스텝 (조합 값, 성공 여부, 출력 끝부분을 artifact로 올림)
+ * v4는 같은 이름의 artifact를 다시 올리면 실패하므로 overwrite (실패한 job만 다시 실행하는 경우)
  */
-function generateCheckoutSteps(config: Config): string {
-  const { selfHosted } = config.input;
+function generateMatrixLegSteps(check: PrTestCheck, platform: Platform): string {
+  const jobId = getCheckJobId(check);
+  const overwrite = platform === 'github' ? '\n          overwrite: true' : '';
+  return `      - name: Save matrix leg result
+        if: always()
+        shell: bash
+        env:
+          MATRIX_JSON: \${{ toJSON(matrix) }}
+        run: |
+          LEG_DIR="\$RUNNER_TEMP/pr-checks-leg"
+          mkdir -p "\$LEG_DIR"
+          tail -100 "\${WORK_DIR:-.}/test_output.txt" > "\$LEG_DIR/test_output.txt" 2>/dev/null || echo "(no output)" > "\$LEG_DIR/test_output.txt"
+          jq -n --argjson matrix "\$MATRIX_JSON" --arg passed "\${{ steps.test.outputs.passed }}" \\
+            '{matrix: \$matrix, passed: (\$passed == "true")}' > "\$LEG_DIR/leg.json"
+
+      - name: Upload matrix leg result
+        if: always()
+        uses: ${ARTIFACT_ACTIONS[platform].upload}
+        with:
+          name: ${jobId}-leg-\${{ strategy.job-index }}
+          path: \${{ runner.temp }}/pr-checks-leg${overwrite}`;
+}
 
-  if (selfHosted) {
-    // selfHosted: repo-cache + pr-fetch 사용
-    return `${generateRepoCacheStep(config)}
+/**
+ * 매트릭스 조합 결과 다운로드 스텝 (<MATRIX_RESULTS_DIR>/<job ID>-leg-<index>에 조합별로 받음)
+ * v4(GitHub)는 pattern으로 조합 artifact만 받고, v3(Gitea)는 pattern이 없어 이름 없이 받으면 실행의 모든 artifact를 받으므로 조합마다 이름으로 받음
+ * 결과가 없는 조합(취소, 업로드 실패)은 리포트 스크립트가 '결과 없음'으로 처리하므로 다운로드 실패는 무시
+ */
+function generateMatrixDownloadSteps(check: PrTestCheck, platform: Platform): string {
+  const jobId = getCheckJobId(check);
+  if (platform === 'github') {
+    return `      - name: Download matrix leg results
+        uses: ${ARTIFACT_ACTIONS.github.download}
+        with:
+          pattern: ${jobId}-leg-*
+          path: ${MATRIX_RESULTS_DIR}`;
+  }
 
-${generatePrFetchStep()}
+  return Array.from(
+    { length: getMatrixLegCount(check.matrix ?? {}) },
+    (_, index) => `      - name: Download matrix leg result ${index}
+        uses: ${ARTIFACT_ACTIONS.gitea.download}
+        continue-on-error: true
+        with:
+          name: ${jobId}-leg-${index}
+          path: ${MATRIX_RESULTS_DIR}/${jobId}-leg-${index}`
+  ).join('\n\n');
+}
 
-      - name: Set working directory
-        run: echo "WORK_DIR=\${{ steps.repo-cache.outputs.repo_dir }}" >> \$GITHUB_ENV`;
-  }
+/**
+ * 코멘트 접기 + status/코멘트 스텝 (리포트 스크립트 실행)
+ * @param reportArg 리포트 스크립트의 세 번째 인자 (단일 job: 테스트 성공 여부, 매트릭스: 조합 결과 디렉토리)
+ */
+function generateReportSteps(check: PrTestCheck, reportArg: string): string {
+  const jobId = getCheckJobId(check);
+  return `      - name: Collapse old comments
+        shell: bash
+        working-directory: \${{ env.WORK_DIR }}
+        env:
+          GITHUB_TOKEN: \${{ secrets.GITHUB_TOKEN }}
+          GITHUB_API_URL: \${{ github.api_url }}
+          GITHUB_REPOSITORY: \${{ github.repository }}
+        run: |
+          bash .pr-checks/scripts/${jobId}-collapse.sh \\
+            "\${{ needs.check-trigger.outputs.pr_number }}" \\
+            "\${{ needs.check-trigger.outputs.head_sha }}"
 
-  // 기본: actions/checkout 사용
-  return `      - name: Get PR branch
-        id: pr-branch
+      - name: Set status and post comment
+        shell: bash
+        working-directory: \${{ env.WORK_DIR }}
+        env:
+          GITHUB_TOKEN: \${{ secrets.GITHUB_TOKEN }}
+          GITHUB_API_URL: \${{ github.api_url }}
+          GITHUB_REPOSITORY: \${{ github.repository }}
+          GITHUB_SERVER_URL: \${{ github.server_url }}
+          GITHUB_RUN_ID: \${{ github.run_id }}
+          GITHUB_RUN_NUMBER: \${{ github.run_number }}
         run: |
-          PR_NUMBER="\${{ needs.check-trigger.outputs.pr_number }}"
-          BRANCH=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
-            "\${{ github.api_url }}/repos/\${{ github.repository }}/pulls/\$PR_NUMBER" \\
-            | jq -r '.head.ref')
-          echo "branch=\$BRANCH" >> \$GITHUB_OUTPUT
+          bash .pr-checks/scripts/${jobId}-report.sh \\
+            "\${{ needs.check-trigger.outputs.head_sha }}" \\
+            "\${{ needs.check-trigger.outputs.pr_number }}" \\
+            ${reportArg}`;
+}
 
+/**
+ * 매트릭스 결과 종합 job 생성
+ *
+ * 역할:
+ * 1. 모든 조합이 끝난 뒤 리포트 스크립트만 체크아웃
+ * 2. 조합별 결과 artifact 다운로드
+ * 3. 조합 하나라도 실패(또는 결과 없음)하면 failure인 status 하나와 조합별 결과 코멘트
+ */
+function generateMatrixReportJob(check: PrTestCheck, config: Config): string {
+  const { platform } = config.input;
+  const jobId = getCheckJobId(check);
+  return `  # ${check.name} 매트릭스 결과 종합
+  ${getMatrixReportJobId(check)}:
+    if: |
+      always() &&
+      needs.check-trigger.outputs.should_continue == 'true' &&
+      needs.${jobId}.result != 'skipped'
+    needs: [check-trigger, ${jobId}]
+    runs-on: ubuntu-latest
+    steps:
       - uses: actions/checkout@v4
         with:
-          ref: \${{ steps.pr-branch.outputs.branch }}
-          submodules: recursive
+          ref: \${{ needs.check-trigger.outputs.head_sha }}
+          sparse-checkout: .pr-checks/scripts
 
       - name: Set working directory
-        run: echo "WORK_DIR=\${{ github.workspace }}" >> \$GITHUB_ENV`;
+        run: echo "WORK_DIR=\${{ github.workspace }}" >> \$GITHUB_ENV
+
+${generateMatrixDownloadSteps(check, platform)}
+
+${generateReportSteps(check, MATRIX_RESULTS_DIR)}
+
+      - name: Fail if tests failed
+        run: test "\$(cat test_result.txt 2>/dev/null)" = "true"`;
 }
 
 /**
@@ -98,23 +175,28 @@ ${generatePrFetchStep()}
  * 3. 테스트 실행
  * 4. 결과에 따른 status 설정
  * 5. 실패 시 PR 코멘트
+ *
+ * matrix가 있으면 조합마다 3까지 실행하고 결과를 artifact로 올린 뒤, 결과 종합 job이 4~5를 한 번만 수행
  */
 export function generatePrTestJob(check: PrTestCheck, config: Config): string {
   const { input } = config;
-  const jobId = check.name;
-  const selfHosted = input.selfHosted;
-  const runsOn = formatRunner(input.runner);
-
-  // 실행 조건: 개별 트리거, ciTrigger(mustRun일 때), 자동 실행
-  const runConditions = [
-    `needs.check-trigger.outputs.trigger == '${check.trigger}'`,
-  ];
-  if (check.mustRun) {
-    runConditions.push(`needs.check-trigger.outputs.trigger == '${input.ciTrigger}'`);
-  }
-  runConditions.push(`needs.check-trigger.outputs.auto_run_${check.name} == 'true'`);
+  const jobId = getCheckJobId(check);
+  const { matrix } = check;
+  // matrix.os가 있으면 조합마다 runs-on이 바뀌므로 selfHosted 스텝은 쓰지 않음 (Windows 등에서도 bash로 실행)
+  const osMatrix = matrix?.os !== undefined;
+  const runner = getCheckRunner(check, input);
+  const runsOn = osMatrix ? '\${{ matrix.os }}' : formatRunner(runner);
+  // selfHosted 스텝은 self-hosted runner에서 실행하는 job에만 적용
+  const selfHosted = !osMatrix && isSelfHostedRunner(runner, input.platform) ? input.selfHosted : undefined;
+  const strategy = matrix ? formatMatrixStrategy(matrix) : '';
+  const defaults = osMatrix
+    ? `
+    defaults:
+      run:
+        shell: bash`
+    : '';
 
-  const setupSteps = generateTestSetupSteps(check.setupSteps);
+  const setupSteps = generateSetupSteps(check.setupSteps);
 
   // Docker 체크 스텝 (selfHosted + docker일 때)
   const dockerStep = selfHosted?.docker
@@ -122,15 +204,23 @@ export function generatePrTestJob(check: PrTestCheck, config: Config): string {
     : '';
 
   // 체크아웃 스텝
-  const checkoutSteps = generateCheckoutSteps(config);
+  const checkoutSteps = generateCheckoutSteps(config, selfHosted);
+
+  // workingDirectory: 명령어만 하위 디렉토리에서 실행 (출력 파일은 리포트 스크립트가 읽도록 WORK_DIR에 저장)
+  const commandDir = check.workingDirectory ? `\${{ env.WORK_DIR }}/${check.workingDirectory}` : '\${{ env.WORK_DIR }}';
+  const outputFile = check.workingDirectory ? '"\$WORK_DIR/test_output.txt"' : 'test_output.txt';
+
+  const resultSteps = matrix
+    ? generateMatrixLegSteps(check, input.platform)
+    : generateReportSteps(check, '"\${{ steps.test.outputs.passed }}"');
 
-  return `  # ${check.name}
+  const testJob = `  # ${check.name}
   ${jobId}:
-    if: |
+    if: |${formatDependencyConditions(check, input.checks, input.ciTrigger)}
       needs.check-trigger.outputs.should_continue == 'true' &&
-      (${runConditions.join(' || ')})
-    needs: [check-trigger]
-    runs-on: ${runsOn}
+      (${formatRunConditions(check, input.ciTrigger)})
+    needs: ${formatCheckNeeds(check, input.checks)}
+    runs-on: ${runsOn}${formatJobSettings(check)}${strategy}${defaults}
     steps:
 ${dockerStep}${checkoutSteps}
 
@@ -139,10 +229,10 @@ ${setupSteps}
       - name: Run ${check.name}
         id: test
         shell: bash
-        working-directory: \${{ env.WORK_DIR }}
+        working-directory: ${commandDir}
         run: |
           set +e
-          (${indentCommand(check.command)}) 2>&1 | tee test_output.txt
+          (${indentCommand(check.command)}) 2>&1 | tee ${outputFile}
           EXIT_CODE=\${PIPESTATUS[0]}
           if [ "\$EXIT_CODE" = "0" ]; then
             echo "passed=true" >> \$GITHUB_OUTPUT
@@ -150,35 +240,11 @@ ${setupSteps}
             echo "passed=false" >> \$GITHUB_OUTPUT
           fi
 
-      - name: Collapse old comments
-        shell: bash
-        working-directory: \${{ env.WORK_DIR }}
-        env:
-          GITHUB_TOKEN: \${{ secrets.GITHUB_TOKEN }}
-          GITHUB_API_URL: \${{ github.api_url }}
-          GITHUB_REPOSITORY: \${{ github.repository }}
-        run: |
-          bash .pr-checks/scripts/${check.name}-collapse.sh \\
-            "\${{ needs.check-trigger.outputs.pr_number }}" \\
-            "\${{ needs.check-trigger.outputs.head_sha }}"
-
-      - name: Set status and post comment
-        shell: bash
-        working-directory: \${{ env.WORK_DIR }}
-        env:
-          GITHUB_TOKEN: \${{ secrets.GITHUB_TOKEN }}
-          GITHUB_API_URL: \${{ github.api_url }}
-          GITHUB_REPOSITORY: \${{ github.repository }}
-          GITHUB_SERVER_URL: \${{ github.server_url }}
-          GITHUB_RUN_ID: \${{ github.run_id }}
-          GITHUB_RUN_NUMBER: \${{ github.run_number }}
-        run: |
-          bash .pr-checks/scripts/${check.name}-report.sh \\
-            "\${{ needs.check-trigger.outputs.head_sha }}" \\
-            "\${{ needs.check-trigger.outputs.pr_number }}" \\
-            "\${{ steps.test.outputs.passed }}"
+${resultSteps}
 
       - name: Fail if tests failed
         if: steps.test.outputs.passed != 'true'
         run: exit 1`;
+
+  return matrix ? `${testJob}\n\n${generateMatrixReportJob(check, config)}` : testJob;
 }
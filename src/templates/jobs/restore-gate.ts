@@ -1,4 +1,6 @@
-import type { Config } from '../../types/config.js';
+import type { Config, Check } from '../../types/config.js';
+import { indent, toShellVar, toAffectedShellVar } from '../utils/index.js';
+import { generateChangedFilesScript, generateAffectedProjectsScript } from '../steps/index.js';
 import { STATUS_CONTEXTS, OVERRIDE_KEYWORD } from '../constants/contexts.js';
 import { STATUS_MESSAGES } from '../constants/messages.js';
 
@@ -20,31 +22,51 @@ export function generateRestoreGateJob(config: Config, branchCondition: string):
   // required + mustPass 체크들의 상태 확인 로직 생성
   const requiredMustPassChecks = input.checks.filter((c) => c.mustRun && c.mustPass);
   const checkFailureConditions: string[] = [];
+  // 필수 프로젝트 체크가 있으면 변경 파일로 프로젝트별 변경 여부 계산
+  const projects = (input.projects ?? []).filter((project) =>
+    input.checks.some((check) => check.mustRun && check.project === project.name)
+  );
+  // 프로젝트 체크: 프로젝트 경로 아래 파일이 바뀐 PR에서만 확인 (변수 순서는 generateAffectedProjectsScript에 넘긴 projects 기준)
+  const onlyIfAffected = (check: Check, condition: string) => {
+    if (!check.project) return condition;
+    const affected = toAffectedShellVar(
+      projects.findIndex((project) => project.name === check.project),
+      check.project
+    );
+    return `
+          if [ "\$${affected}" = "true" ]; then${indent(condition, 2)}
+          fi`;
+  };
 
   for (const check of requiredMustPassChecks) {
-    checkFailureConditions.push(`
+    const stateVar = `${toShellVar(check.name)}_STATE`;
+    checkFailureConditions.push(onlyIfAffected(check, `
           # ${check.name} 상태 확인
-          ${check.name.toUpperCase().replace(/-/g, '_')}_STATE=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+          ${stateVar}=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
             "\${{ github.api_url }}/repos/\${{ github.repository }}/commits/\$HEAD_SHA/statuses" \\
             | jq -r '[.[] | select(.context == "${check.name}")] | sort_by(.updated_at) | last | .state // "none"')
-          if [ "\$${check.name.toUpperCase().replace(/-/g, '_')}_STATE" != "success" ]; then
+          if [ "\$${stateVar}" != "success" ]; then
             SHOULD_RESTORE="true"
-          fi`);
+          fi`));
   }
 
   // required but !mustPass 체크들도 확인 (실행하지 않았으면 복원)
   const requiredRunOnlyChecks = input.checks.filter((c) => c.mustRun && !c.mustPass);
   for (const check of requiredRunOnlyChecks) {
-    checkFailureConditions.push(`
+    const stateVar = `${toShellVar(check.name)}_STATE`;
+    checkFailureConditions.push(onlyIfAffected(check, `
           # ${check.name} 실행 여부 확인
-          ${check.name.toUpperCase().replace(/-/g, '_')}_STATE=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+          ${stateVar}=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
             "\${{ github.api_url }}/repos/\${{ github.repository }}/commits/\$HEAD_SHA/statuses" \\
             | jq -r '[.[] | select(.context == "${check.name}")] | sort_by(.updated_at) | last | .state // "none"')
-          if [ "\$${check.name.toUpperCase().replace(/-/g, '_')}_STATE" = "none" ] || [ "\$${check.name.toUpperCase().replace(/-/g, '_')}_STATE" = "pending" ]; then
+          if [ "\$${stateVar}" = "none" ] || [ "\$${stateVar}" = "pending" ]; then
             SHOULD_RESTORE="true"
-          fi`);
+          fi`));
   }
 
+  const affectedProjects =
+    projects.length > 0 ? `\n${generateChangedFilesScript()}\n\n${generateAffectedProjectsScript(projects)}\n` : '';
+
   return `  restore-gate:
     if: |
       github.event.action == 'dismissed' &&
@@ -88,7 +110,7 @@ export function generateRestoreGateJob(config: Config, branchCondition: string):
           fi
 
           # 각 체크 상태 확인
-          SHOULD_RESTORE="false"
+          SHOULD_RESTORE="false"${affectedProjects}
 ${checkFailureConditions.join('\n')}
 
           if [ "\$SHOULD_RESTORE" = "true" ]; then
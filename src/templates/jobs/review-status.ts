@@ -1,4 +1,13 @@
-import type { Config, Check } from '../../types/config.js';
+import type { Config } from '../../types/config.js';
+import {
+  getCheckJobId,
+  getCheckDependencies,
+  getMatrixReportJobId,
+  hasPathFilters,
+  isPrLabelsCheck,
+  isPrTestCheck,
+} from '../../types/config.js';
+import { indent, toShellVar, formatAffectedOutput } from '../utils/index.js';
 import { STATUS_CONTEXTS } from '../constants/contexts.js';
 import { STATUS_MESSAGES, OVERRIDE_DESCRIPTION } from '../constants/messages.js';
 
@@ -8,46 +17,81 @@ import { STATUS_MESSAGES, OVERRIDE_DESCRIPTION } from '../constants/messages.js'
  * 역할:
  * 1. 각 체크의 status 확인
  * 2. required + mustPass 조건 기반으로 머지 게이트 결정
- * 3. Approve가 있으면 override
+ * 3. Approve가 있으면 override (mustPass pr-labels 체크가 실패했으면 override하지 않음)
  */
 export function generateReviewStatusJob(config: Config): string {
   const { input } = config;
   const requiredChecks = input.checks.filter((c) => c.mustRun);
+  const hasLabelGate = requiredChecks.some((c) => isPrLabelsCheck(c) && c.mustPass);
 
-  // 의존성: check-trigger + 모든 체크 jobs
-  const allJobIds = input.checks.map((c) => c.name);
+  // 의존성: check-trigger + 모든 체크 jobs (+ 매트릭스 결과 종합 job, paths 스킵 job, needs 차단 job)
+  const allJobIds = input.checks.flatMap((c) =>
+    isPrTestCheck(c) && c.matrix ? [getCheckJobId(c), getMatrixReportJobId(c)] : [getCheckJobId(c)]
+  );
   const dependencies = ['check-trigger', ...allJobIds];
+  if (input.checks.some(hasPathFilters)) {
+    dependencies.push('skip-checks');
+  }
+  if (input.checks.some((c) => getCheckDependencies(c, input.checks).length > 0)) {
+    dependencies.push('blocked-checks');
+  }
 
   // 각 required check의 상태를 확인하는 조건들
   const checkConditions: string[] = [];
   for (const check of requiredChecks) {
+    const stateVar = `${toShellVar(check.name)}_STATE`;
+    let condition: string;
     if (check.mustPass) {
       // 성공해야 함
-      checkConditions.push(`
+      condition = `
           # ${check.name}: must pass
-          ${check.name.toUpperCase().replace(/-/g, '_')}_STATE=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+          ${stateVar}=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
             "\${{ github.api_url }}/repos/\${{ github.repository }}/commits/\$HEAD_SHA/statuses" \\
             | jq -r '[.[] | select(.context == "${check.name}")] | sort_by(.updated_at) | last | .state // "none"')
-          echo "${check.name}: \$${check.name.toUpperCase().replace(/-/g, '_')}_STATE"
-          if [ "\$${check.name.toUpperCase().replace(/-/g, '_')}_STATE" != "success" ]; then
+          echo "${check.name}: \$${stateVar}"
+          if [ "\$${stateVar}" != "success" ]; then
             GATE_FAILED="true"
             FAILURE_REASON="${check.name} not passed"
-          fi`);
+          fi${isPrLabelsCheck(check) ? `
+          if [ "\$${stateVar}" = "failure" ]; then
+            LABELS_BLOCKED="true"
+          fi` : ''}`;
     } else {
       // 실행만 하면 됨 (status가 존재하면 됨)
-      checkConditions.push(`
+      condition = `
           # ${check.name}: must run (any result)
-          ${check.name.toUpperCase().replace(/-/g, '_')}_STATE=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+          ${stateVar}=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
             "\${{ github.api_url }}/repos/\${{ github.repository }}/commits/\$HEAD_SHA/statuses" \\
             | jq -r '[.[] | select(.context == "${check.name}")] | sort_by(.updated_at) | last | .state // "none"')
-          echo "${check.name}: \$${check.name.toUpperCase().replace(/-/g, '_')}_STATE"
-          if [ "\$${check.name.toUpperCase().replace(/-/g, '_')}_STATE" = "none" ] || [ "\$${check.name.toUpperCase().replace(/-/g, '_')}_STATE" = "pending" ]; then
+          echo "${check.name}: \$${stateVar}"
+          if [ "\$${stateVar}" = "none" ] || [ "\$${stateVar}" = "pending" ]; then
             GATE_FAILED="true"
             FAILURE_REASON="${check.name} not completed"
-          fi`);
+          fi`;
     }
+    // 프로젝트 체크: 프로젝트 경로 아래 파일이 바뀐 PR에서만 필수
+    checkConditions.push(
+      check.project
+        ? `
+          if [ "\${{ ${formatAffectedOutput(check.project)} }}" = "true" ]; then${indent(condition, 2)}
+          fi`
+        : condition
+    );
   }
 
+  // 라벨 정책 위반 (do-not-merge 등)은 Approve로 override하지 않음 (override-gate도 이 description이면 건너뜀)
+  const labelGateBranch = `          if [ "\$LABELS_BLOCKED" = "true" ]; then
+            curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+              -H "Content-Type: application/json" \\
+              -X POST "\${{ github.api_url }}/repos/\${{ github.repository }}/statuses/\$HEAD_SHA" \\
+              -d '{"state":"failure","context":"${STATUS_CONTEXTS.prChecksStatus}","description":"${STATUS_MESSAGES.failure.blockedByLabels}"}'
+            echo "❌ 라벨 정책 위반 (Approve로 override할 수 없음)"
+            echo "should_check_approval=false" >> \$GITHUB_OUTPUT
+            exit 0
+          fi
+
+`;
+
   return `  # 종합 판정 (PR Checks Status)
   review-status:
     needs: [${dependencies.join(', ')}]
@@ -64,10 +108,10 @@ export function generateReviewStatusJob(config: Config): string {
           HEAD_SHA="\${{ needs.check-trigger.outputs.head_sha }}"
           PR_NUMBER="\${{ needs.check-trigger.outputs.pr_number }}"
           GATE_FAILED="false"
-          FAILURE_REASON=""
+          FAILURE_REASON=""${hasLabelGate ? '\n          LABELS_BLOCKED="false"' : ''}
 ${checkConditions.join('\n')}
 
-          if [ "\$GATE_FAILED" = "true" ]; then
+${hasLabelGate ? labelGateBranch : ''}          if [ "\$GATE_FAILED" = "true" ]; then
             curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
               -H "Content-Type: application/json" \\
               -X POST "\${{ github.api_url }}/repos/\${{ github.repository }}/statuses/\$HEAD_SHA" \\
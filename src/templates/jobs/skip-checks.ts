@@ -0,0 +1,43 @@
+import type { Config } from '../../types/config.js';
+import { hasPathFilters } from '../../types/config.js';
+import { formatSkipConditions } from '../utils/index.js';
+import { STATUS_MESSAGES } from '../constants/messages.js';
+
+/**
+ * paths/pathsIgnore 스킵 job (paths 필터가 있는 체크가 없으면 생성하지 않음)
+ *
+ * 역할:
+ * 1. ciTrigger/자동 실행 대상이지만 paths에 맞는 변경 파일이 없는 체크 확인
+ * 2. 실행하지 않고 success status 설정 (mustRun 체크가 none으로 남아 머지를 막지 않도록)
+ */
+export function generateSkipChecksJob(config: Config): string | undefined {
+  const { input } = config;
+  const filteredChecks = input.checks.filter(hasPathFilters);
+  if (filteredChecks.length === 0) {
+    return undefined;
+  }
+
+  const steps = filteredChecks
+    .map(
+      (check) => `      - name: Skip ${check.name}
+        if: ${formatSkipConditions(check, input.ciTrigger)}
+        run: |
+          curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+            -H "Content-Type: application/json" \\
+            -X POST "\${{ github.api_url }}/repos/\${{ github.repository }}/statuses/\${{ needs.check-trigger.outputs.head_sha }}" \\
+            -d '{"state":"success","context":"${check.name}","description":"${STATUS_MESSAGES.success.skipped}"}'
+          echo "⏭️ ${check.name}: paths에 맞는 변경 파일이 없어 스킵"`
+    )
+    .join('\n\n');
+
+  return `  # paths에 맞는 변경 파일이 없는 체크
+  skip-checks:
+    needs: [check-trigger]
+    if: needs.check-trigger.outputs.should_continue == 'true'
+    runs-on: ubuntu-latest
+    permissions:
+      statuses: write
+
+    steps:
+${steps}`;
+}
@@ -1,9 +1,25 @@
-import type { Config, PrTestCheck, PrReviewCheck } from '../types/config.js';
-import { isPrTestCheck, isPrReviewCheck, getDefaultAutoRunOn } from '../types/config.js';
+import type { Config } from '../types/config.js';
+import {
+  isPrTestCheck,
+  isPrScriptCheck,
+  isPrReviewCheck,
+  isPrLintCheck,
+  isPrSizeCheck,
+  isPrCommitsCheck,
+  isPrLabelsCheck,
+  getCheckAutoRunOn,
+} from '../types/config.js';
 import {
   generateCheckTriggerJob,
   generatePrTestJob,
+  generatePrScriptJob,
   generatePrReviewJob,
+  generatePrLintJob,
+  generatePrSizeJob,
+  generatePrCommitsJob,
+  generatePrLabelsJob,
+  generateSkipChecksJob,
+  generateBlockedChecksJob,
   generateReviewStatusJob,
 } from './jobs/index.js';
 
@@ -66,13 +82,17 @@ export function generatePrChecksWorkflow(config: Config): string {
 
   // 체크 분류
   const prTestChecks = input.checks.filter(isPrTestCheck);
+  const prScriptChecks = input.checks.filter(isPrScriptCheck);
   const prReviewChecks = input.checks.filter(isPrReviewCheck);
-  const requiredPrTests = prTestChecks.filter((c) => c.mustRun);
+  const prLintChecks = input.checks.filter(isPrLintCheck);
+  const prSizeChecks = input.checks.filter(isPrSizeCheck);
+  const prCommitsChecks = input.checks.filter(isPrCommitsCheck);
+  const prLabelsChecks = input.checks.filter(isPrLabelsCheck);
 
   // 모든 체크에서 사용하는 PR 액션 수집
   const allActions = new Set<string>(['opened']); // opened는 항상 필요 (guide-comment용)
   for (const c of input.checks) {
-    const actions = c.autoRunOn ?? getDefaultAutoRunOn(c.mustRun);
+    const actions = getCheckAutoRunOn(c);
     actions.forEach((a) => allActions.add(a));
   }
   const prTypes = Array.from(allActions).join(', ');
@@ -82,10 +102,33 @@ export function generatePrChecksWorkflow(config: Config): string {
     .map((check) => generatePrTestJob(check, config))
     .join('\n\n');
 
+  const prScriptJobs = prScriptChecks
+    .map((check) => generatePrScriptJob(check, config))
+    .join('\n\n');
+
+  const prLintJobs = prLintChecks
+    .map((check) => generatePrLintJob(check, config))
+    .join('\n\n');
+
+  const prCommitsJobs = prCommitsChecks
+    .map((check) => generatePrCommitsJob(check, config))
+    .join('\n\n');
+
+  const prLabelsJobs = prLabelsChecks
+    .map((check) => generatePrLabelsJob(check, config))
+    .join('\n\n');
+
+  const prSizeJobs = prSizeChecks
+    .map((check) => generatePrSizeJob(check, config))
+    .join('\n\n');
+
   const prReviewJobs = prReviewChecks
-    .map((check) => generatePrReviewJob(check, config, requiredPrTests))
+    .map((check) => generatePrReviewJob(check, config))
     .join('\n\n');
 
+  const skipChecksJob = generateSkipChecksJob(config);
+  const blockedChecksJob = generateBlockedChecksJob(config);
+
   return `name: PR Checks
 
 on:
@@ -114,9 +157,9 @@ ${generateGuideCommentJob(config)}
 ${generateCheckTriggerJob(config)}
 
 ${prTestJobs}
-
+${prScriptJobs ? `\n${prScriptJobs}\n` : ''}${prLintJobs ? `\n${prLintJobs}\n` : ''}${prCommitsJobs ? `\n${prCommitsJobs}\n` : ''}${prLabelsJobs ? `\n${prLabelsJobs}\n` : ''}${prSizeJobs ? `\n${prSizeJobs}\n` : ''}
 ${prReviewJobs}
-
-${generateReviewStatusJob(config)}
+${skipChecksJob ? `\n${skipChecksJob}\n` : ''}
+${blockedChecksJob ? `\n${blockedChecksJob}\n` : ''}${generateReviewStatusJob(config)}
 `;
 }
@@ -3,10 +3,20 @@ import { COMMENT_MARKERS } from '../constants/comments.js';
 /**
  * 리뷰 이전 댓글 접기 스크립트 생성 (메타데이터 기반)
  * @param checkName 체크 이름 (코멘트 식별용)
+ * @param includeCurrentSha 현재 커밋의 댓글도 접기 (pr-lint처럼 같은 커밋에서 다시 실행되는 체크용)
  */
-export function generateCollapsePrReviewCommentsScript(checkName: string): string {
+export function generateCollapsePrReviewCommentsScript(checkName: string, includeCurrentSha = false): string {
   // 중앙 정의된 패턴 사용
   const metadataPattern = COMMENT_MARKERS.collapsiblePattern(checkName);
+  const skipCurrentSha = includeCurrentSha
+    ? ''
+    : `  # 현재 커밋의 댓글이면 스킵
+  if [ "\$COMMENT_SHA" = "\$HEAD_SHA" ]; then
+    echo "현재 커밋 댓글 스킵: \$COMMENT_ID (sha: \$COMMENT_SHA)"
+    continue
+  fi
+
+`;
 
   return `# 메타데이터 기반 이전 리뷰 코멘트 접기
 echo "Collapsing old review comments for PR #\${PR_NUMBER} (current sha: \$HEAD_SHA)"
@@ -42,13 +52,7 @@ echo "\$COMMENTS" | jq -c '.[]' | while read -r comment; do
     continue
   fi
 
-  # 현재 커밋의 댓글이면 스킵
-  if [ "\$COMMENT_SHA" = "\$HEAD_SHA" ]; then
-    echo "현재 커밋 댓글 스킵: \$COMMENT_ID (sha: \$COMMENT_SHA)"
-    continue
-  fi
-
-  echo "접기 처리: 코멘트 \$COMMENT_ID (sha: \$COMMENT_SHA)"
+${skipCurrentSha}  echo "접기 처리: 코멘트 \$COMMENT_ID (sha: \$COMMENT_SHA)"
 
   # 메타데이터의 collapsed:false → collapsed:true 변경
   # <details open> → <details> 변경
@@ -0,0 +1,74 @@
+import type { Check, ProjectConfig } from '../../types/config.js';
+import { pathGlobToRegex } from '../../types/config.js';
+import { toAffectedShellVar, toRelevantShellVar } from '../utils/index.js';
+
+/**
+ * PR 변경 파일 목록 조회 스크립트 (run: | 블록 안에 들어감, PR_NUMBER 필요)
+ * CHANGED_FILES에 변경 파일(이름 변경 전 경로 포함)을 한 줄씩 저장하고,
+ * 가져오지 못하면 FILES_FAILED=true (체크가 빠지지 않도록 모두 바뀐 것으로 판정)
+ */
+export function generateChangedFilesScript(): string {
+  return `          # PR 변경 파일 목록 (GitHub: per_page, Gitea: limit)
+          CHANGED_FILES=""
+          FILES_FAILED="false"
+          PAGE=1
+          while [ "\$PAGE" -le 100 ]; do
+            FILES_RESPONSE=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+              "\${{ github.api_url }}/repos/\${{ github.repository }}/pulls/\$PR_NUMBER/files?per_page=100&limit=100&page=\$PAGE") || {
+              echo "Warning: Failed to fetch changed files - treating all files as changed"
+              FILES_FAILED="true"
+              break
+            }
+            if [ "\$(echo "\$FILES_RESPONSE" | jq 'length')" = "0" ]; then
+              break
+            fi
+            CHANGED_FILES=\$(printf '%s\\n%s' "\$CHANGED_FILES" "\$(echo "\$FILES_RESPONSE" | jq -r '.[] | .filename, (.previous_filename // empty)')")
+            PAGE=\$((PAGE + 1))
+          done`;
+}
+
+/**
+ * 프로젝트별 변경 여부 계산 스크립트 (generateChangedFilesScript 다음에 들어감)
+ * AFFECTED_<순서>_<프로젝트> 변수를 true/false로 설정 (toAffectedShellVar)
+ */
+export function generateAffectedProjectsScript(projects: ProjectConfig[]): string {
+  return projects
+    .map((project, index) => {
+      const variable = toAffectedShellVar(index, project.name);
+      const pattern = `^${project.path.replace(/\./g, '\\.')}/`;
+      return `          # ${project.name}: ${project.path}/
+          if [ "\$FILES_FAILED" = "true" ] || printf '%s\\n' "\$CHANGED_FILES" | grep -q '${pattern}'; then
+            ${variable}="true"
+          else
+            ${variable}="false"
+          fi
+          echo "${project.name}: \$${variable}"`;
+    })
+    .join('\n');
+}
+
+/**
+ * paths/pathsIgnore 필터 판정 스크립트 (generateChangedFilesScript 다음에 들어감)
+ * paths에 맞고 pathsIgnore에 맞지 않는 변경 파일이 있으면 RELEVANT_<순서>_<체크>=true (toRelevantShellVar)
+ */
+export function generateRelevantChecksScript(checks: Check[]): string {
+  const toPattern = (globs: string[]) => globs.map(pathGlobToRegex).join('|');
+
+  return checks
+    .map((check, index) => {
+      const variable = toRelevantShellVar(index, check);
+      const filters = [
+        "grep -v '^$'",
+        ...(check.paths ? [`grep -E '${toPattern(check.paths)}'`] : []),
+        ...(check.pathsIgnore ? [`grep -vE '${toPattern(check.pathsIgnore)}'`] : []),
+      ];
+      return `          # ${check.name}: paths/pathsIgnore
+          if [ "\$FILES_FAILED" = "true" ] || printf '%s\\n' "\$CHANGED_FILES" | ${filters.join(' | ')} | grep -q .; then
+            ${variable}="true"
+          else
+            ${variable}="false"
+          fi
+          echo "${check.name}: \$${variable}"`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,36 @@
+import type { Config, SelfHostedConfig } from '../../types/config.js';
+import { generateRepoCacheStep } from './repo-cache.js';
+import { generatePrFetchStep } from './pr-fetch.js';
+
+/**
+ * 체크아웃 스텝 생성 (selfHosted 여부에 따라 다름)
+ */
+export function generateCheckoutSteps(config: Config, selfHosted: SelfHostedConfig | undefined): string {
+  if (selfHosted) {
+    // selfHosted: repo-cache + pr-fetch 사용
+    return `${generateRepoCacheStep(config)}
+
+${generatePrFetchStep()}
+
+      - name: Set working directory
+        run: echo "WORK_DIR=\${{ steps.repo-cache.outputs.repo_dir }}" >> \$GITHUB_ENV`;
+  }
+
+  // 기본: actions/checkout 사용
+  return `      - name: Get PR branch
+        id: pr-branch
+        run: |
+          PR_NUMBER="\${{ needs.check-trigger.outputs.pr_number }}"
+          BRANCH=\$(curl -sf -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+            "\${{ github.api_url }}/repos/\${{ github.repository }}/pulls/\$PR_NUMBER" \\
+            | jq -r '.head.ref')
+          echo "branch=\$BRANCH" >> \$GITHUB_OUTPUT
+
+      - uses: actions/checkout@v4
+        with:
+          ref: \${{ steps.pr-branch.outputs.branch }}
+          submodules: recursive
+
+      - name: Set working directory
+        run: echo "WORK_DIR=\${{ github.workspace }}" >> \$GITHUB_ENV`;
+}
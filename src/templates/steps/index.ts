@@ -2,3 +2,6 @@ export { generateDockerCheckStep } from './docker-check.js';
 export { generateRepoCacheStep } from './repo-cache.js';
 export { generatePrFetchStep } from './pr-fetch.js';
 export { generateGitDiffStep } from './git-diff.js';
+export { generateChangedFilesScript, generateAffectedProjectsScript, generateRelevantChecksScript } from './changed-files.js';
+export { generateCheckoutSteps } from './checkout.js';
+export { generateSetupSteps } from './setup-steps.js';
@@ -0,0 +1,35 @@
+import type { SetupStep } from '../../types/config.js';
+
+/**
+ * 셋업 스텝 생성 (pr-test, pr-script의 setupSteps)
+ */
+export function generateSetupSteps(steps?: SetupStep[]): string {
+  if (!steps || steps.length === 0) return '';
+
+  return steps
+    .map((step) => {
+      const lines: string[] = [];
+      if (step.uses) {
+        lines.push(`      - name: ${step.name}`);
+        lines.push(`        uses: ${step.uses}`);
+        if (step.with) {
+          lines.push('        with:');
+          for (const [key, value] of Object.entries(step.with)) {
+            lines.push(`          ${key}: '${value.replace(/'/g, "''")}'`);
+          }
+        }
+      } else if (step.run) {
+        lines.push(`      - name: ${step.name || 'Setup'}`);
+        if (step.run.includes('\n')) {
+          lines.push('        run: |');
+          step.run.split('\n').forEach((line) => {
+            lines.push(`          ${line}`);
+          });
+        } else {
+          lines.push(`        run: ${step.run}`);
+        }
+      }
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
@@ -1,3 +1,6 @@
+import type { Check, Platform } from '../../types/config.js';
+import { getCheckJobId, getCheckDependencies, hasPathFilters } from '../../types/config.js';
+
 /**
  * 문자열의 각 줄에 들여쓰기 추가
  * @param text 원본 문자열
@@ -11,6 +14,20 @@ export function indent(text: string, spaces: number): string {
     .join('\n');
 }
 
+/**
+ * 멀티라인 명령어를 YAML에 맞게 들여쓰기 처리
+ * @param command 명령어 문자열
+ * @param indent 들여쓰기 공백 수
+ */
+export function indentCommand(command: string, indent: number = 10): string {
+  const lines = command.split('\n');
+  if (lines.length === 1) {
+    return command;
+  }
+  const padding = ' '.repeat(indent);
+  return lines.map((line, i) => (i === 0 ? line : padding + line)).join('\n');
+}
+
 /**
  * Runner를 YAML runs-on 형식으로 포맷
  * @param runner 문자열 또는 문자열 배열
@@ -21,3 +38,158 @@ export function formatRunner(runner: string | string[]): string {
   }
   return runner;
 }
+
+/**
+ * GitHub 호스티드 runner 이미지 레이블 (예: ubuntu-latest, ubuntu-24.04, macos-14-large)
+ */
+const HOSTED_RUNNER_LABEL = /^(ubuntu|windows|macos)-(latest|\d[\d.]*)(-[a-z0-9]+)*$/;
+
+/**
+ * self-hosted runner 대상 여부
+ * Gitea는 호스티드 runner가 없으므로 항상 self-hosted (act_runner 기본 레이블 ubuntu-latest 포함)
+ * GitHub는 self-hosted 레이블이 있거나, 호스티드 이미지 레이블이 아닌 레이블이 있으면 self-hosted
+ */
+export function isSelfHostedRunner(runner: string | string[], platform: Platform): boolean {
+  if (platform === 'gitea') return true;
+  const labels = Array.isArray(runner) ? runner : [runner];
+  return labels.includes('self-hosted') || !labels.every((label) => HOSTED_RUNNER_LABEL.test(label));
+}
+
+/**
+ * 체크별 job 설정 (timeout-minutes, env) YAML 생성
+ * runs-on 다음 줄부터 들어가도록 앞에 개행 포함, 설정이 없으면 빈 문자열
+ */
+export function formatJobSettings(check: Pick<Check, 'timeoutMinutes' | 'env' | 'secrets'>): string {
+  const lines: string[] = [];
+  if (check.timeoutMinutes !== undefined) {
+    lines.push(`    timeout-minutes: ${check.timeoutMinutes}`);
+  }
+
+  const envLines = [
+    ...Object.entries(check.env ?? {}).map(([key, value]) => `      ${key}: '${value.replace(/'/g, "''")}'`),
+    ...(check.secrets ?? []).map((name) => `      ${name}: \${{ secrets.${name} }}`),
+  ];
+  if (envLines.length > 0) {
+    lines.push('    env:', ...envLines);
+  }
+
+  return lines.map((line) => `\n${line}`).join('');
+}
+
+/**
+ * YAML 작은따옴표 문자열
+ */
+export function quoteYaml(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * 쉘 변수 이름으로 변환 (예: api/unit-test → API_UNIT_TEST)
+ */
+export function toShellVar(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+}
+
+/**
+ * 프로젝트 변경 여부 쉘 변수 (예: AFFECTED_0_WEB_APP)
+ * 이름만 바꾸면 web-app과 web_app이 같은 변수가 되므로 generateAffectedProjectsScript에 넘긴 목록의 순서를 붙임
+ */
+export function toAffectedShellVar(index: number, project: string): string {
+  return `AFFECTED_${index}_${toShellVar(project)}`;
+}
+
+/**
+ * paths/pathsIgnore 판정 쉘 변수 (예: RELEVANT_0_AI_REVIEW, 순서를 붙이는 이유는 toAffectedShellVar와 같음)
+ */
+export function toRelevantShellVar(index: number, check: Check): string {
+  return `RELEVANT_${index}_${toShellVar(getCheckJobId(check))}`;
+}
+
+/**
+ * 프로젝트 경로 아래 파일이 바뀌었는지 나타내는 check-trigger 출력
+ */
+export function formatAffectedOutput(project: string): string {
+  return `needs.check-trigger.outputs.affected_${project}`;
+}
+
+/**
+ * paths/pathsIgnore에 맞는 파일이 바뀌었는지 나타내는 check-trigger 출력
+ */
+export function formatRelevantOutput(check: Check): string {
+  return `needs.check-trigger.outputs.relevant_${getCheckJobId(check)}`;
+}
+
+/**
+ * ciTrigger/자동 실행 범위를 정하는 check-trigger 출력 (프로젝트 변경 여부, paths 필터)
+ */
+function getScopeOutputs(check: Check): string[] {
+  const outputs: string[] = [];
+  if (check.project) {
+    outputs.push(formatAffectedOutput(check.project));
+  }
+  if (hasPathFilters(check)) {
+    outputs.push(formatRelevantOutput(check));
+  }
+  return outputs;
+}
+
+/**
+ * ciTrigger(mustRun일 때) 또는 자동 실행 조건
+ */
+function formatBatchConditions(check: Check, ciTrigger: string): string {
+  const conditions: string[] = [];
+  if (check.mustRun) {
+    conditions.push(`needs.check-trigger.outputs.trigger == '${ciTrigger}'`);
+  }
+  conditions.push(`needs.check-trigger.outputs.auto_run_${getCheckJobId(check)} == 'true'`);
+  return conditions.join(' || ');
+}
+
+/**
+ * 체크 job 실행 조건 (개별 트리거, ciTrigger(mustRun일 때), 자동 실행)
+ * 프로젝트/paths 필터가 있는 체크의 ciTrigger/자동 실행은 해당 파일이 바뀐 PR에서만
+ */
+export function formatRunConditions(check: Check, ciTrigger: string): string {
+  const triggerCondition = `needs.check-trigger.outputs.trigger == '${check.trigger}'`;
+  const scope = getScopeOutputs(check);
+  if (scope.length === 0) {
+    return `${triggerCondition} || ${formatBatchConditions(check, ciTrigger)}`;
+  }
+  return `${triggerCondition} || ((${formatBatchConditions(check, ciTrigger)}) && ${scope.map((o) => `${o} == 'true'`).join(' && ')})`;
+}
+
+/**
+ * 체크 job의 needs (check-trigger + needs에 적은 체크 job)
+ */
+export function formatCheckNeeds(check: Check, checks: Check[]): string {
+  return `[${['check-trigger', ...getCheckDependencies(check, checks).map(getCheckJobId)].join(', ')}]`;
+}
+
+/**
+ * needs에 적은 체크를 통과한 조건: 성공했거나, 이번 실행의 대상이 아니었음
+ * 대상인데 스킵된 체크(자기 needs가 실패)는 통과가 아니므로 실패가 뒤 체크로 전파됨
+ */
+export function formatDependencyPassedCondition(dependency: Check, ciTrigger: string): string {
+  return `(needs.${getCheckJobId(dependency)}.result == 'success' || !(${formatRunConditions(dependency, ciTrigger)}))`;
+}
+
+/**
+ * 체크 job if 앞부분에 붙는 needs 조건 줄 (needs가 없으면 빈 문자열)
+ * 앞 체크가 실패/스킵되어도 if를 평가하도록 always()를 붙임
+ */
+export function formatDependencyConditions(check: Check, checks: Check[], ciTrigger: string): string {
+  const dependencies = getCheckDependencies(check, checks);
+  if (dependencies.length === 0) {
+    return '';
+  }
+  return ['', 'always() &&', ...dependencies.map((d) => `${formatDependencyPassedCondition(d, ciTrigger)} &&`)].join('\n      ');
+}
+
+/**
+ * paths 필터 때문에 실행하지 않는 체크의 조건 (skip-checks job에서 success status 설정)
+ * 프로젝트 체크는 프로젝트가 바뀐 PR에서만 (바뀌지 않은 프로젝트는 필수가 아님)
+ */
+export function formatSkipConditions(check: Check, ciTrigger: string): string {
+  const affected = check.project ? ` && ${formatAffectedOutput(check.project)} == 'true'` : '';
+  return `(${formatBatchConditions(check, ciTrigger)})${affected} && ${formatRelevantOutput(check)} != 'true'`;
+}
@@ -1,22 +1,41 @@
+/**
+ * 허용 값 목록 (타입, JSON Schema, 설정 검증이 모두 이 목록을 사용)
+ */
+export const PLATFORMS = ['github', 'gitea'] as const;
+export const AI_PROVIDERS = ['bedrock', 'cli'] as const;
+export const CLI_TOOLS = ['claude', 'codex', 'gemini', 'kiro'] as const;
+export const TEST_FRAMEWORKS = ['node', 'python', 'go', 'rust', 'custom'] as const;
+export const CHECK_TYPES = ['pr-test', 'pr-review', 'pr-lint', 'pr-size', 'pr-commits', 'pr-labels', 'pr-script'] as const;
+export const PR_SIZE_EXCEED_ACTIONS = ['fail', 'warn'] as const;
+export const PULL_REQUEST_ACTIONS = ['opened', 'synchronize', 'reopened', 'ready_for_review', 'edited', 'labeled', 'unlabeled'] as const;
+
+/**
+ * 현재 설정 파일 형식 버전 (version이 없는 설정은 1)
+ * - 1: 최초 형식
+ * - 2: deprecated framework 대신 setupSteps 사용
+ * - 3: pr-review가 필수 pr-test와 크기 초과 시 실패하는 pr-size를 자동으로 기다리지 않음 (needs로 지정)
+ */
+export const CONFIG_VERSION = 3;
+
 /**
  * 플랫폼 타입
  */
-export type Platform = 'github' | 'gitea';
+export type Platform = (typeof PLATFORMS)[number];
 
 /**
  * AI 프로바이더 타입
  */
-export type AiProvider = 'bedrock' | 'cli';
+export type AiProvider = (typeof AI_PROVIDERS)[number];
 
 /**
  * CLI 도구 타입
  */
-export type CliTool = 'claude' | 'codex' | 'gemini' | 'kiro';
+export type CliTool = (typeof CLI_TOOLS)[number];
 
 /**
  * 테스트 프레임워크 타입 (셋업 스텝 자동 생성용)
  */
-export type TestFramework = 'node' | 'python' | 'go' | 'rust' | 'custom';
+export type TestFramework = (typeof TEST_FRAMEWORKS)[number];
 
 /**
  * Self-hosted runner 전용 설정
@@ -28,6 +47,12 @@ export interface SelfHostedConfig {
   docker?: boolean;
 }
 
+/**
+ * pr-test 매트릭스 (키별 값 목록, command/setupSteps에서 ${{ matrix.<키> }}로 사용)
+ * os 키가 있으면 runs-on으로 사용
+ */
+export type TestMatrix = Record<string, (string | number | boolean)[]>;
+
 /**
  * 테스트 셋업 스텝
  */
@@ -41,7 +66,14 @@ export interface SetupStep {
 /**
  * 체크 타입
  */
-export type CheckType = 'pr-test' | 'pr-review';
+export type CheckType = (typeof CHECK_TYPES)[number];
+
+/**
+ * pr-size 임계값 초과 시 동작
+ * - 'fail': failure status (mustPass면 머지 불가)
+ * - 'warn': success status에 경고 표시 + 코멘트
+ */
+export type PrSizeExceedAction = (typeof PR_SIZE_EXCEED_ACTIONS)[number];
 
 /**
  * PR 이벤트 액션 타입
@@ -49,8 +81,11 @@ export type CheckType = 'pr-test' | 'pr-review';
  * - 'synchronize': PR에 푸시 시
  * - 'reopened': PR 재오픈 시
  * - 'ready_for_review': draft → ready 전환 시
+ * - 'edited': PR 제목/본문 수정 시
+ * - 'labeled': PR에 라벨 추가 시
+ * - 'unlabeled': PR에서 라벨 제거 시
  */
-export type PullRequestAction = 'opened' | 'synchronize' | 'reopened' | 'ready_for_review';
+export type PullRequestAction = (typeof PULL_REQUEST_ACTIONS)[number];
 
 /**
  * autoRunOn 기본값
@@ -59,11 +94,145 @@ export type PullRequestAction = 'opened' | 'synchronize' | 'reopened' | 'ready_f
  */
 export const DEFAULT_AUTO_RUN_ON: PullRequestAction[] = ['opened', 'synchronize'];
 
+/**
+ * pr-lint autoRunOn 기본값 (제목/본문 수정 시에도 다시 검사)
+ */
+export const DEFAULT_PR_LINT_AUTO_RUN_ON: PullRequestAction[] = ['opened', 'synchronize', 'edited'];
+
+/**
+ * pr-labels autoRunOn 기본값 (라벨 추가/제거 시에도 다시 검사, status가 커밋별이라 푸시 시에도 검사)
+ */
+export const DEFAULT_PR_LABELS_AUTO_RUN_ON: PullRequestAction[] = ['opened', 'synchronize', 'labeled', 'unlabeled'];
+
 /**
  * 체크의 autoRunOn 기본값 반환
  */
-export function getDefaultAutoRunOn(mustRun: boolean): PullRequestAction[] {
-  return mustRun ? DEFAULT_AUTO_RUN_ON : [];
+export function getDefaultAutoRunOn(mustRun: boolean, type?: CheckType): PullRequestAction[] {
+  if (!mustRun) return [];
+  if (type === 'pr-lint') return DEFAULT_PR_LINT_AUTO_RUN_ON;
+  if (type === 'pr-labels') return DEFAULT_PR_LABELS_AUTO_RUN_ON;
+  return DEFAULT_AUTO_RUN_ON;
+}
+
+/**
+ * 체크의 실제 autoRunOn (설정값 또는 기본값)
+ */
+export function getCheckAutoRunOn(
+  check: Pick<BaseCheck, 'mustRun' | 'autoRunOn'> & Partial<Pick<BaseCheck, 'type'>>
+): PullRequestAction[] {
+  return check.autoRunOn ?? getDefaultAutoRunOn(check.mustRun, check.type);
+}
+
+/**
+ * 체크의 job ID (프로젝트 체크 이름의 '/'를 '-'로 바꿈)
+ * job ID, auto_run 출력, 스크립트 파일 이름에 사용 (status context는 name 그대로)
+ */
+export function getCheckJobId(check: Pick<BaseCheck, 'name'>): string {
+  return check.name.replace(/\//g, '-');
+}
+
+/**
+ * 매트릭스 pr-test의 결과 종합 job ID (각 조합 결과를 모아 status와 코멘트를 남김)
+ */
+export function getMatrixReportJobId(check: Pick<BaseCheck, 'name'>): string {
+  return `${getCheckJobId(check)}-report`;
+}
+
+/**
+ * 매트릭스 조합 수 (각 키 값 개수의 곱)
+ */
+export function getMatrixLegCount(matrix: TestMatrix): number {
+  return Object.values(matrix).reduce((count, values) => count * values.length, 1);
+}
+
+/**
+ * needs에 적은 체크 목록 (설정 순서가 아니라 needs 순서)
+ */
+export function getCheckDependencies(check: Pick<BaseCheck, 'needs'>, checks: Check[]): Check[] {
+  return (check.needs ?? []).flatMap((name) => checks.filter((c) => c.name === name));
+}
+
+/**
+ * version 3 전 설정에서 pr-review가 암묵적으로 기다리던 체크 (readConfig와 migrate가 needs로 바꿀 때 사용)
+ * mustRun pr-review는 필수 pr-test를, 모든 pr-review는 크기 초과 시 실패하는 pr-size를 기다렸음
+ */
+export function getLegacyReviewNeeds(
+  review: Pick<BaseCheck, 'mustRun'>,
+  checks: (Pick<BaseCheck, 'name' | 'type' | 'mustRun'> & { onExceed?: PrSizeExceedAction })[]
+): string[] {
+  return [
+    ...(review.mustRun ? checks.filter((c) => c.type === 'pr-test' && c.mustRun) : []),
+    ...checks.filter((c) => c.type === 'pr-size' && c.onExceed !== 'warn'),
+  ].map((c) => c.name);
+}
+
+/**
+ * 체크에 paths/pathsIgnore 필터가 있는지
+ */
+export function hasPathFilters(check: Pick<BaseCheck, 'paths' | 'pathsIgnore'>): boolean {
+  return check.paths !== undefined || check.pathsIgnore !== undefined;
+}
+
+/**
+ * paths 글로브를 정규식 소스로 변환 (grep -E와 JavaScript RegExp에서 같은 의미)
+ * GitHub Actions paths 필터와 같은 규칙: '*'와 '?'는 '/'를 넘지 않고 '**'는 넘음, '/'로 끝나면 디렉토리 전체
+ * '[abc]', '[a-z]', '[!abc]'는 문자 클래스 (닫는 ']'가 없거나 비어 있으면 '['를 문자 그대로 비교)
+ */
+export function pathGlobToRegex(glob: string): string {
+  const pattern = glob.endsWith('/') ? `${glob}**` : glob;
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const charClass = char === '[' ? parseCharClass(pattern, i) : undefined;
+    if (char === '*' && pattern[i + 1] === '*') {
+      // '**/'는 0개 이상의 디렉토리
+      source += pattern[i + 2] === '/' ? '(.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (charClass) {
+      // 부정 클래스도 '/'는 넘지 않음
+      source += charClass.negated ? `[^/${charClass.chars}]` : `[${charClass.chars}]`;
+      i = charClass.end;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return `^${source}$`;
+}
+
+/**
+ * 글로브 문자 클래스 파싱 (start는 '[' 위치, end는 닫는 ']' 위치)
+ * grep -E와 RegExp에서 의미가 다른 '\'나 '['가 있거나 비어 있으면 undefined (문자 클래스가 아님)
+ */
+function parseCharClass(pattern: string, start: number): { chars: string; negated: boolean; end: number } | undefined {
+  const negated = pattern[start + 1] === '!' || pattern[start + 1] === '^';
+  const from = negated ? start + 2 : start + 1;
+  const end = pattern.indexOf(']', from);
+  if (end <= from) return undefined;
+  const chars = pattern.slice(from, end);
+  if (/[\\[]/.test(chars)) return undefined;
+  return { chars, negated, end };
+}
+
+/**
+ * 라벨 패턴을 정규식 소스로 변환 ('*'는 '/'를 포함한 아무 문자열, 나머지는 그대로 비교)
+ */
+export function labelPatternToRegex(pattern: string): string {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return `^${source}$`;
+}
+
+/**
+ * 체크의 실제 runner (체크별 설정 또는 전역 runner)
+ */
+export function getCheckRunner(check: Pick<BaseCheck, 'runner'>, input: Pick<InputConfig, 'runner'>): string | string[] {
+  return check.runner ?? input.runner;
 }
 
 /**
@@ -80,8 +249,27 @@ interface BaseCheck {
   mustRun: boolean;
   /** 머지 게이트 통과 조건: true면 성공해야 함, false면 실행만 하면 됨 */
   mustPass: boolean;
-  /** 자동 실행할 PR 이벤트 목록 (기본값: mustRun이면 ['synchronize'], 아니면 []) */
+  /** 자동 실행할 PR 이벤트 목록 (기본값: mustRun이면 [opened, synchronize], pr-lint는 edited, pr-labels는 labeled/unlabeled 포함, 아니면 []) */
   autoRunOn?: PullRequestAction[];
+  /** 이 체크의 Runner 레이블 (생략하면 전역 runner) */
+  runner?: string | string[];
+  /** job 제한 시간 (분, 생략하면 플랫폼 기본값) */
+  timeoutMinutes?: number;
+  /** job 환경 변수 */
+  env?: Record<string, string>;
+  /** job 환경 변수로 전달할 Secret 이름 (같은 이름의 환경 변수로 설정) */
+  secrets?: string[];
+  /** 이 파일들이 바뀐 PR에서만 ciTrigger/자동 실행 (글로브, 저장소 루트 기준, 프로젝트 체크는 프로젝트 디렉토리 기준) */
+  paths?: string[];
+  /** 이 파일들만 바뀐 PR에서는 ciTrigger/자동 실행하지 않음 (글로브, 저장소 루트 기준, 프로젝트 체크는 프로젝트 디렉토리 기준) */
+  pathsIgnore?: string[];
+  /**
+   * 먼저 끝나야 하는 체크 이름 (ciTrigger/자동 실행에서 이 체크들 중 하나라도 실패하면 실행하지 않고 'Blocked by <체크>' failure status)
+   * 프로젝트 체크는 같은 프로젝트의 체크 이름을 먼저 찾음 (읽은 뒤에는 '프로젝트/체크' 형식)
+   */
+  needs?: string[];
+  /** 소속 프로젝트 이름 (projects에서 읽은 체크, name은 '프로젝트/체크' 형식) */
+  project?: string;
 }
 
 /**
@@ -98,6 +286,10 @@ export interface PrTestCheck extends BaseCheck {
   framework?: TestFramework;
   /** 테스트 환경 셋업 스텝 (actions/setup-go 등) */
   setupSteps?: SetupStep[];
+  /** 테스트 명령어를 실행할 디렉토리 (저장소 루트 기준 상대 경로) */
+  workingDirectory?: string;
+  /** 매트릭스 빌드 (예: { node: [18, 20, 22] }, 결과는 조합 전체를 모아 status 하나로 설정) */
+  matrix?: TestMatrix;
 }
 
 /**
@@ -119,21 +311,149 @@ export interface PrReviewCheck extends BaseCheck {
   customRules?: string;
 }
 
+/**
+ * PR 제목/본문 검사 체크 (체크아웃 없이 PR 정보만 검사)
+ */
+export interface PrLintCheck extends BaseCheck {
+  type: 'pr-lint';
+  /** 제목이 맞아야 하는 정규식 */
+  titlePattern?: string;
+  /** 제목이 Conventional Commits 형식이어야 하는지 (예: feat(api): 로그인 추가) */
+  conventionalCommits?: boolean;
+  /** 제목이나 본문에 있어야 하는 이슈 키 정규식 (예: "[A-Z]+-[0-9]+") */
+  issueKeyPattern?: string;
+  /** 본문 최소 길이 (HTML 주석과 앞뒤 공백 제외) */
+  minDescriptionLength?: number;
+  /** 본문에 있어야 하는 제목(heading) 목록 (PR 템플릿 섹션, 예: "Summary") */
+  requiredSections?: string[];
+}
+
+/**
+ * PR 크기 체크 (변경 줄/파일 수 계산, 크기 라벨, 임계값 초과 시 실패 또는 경고)
+ */
+export interface PrSizeCheck extends BaseCheck {
+  type: 'pr-size';
+  /** 변경 줄 수(추가 + 삭제) 임계값 */
+  maxLines?: number;
+  /** 변경 파일 수 임계값 */
+  maxFiles?: number;
+  /** 임계값 초과 시 동작 (기본값: fail) */
+  onExceed?: PrSizeExceedAction;
+  /** 크기 계산에서 제외할 파일 (글로브, 예: lockfile, 생성 코드) */
+  exclude?: string[];
+  /** size/XS ~ size/XL 라벨 설정 (기본값: true) */
+  sizeLabels?: boolean;
+}
+
+/**
+ * 커밋 검사 체크 (PR의 커밋 메시지, fixup 커밋, DCO sign-off, 작성자 이메일 도메인)
+ */
+export interface PrCommitsCheck extends BaseCheck {
+  type: 'pr-commits';
+  /** 커밋 제목이 Conventional Commits 형식이어야 하는지 */
+  conventionalCommits?: boolean;
+  /** 커밋 제목이 맞아야 하는 정규식 */
+  messagePattern?: string;
+  /** fixup!/squash!/amend!/WIP 커밋 금지 */
+  noFixup?: boolean;
+  /** Signed-off-by 트레일러 필수 (DCO) */
+  requireSignOff?: boolean;
+  /** 허용하는 작성자 이메일 도메인 (예: example.com) */
+  allowedEmailDomains?: string[];
+}
+
+/**
+ * 라벨 정책 체크 (필수/금지 라벨, 함께 붙일 수 없는 라벨 그룹)
+ * 라벨 패턴의 '*'는 아무 문자열과 맞고 ('type/*'), 대소문자는 구분하지 않음
+ */
+export interface PrLabelsCheck extends BaseCheck {
+  type: 'pr-labels';
+  /** 필수 라벨 패턴 (패턴마다 맞는 라벨이 하나 이상 있어야 함, 예: "type/*") */
+  requiredLabels?: string[];
+  /** 금지 라벨 패턴 (맞는 라벨이 있으면 실패, 예: do-not-merge, wip) */
+  forbiddenLabels?: string[];
+  /** 함께 붙일 수 없는 라벨 그룹 (그룹마다 맞는 라벨이 두 개 이상이면 실패, 예: [priority/high, priority/low]) */
+  exclusiveLabels?: string[][];
+}
+
+/**
+ * 커스텀 스크립트 체크 (명령어가 JSON 결과 파일을 쓰면 status/코멘트/annotation은 생성기가 처리)
+ * 결과 파일 경로는 PR_CHECKS_RESULT 환경 변수로 전달 (형식: PrScriptResult)
+ */
+export interface PrScriptCheck extends BaseCheck {
+  type: 'pr-script';
+  /** 실행 명령어 (종료 코드가 아니라 결과 파일의 state로 성공/실패 판단) */
+  command: string;
+  /** 실행 환경 셋업 스텝 (actions/setup-node 등) */
+  setupSteps?: SetupStep[];
+  /** 명령어를 실행할 디렉토리 (저장소 루트 기준 상대 경로) */
+  workingDirectory?: string;
+}
+
+/**
+ * pr-script annotation 수준 (GitHub Actions에서 notice/warning/error annotation으로 표시)
+ */
+export const PR_SCRIPT_ANNOTATION_LEVELS = ['notice', 'warning', 'failure'] as const;
+export type PrScriptAnnotationLevel = (typeof PR_SCRIPT_ANNOTATION_LEVELS)[number];
+
+/**
+ * pr-script 명령어가 쓰는 결과 파일 형식
+ */
+export interface PrScriptResult {
+  /** 체크 결과 (commit status) */
+  state: 'success' | 'failure';
+  /** 한 줄 요약 (status description, 140자까지) */
+  summary?: string;
+  /** PR 코멘트 본문 (마크다운) */
+  details?: string;
+  /** 파일/줄 단위 지적 (코멘트 목록 + GitHub Actions annotation) */
+  annotations?: {
+    /** 파일 경로 (저장소 루트 기준) */
+    path: string;
+    /** 시작 줄 */
+    line?: number;
+    /** 끝 줄 */
+    endLine?: number;
+    /** 수준 (기본값: warning) */
+    level?: PrScriptAnnotationLevel;
+    title?: string;
+    message: string;
+  }[];
+}
+
 /**
  * 체크 타입 유니온
  */
-export type Check = PrTestCheck | PrReviewCheck;
+export type Check = PrTestCheck | PrReviewCheck | PrLintCheck | PrSizeCheck | PrCommitsCheck | PrLabelsCheck | PrScriptCheck;
+
+/**
+ * 모노레포 프로젝트
+ * 체크는 읽을 때 이름에 프로젝트 이름을 붙여(api/unit-test) InputConfig.checks로 합쳐지고,
+ * ciTrigger/자동 실행은 path 아래 파일이 바뀐 PR에서만 실행됨
+ */
+export interface ProjectConfig {
+  /** 프로젝트 이름 (체크 이름/status context 접두사, 생략하면 path의 마지막 디렉토리) */
+  name: string;
+  /** 프로젝트 디렉토리 (저장소 루트 기준 상대 경로, pr-test 명령어도 여기서 실행) */
+  path: string;
+  /** 프로젝트 체크 (설정 파일에서만 사용, 읽은 뒤에는 InputConfig.checks에 있음) */
+  checks?: Check[];
+}
 
 /**
  * .pr-checks/config.yml 구조
  */
 export interface InputConfig {
+  /** 설정 파일 형식 버전 (생략하면 1, create-pr-checks migrate로 올림) */
+  version?: number;
   /** 플랫폼 (github 또는 gitea, 기본값: github) */
   platform: Platform;
   /** Runner 레이블 (기본값: ubuntu-latest, self-hosted 사용 시 배열로 지정) */
   runner: string | string[];
   /** 체크 목록 */
   checks: Check[];
+  /** 모노레포 프로젝트 목록 */
+  projects?: ProjectConfig[];
   /** 전체 실행 명령어 (mustRun: true인 체크만 실행) */
   ciTrigger: string;
   /** Approval override 워크플로우 생성 여부 */
@@ -153,6 +473,52 @@ export interface Config {
   input: InputConfig;
 }
 
+/**
+ * 읽을 때 기본값을 채우는 체크 항목 (mustRun 기본값 true, mustPass 기본값 false, pr-review provider 기본값 bedrock)
+ */
+type DefaultedCheckKey = 'mustRun' | 'mustPass' | 'provider';
+
+/**
+ * 체크 타입마다 기본값이 있는 항목을 생략 가능하게 바꿈 (project는 읽을 때 설정)
+ */
+type ToCheckInput<C> = C extends Check
+  ? Omit<C, DefaultedCheckKey | 'project'> & Partial<Pick<C, Extract<keyof C, DefaultedCheckKey>>>
+  : never;
+
+/**
+ * 설정 파일에 쓰는 체크
+ */
+export type CheckInput = ToCheckInput<Check>;
+
+/**
+ * 설정 파일에 쓰는 모노레포 프로젝트 (name 생략 시 path의 마지막 디렉토리)
+ */
+export interface ProjectInput {
+  name?: string;
+  path: string;
+  checks: CheckInput[];
+}
+
+/**
+ * 설정 파일(config.ts, config.mjs)에 쓰는 설정 (생략한 항목은 config.yml과 같은 기본값)
+ */
+export type ConfigInput = Partial<Omit<InputConfig, 'checks' | 'projects'>> & {
+  checks?: CheckInput[];
+  projects?: ProjectInput[];
+};
+
+/**
+ * .pr-checks/config.ts, config.mjs 작성 헬퍼 (값은 그대로 반환하고 타입 검사/자동완성만 제공)
+ * 생략한 항목은 config.yml과 같은 기본값을 사용
+ * @example
+ * export default defineConfig({
+ *   checks: packages.map((pkg) => ({ name: `test-${pkg}`, trigger: `/test-${pkg}`, type: 'pr-test', command: `npm test -w ${pkg}` })),
+ * });
+ */
+export function defineConfig(input: ConfigInput): ConfigInput {
+  return input;
+}
+
 /**
  * 타입 가드: PrTestCheck 여부
  */
@@ -167,10 +533,46 @@ export function isPrReviewCheck(check: Check): check is PrReviewCheck {
   return check.type === 'pr-review';
 }
 
+/**
+ * 타입 가드: PrLintCheck 여부
+ */
+export function isPrLintCheck(check: Check): check is PrLintCheck {
+  return check.type === 'pr-lint';
+}
+
+/**
+ * 타입 가드: PrSizeCheck 여부
+ */
+export function isPrSizeCheck(check: Check): check is PrSizeCheck {
+  return check.type === 'pr-size';
+}
+
+/**
+ * 타입 가드: PrCommitsCheck 여부
+ */
+export function isPrCommitsCheck(check: Check): check is PrCommitsCheck {
+  return check.type === 'pr-commits';
+}
+
+/**
+ * 타입 가드: PrLabelsCheck 여부
+ */
+export function isPrLabelsCheck(check: Check): check is PrLabelsCheck {
+  return check.type === 'pr-labels';
+}
+
+/**
+ * 타입 가드: PrScriptCheck 여부
+ */
+export function isPrScriptCheck(check: Check): check is PrScriptCheck {
+  return check.type === 'pr-script';
+}
+
 /**
  * 기본 config.yml 템플릿
  */
 export const DEFAULT_INPUT_CONFIG: InputConfig = {
+  version: CONFIG_VERSION,
   platform: 'github',
   runner: 'ubuntu-latest',
   checks: [
@@ -199,6 +601,7 @@ export const DEFAULT_INPUT_CONFIG: InputConfig = {
       type: 'pr-review',
       mustRun: true,
       mustPass: false,
+      needs: ['pr-test'],
       provider: 'bedrock',
       model: 'us.amazon.nova-micro-v1:0',
       apiKeySecret: 'BEDROCK_API_KEY',
@@ -0,0 +1,409 @@
+import { checkbox, confirm, input, select } from '@inquirer/prompts';
+import type {
+  InputConfig,
+  Check,
+  CheckType,
+  Platform,
+  PrTestCheck,
+  PrReviewCheck,
+  PrLintCheck,
+  PrSizeCheck,
+  PrCommitsCheck,
+  PrLabelsCheck,
+  PrScriptCheck,
+  CliTool,
+} from '../types/config.js';
+import { DEFAULT_INPUT_CONFIG, CONFIG_VERSION } from '../types/config.js';
+
+const NAME_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+/**
+ * 쉼표로 구분된 목록 파싱
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * runner 입력 → 단일 레이블이면 문자열, 여러 개면 배열
+ */
+function parseRunner(value: string): string | string[] {
+  const labels = splitList(value);
+  return labels.length === 1 ? labels[0] : labels;
+}
+
+function validateTrigger(value: string, usedTriggers: Set<string>): true | string {
+  const trigger = value.trim();
+  if (!trigger.startsWith('/')) return "트리거는 '/'로 시작해야 합니다.";
+  if (usedTriggers.has(trigger)) return `이미 사용 중인 트리거입니다: ${trigger}`;
+  return true;
+}
+
+/**
+ * pr-test 체크 상세 질문
+ */
+async function askPrTestFields(base: Omit<PrTestCheck, 'type' | 'command'>): Promise<PrTestCheck> {
+  const command = await input({
+    message: '실행할 명령어:',
+    default: 'npm test',
+    validate: (v) => (v.trim() ? true : '명령어를 입력하세요.'),
+  });
+
+  return { ...base, type: 'pr-test', command: command.trim() };
+}
+
+/**
+ * pr-script 체크 상세 질문
+ */
+async function askPrScriptFields(base: Omit<PrScriptCheck, 'type' | 'command'>): Promise<PrScriptCheck> {
+  const command = await input({
+    message: '실행할 명령어 (PR_CHECKS_RESULT 경로에 JSON 결과 파일 작성):',
+    validate: (v) => (v.trim() ? true : '명령어를 입력하세요.'),
+  });
+
+  return { ...base, type: 'pr-script', command: command.trim() };
+}
+
+/**
+ * pr-review 체크 상세 질문
+ */
+async function askPrReviewFields(base: Omit<PrReviewCheck, 'type' | 'provider'>): Promise<PrReviewCheck> {
+  const provider = await select({
+    message: 'AI 프로바이더:',
+    choices: [
+      { name: 'bedrock (AWS Bedrock API)', value: 'bedrock' as const },
+      { name: 'cli (runner에 설치된 AI CLI 도구)', value: 'cli' as const },
+    ],
+  });
+
+  if (provider === 'bedrock') {
+    const model = await input({
+      message: 'Bedrock 모델 ID:',
+      default: 'us.amazon.nova-micro-v1:0',
+      validate: (v) => (v.trim() ? true : '모델 ID를 입력하세요.'),
+    });
+    const apiKeySecret = await input({
+      message: 'API 키를 저장할 GitHub Secret 이름:',
+      default: 'BEDROCK_API_KEY',
+      validate: (v) => (v.trim() ? true : 'Secret 이름을 입력하세요.'),
+    });
+    return { ...base, type: 'pr-review', provider, model: model.trim(), apiKeySecret: apiKeySecret.trim() };
+  }
+
+  const tool = await select<CliTool | 'custom'>({
+    message: 'CLI 도구:',
+    choices: [
+      { name: 'Claude Code (claude)', value: 'claude' },
+      { name: 'OpenAI Codex (codex)', value: 'codex' },
+      { name: 'Google Gemini (gemini)', value: 'gemini' },
+      { name: 'Kiro (kiro)', value: 'kiro' },
+      { name: '커스텀 명령어 (cliCommand)', value: 'custom' },
+    ],
+  });
+
+  if (tool === 'custom') {
+    const cliCommand = await input({
+      message: '리뷰 명령어 (PR 번호가 인자로 전달됨):',
+      default: './.pr-checks/scripts/review-wrapper.sh',
+      validate: (v) => (v.trim() ? true : '명령어를 입력하세요.'),
+    });
+    return { ...base, type: 'pr-review', provider, cliCommand: cliCommand.trim() };
+  }
+
+  return { ...base, type: 'pr-review', provider, cliTool: tool };
+}
+
+/**
+ * pr-lint 체크 상세 질문
+ */
+async function askPrLintFields(base: Omit<PrLintCheck, 'type'>): Promise<PrLintCheck> {
+  const conventionalCommits = await confirm({
+    message: 'PR 제목이 Conventional Commits 형식이어야 하나요? (예: feat(api): 로그인 추가)',
+    default: true,
+  });
+  const issueKeyPattern = await input({
+    message: '제목이나 본문에 있어야 하는 이슈 키 정규식 (없으면 비워두세요, 예: [A-Z]+-[0-9]+):',
+  });
+  const minDescriptionLength = await input({
+    message: 'PR 본문 최소 길이 (없으면 비워두세요):',
+    validate: (v) => (!v.trim() || /^[1-9][0-9]*$/.test(v.trim()) ? true : '1 이상의 정수를 입력하세요.'),
+  });
+
+  return {
+    ...base,
+    type: 'pr-lint',
+    conventionalCommits,
+    ...(issueKeyPattern.trim() ? { issueKeyPattern: issueKeyPattern.trim() } : {}),
+    ...(minDescriptionLength.trim() ? { minDescriptionLength: Number(minDescriptionLength.trim()) } : {}),
+  };
+}
+
+/**
+ * pr-commits 체크 상세 질문
+ */
+async function askPrCommitsFields(base: Omit<PrCommitsCheck, 'type'>): Promise<PrCommitsCheck> {
+  const conventionalCommits = await confirm({
+    message: '커밋 제목이 Conventional Commits 형식이어야 하나요?',
+    default: true,
+  });
+  const noFixup = await confirm({
+    message: 'fixup!/squash!/WIP 커밋을 막을까요?',
+    default: true,
+  });
+  const requireSignOff = await confirm({
+    message: 'Signed-off-by 트레일러(DCO)가 필요한가요?',
+    default: false,
+  });
+  const allowedEmailDomains = await input({
+    message: '허용하는 작성자 이메일 도메인 (쉼표로 구분, 없으면 비워두세요):',
+  });
+
+  return {
+    ...base,
+    type: 'pr-commits',
+    conventionalCommits,
+    noFixup,
+    requireSignOff,
+    ...(splitList(allowedEmailDomains).length > 0 ? { allowedEmailDomains: splitList(allowedEmailDomains) } : {}),
+  };
+}
+
+/**
+ * pr-labels 체크 상세 질문 (exclusiveLabels는 그룹 하나만 질문)
+ */
+async function askPrLabelsFields(base: Omit<PrLabelsCheck, 'type'>): Promise<PrLabelsCheck> {
+  const requiredLabels = await input({
+    message: "필수 라벨 패턴 (쉼표로 구분, '*' 사용 가능, 없으면 비워두세요, 예: type/*):",
+  });
+  const forbiddenLabels = await input({
+    message: '금지 라벨 패턴 (쉼표로 구분, 없으면 비워두세요):',
+    default: 'do-not-merge, wip',
+  });
+  const exclusiveLabels = await input({
+    message: '함께 붙일 수 없는 라벨 (쉼표로 구분, 없으면 비워두세요, 예: priority/high, priority/low):',
+  });
+
+  return {
+    ...base,
+    type: 'pr-labels',
+    ...(splitList(requiredLabels).length > 0 ? { requiredLabels: splitList(requiredLabels) } : {}),
+    ...(splitList(forbiddenLabels).length > 0 ? { forbiddenLabels: splitList(forbiddenLabels) } : {}),
+    ...(splitList(exclusiveLabels).length > 0 ? { exclusiveLabels: [splitList(exclusiveLabels)] } : {}),
+  };
+}
+
+/**
+ * pr-size 체크 상세 질문
+ */
+async function askPrSizeFields(base: Omit<PrSizeCheck, 'type'>): Promise<PrSizeCheck> {
+  const maxLines = await input({
+    message: '최대 변경 줄 수 (없으면 비워두세요):',
+    default: '1000',
+    validate: (v) => (!v.trim() || /^[1-9][0-9]*$/.test(v.trim()) ? true : '1 이상의 정수를 입력하세요.'),
+  });
+  const onExceed = await select<'fail' | 'warn'>({
+    message: '최대값을 넘으면:',
+    choices: [
+      { name: 'fail (실패 처리, AI 리뷰도 실행하지 않음)', value: 'fail' },
+      { name: 'warn (경고 코멘트만)', value: 'warn' },
+    ],
+  });
+  const exclude = await input({
+    message: '크기 계산에서 제외할 파일 글로브 (쉼표로 구분, 없으면 비워두세요):',
+    default: 'package-lock.json, yarn.lock, pnpm-lock.yaml',
+  });
+
+  return {
+    ...base,
+    type: 'pr-size',
+    ...(maxLines.trim() ? { maxLines: Number(maxLines.trim()) } : {}),
+    onExceed,
+    ...(splitList(exclude).length > 0 ? { exclude: splitList(exclude) } : {}),
+  };
+}
+
+/**
+ * 체크 타입별 기본 이름/트리거
+ */
+const CHECK_TYPE_DEFAULTS: Record<CheckType, { name: string; trigger: string }> = {
+  'pr-test': { name: 'unit-test', trigger: '/test' },
+  'pr-review': { name: 'ai-review', trigger: '/review' },
+  'pr-lint': { name: 'pr-title', trigger: '/lint' },
+  'pr-size': { name: 'pr-size', trigger: '/size' },
+  'pr-commits': { name: 'pr-commits', trigger: '/commits' },
+  'pr-labels': { name: 'pr-labels', trigger: '/labels' },
+  'pr-script': { name: 'script', trigger: '/script' },
+};
+
+/**
+ * 먼저 통과해야 하는 체크 질문 (앞에서 구성한 체크 중 선택)
+ * 필수 pr-review는 필수 pr-test를 기본 선택 (테스트 통과 후 리뷰)
+ */
+async function askNeeds(type: CheckType, mustRun: boolean, previousChecks: Check[]): Promise<string[]> {
+  if (previousChecks.length === 0) {
+    return [];
+  }
+
+  return checkbox({
+    message: '먼저 통과해야 하는 체크 (needs, 실패하면 이 체크는 실행하지 않음):',
+    choices: previousChecks.map((check) => ({
+      name: `${check.name} (${check.type})`,
+      value: check.name,
+      checked: type === 'pr-review' && mustRun && check.type === 'pr-test' && check.mustRun,
+    })),
+  });
+}
+
+/**
+ * 체크 하나를 질문으로 구성
+ */
+async function askCheck(usedNames: Set<string>, usedTriggers: Set<string>, previousChecks: Check[]): Promise<Check> {
+  const type = await select<CheckType>({
+    message: '체크 타입:',
+    choices: [
+      { name: 'pr-test (테스트, 린트, 빌드 등 명령어 실행)', value: 'pr-test' },
+      { name: 'pr-review (AI 코드 리뷰)', value: 'pr-review' },
+      { name: 'pr-lint (PR 제목/본문 규칙 검사)', value: 'pr-lint' },
+      { name: 'pr-size (PR 크기 라벨, 큰 PR 실패/경고)', value: 'pr-size' },
+      { name: 'pr-commits (커밋 메시지, fixup 커밋, DCO sign-off 검사)', value: 'pr-commits' },
+      { name: 'pr-labels (필수/금지 라벨 검사, 위반 시 Approve로도 머지 불가)', value: 'pr-labels' },
+      { name: 'pr-script (JSON 결과 파일로 status/코멘트/annotation을 남기는 커스텀 스크립트)', value: 'pr-script' },
+    ],
+  });
+
+  const defaultName = CHECK_TYPE_DEFAULTS[type].name;
+  const name = await input({
+    message: '체크 이름 (status context):',
+    default: usedNames.has(defaultName) ? undefined : defaultName,
+    validate: (v) => {
+      const value = v.trim();
+      if (!NAME_PATTERN.test(value)) return '소문자로 시작하고, 소문자/숫자/하이픈/언더스코어만 사용해야 합니다.';
+      if (usedNames.has(value)) return `이미 사용 중인 이름입니다: ${value}`;
+      return true;
+    },
+  });
+
+  const defaultTrigger = CHECK_TYPE_DEFAULTS[type].trigger;
+  const trigger = await input({
+    message: 'PR 코멘트 트리거:',
+    default: usedTriggers.has(defaultTrigger) ? `/${name.trim()}` : defaultTrigger,
+    validate: (v) => validateTrigger(v, usedTriggers),
+  });
+
+  const mustRun = await confirm({
+    message: '필수 체크인가요? (mustRun: 자동 실행 + 실행해야 머지 가능)',
+    default: true,
+  });
+
+  const mustPass = await confirm({
+    message: '성공해야 머지할 수 있나요? (mustPass)',
+    default: type !== 'pr-review',
+  });
+
+  const needs = await askNeeds(type, mustRun, previousChecks);
+
+  const base = { name: name.trim(), trigger: trigger.trim(), mustRun, mustPass, ...(needs.length > 0 ? { needs } : {}) };
+  if (type === 'pr-lint') return askPrLintFields(base);
+  if (type === 'pr-size') return askPrSizeFields(base);
+  if (type === 'pr-commits') return askPrCommitsFields(base);
+  if (type === 'pr-labels') return askPrLabelsFields(base);
+  if (type === 'pr-script') return askPrScriptFields(base);
+  return type === 'pr-test' ? askPrTestFields(base) : askPrReviewFields(base);
+}
+
+/**
+ * --init 대화형 설정 마법사
+ * 답변으로 InputConfig를 구성 (파일 쓰기는 호출 측에서 수행)
+ * @param suggestedChecks 스택 감지로 제안된 pr-test 체크 (선택해서 사용)
+ */
+export async function runInitWizard(suggestedChecks: PrTestCheck[] = []): Promise<InputConfig> {
+  const defaults = DEFAULT_INPUT_CONFIG;
+
+  const platform = await select<Platform>({
+    message: '플랫폼:',
+    choices: [
+      { name: 'GitHub', value: 'github' },
+      { name: 'Gitea', value: 'gitea' },
+    ],
+    default: defaults.platform,
+  });
+
+  const runner = parseRunner(
+    await input({
+      message: 'Runner 레이블 (여러 개면 쉼표로 구분):',
+      default: String(defaults.runner),
+      validate: (v) => (splitList(v).length > 0 ? true : 'runner를 입력하세요.'),
+    })
+  );
+
+  const branches = splitList(
+    await input({
+      message: '대상 브랜치 (쉼표로 구분):',
+      default: defaults.branches.join(', '),
+      validate: (v) => (splitList(v).length > 0 ? true : '브랜치를 하나 이상 입력하세요.'),
+    })
+  );
+
+  const checks: Check[] = [];
+  const usedNames = new Set<string>();
+  const usedTriggers = new Set<string>();
+  const addCheck = (check: Check) => {
+    checks.push(check);
+    usedNames.add(check.name);
+    usedTriggers.add(check.trigger);
+  };
+
+  if (suggestedChecks.length > 0) {
+    const selected = await checkbox({
+      message: '감지된 스택 기반 체크 (사용할 항목 선택):',
+      choices: suggestedChecks.map((check) => ({
+        name: `${check.name} (${check.command})`,
+        value: check,
+        checked: true,
+      })),
+    });
+    selected.forEach(addCheck);
+  }
+
+  // 선택한 제안 체크가 없으면 최소 하나는 직접 구성
+  if (checks.length === 0 || (await confirm({ message: '체크를 더 추가할까요?', default: false }))) {
+    do {
+      addCheck(await askCheck(usedNames, usedTriggers, checks));
+    } while (await confirm({ message: '체크를 더 추가할까요?', default: false }));
+  }
+
+  const ciTrigger = await input({
+    message: '전체 실행 트리거 (mustRun 체크 모두 실행):',
+    default: usedTriggers.has(defaults.ciTrigger) ? undefined : defaults.ciTrigger,
+    validate: (v) => validateTrigger(v, usedTriggers),
+  });
+
+  const runnerLabels = Array.isArray(runner) ? runner : [runner];
+  const useSelfHosted = await confirm({
+    message: 'Self-hosted runner 기능을 사용할까요? (저장소 캐싱, 로컬 git diff)',
+    default: runnerLabels.includes('self-hosted'),
+  });
+  const docker = useSelfHosted
+    ? await confirm({ message: 'Docker Desktop을 자동으로 시작할까요? (macOS)', default: false })
+    : false;
+
+  const generateApprovalOverride = await confirm({
+    message: 'Approve 시 머지 게이트를 해제하는 워크플로우를 생성할까요?',
+    default: defaults.generateApprovalOverride,
+  });
+
+  // 현재 형식으로 기록 (버전이 없으면 이전 규칙의 needs가 다시 추가됨)
+  return {
+    version: CONFIG_VERSION,
+    platform,
+    runner,
+    checks,
+    ciTrigger: ciTrigger.trim(),
+    generateApprovalOverride,
+    branches,
+    ...(useSelfHosted ? { selfHosted: { docker } } : {}),
+  };
+}
@@ -4,6 +4,7 @@ import path from 'path';
 import { mkdtemp, rm } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { run } from '../src/cli.js';
+import { readConfig, validateConfigFile } from '../src/readers/index.js';
 
 // process.exit 모킹
 const mockExit = vi.spyOn(process, 'exit').mockImplementation((code) => {
@@ -34,6 +35,27 @@ describe('CLI', () => {
       expect(await fs.pathExists(configPath)).toBe(true);
     });
 
+    it('감지된 프로젝트 스택으로 pr-test 체크를 구성해야 함', async () => {
+      await fs.writeJson(path.join(testDir, 'package.json'), { scripts: { test: 'vitest run', lint: 'eslint .' } });
+
+      await run({ init: true, cwd: testDir });
+
+      const content = await fs.readFile(path.join(testDir, '.pr-checks', 'config.yml'), 'utf-8');
+      expect(content).toContain('command: npm run lint');
+      expect(content).not.toContain('name: pr-test');
+    });
+
+    it('감지된 스택으로 만든 설정이 검증을 통과해야 함', async () => {
+      await fs.writeJson(path.join(testDir, 'package.json'), { scripts: { test: 'vitest run', lint: 'eslint .' } });
+
+      await run({ init: true, cwd: testDir });
+
+      const report = await validateConfigFile(testDir);
+      const { input } = await readConfig(testDir);
+      expect(report.diagnostics).toEqual([]);
+      expect(input.checks.find((c) => c.type === 'pr-review')?.needs).toEqual(['test', 'lint']);
+    });
+
     it('이미 설정 파일이 있으면 덮어쓰지 않아야 함', async () => {
       const prChecksDir = path.join(testDir, '.pr-checks');
       await fs.ensureDir(prChecksDir);
@@ -203,6 +225,369 @@ branches:
     });
   });
 
+  describe('validate 명령', () => {
+    it('유효한 설정이면 exit 없이 종료해야 함', async () => {
+      await run({ init: true, cwd: testDir });
+
+      await run({ command: 'validate', cwd: testDir });
+
+      expect(mockExit).not.toHaveBeenCalled();
+    });
+
+    it('에러가 있으면 exit 1로 종료해야 함', async () => {
+      const prChecksDir = path.join(testDir, '.pr-checks');
+      await fs.ensureDir(prChecksDir);
+      await fs.writeFile(
+        path.join(prChecksDir, 'config.yml'),
+        `checks:
+  - name: unit-test
+    trigger: test
+    type: pr-test
+    command: npm test`
+      );
+
+      await expect(run({ command: 'validate', cwd: testDir })).rejects.toThrow('process.exit(1)');
+    });
+
+    it('--json이면 진단 결과를 JSON으로 출력해야 함', async () => {
+      const prChecksDir = path.join(testDir, '.pr-checks');
+      await fs.ensureDir(prChecksDir);
+      await fs.writeFile(
+        path.join(prChecksDir, 'config.yml'),
+        `checks:
+  - name: unit-test
+    trigger: test
+    type: pr-test
+    command: npm test`
+      );
+
+      const logs: string[] = [];
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation((msg) => {
+        if (typeof msg === 'string') logs.push(msg);
+      });
+
+      await expect(run({ command: 'validate', cwd: testDir, json: true })).rejects.toThrow('process.exit(1)');
+
+      consoleSpy.mockRestore();
+
+      expect(logs).toHaveLength(1);
+      const report = JSON.parse(logs[0]);
+      expect(report.valid).toBe(false);
+      expect(report.diagnostics[0]).toMatchObject({
+        file: '.pr-checks/config.yml',
+        line: 3,
+        column: 14,
+        severity: 'error',
+      });
+    });
+  });
+
+  describe('doctor 명령', () => {
+    it('문제가 있으면 exit 1로 종료해야 함', async () => {
+      await run({ init: true, cwd: testDir });
+
+      await expect(run({ command: 'doctor', cwd: testDir })).rejects.toThrow('process.exit(1)');
+    });
+
+    it('--json이면 리포트를 JSON으로 출력해야 함', async () => {
+      await run({ init: true, cwd: testDir });
+      await run({ yes: true, cwd: testDir });
+      const logs: string[] = [];
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation((msg) => {
+        if (typeof msg === 'string') logs.push(msg);
+      });
+
+      await run({ command: 'doctor', cwd: testDir, json: true });
+
+      consoleSpy.mockRestore();
+
+      expect(logs).toHaveLength(1);
+      const report = JSON.parse(logs[0]);
+      expect(report.ok).toBe(true);
+      expect(report.statusContexts).toContain('PR Checks Status');
+    });
+  });
+
+  describe('--dry-run', () => {
+    it('파일을 쓰지 않아야 함', async () => {
+      await run({ dryRun: true, cwd: testDir });
+
+      expect(await fs.pathExists(path.join(testDir, '.github'))).toBe(false);
+      expect(await fs.pathExists(path.join(testDir, '.pr-checks'))).toBe(false);
+    });
+
+    it('변경된 파일의 diff를 출력해야 함', async () => {
+      await run({ yes: true, cwd: testDir });
+      const prChecksPath = path.join(testDir, '.github', 'workflows', 'pr-checks.yml');
+      const original = await fs.readFile(prChecksPath, 'utf-8');
+      await fs.writeFile(prChecksPath, original.replace('(npm test)', '(npm run test:ci)'));
+
+      const logs: string[] = [];
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation((msg) => {
+        if (typeof msg === 'string') logs.push(msg);
+      });
+
+      await run({ dryRun: true, cwd: testDir });
+
+      consoleSpy.mockRestore();
+
+      const output = logs.join('\n');
+      expect(output).toContain('+++ b/.github/workflows/pr-checks.yml');
+      expect(output).toContain('(npm run test:ci)');
+      // 파일은 그대로 유지
+      expect(await fs.readFile(prChecksPath, 'utf-8')).toContain('(npm run test:ci)');
+    });
+  });
+
+  describe('--json', () => {
+    const runJson = async (options: Parameters<typeof run>[0]) => {
+      const logs: string[] = [];
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation((msg) => {
+        if (typeof msg === 'string') logs.push(msg);
+      });
+      try {
+        await run({ ...options, json: true, cwd: testDir });
+      } finally {
+        consoleSpy.mockRestore();
+      }
+      expect(logs).toHaveLength(1);
+      return JSON.parse(logs[0]);
+    };
+
+    it('init 결과를 JSON으로 출력해야 함', async () => {
+      const result = await runJson({ init: true });
+
+      expect(result).toMatchObject({ mode: 'init', ok: true, files: ['.pr-checks/config.yml'] });
+      expect(result.config.platform).toBe('github');
+    });
+
+    it('generate 결과에 설정, 파일 목록, secrets, 경고를 포함해야 함', async () => {
+      const prChecksDir = path.join(testDir, '.pr-checks');
+      await fs.ensureDir(prChecksDir);
+      await fs.writeFile(
+        path.join(prChecksDir, 'config.yml'),
+        `checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+    framework: node
+    retries: 2
+  - name: ai-review
+    trigger: /review
+    type: pr-review
+    model: us.amazon.nova-micro-v1:0
+    apiKeySecret: MY_KEY
+`
+      );
+
+      const first = await runJson({});
+      expect(first.mode).toBe('generate');
+      expect(first.ok).toBe(true);
+      expect(first.files).toContain('.github/workflows/pr-checks.yml');
+      expect(first.unchanged).toEqual([]);
+      expect(first.secrets).toEqual(['MY_KEY']);
+      // deprecated framework는 validate/doctor에서만 보고
+      expect(first.warnings).toEqual(['checks[0].retries: 알 수 없는 키입니다 (무시됨).']);
+      expect(first.config.branches).toEqual(['main', 'master']);
+      expect(first.config.checks[0].setupSteps[0].uses).toBe('actions/setup-node@v4');
+
+      const second = await runJson({});
+      expect(second.files).toEqual([]);
+      expect(second.unchanged).toEqual(first.files);
+    });
+
+    it('dry-run 결과에 diff를 포함하고 파일은 쓰지 않아야 함', async () => {
+      const result = await runJson({ dryRun: true });
+
+      expect(result.mode).toBe('dry-run');
+      expect(result.warnings).toEqual([expect.stringContaining('설정 파일이 없어')]);
+      expect(result.changes[0]).toMatchObject({ status: 'added', diff: expect.stringContaining('+++ b/') });
+      expect(await fs.pathExists(path.join(testDir, '.github'))).toBe(false);
+    });
+
+    it('check에서 drift가 있으면 ok: false로 출력하고 exit 1로 종료해야 함', async () => {
+      await expect(runJson({ check: true })).rejects.toThrow('process.exit(1)');
+    });
+
+    it('설정 에러는 error 필드로 출력해야 함', async () => {
+      const prChecksDir = path.join(testDir, '.pr-checks');
+      await fs.ensureDir(prChecksDir);
+      await fs.writeFile(path.join(prChecksDir, 'config.yml'), 'ciTrigger: checks\n');
+
+      const logs: string[] = [];
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation((msg) => {
+        if (typeof msg === 'string') logs.push(msg);
+      });
+      await expect(run({ json: true, cwd: testDir })).rejects.toThrow('process.exit(1)');
+      consoleSpy.mockRestore();
+
+      const result = JSON.parse(logs[0]);
+      expect(result.ok).toBe(false);
+      expect(result.error).toContain('ciTrigger');
+    });
+  });
+
+  describe('clean 명령', () => {
+    it('생성된 파일을 삭제해야 함', async () => {
+      await run({ init: true, cwd: testDir });
+      await run({ yes: true, cwd: testDir });
+
+      await run({ command: 'clean', yes: true, cwd: testDir });
+
+      expect(await fs.pathExists(path.join(testDir, '.github', 'workflows', 'pr-checks.yml'))).toBe(false);
+      expect(await fs.pathExists(path.join(testDir, '.pr-checks', 'config.yml'))).toBe(true);
+    });
+
+    it('직접 수정된 파일이 있으면 exit 1로 종료하고 --force면 삭제해야 함', async () => {
+      await run({ init: true, cwd: testDir });
+      await run({ yes: true, cwd: testDir });
+      const workflowPath = path.join(testDir, '.github', 'workflows', 'pr-checks.yml');
+      await fs.appendFile(workflowPath, '# edited\n');
+
+      await expect(run({ command: 'clean', yes: true, cwd: testDir })).rejects.toThrow('process.exit(1)');
+      expect(await fs.pathExists(workflowPath)).toBe(true);
+
+      await run({ command: 'clean', yes: true, force: true, cwd: testDir });
+      expect(await fs.pathExists(workflowPath)).toBe(false);
+    });
+  });
+
+  describe('--strict', () => {
+    it('validate --strict는 알 수 없는 키가 있으면 exit 1로 종료해야 함', async () => {
+      await fs.ensureDir(path.join(testDir, '.pr-checks'));
+      await fs.writeFile(path.join(testDir, '.pr-checks', 'config.yml'), 'branchs:\n  - main\n');
+      const logs: string[] = [];
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation((msg) => {
+        if (typeof msg === 'string') logs.push(msg);
+      });
+
+      await run({ command: 'validate', cwd: testDir });
+      await expect(run({ command: 'validate', cwd: testDir, strict: true, json: true })).rejects.toThrow('process.exit(1)');
+
+      consoleSpy.mockRestore();
+
+      expect(JSON.parse(logs[logs.length - 1]).diagnostics[0].message).toContain("혹시 'branches'인가요?");
+    });
+  });
+
+  describe('schema 명령', () => {
+    it('.pr-checks/config.schema.json을 쓰고 스키마 주석 추가 방법을 안내해야 함', async () => {
+      const logs: string[] = [];
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation((msg) => {
+        if (typeof msg === 'string') logs.push(msg);
+      });
+
+      await run({ command: 'schema', cwd: testDir });
+
+      consoleSpy.mockRestore();
+
+      expect(await fs.pathExists(path.join(testDir, '.pr-checks', 'config.schema.json'))).toBe(true);
+      expect(logs.join('\n')).toContain('# yaml-language-server: $schema=./config.schema.json');
+    });
+
+    it('--json이면 파일을 쓰지 않고 스키마를 출력해야 함', async () => {
+      const logs: string[] = [];
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation((msg) => {
+        if (typeof msg === 'string') logs.push(msg);
+      });
+
+      await run({ command: 'schema', cwd: testDir, json: true });
+
+      consoleSpy.mockRestore();
+
+      expect(JSON.parse(logs[0]).$schema).toBe('http://json-schema.org/draft-07/schema#');
+      expect(await fs.pathExists(path.join(testDir, '.pr-checks', 'config.schema.json'))).toBe(false);
+    });
+  });
+
+  describe('migrate 명령', () => {
+    it('--dry-run이면 파일을 쓰지 않고 --json 결과에 diff를 포함해야 함', async () => {
+      const configPath = path.join(testDir, '.pr-checks', 'config.yml');
+      const content = 'checks:\n  - name: unit-test\n    trigger: /test\n    type: pr-test\n    command: npm test\n    framework: node\n';
+      await fs.outputFile(configPath, content);
+      const logs: string[] = [];
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation((msg) => {
+        if (typeof msg === 'string') logs.push(msg);
+      });
+
+      await run({ command: 'migrate', cwd: testDir, json: true, dryRun: true });
+
+      consoleSpy.mockRestore();
+
+      const result = JSON.parse(logs[0]);
+      expect(result).toMatchObject({ file: path.join('.pr-checks', 'config.yml'), fromVersion: 1, toVersion: 3, updated: true });
+      expect(result.diff).toContain('+    setupSteps:');
+      expect(await fs.readFile(configPath, 'utf-8')).toBe(content);
+    });
+  });
+
+  describe('explain 명령', () => {
+    it('--json이면 시뮬레이션 결과를 JSON으로 출력해야 함', async () => {
+      const logs: string[] = [];
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation((msg) => {
+        if (typeof msg === 'string') logs.push(msg);
+      });
+
+      await run({ command: 'explain', cwd: testDir, json: true, event: 'issue_comment', comment: '/test' });
+
+      consoleSpy.mockRestore();
+
+      const result = JSON.parse(logs[0]);
+      expect(result.trigger).toBe('/test');
+      expect(result.jobs.filter((j: { runs: boolean }) => j.runs).map((j: { job: string }) => j.job)).toContain('pr-test');
+    });
+
+    it('--event가 없으면 exit 1로 종료해야 함', async () => {
+      await expect(run({ command: 'explain', cwd: testDir })).rejects.toThrow('process.exit(1)');
+    });
+  });
+
+  describe('--check', () => {
+    it('생성 파일이 설정과 일치하면 exit 없이 종료해야 함', async () => {
+      await run({ yes: true, cwd: testDir });
+
+      await run({ check: true, cwd: testDir });
+
+      expect(mockExit).not.toHaveBeenCalled();
+    });
+
+    it('생성 파일을 직접 수정했으면 exit 1과 함께 파일명을 출력해야 함', async () => {
+      await run({ yes: true, cwd: testDir });
+      const reportPath = path.join(testDir, '.pr-checks', 'scripts', 'pr-test-report.sh');
+      await fs.appendFile(reportPath, '\necho hand-edited\n');
+
+      const logs: string[] = [];
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation((msg) => {
+        if (typeof msg === 'string') logs.push(msg);
+      });
+
+      await expect(run({ check: true, cwd: testDir })).rejects.toThrow('process.exit(1)');
+
+      consoleSpy.mockRestore();
+
+      const output = logs.join('\n');
+      expect(output).toContain('.pr-checks/scripts/pr-test-report.sh');
+      expect(output).not.toContain('pr-checks-approval.yml');
+    });
+
+    it('생성 파일이 없으면 exit 1로 종료해야 함', async () => {
+      await run({ init: true, cwd: testDir });
+
+      await expect(run({ check: true, cwd: testDir })).rejects.toThrow('process.exit(1)');
+    });
+
+    it('설정이 바뀌었는데 다시 생성하지 않았으면 exit 1로 종료해야 함', async () => {
+      await run({ init: true, cwd: testDir });
+      await run({ yes: true, cwd: testDir });
+      const configPath = path.join(testDir, '.pr-checks', 'config.yml');
+      const content = await fs.readFile(configPath, 'utf-8');
+      await fs.writeFile(configPath, content.replace('ciTrigger: /checks', 'ciTrigger: /all'));
+
+      await expect(run({ check: true, cwd: testDir })).rejects.toThrow('process.exit(1)');
+    });
+  });
+
   describe('연속 실행', () => {
     it('init 후 generate를 연속으로 실행할 수 있어야 함', async () => {
       // 1. init
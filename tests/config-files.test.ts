@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import ts from 'typescript';
+import { readConfig, hasInputFiles, validateConfigFile, findConfigFile } from '../src/readers/index.js';
+import { defineConfig } from '../src/api.js';
+import type { PrTestCheck } from '../src/types/config.js';
+
+describe('config.json / config.ts / config.mjs', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  const writeFile = (file: string, content: string) => fs.outputFile(path.join(testDir, '.pr-checks', file), content);
+
+  it('config.json을 읽어야 함', async () => {
+    await writeFile(
+      'config.json',
+      JSON.stringify({
+        $schema: './config.schema.json',
+        branches: ['main'],
+        checks: [{ name: 'unit-test', trigger: '/test', type: 'pr-test', command: 'npm test' }],
+      })
+    );
+
+    const warnings: string[] = [];
+    const { input } = await readConfig(testDir, { onWarning: (message) => warnings.push(message) });
+
+    expect(await hasInputFiles(testDir)).toBe(true);
+    expect(input.branches).toEqual(['main']);
+    expect(input.checks.map((c) => c.name)).toEqual(['unit-test']);
+    expect(warnings).toEqual([]);
+  });
+
+  it('config.mjs의 default export를 읽어야 함', async () => {
+    await writeFile(
+      'config.mjs',
+      `const packages = ['api', 'web'];
+export default {
+  checks: packages.map((pkg) => ({ name: \`test-\${pkg}\`, trigger: \`/test-\${pkg}\`, type: 'pr-test', command: \`npm test -w \${pkg}\` })),
+};
+`
+    );
+
+    const { input } = await readConfig(testDir);
+
+    expect(input.checks.map((c) => c.name)).toEqual(['test-api', 'test-web']);
+    expect((input.checks[1] as PrTestCheck).command).toBe('npm test -w web');
+    expect(input.checks[0].mustRun).toBe(true);
+  });
+
+  it('config.ts를 TypeScript 문법 그대로 읽어야 함', async () => {
+    await writeFile(
+      'config.ts',
+      `interface Pkg { name: string; command: string }
+const packages: Pkg[] = [{ name: 'api', command: 'go test ./...' }];
+export default {
+  branches: ['main'] as string[],
+  checks: packages.map((pkg) => ({ name: pkg.name, trigger: \`/\${pkg.name}\`, type: 'pr-test' as const, command: pkg.command })),
+};
+`
+    );
+
+    const { input } = await readConfig(testDir);
+
+    expect(input.branches).toEqual(['main']);
+    expect((input.checks[0] as PrTestCheck).command).toBe('go test ./...');
+  });
+
+  it('default export가 없으면 에러를 던져야 함', async () => {
+    await writeFile('config.mjs', 'export const checks = [];\n');
+
+    await expect(readConfig(testDir)).rejects.toThrow('config.mjs: default export가 없습니다.');
+  });
+
+  it('설정 파일이 여러 개면 config.yml을 사용하고 경고해야 함', async () => {
+    await writeFile('config.yml', 'branches: [main]\n');
+    await writeFile('config.json', '{ "branches": ["develop"] }');
+
+    const warnings: string[] = [];
+    const { input } = await readConfig(testDir, { onWarning: (message) => warnings.push(message) });
+
+    expect((await findConfigFile(testDir)).file).toBe(path.join(testDir, '.pr-checks', 'config.yml'));
+    expect(input.branches).toEqual(['main']);
+    expect(warnings).toEqual(['.pr-checks/에 설정 파일이 여러 개 있습니다: config.yml, config.json. config.yml만 사용합니다.']);
+  });
+
+  it('validate: config.json은 줄 위치를, config.mjs는 설정 경로를 표시해야 함', async () => {
+    await writeFile('config.json', '{\n  "branches": ["main"],\n  "ciTrigger": "checks"\n}\n');
+
+    const jsonReport = await validateConfigFile(testDir);
+    expect(jsonReport.file).toBe(path.join('.pr-checks', 'config.json'));
+    expect(jsonReport.diagnostics[0]).toMatchObject({ line: 3, severity: 'error' });
+
+    await fs.remove(path.join(testDir, '.pr-checks', 'config.json'));
+    await writeFile('config.mjs', "export default { ciTrigger: 'checks' };\n");
+
+    const moduleReport = await validateConfigFile(testDir);
+    expect(moduleReport.file).toBe(path.join('.pr-checks', 'config.mjs'));
+    expect(moduleReport.valid).toBe(false);
+    expect(moduleReport.diagnostics[0]).toMatchObject({ line: 1, column: 1, path: ['ciTrigger'] });
+  });
+
+  it('config.mjs에서 extends로 config.yml 프리셋을 상속해야 함', async () => {
+    await fs.outputFile(path.join(testDir, 'presets', 'base.yml'), 'branches: [main]\nguideMessage: 공통 안내\n');
+    await writeFile('config.mjs', "export default { extends: '../presets/base.yml', branches: ['develop'] };\n");
+
+    const { input } = await readConfig(testDir);
+
+    expect(input.branches).toEqual(['develop']);
+    expect(input.guideMessage).toBe('공통 안내');
+  });
+
+  it('defineConfig는 입력을 그대로 반환해야 함', () => {
+    const input = { branches: ['main'] };
+    expect(defineConfig(input)).toBe(input);
+  });
+
+  it('기본값이 있는 항목을 생략한 config.ts가 타입 검사를 통과해야 함', async () => {
+    const api = path.resolve(__dirname, '..', 'src', 'api.js');
+    const typeErrors = async (checks: string) => {
+      await writeFile(
+        'config.ts',
+        `import { defineConfig } from ${JSON.stringify(api)};
+
+export default defineConfig({
+  checks: [${checks}],
+  projects: [{ path: 'services/api', checks: [{ name: 'test', trigger: '/test-api', type: 'pr-test', command: 'go test ./...' }] }],
+});
+`
+      );
+      const program = ts.createProgram([path.join(testDir, '.pr-checks', 'config.ts')], {
+        module: ts.ModuleKind.NodeNext,
+        moduleResolution: ts.ModuleResolutionKind.NodeNext,
+        target: ts.ScriptTarget.ES2022,
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+      });
+      return ts
+        .getPreEmitDiagnostics(program)
+        .map((d) => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+    };
+
+    expect(
+      await typeErrors(`
+    { name: 'unit-test', trigger: '/test', type: 'pr-test', command: 'npm test' },
+    { name: 'ai-review', trigger: '/review', type: 'pr-review', model: 'claude', apiKeySecret: 'AWS_KEY' },
+  `)
+    ).toEqual([]);
+    expect((await typeErrors(`{ name: 'unit-test', trigger: '/test', type: 'pr-test' }`)).join('\n')).toContain(
+      "Property 'command' is missing"
+    );
+  }, 30000);
+});
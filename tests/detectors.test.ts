@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { detectProjectStacks, getSuggestedChecks, createInitialConfig } from '../src/detectors/index.js';
+import { DEFAULT_INPUT_CONFIG } from '../src/types/config.js';
+
+describe('detectors', () => {
+  let testDir: string;
+
+  const write = async (file: string, content = '') => {
+    await fs.outputFile(path.join(testDir, file), content);
+  };
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-detect-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  describe('detectProjectStacks', () => {
+    it('감지할 파일이 없으면 빈 배열을 반환해야 함', async () => {
+      expect(await detectProjectStacks(testDir)).toEqual([]);
+    });
+
+    it('package.json scripts에서 test/lint/typecheck 체크를 제안해야 함', async () => {
+      await write('package.json', JSON.stringify({ scripts: { test: 'vitest run', lint: 'eslint .', typecheck: 'tsc --noEmit' } }));
+      await write('package-lock.json', '{}');
+
+      const [stack] = await detectProjectStacks(testDir);
+
+      expect(stack.id).toBe('node');
+      expect(stack.files).toEqual(['package.json', 'package-lock.json']);
+      expect(stack.setupSteps).toEqual([
+        { name: 'Setup Node.js', uses: 'actions/setup-node@v4', with: { 'node-version': '20', cache: 'npm' } },
+        { name: 'Install dependencies', run: 'npm ci' },
+      ]);
+      expect(stack.checks.map((c) => [c.name, c.command])).toEqual([
+        ['test', 'npm test'],
+        ['lint', 'npm run lint'],
+        ['typecheck', 'npm run typecheck'],
+      ]);
+    });
+
+    it('npm init 기본 test 스크립트는 제안하지 않아야 함', async () => {
+      await write('package.json', JSON.stringify({ scripts: { test: 'echo "Error: no test specified" && exit 1' } }));
+
+      const [stack] = await detectProjectStacks(testDir);
+
+      expect(stack.checks).toEqual([]);
+      expect(stack.setupSteps.at(-1)).toEqual({ name: 'Install dependencies', run: 'npm install' });
+    });
+
+    it('pnpm lockfile과 .nvmrc를 반영해야 함', async () => {
+      await write('package.json', JSON.stringify({ scripts: { test: 'jest', lint: 'eslint .' } }));
+      await write('pnpm-lock.yaml');
+      await write('.nvmrc', '20');
+
+      const [stack] = await detectProjectStacks(testDir);
+
+      expect(stack.label).toBe('Node.js (pnpm)');
+      expect(stack.setupSteps).toEqual([
+        { name: 'Setup pnpm', uses: 'pnpm/action-setup@v4', with: { version: '9' } },
+        { name: 'Setup Node.js', uses: 'actions/setup-node@v4', with: { 'node-version-file': '.nvmrc', cache: 'pnpm' } },
+        { name: 'Install dependencies', run: 'pnpm install --frozen-lockfile' },
+      ]);
+      expect(stack.checks.map((c) => c.command)).toEqual(['pnpm test', 'pnpm run lint']);
+    });
+
+    it('yarn과 bun 명령어를 사용해야 함', async () => {
+      await write('package.json', JSON.stringify({ scripts: { test: 'jest', lint: 'eslint .' } }));
+      await write('yarn.lock');
+      let [stack] = await detectProjectStacks(testDir);
+      expect(stack.checks.map((c) => c.command)).toEqual(['yarn test', 'yarn lint']);
+
+      await fs.remove(path.join(testDir, 'yarn.lock'));
+      await write('bun.lock');
+      [stack] = await detectProjectStacks(testDir);
+      expect(stack.setupSteps[0]).toEqual({ name: 'Setup Bun', uses: 'oven-sh/setup-bun@v2' });
+      expect(stack.checks.map((c) => c.command)).toEqual(['bun run test', 'bun run lint']);
+    });
+
+    it('Python uv 프로젝트는 uv run으로 실행해야 함', async () => {
+      await write('pyproject.toml', '[project]\nname = "app"\n\n[tool.ruff]\nline-length = 100\n');
+      await write('uv.lock');
+
+      const [stack] = await detectProjectStacks(testDir);
+
+      expect(stack.label).toBe('Python (uv)');
+      expect(stack.checks.map((c) => c.command)).toEqual(['uv run pytest', 'uv run ruff check .']);
+    });
+
+    it('requirements.txt만 있으면 pip로 설치해야 함', async () => {
+      await write('requirements.txt', 'pytest\n');
+
+      const [stack] = await detectProjectStacks(testDir);
+
+      expect(stack.setupSteps[1]).toEqual({ name: 'Install dependencies', run: 'pip install -r requirements.txt' });
+      expect(stack.checks.map((c) => c.command)).toEqual(['pytest']);
+    });
+
+    it('Go, Rust, Java, .NET 프로젝트를 감지해야 함', async () => {
+      await write('go.mod', 'module example.com/app\n');
+      await write('Cargo.toml');
+      await write('build.gradle.kts');
+      await write('gradlew');
+      await write('App/App.csproj');
+
+      const stacks = await detectProjectStacks(testDir);
+
+      expect(stacks.map((s) => s.id)).toEqual(['go', 'rust', 'java', 'dotnet']);
+      expect(stacks[0].checks.map((c) => c.command)).toEqual(['go test ./...', 'go vet ./...']);
+      expect(stacks[2].checks.map((c) => c.command)).toEqual(['./gradlew test']);
+      expect(stacks[3].files).toEqual(['App/App.csproj']);
+      expect(stacks[3].checks[0].command).toBe('dotnet test App/App.csproj');
+    });
+
+    it('Maven 프로젝트는 mvn test를 제안해야 함', async () => {
+      await write('pom.xml');
+
+      const [stack] = await detectProjectStacks(testDir);
+
+      expect(stack.label).toBe('Java (Maven)');
+      expect(stack.checks[0].command).toBe('mvn -B test');
+    });
+  });
+
+  describe('getSuggestedChecks', () => {
+    it('스택 간 이름이 겹치면 스택 id를 접두사로 붙여야 함', async () => {
+      await write('package.json', JSON.stringify({ scripts: { test: 'vitest run', typecheck: 'tsc' } }));
+      await write('go.mod');
+
+      const checks = getSuggestedChecks(await detectProjectStacks(testDir));
+
+      expect(checks.map((c) => [c.name, c.trigger])).toEqual([
+        ['node-test', '/node-test'],
+        ['typecheck', '/typecheck'],
+        ['go-test', '/go-test'],
+        ['lint', '/lint'],
+      ]);
+    });
+  });
+
+  describe('createInitialConfig', () => {
+    it('제안 체크가 없으면 기본 설정을 반환해야 함', () => {
+      expect(createInitialConfig([])).toEqual(DEFAULT_INPUT_CONFIG);
+    });
+
+    it('기본 pr-test 체크를 제안 체크로 교체하고 pr-review는 유지해야 함', async () => {
+      await write('go.mod');
+
+      const input = createInitialConfig(getSuggestedChecks(await detectProjectStacks(testDir)));
+
+      expect(input.checks.map((c) => c.name)).toEqual(['test', 'lint', 'pr-review']);
+      expect(input.checks[2].needs).toEqual(['test', 'lint']);
+    });
+
+    it('mustRun 제안 체크가 없으면 pr-review의 needs를 삭제해야 함', () => {
+      const input = createInitialConfig([
+        { name: 'lint', trigger: '/lint', type: 'pr-test', mustRun: false, mustPass: true, command: 'make lint' },
+      ]);
+
+      expect(input.checks[1].needs).toBeUndefined();
+    });
+  });
+});
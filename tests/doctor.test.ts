@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import fs from 'fs-extra';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { runDoctor } from '../src/doctor/index.js';
+import { createDefaultFiles, readConfig } from '../src/readers/index.js';
+import { generateWorkflowFiles } from '../src/generators/workflow.js';
+
+describe('runDoctor', () => {
+  let testDir: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: testDir,
+      stdio: 'pipe',
+    });
+
+  const writeConfig = async (content: string) => {
+    await fs.outputFile(path.join(testDir, '.pr-checks', 'config.yml'), content);
+  };
+
+  const generate = async () => {
+    await generateWorkflowFiles(testDir, await readConfig(testDir));
+  };
+
+  const messages = (report: Awaited<ReturnType<typeof runDoctor>>) => report.findings.map((f) => f.message);
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-doctor-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  it('생성 파일이 모두 기본 브랜치에 커밋되어 있으면 통과해야 함', async () => {
+    await createDefaultFiles(testDir);
+    await generate();
+    git('init', '-q', '-b', 'main');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'init');
+
+    const report = await runDoctor(testDir);
+
+    expect(report.ok).toBe(true);
+    expect(report.findings).toEqual([]);
+    expect(report.defaultBranch).toBe('main');
+    expect(report.secrets).toEqual(['BEDROCK_API_KEY']);
+    expect(report.statusContexts).toEqual(['PR Checks Status', 'pr-test']);
+  });
+
+  it('생성되지 않은 파일과 커밋되지 않은 파일을 보고해야 함', async () => {
+    await createDefaultFiles(testDir);
+    git('init', '-q', '-b', 'main');
+
+    let report = await runDoctor(testDir);
+    expect(report.ok).toBe(false);
+    expect(messages(report)).toContain('.github/workflows/pr-checks.yml이 생성되지 않았습니다.');
+
+    await generate();
+    report = await runDoctor(testDir);
+    expect(messages(report)).toContain('.github/workflows/pr-checks.yml이 git에 커밋되지 않았습니다.');
+  });
+
+  it('스크립트 실행 권한 누락을 보고해야 함', async () => {
+    await createDefaultFiles(testDir);
+    await generate();
+    const script = path.join(testDir, '.pr-checks', 'scripts', 'pr-test-report.sh');
+    await fs.chmod(script, 0o644);
+    git('init', '-q', '-b', 'main');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'init');
+
+    const report = await runDoctor(testDir);
+
+    expect(messages(report)).toContain('.pr-checks/scripts/pr-test-report.sh에 실행 권한이 없습니다.');
+    expect(messages(report)).toContain('.pr-checks/scripts/pr-test-report.sh이 git에 실행 권한 없이 커밋되어 있습니다.');
+  });
+
+  it('기본 브랜치에 없는 생성 파일은 경고해야 함', async () => {
+    await createDefaultFiles(testDir);
+    git('init', '-q', '-b', 'main');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'init');
+    git('checkout', '-q', '-b', 'feature');
+    await generate();
+    git('add', '-A');
+    git('commit', '-q', '-m', 'add workflows');
+
+    const report = await runDoctor(testDir);
+
+    expect(report.ok).toBe(true);
+    const warning = report.findings.find((f) => f.file === '.github/workflows/pr-checks.yml');
+    expect(warning?.severity).toBe('warning');
+    expect(warning?.message).toContain('기본 브랜치(main)에 없습니다');
+  });
+
+  it('cliCommand 파일 누락과 platform 불일치를 보고해야 함', async () => {
+    await writeConfig(`
+platform: gitea
+checks:
+  - name: ai-review
+    trigger: /review
+    type: pr-review
+    mustRun: true
+    mustPass: false
+    provider: cli
+    cliCommand: ./scripts/review.sh --verbose
+`);
+    await fs.outputFile(path.join(testDir, '.github', 'workflows', 'pr-checks.yml'), 'name: old');
+
+    const report = await runDoctor(testDir);
+
+    expect(messages(report)).toContain("'ai-review' 체크의 cliCommand 파일이 없습니다: ./scripts/review.sh");
+    expect(messages(report).some((m) => m.startsWith('platform이 gitea인데 .github/workflows에'))).toBe(true);
+    expect(report.findings.some((f) => f.message.includes('git 저장소가 아니어서'))).toBe(true);
+    expect(report.statusContexts).toEqual(['PR Checks Status']);
+  });
+
+  it('설정 파일에 에러가 있으면 validate를 안내해야 함', async () => {
+    await writeConfig('checks:\n  - name: bad\n    trigger: test\n    type: pr-test\n    command: npm test\n');
+
+    const report = await runDoctor(testDir);
+
+    expect(report.ok).toBe(false);
+    expect(report.findings[0].hint).toContain('validate');
+  });
+
+  it('deprecated 옵션은 migrate 안내와 함께 경고해야 함', async () => {
+    await writeConfig('checks:\n  - name: unit-test\n    trigger: /test\n    type: pr-test\n    command: npm test\n    framework: node\n');
+
+    const report = await runDoctor(testDir);
+    const finding = report.findings.find((f) => f.message.includes('deprecated'));
+
+    expect(finding).toMatchObject({ severity: 'warning', file: '.pr-checks/config.yml' });
+    expect(finding?.hint).toContain('migrate');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { explainEvent } from '../src/explain/index.js';
+import type { ExplainResult } from '../src/explain/index.js';
+import type { Config, PrTestCheck, PrReviewCheck } from '../src/types/config.js';
+
+const createTestConfig = (): Config => ({
+  input: {
+    platform: 'github',
+    runner: 'ubuntu-latest',
+    checks: [
+      {
+        name: 'unit-test',
+        trigger: '/test',
+        type: 'pr-test',
+        mustRun: true,
+        mustPass: true,
+        command: 'npm test',
+      } as PrTestCheck,
+      {
+        name: 'e2e',
+        trigger: '/e2e',
+        type: 'pr-test',
+        mustRun: false,
+        mustPass: false,
+        command: 'npm run e2e',
+      } as PrTestCheck,
+      {
+        name: 'ai-review',
+        trigger: '/review',
+        type: 'pr-review',
+        mustRun: true,
+        mustPass: false,
+        provider: 'cli',
+        cliTool: 'claude',
+        needs: ['unit-test'],
+      } as PrReviewCheck,
+    ],
+    ciTrigger: '/checks',
+    generateApprovalOverride: true,
+    branches: ['main'],
+  },
+});
+
+const runs = (result: ExplainResult) => result.jobs.filter((j) => j.runs).map((j) => j.job);
+const job = (result: ExplainResult, name: string) => result.jobs.find((j) => j.job === name);
+
+describe('explainEvent', () => {
+  describe('issue_comment', () => {
+    it('ciTrigger는 mustRun 체크만 실행하고 리뷰는 needs의 테스트 통과 후 실행해야 함', () => {
+      const result = explainEvent(createTestConfig(), { event: 'issue_comment', comment: '/checks' });
+
+      expect(result.trigger).toBe('/checks');
+      expect(result.official).toBe(true);
+      expect(runs(result)).toEqual(['check-trigger', 'unit-test', 'ai-review', 'blocked-checks', 'review-status']);
+      expect(job(result, 'e2e')?.reason).toContain('mustRun: false');
+      expect(job(result, 'ai-review')?.reason).toContain('needs(unit-test) 통과 후');
+    });
+
+    it('needs의 테스트 실패를 가정하면 리뷰는 차단되어야 함', () => {
+      const result = explainEvent(createTestConfig(), { event: 'issue_comment', comment: '/checks', failing: ['unit-test'] });
+
+      expect(job(result, 'ai-review')).toMatchObject({ runs: false, reason: expect.stringContaining('needs의 unit-test이(가) 실패해') });
+      expect(job(result, 'blocked-checks')?.reason).toBe('ai-review(Blocked by unit-test)에 failure status 설정');
+      expect(job(result, 'review-status')?.runs).toBe(true);
+    });
+
+    it('개별 트리거는 해당 체크만 실행하고 테스트 결과와 무관해야 함', () => {
+      const result = explainEvent(createTestConfig(), { event: 'issue_comment', comment: '/review', failing: ['unit-test'] });
+
+      expect(runs(result)).toEqual(['check-trigger', 'ai-review', 'blocked-checks', 'review-status']);
+    });
+
+    it('추가 메시지가 있으면 비공식 실행이어야 함', () => {
+      const result = explainEvent(createTestConfig(), { event: 'issue_comment', comment: '\n/review 보안 위주로 봐주세요' });
+
+      expect(result.trigger).toBe('/review');
+      expect(result.official).toBe(false);
+      expect(job(result, 'ai-review')?.reason).toContain('비공식');
+    });
+
+    it('등록되지 않은 트리거면 체크가 실행되지 않아야 함', () => {
+      const result = explainEvent(createTestConfig(), { event: 'issue_comment', comment: 'LGTM /test' });
+
+      expect(runs(result)).toEqual(['check-trigger']);
+      expect(job(result, 'check-trigger')?.reason).toContain("'LGTM'는 등록된 트리거가 아님");
+    });
+  });
+
+  describe('pull_request', () => {
+    it('opened에서는 가이드 코멘트와 자동 실행 체크가 실행되어야 함', () => {
+      const result = explainEvent(createTestConfig(), { event: 'pull_request', action: 'opened' });
+
+      expect(runs(result)).toEqual(['guide-comment', 'check-trigger', 'unit-test', 'ai-review', 'blocked-checks', 'review-status']);
+      expect(job(result, 'e2e')?.reason).toContain('autoRunOn이 비어 있음');
+      expect(result.official).toBe(true);
+    });
+
+    it('autoRunOn에 지정한 액션에서만 자동 실행해야 함', () => {
+      const config = createTestConfig();
+      config.input.checks[2].autoRunOn = ['ready_for_review'];
+
+      const sync = explainEvent(config, { event: 'pull_request', action: 'synchronize' });
+      expect(job(sync, 'ai-review')).toMatchObject({ runs: false, reason: 'autoRunOn(ready_for_review)에 없는 액션' });
+
+      const ready = explainEvent(config, { event: 'pull_request', action: 'ready_for_review' });
+      expect(runs(ready)).toEqual(['check-trigger', 'ai-review', 'blocked-checks', 'review-status']);
+    });
+
+    it('draft PR은 check-trigger에서 중단되어야 함', () => {
+      const result = explainEvent(createTestConfig(), { event: 'pull_request', action: 'synchronize', draft: true });
+
+      expect(runs(result)).toEqual(['check-trigger']);
+      expect(job(result, 'review-status')?.reason).toContain('should_continue');
+    });
+
+    it('types에 없는 액션이나 branches에 없는 대상 브랜치는 워크플로우가 트리거되지 않아야 함', () => {
+      const reopened = explainEvent(createTestConfig(), { event: 'pull_request', action: 'reopened' });
+      expect(reopened.triggered).toBe(false);
+      expect(reopened.jobs).toEqual([]);
+
+      const otherBase = explainEvent(createTestConfig(), { event: 'pull_request', action: 'synchronize', base: 'develop' });
+      expect(otherBase.triggered).toBe(false);
+      expect(otherBase.notes[0]).toContain("'develop'");
+    });
+  });
+});
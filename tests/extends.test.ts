@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { readConfig, validateConfigFile } from '../src/readers/index.js';
+import type { PrReviewCheck, PrTestCheck } from '../src/types/config.js';
+
+const BASE_CONFIG = `runner: ubuntu-latest
+branches: [main]
+guideMessage: 조직 공통 안내
+checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+  - name: ai-review
+    trigger: /review
+    type: pr-review
+    provider: cli
+    cliTool: claude
+    customRules: 조직 공통 규칙
+  - name: e2e
+    trigger: /e2e
+    type: pr-test
+    mustRun: false
+    command: npm run e2e
+`;
+
+describe('config extends', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  const writeFile = (file: string, content: string) => fs.outputFile(path.join(testDir, file), content);
+  const writeConfig = (content: string) => writeFile('.pr-checks/config.yml', content);
+
+  it('checks는 name 기준으로 필드 단위 병합하고 새 체크는 뒤에 추가해야 함', async () => {
+    await writeFile('presets/base.yml', BASE_CONFIG);
+    await writeConfig(`extends: ../presets/base.yml
+branches: [main, develop]
+checks:
+  - name: ai-review
+    customRules: 이 저장소 규칙
+  - name: lint
+    trigger: /lint
+    type: pr-test
+    command: npm run lint
+`);
+
+    const { input } = await readConfig(testDir);
+
+    expect(input.branches).toEqual(['main', 'develop']);
+    expect(input.guideMessage).toBe('조직 공통 안내');
+    expect(input.checks.map((c) => c.name)).toEqual(['unit-test', 'ai-review', 'e2e', 'lint']);
+    expect(input.checks[1]).toMatchObject({ trigger: '/review', cliTool: 'claude', customRules: '이 저장소 규칙' });
+  });
+
+  it('removeChecks로 상속받은 체크를 제거해야 함', async () => {
+    await writeFile('.pr-checks/base.yml', BASE_CONFIG);
+    await writeConfig(`extends: ./base.yml
+removeChecks: [e2e, nightly]
+`);
+    const warnings: string[] = [];
+
+    const { input } = await readConfig(testDir, { onWarning: (message) => warnings.push(message) });
+
+    expect(input.checks.map((c) => c.name)).toEqual(['unit-test', 'ai-review']);
+    expect(warnings).toEqual(['removeChecks[1]: 상속받은 체크 중에 없는 이름입니다: nightly']);
+  });
+
+  it('type을 바꾸면 체크를 통째로 교체해야 함', async () => {
+    await writeFile('.pr-checks/base.yml', BASE_CONFIG);
+    await writeConfig(`extends: ./base.yml
+checks:
+  - name: e2e
+    trigger: /e2e
+    type: pr-review
+    provider: cli
+    cliCommand: ./scripts/review.sh
+`);
+
+    const { input } = await readConfig(testDir);
+    const e2e = input.checks[2] as PrReviewCheck;
+
+    expect(e2e.type).toBe('pr-review');
+    expect(e2e.cliCommand).toBe('./scripts/review.sh');
+    expect((e2e as unknown as PrTestCheck).command).toBeUndefined();
+  });
+
+  it('node_modules의 패키지 프리셋을 확장자 없이 참조할 수 있어야 함', async () => {
+    await writeFile('node_modules/@acme/pr-checks-preset/package.json', '{ "name": "@acme/pr-checks-preset" }');
+    await writeFile('node_modules/@acme/pr-checks-preset/base.yml', BASE_CONFIG);
+    await writeConfig('extends: "@acme/pr-checks-preset/base"\n');
+
+    const { input } = await readConfig(testDir);
+
+    expect(input.checks).toHaveLength(3);
+    expect(input.guideMessage).toBe('조직 공통 안내');
+  });
+
+  it('extends를 여러 단계/여러 개 사용하면 앞에서부터 병합해야 함', async () => {
+    await writeFile('presets/base.yml', BASE_CONFIG);
+    await writeFile('presets/go.yml', `extends: ./base.yml
+checks:
+  - name: unit-test
+    command: go test ./...
+`);
+    await writeFile('presets/gitea.yml', 'platform: gitea\n');
+    await writeConfig('extends: [../presets/go.yml, ../presets/gitea.yml]\n');
+
+    const { input } = await readConfig(testDir);
+
+    expect(input.platform).toBe('gitea');
+    expect((input.checks[0] as PrTestCheck).command).toBe('go test ./...');
+  });
+
+  it('찾을 수 없는 파일과 순환 참조는 에러여야 함', async () => {
+    await writeConfig('extends: ./missing.yml\n');
+    await expect(readConfig(testDir)).rejects.toThrow('extends: 설정 파일을 찾을 수 없습니다: ./missing.yml');
+
+    await writeFile('.pr-checks/a.yml', 'extends: ./config.yml\n');
+    await writeConfig('extends: ./a.yml\n');
+    await expect(readConfig(testDir)).rejects.toThrow('extends: 순환 참조입니다: config.yml → a.yml → config.yml');
+  });
+
+  it('validate는 문제가 있는 값을 정의한 파일 위치로 보고해야 함', async () => {
+    await writeFile('.pr-checks/base.yml', BASE_CONFIG.replace('trigger: /e2e', 'trigger: e2e'));
+    await writeConfig(`extends: ./base.yml
+checks:
+  - name: ai-review
+    cliTool: copilot
+`);
+
+    const report = await validateConfigFile(testDir);
+    const diagnostics = report.diagnostics.filter((d) => !d.deprecated);
+
+    expect(diagnostics.map((d) => [d.file, d.line, d.severity])).toEqual([
+      [path.join('.pr-checks', 'config.yml'), 4, 'error'],
+      [path.join('.pr-checks', 'base.yml'), 16, 'error'],
+    ]);
+    expect(diagnostics[0].message).toContain('checks[1].cliTool');
+    expect(diagnostics[1].message).toContain("checks[2].trigger는 '/'로 시작해야 합니다: e2e");
+  });
+});
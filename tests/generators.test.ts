@@ -4,7 +4,9 @@ import path from 'path';
 import yaml from 'yaml';
 import { mkdtemp, rm } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
-import { generateWorkflowFiles } from '../src/generators/workflow.js';
+import { generateWorkflowFiles, renderGeneratedFiles, cleanGeneratedFiles } from '../src/generators/workflow.js';
+import { readManifest, hashContent } from '../src/generators/manifest.js';
+import { planGeneratedFiles, formatUnifiedDiff } from '../src/generators/plan.js';
 import type { Config, PrTestCheck, PrReviewCheck } from '../src/types/config.js';
 
 const createTestConfig = (platform: 'github' | 'gitea' = 'github'): Config => ({
@@ -176,6 +178,19 @@ go test ./... -v`;
   });
 
   describe('결과 반환', () => {
+    it('내용이 같은 파일은 unchanged로 반환하고 다시 쓰지 않아야 함', async () => {
+      const config = createTestConfig();
+      await generateWorkflowFiles(testDir, config);
+
+      (config.input.checks[0] as PrTestCheck).command = 'npm run test:all';
+      const result = await generateWorkflowFiles(testDir, config);
+
+      expect(result.files).toContain('.github/workflows/pr-checks.yml');
+      expect(result.unchanged).toContain('.github/workflows/pr-checks-approval.yml');
+      expect(result.unchanged).toContain('.pr-checks/scripts/pr-test-collapse.sh');
+      expect(result.files).not.toContain('.pr-checks/scripts/pr-test-collapse.sh');
+    });
+
     it('생성된 파일 목록을 반환해야 함', async () => {
       const config = createTestConfig();
       const result = await generateWorkflowFiles(testDir, config);
@@ -310,3 +325,239 @@ go test ./... -v`;
     });
   });
 });
+
+describe('renderGeneratedFiles', () => {
+  it('디스크에 쓰지 않고 워크플로우와 스크립트를 생성해야 함', () => {
+    const files = renderGeneratedFiles(createTestConfig());
+
+    expect(files.map((f) => f.path)).toEqual([
+      '.github/workflows/pr-checks.yml',
+      '.github/workflows/pr-checks-approval.yml',
+      '.pr-checks/scripts/pr-test-report.sh',
+      '.pr-checks/scripts/pr-test-collapse.sh',
+    ]);
+    expect(files.filter((f) => f.executable).map((f) => f.path)).toEqual([
+      '.pr-checks/scripts/pr-test-report.sh',
+      '.pr-checks/scripts/pr-test-collapse.sh',
+    ]);
+  });
+});
+
+describe('planGeneratedFiles', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-plan-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  it('기존 파일이 없으면 모두 added여야 하고 파일을 쓰지 않아야 함', async () => {
+    const changes = await planGeneratedFiles(testDir, createTestConfig());
+
+    expect(changes.every((c) => c.status === 'added')).toBe(true);
+    expect(await fs.pathExists(path.join(testDir, '.github'))).toBe(false);
+  });
+
+  it('생성 직후에는 모두 unchanged여야 함', async () => {
+    const config = createTestConfig();
+    await generateWorkflowFiles(testDir, config);
+
+    const changes = await planGeneratedFiles(testDir, config);
+
+    expect(changes.every((c) => c.status === 'unchanged')).toBe(true);
+  });
+
+  it('설정이 바뀌면 해당 파일만 modified여야 함', async () => {
+    const config = createTestConfig();
+    await generateWorkflowFiles(testDir, config);
+    (config.input.checks[0] as PrTestCheck).command = 'npm run test:ci';
+
+    const changes = await planGeneratedFiles(testDir, config);
+    const modified = changes.filter((c) => c.status === 'modified').map((c) => c.file.path);
+
+    expect(modified).toContain('.github/workflows/pr-checks.yml');
+    expect(modified).not.toContain('.github/workflows/pr-checks-approval.yml');
+  });
+
+  it('unified diff를 생성해야 함', async () => {
+    const config = createTestConfig();
+    await generateWorkflowFiles(testDir, config);
+    (config.input.checks[0] as PrTestCheck).command = 'npm run test:ci';
+
+    const changes = await planGeneratedFiles(testDir, config);
+    const change = changes.find((c) => c.file.path === '.github/workflows/pr-checks.yml')!;
+    const patch = formatUnifiedDiff(change);
+
+    expect(patch).toContain('--- a/.github/workflows/pr-checks.yml');
+    expect(patch).toContain('+++ b/.github/workflows/pr-checks.yml');
+    expect(patch).toContain('-          (npm test) 2>&1 | tee test_output.txt');
+    expect(patch).toContain('+          (npm run test:ci) 2>&1 | tee test_output.txt');
+  });
+
+  it('새 파일은 /dev/null과 비교해야 함', async () => {
+    const changes = await planGeneratedFiles(testDir, createTestConfig());
+
+    expect(formatUnifiedDiff(changes[0])).toContain('--- /dev/null');
+  });
+});
+
+describe('manifest.json', () => {
+  let testDir: string;
+
+  const readFile = (file: string) => fs.readFile(path.join(testDir, file), 'utf-8');
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-manifest-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  it('생성한 모든 파일을 해시와 생성기 버전으로 기록해야 함', async () => {
+    const config = createTestConfig();
+    await generateWorkflowFiles(testDir, config);
+
+    const manifest = await readManifest(testDir);
+    const pkg = await fs.readJson(path.join(__dirname, '..', 'package.json'));
+
+    expect(manifest?.version).toBe(pkg.version);
+    expect(Object.keys(manifest!.files).sort()).toEqual(renderGeneratedFiles(config).map((f) => f.path).sort());
+    expect(manifest!.files['.github/workflows/pr-checks.yml'].sha256).toBe(
+      hashContent(await readFile('.github/workflows/pr-checks.yml'))
+    );
+  });
+
+  it('직접 수정된 파일은 --force 없이 덮어쓰지 않아야 함', async () => {
+    const config = createTestConfig();
+    await generateWorkflowFiles(testDir, config);
+    const workflowPath = path.join(testDir, '.github', 'workflows', 'pr-checks.yml');
+    await fs.appendFile(workflowPath, '# 직접 수정\n');
+    (config.input.checks[0] as PrTestCheck).command = 'npm run test:ci';
+
+    await expect(generateWorkflowFiles(testDir, config)).rejects.toThrow(
+      /직접 수정된 생성 파일이 있어 덮어쓰기하지 않았습니다:\n {2}- \.github\/workflows\/pr-checks\.yml/
+    );
+    expect(await readFile('.github/workflows/pr-checks.yml')).toContain('# 직접 수정');
+
+    const changes = await planGeneratedFiles(testDir, config);
+    expect(changes.find((c) => c.file.path === '.github/workflows/pr-checks.yml')?.handEdited).toBe(true);
+
+    await generateWorkflowFiles(testDir, config, { force: true });
+    const content = await readFile('.github/workflows/pr-checks.yml');
+    expect(content).not.toContain('# 직접 수정');
+    expect(content).toContain('npm run test:ci');
+  });
+
+  it('manifest 없이 생성된 기존 파일은 직접 수정 여부를 판단하지 않아야 함', async () => {
+    const config = createTestConfig();
+    await generateWorkflowFiles(testDir, config);
+    await fs.remove(path.join(testDir, '.pr-checks', 'manifest.json'));
+    await fs.appendFile(path.join(testDir, '.github', 'workflows', 'pr-checks.yml'), '# old\n');
+
+    const result = await generateWorkflowFiles(testDir, config);
+
+    expect(result.files).toEqual(['.github/workflows/pr-checks.yml']);
+  });
+
+  it('설정에서 제거된 체크의 스크립트를 삭제해야 함', async () => {
+    const config = createTestConfig();
+    await generateWorkflowFiles(testDir, config);
+    (config.input.checks[0] as PrTestCheck).name = 'unit-test';
+
+    const changes = await planGeneratedFiles(testDir, config);
+    expect(changes.filter((c) => c.status === 'removed').map((c) => c.file.path)).toEqual([
+      '.pr-checks/scripts/pr-test-report.sh',
+      '.pr-checks/scripts/pr-test-collapse.sh',
+    ]);
+    expect(formatUnifiedDiff(changes.find((c) => c.status === 'removed')!)).toContain('+++ /dev/null');
+
+    const result = await generateWorkflowFiles(testDir, config);
+
+    expect(result.removed).toEqual(['.pr-checks/scripts/pr-test-report.sh', '.pr-checks/scripts/pr-test-collapse.sh']);
+    expect(await fs.pathExists(path.join(testDir, '.pr-checks', 'scripts', 'pr-test-report.sh'))).toBe(false);
+    expect(await fs.pathExists(path.join(testDir, '.pr-checks', 'scripts', 'unit-test-report.sh'))).toBe(true);
+    expect(Object.keys((await readManifest(testDir))!.files)).not.toContain('.pr-checks/scripts/pr-test-report.sh');
+  });
+
+  it('플랫폼을 바꾸면 이전 플랫폼의 워크플로우를 삭제해야 함', async () => {
+    await generateWorkflowFiles(testDir, createTestConfig('github'));
+
+    const result = await generateWorkflowFiles(testDir, createTestConfig('gitea'));
+
+    expect(result.removed).toContain('.github/workflows/pr-checks.yml');
+    expect(await fs.pathExists(path.join(testDir, '.gitea', 'workflows', 'pr-checks.yml'))).toBe(true);
+  });
+});
+
+describe('cleanGeneratedFiles', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-clean-'));
+    await fs.outputFile(path.join(testDir, '.pr-checks', 'config.yml'), 'platform: github\n');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  it('생성 파일과 manifest를 삭제하고 config.yml은 유지해야 함', async () => {
+    const config = createTestConfig();
+    await generateWorkflowFiles(testDir, config);
+
+    const result = await cleanGeneratedFiles(testDir, config);
+
+    expect(result.removed).toHaveLength(renderGeneratedFiles(config).length);
+    expect(await fs.pathExists(path.join(testDir, '.github'))).toBe(false);
+    expect(await fs.pathExists(path.join(testDir, '.pr-checks', 'scripts'))).toBe(false);
+    expect(await fs.pathExists(path.join(testDir, '.pr-checks', 'manifest.json'))).toBe(false);
+    expect(await fs.pathExists(path.join(testDir, '.pr-checks', 'config.yml'))).toBe(true);
+  });
+
+  it('직접 수정된 파일이 있으면 --force 없이 아무것도 삭제하지 않아야 함', async () => {
+    const config = createTestConfig();
+    await generateWorkflowFiles(testDir, config);
+    await fs.appendFile(path.join(testDir, '.pr-checks', 'scripts', 'pr-test-report.sh'), '# custom\n');
+
+    await expect(cleanGeneratedFiles(testDir, config)).rejects.toThrow('pr-test-report.sh');
+    expect(await fs.pathExists(path.join(testDir, '.github', 'workflows', 'pr-checks.yml'))).toBe(true);
+
+    const result = await cleanGeneratedFiles(testDir, config, { force: true });
+    expect(result.removed).toContain('.pr-checks/scripts/pr-test-report.sh');
+  });
+
+  it('manifest에 생성 디렉토리 밖의 경로가 있으면 아무것도 삭제하지 않아야 함', async () => {
+    const config = createTestConfig();
+    await generateWorkflowFiles(testDir, config);
+    const outsideFile = path.join(testDir, 'keep.txt');
+    await fs.outputFile(outsideFile, 'keep\n');
+    const manifestPath = path.join(testDir, '.pr-checks', 'manifest.json');
+    const manifest = await fs.readJson(manifestPath);
+    const sha256 = hashContent('keep\n');
+    manifest.files['.github/workflows/../../keep.txt'] = { sha256 };
+    manifest.files[outsideFile.split(path.sep).join('/')] = { sha256 };
+    await fs.writeJson(manifestPath, manifest);
+
+    await expect(cleanGeneratedFiles(testDir, config)).rejects.toThrow(
+      'manifest.json에 생성 디렉토리(.github/workflows, .gitea/workflows, .pr-checks/scripts) 밖의 경로가 있습니다: .github/workflows/../../keep.txt'
+    );
+    await expect(generateWorkflowFiles(testDir, createTestConfig('gitea'))).rejects.toThrow('밖의 경로가 있습니다');
+    expect(await fs.pathExists(outsideFile)).toBe(true);
+    expect(await fs.pathExists(path.join(testDir, '.github', 'workflows', 'pr-checks.yml'))).toBe(true);
+  });
+
+  it('manifest가 없으면 현재 설정으로 생성되는 파일을 삭제해야 함', async () => {
+    const config = createTestConfig();
+    await generateWorkflowFiles(testDir, config);
+    await fs.remove(path.join(testDir, '.pr-checks', 'manifest.json'));
+
+    const result = await cleanGeneratedFiles(testDir, config);
+
+    expect(result.removed).toContain('.github/workflows/pr-checks.yml');
+    expect(await fs.pathExists(path.join(testDir, '.github'))).toBe(false);
+  });
+});
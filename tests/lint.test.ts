@@ -1,8 +1,11 @@
-import { describe, it, expect } from 'vitest';
-import { execa } from 'execa';
-import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createLinter } from 'actionlint';
+import type { RunActionlint } from 'actionlint';
+import fs from 'fs-extra';
+import { mkdtemp, rm } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import path from 'node:path';
+import { readConfig } from '../src/readers/index.js';
 import { generatePrChecksWorkflow } from '../src/templates/pr-checks.js';
 import { generateApprovalOverrideWorkflow } from '../src/templates/approval-override.js';
 import type { Config, PrTestCheck, PrReviewCheck } from '../src/types/config.js';
@@ -48,59 +51,119 @@ const ALLOWED_WARNINGS = [
   'potentially untrusted', // github.event.comment.body, github.head_ref 등
 ];
 
-function filterActionlintOutput(output: string): string[] {
-  // actionlint는 JSON 형식으로 출력 가능
-  // 기본 출력에서 에러 라인만 추출 (파일명:라인:컬럼: 형식)
-  const errorLines = output
-    .split('\n')
-    .filter((line) => /^\S+\.yml:\d+:\d+:/.test(line));
-
-  // 허용된 경고 제외
-  return errorLines.filter(
-    (line) => !ALLOWED_WARNINGS.some((pattern) => line.includes(pattern))
-  );
-}
+// needs, paths, projects, matrix, pr-labels, pr-script를 모두 쓰는 설정
+// (skip-checks, blocked-checks, 매트릭스 -report, 프로젝트 affected_* 출력이 생성됨)
+const FEATURE_CONFIG = `version: 3
+checks:
+  - name: lint
+    trigger: /lint
+    type: pr-test
+    command: npm run lint
+    paths: ['src/**', package.json]
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test -- --shard \${{ matrix.shard }}
+    needs: [lint]
+    matrix:
+      node: [18, 20]
+      shard: [1, 2]
+    setupSteps:
+      - name: Setup Node.js
+        uses: actions/setup-node@v4
+        with:
+          node-version: \${{ matrix.node }}
+  - name: pr-labels
+    trigger: /labels
+    type: pr-labels
+    requiredLabels: ['type/*']
+    forbiddenLabels: [do-not-merge]
+  - name: api-compat
+    trigger: /compat
+    type: pr-script
+    command: node scripts/api-compat.mjs
+    needs: [unit-test]
+    pathsIgnore: ['**/*.md']
+  - name: ai-review
+    trigger: /review
+    type: pr-review
+    provider: cli
+    cliTool: claude
+    needs: [lint, unit-test]
+projects:
+  - path: services/api
+    checks:
+      - name: test
+        trigger: /test-api
+        type: pr-test
+        command: go test ./...
+        mustPass: true
+  - path: apps/web-app
+    checks:
+      - name: test
+        trigger: /test-web
+        type: pr-test
+        command: npm test
+        needs: [api/test]
+`;
 
 describe('actionlint 검증', () => {
-  it('pr-checks.yml이 actionlint를 통과해야 함', async () => {
-    const config = createTestConfig();
-    const yaml = generatePrChecksWorkflow(config);
+  // actionlint 바이너리 없이 패키지의 WASM 빌드로 검사
+  let lint: RunActionlint;
 
-    const dir = await mkdtemp(path.join(tmpdir(), 'wf-lint-'));
-    const wfPath = path.join(dir, 'pr-checks.yml');
+  beforeAll(async () => {
+    lint = await createLinter();
+  });
 
-    try {
-      await writeFile(wfPath, yaml);
+  const lintErrors = (yaml: string, file: string) =>
+    lint(yaml, file)
+      .filter((result) => !ALLOWED_WARNINGS.some((pattern) => result.message.includes(pattern)))
+      .map((result) => `${result.file}:${result.line}:${result.column}: ${result.message} [${result.kind}]`);
 
-      const { stdout, stderr } = await execa('actionlint', [wfPath], {
-        reject: false,
-      });
+  it('pr-checks.yml이 actionlint를 통과해야 함', () => {
+    const errors = lintErrors(generatePrChecksWorkflow(createTestConfig()), 'pr-checks.yml');
 
-      const errors = filterActionlintOutput(stdout + stderr);
-      expect(errors, `actionlint errors:\n${errors.join('\n')}`).toHaveLength(0);
-    } finally {
-      await rm(dir, { recursive: true });
-    }
+    expect(errors, `actionlint errors:\n${errors.join('\n')}`).toHaveLength(0);
   });
 
-  it('approval-override.yml이 actionlint를 통과해야 함', async () => {
+  it('체크별 runner/timeout/env/secrets 설정이 actionlint를 통과해야 함', () => {
     const config = createTestConfig();
-    const yaml = generateApprovalOverrideWorkflow(config);
+    config.input.selfHosted = { docker: true };
+    Object.assign(config.input.checks[0], {
+      timeoutMinutes: 20,
+      workingDirectory: 'packages/api',
+      env: { NODE_ENV: 'test' },
+      secrets: ['NPM_TOKEN'],
+    });
+    config.input.checks[1].runner = ['self-hosted', 'macOS'];
+
+    const errors = lintErrors(generatePrChecksWorkflow(config), 'pr-checks.yml');
+
+    expect(errors, `actionlint errors:\n${errors.join('\n')}`).toHaveLength(0);
+  });
 
+  it('needs, paths, projects, matrix, pr-labels, pr-script를 쓰는 설정이 actionlint를 통과해야 함', async () => {
     const dir = await mkdtemp(path.join(tmpdir(), 'wf-lint-'));
-    const wfPath = path.join(dir, 'pr-checks-approval.yml');
 
     try {
-      await writeFile(wfPath, yaml);
+      await fs.outputFile(path.join(dir, '.pr-checks', 'config.yml'), FEATURE_CONFIG);
+      const yaml = generatePrChecksWorkflow(await readConfig(dir));
 
-      const { stdout, stderr } = await execa('actionlint', [wfPath], {
-        reject: false,
-      });
+      for (const job of ['skip-checks', 'blocked-checks', 'unit-test-report', 'pr-labels', 'api-compat', 'web-app-test']) {
+        expect(yaml).toContain(`\n  ${job}:\n`);
+      }
+      expect(yaml).toContain('affected_web-app');
 
-      const errors = filterActionlintOutput(stdout + stderr);
+      const errors = lintErrors(yaml, 'pr-checks.yml');
       expect(errors, `actionlint errors:\n${errors.join('\n')}`).toHaveLength(0);
     } finally {
       await rm(dir, { recursive: true });
     }
   });
+
+  it('approval-override.yml이 actionlint를 통과해야 함', () => {
+    const errors = lintErrors(generateApprovalOverrideWorkflow(createTestConfig()), 'pr-checks-approval.yml');
+
+    expect(errors, `actionlint errors:\n${errors.join('\n')}`).toHaveLength(0);
+  });
 });
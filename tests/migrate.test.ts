@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { migrateConfigContent, migrateConfigFile } from '../src/migrate/index.js';
+import { readConfig, validateConfigFile } from '../src/readers/index.js';
+import { CONFIG_VERSION } from '../src/types/config.js';
+import type { PrTestCheck } from '../src/types/config.js';
+
+const V1_CONFIG = `# PR Checks 설정
+branches: [main]
+
+checks:
+  # 단위 테스트
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+    framework: node
+    mustRun: true # 항상 실행
+`;
+
+describe('migrate', () => {
+  describe('migrateConfigContent', () => {
+    it('framework를 같은 위치의 setupSteps로 바꾸고 주석을 유지해야 함', () => {
+      const result = migrateConfigContent(V1_CONFIG);
+
+      expect(result.fromVersion).toBe(1);
+      expect(result.toVersion).toBe(CONFIG_VERSION);
+      expect(result.updated).toBe(true);
+      expect(result.changes).toEqual([
+        'checks[0] (unit-test): framework: node → setupSteps (Setup Node.js, Install dependencies)',
+      ]);
+      expect(result.content).toMatch(/^# PR Checks 설정\nversion: 3\n\nbranches: \[main\]\n/);
+      expect(result.content).toContain('  # 단위 테스트\n');
+      expect(result.content).toContain('    mustRun: true # 항상 실행\n');
+      expect(result.content).not.toContain('framework');
+      expect(result.content.indexOf('setupSteps:')).toBeLessThan(result.content.indexOf('mustRun:'));
+    });
+
+    it('setupSteps가 이미 있거나 셋업 스텝이 없는 framework는 삭제만 해야 함', () => {
+      const result = migrateConfigContent(`checks:
+  - name: a
+    trigger: /a
+    type: pr-test
+    command: make test
+    framework: node
+    setupSteps:
+      - run: make deps
+  - name: b
+    trigger: /b
+    type: pr-test
+    command: ./test.sh
+    framework: custom
+`);
+
+      expect(result.changes).toEqual([
+        'checks[0] (a): framework: node 삭제 (setupSteps 사용 중)',
+        'checks[1] (b): framework: custom 삭제 (셋업 스텝 없음)',
+      ]);
+      expect(result.content).toContain('    setupSteps:\n      - run: make deps\n');
+      expect(result.content).not.toContain('framework');
+    });
+
+    it('pr-review가 암묵적으로 기다리던 체크를 needs로 적어야 함', () => {
+      const result = migrateConfigContent(`version: 2
+checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+  - name: e2e
+    trigger: /e2e
+    type: pr-test
+    command: npm run e2e
+    mustRun: false
+  - name: pr-size
+    trigger: /size
+    type: pr-size
+  - name: ai-review
+    trigger: /review
+    type: pr-review
+    provider: cli
+  - name: manual-review
+    trigger: /manual-review
+    type: pr-review
+    provider: cli
+    mustRun: false
+  - name: custom-review
+    trigger: /custom-review
+    type: pr-review
+    provider: cli
+    needs: [e2e]
+projects:
+  - path: apps/web
+    checks:
+      - name: test
+        trigger: /web-test
+        type: pr-test
+        command: npm test
+      - name: review
+        trigger: /web-review
+        type: pr-review
+        provider: cli
+`);
+
+      expect(result.fromVersion).toBe(2);
+      expect(result.changes).toEqual([
+        'checks[3] (ai-review): needs: [unit-test, web/test, pr-size] 추가 (버전 3부터 pr-review는 needs에 적은 체크만 기다림)',
+        'checks[4] (manual-review): needs: [pr-size] 추가 (버전 3부터 pr-review는 needs에 적은 체크만 기다림)',
+        'projects[0].checks[1] (review): needs: [unit-test, test, pr-size] 추가 (버전 3부터 pr-review는 needs에 적은 체크만 기다림)',
+      ]);
+      expect(result.content).toContain('    provider: cli\n    needs: [unit-test, web/test, pr-size]\n');
+      expect(result.content).toContain('    needs: [e2e]\n');
+    });
+
+    it('이미 최신 버전이면 내용을 바꾸지 않아야 함', () => {
+      const content = 'version: 3\nbranches: [ main ]\n';
+      const result = migrateConfigContent(content);
+
+      expect(result.updated).toBe(false);
+      expect(result.content).toBe(content);
+    });
+
+    it('지원하는 버전보다 높으면 에러를 던져야 함', () => {
+      expect(() => migrateConfigContent('version: 4\n')).toThrow(
+        'version: 설정 파일 버전(4)이 이 create-pr-checks가 지원하는 버전(3)보다 높습니다. create-pr-checks를 업데이트하세요.'
+      );
+    });
+  });
+
+  describe('migrateConfigFile', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-test-'));
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true });
+    });
+
+    it('config.yml을 덮어쓰고 결과 설정은 이전과 같게 읽혀야 함', async () => {
+      const configPath = path.join(testDir, '.pr-checks', 'config.yml');
+      await fs.outputFile(configPath, V1_CONFIG);
+      const before = await readConfig(testDir, { onWarning: () => {} });
+
+      const dryRun = await migrateConfigFile(testDir, { dryRun: true });
+      expect(await fs.readFile(configPath, 'utf-8')).toBe(V1_CONFIG);
+
+      const result = await migrateConfigFile(testDir);
+      const warnings: string[] = [];
+      const after = await readConfig(testDir, { onWarning: (message) => warnings.push(message) });
+
+      expect(result.content).toBe(dryRun.content);
+      expect(await fs.readFile(configPath, 'utf-8')).toBe(result.content);
+      expect(warnings).toEqual([]);
+      expect((after.input.checks[0] as PrTestCheck).setupSteps).toEqual((before.input.checks[0] as PrTestCheck).setupSteps);
+    });
+
+    it('프로젝트 체크의 framework도 setupSteps로 바꿔야 함', async () => {
+      await fs.outputFile(
+        path.join(testDir, '.pr-checks', 'config.yml'),
+        `projects:
+  - path: services/api
+    checks:
+      - name: test
+        trigger: /test-api
+        type: pr-test
+        command: go test ./...
+        framework: go
+`
+      );
+
+      const result = await migrateConfigFile(testDir);
+      const report = await validateConfigFile(testDir);
+
+      expect(result.changes).toEqual(['projects[0].checks[0] (test): framework: go → setupSteps (Setup Go)']);
+      expect(result.content).not.toContain('framework');
+      expect(report.diagnostics).toEqual([]);
+      expect((await migrateConfigFile(testDir)).updated).toBe(false);
+    });
+
+    it('config.yml이 아니면 에러를 던져야 함', async () => {
+      await fs.outputFile(path.join(testDir, '.pr-checks', 'config.json'), '{}');
+
+      await expect(migrateConfigFile(testDir)).rejects.toThrow('migrate는 config.yml만 지원합니다.');
+    });
+  });
+});
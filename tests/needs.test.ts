@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { parse as parseYaml } from 'yaml';
+import { readConfig, validateConfigFile } from '../src/readers/index.js';
+import { generatePrChecksWorkflow } from '../src/templates/pr-checks.js';
+import { explainEvent } from '../src/explain/index.js';
+
+const NEEDS_CONFIG = `version: 3
+checks:
+  - name: lint
+    trigger: /lint
+    type: pr-test
+    command: npm run lint
+  - name: build
+    trigger: /build
+    type: pr-test
+    command: npm run build
+    needs: [lint]
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+    needs: [build]
+  - name: ai-review
+    trigger: /review
+    type: pr-review
+    provider: cli
+    cliTool: claude
+    needs: [lint, unit-test]
+`;
+
+describe('needs', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  const writeConfig = (content: string) => fs.outputFile(path.join(testDir, '.pr-checks', 'config.yml'), content);
+
+  describe('설정 읽기', () => {
+    it('needs를 읽고 프로젝트 체크는 같은 프로젝트의 체크 이름으로 찾아야 함', async () => {
+      await writeConfig(`${NEEDS_CONFIG}projects:
+  - path: services/api
+    name: api
+    checks:
+      - name: test
+        trigger: /test-api
+        type: pr-test
+        command: go test ./...
+        needs: [lint]
+      - name: e2e
+        trigger: /e2e-api
+        type: pr-test
+        command: make e2e
+        needs: [test]
+`);
+
+      const { input } = await readConfig(testDir);
+      expect(input.checks.map((c) => c.needs)).toEqual([undefined, ['lint'], ['build'], ['lint', 'unit-test'], ['lint'], ['api/test']]);
+
+      await writeConfig(`projects:
+  - path: services/api
+    name: api
+    checks:
+      - { name: test, trigger: /test-api, type: pr-test, command: go test ./... }
+      - { name: e2e, trigger: /e2e-api, type: pr-test, command: make e2e, needs: [test, api/test] }
+`);
+      const report = await validateConfigFile(testDir);
+      expect(report.diagnostics.map((d) => d.message)).toEqual(['projects[0].checks[1].needs[1]: 중복된 체크입니다: api/test']);
+    });
+
+    it('없는 체크, 자기 자신, 순환 의존성을 위치와 함께 보고해야 함', async () => {
+      await writeConfig(`version: 3
+checks:
+  - name: lint
+    trigger: /lint
+    type: pr-test
+    command: npm run lint
+    needs: [build]
+  - name: build
+    trigger: /build
+    type: pr-test
+    command: npm run build
+    needs: [lint, build, typo]
+  - name: ai-review
+    trigger: /review
+    type: pr-review
+    provider: cli
+    needs: []
+`);
+
+      const report = await validateConfigFile(testDir);
+      const messages = report.diagnostics.map((d) => `${d.line}: ${d.message}`);
+
+      expect(messages).toContain('12: checks[1].needs[1]: 자기 자신은 needs에 넣을 수 없습니다.');
+      expect(messages).toContain('12: checks[1].needs[2]: 없는 체크입니다: typo');
+      expect(messages).toContain('12: checks[1].needs: 순환 의존성입니다: lint → build → lint');
+      expect(messages).toContain('17: checks[2].needs: 1개 이상의 체크 이름 배열이어야 합니다 (예: [lint, build]).');
+    });
+
+    it('version 2 이하에서 needs가 없는 pr-review는 필수 pr-test와 pr-size를 기다리고 migrate를 안내해야 함', async () => {
+      const legacy = `checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+  - name: pr-size
+    trigger: /size
+    type: pr-size
+    maxLines: 500
+  - name: ai-review
+    trigger: /review
+    type: pr-review
+    provider: cli
+    cliTool: claude
+`;
+      await writeConfig(legacy);
+      expect((await readConfig(testDir)).input.checks[2].needs).toEqual(['unit-test', 'pr-size']);
+      expect((await validateConfigFile(testDir)).diagnostics).toMatchObject([
+        {
+          line: 10,
+          severity: 'warning',
+          deprecated: true,
+          message: expect.stringContaining('create-pr-checks migrate로 needs를 명시하세요'),
+        },
+      ]);
+
+      await writeConfig(`version: 3\n${legacy}`);
+      expect((await readConfig(testDir)).input.checks[2].needs).toBeUndefined();
+      expect((await validateConfigFile(testDir)).diagnostics).toEqual([]);
+    });
+  });
+
+  describe('워크플로우 생성', () => {
+    it('needs의 체크가 통과한 뒤 실행하고 이번 실행 대상이 아닌 체크는 기다리지 않아야 함', async () => {
+      await writeConfig(NEEDS_CONFIG);
+      const { jobs } = parseYaml(generatePrChecksWorkflow(await readConfig(testDir)));
+
+      expect(jobs['lint'].needs).toEqual(['check-trigger']);
+      expect(jobs['lint'].if).not.toContain('always()');
+      expect(jobs['build'].needs).toEqual(['check-trigger', 'lint']);
+      expect(jobs['build'].if).toMatch(
+        /^always\(\) &&\n\(needs\.lint\.result == 'success' \|\| !\(needs\.check-trigger\.outputs\.trigger == '\/lint' \|\| /
+      );
+      expect(jobs['ai-review'].needs).toEqual(['check-trigger', 'lint', 'unit-test']);
+    });
+
+    it('blocked-checks가 처음으로 통과하지 못한 체크 이름으로 failure status를 설정해야 함', async () => {
+      await writeConfig(NEEDS_CONFIG);
+      const { jobs } = parseYaml(generatePrChecksWorkflow(await readConfig(testDir)));
+      const blocked = jobs['blocked-checks'];
+      const review = blocked.steps.find((s: { name: string }) => s.name === 'Block ai-review');
+
+      expect(blocked.needs).toEqual(['check-trigger', 'lint', 'build', 'unit-test']);
+      expect(blocked.steps.map((s: { name: string }) => s.name)).toEqual(['Block build', 'Block unit-test', 'Block ai-review']);
+      expect(review.if).toContain("needs.check-trigger.outputs.is_official == 'true'");
+      expect(review.run).toContain('BLOCKED_BY="lint"');
+      expect(review.run).toContain('BLOCKED_BY="unit-test"');
+      expect(review.run).toContain(`"description":"Blocked by '"$BLOCKED_BY"'"`);
+      expect(jobs['review-status'].needs).toContain('blocked-checks');
+    });
+
+    it('needs가 없으면 blocked-checks를 만들지 않아야 함', async () => {
+      await writeConfig(NEEDS_CONFIG.replace(/\n {4}needs: .*$/gm, ''));
+      const { jobs } = parseYaml(generatePrChecksWorkflow(await readConfig(testDir)));
+
+      expect(jobs['blocked-checks']).toBeUndefined();
+      expect(jobs['ai-review'].needs).toEqual(['check-trigger']);
+    });
+  });
+
+  describe('explain', () => {
+    it('앞 체크 실패를 가정하면 뒤 체크는 모두 차단되어야 함', async () => {
+      await writeConfig(NEEDS_CONFIG);
+
+      const result = explainEvent(await readConfig(testDir), { event: 'issue_comment', comment: '/checks', failing: ['build'] });
+      const job = (name: string) => result.jobs.find((j) => j.job === name);
+
+      expect(job('build')?.runs).toBe(true);
+      expect(job('unit-test')?.reason).toBe(
+        "needs의 build이(가) 실패해 실행하지 않음 (blocked-checks가 'Blocked by build' failure status 설정)"
+      );
+      expect(job('ai-review')?.reason).toContain("needs의 unit-test이(가) 스킵되어 실행하지 않음");
+      expect(job('blocked-checks')?.reason).toBe(
+        'unit-test(Blocked by build), ai-review(Blocked by unit-test)에 failure status 설정'
+      );
+    });
+
+    it('개별 트리거는 실행 대상이 아닌 needs를 기다리지 않아야 함', async () => {
+      await writeConfig(NEEDS_CONFIG);
+
+      const result = explainEvent(await readConfig(testDir), { event: 'issue_comment', comment: '/test', failing: ['build'] });
+
+      expect(result.jobs.find((j) => j.job === 'unit-test')?.runs).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { parse as parseYaml } from 'yaml';
+import { readConfig, validateConfigFile } from '../src/readers/index.js';
+import { generatePrChecksWorkflow } from '../src/templates/pr-checks.js';
+import { explainEvent } from '../src/explain/index.js';
+import { pathGlobToRegex } from '../src/types/config.js';
+
+const PATHS_CONFIG = `checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+    mustPass: true
+    paths: ['src/**', package.json]
+    pathsIgnore: ['**/*.md']
+  - name: ai-review
+    trigger: /review
+    type: pr-review
+    provider: cli
+    cliTool: claude
+    pathsIgnore: [docs/]
+`;
+
+describe('paths/pathsIgnore', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  const writeConfig = (content: string) => fs.outputFile(path.join(testDir, '.pr-checks', 'config.yml'), content);
+
+  describe('pathGlobToRegex', () => {
+    const matches = (glob: string, file: string) => new RegExp(pathGlobToRegex(glob)).test(file);
+
+    it('GitHub Actions paths 필터와 같은 규칙으로 매칭해야 함', () => {
+      expect(matches('*.md', 'README.md')).toBe(true);
+      expect(matches('*.md', 'docs/guide.md')).toBe(false);
+      expect(matches('**/*.md', 'docs/guide.md')).toBe(true);
+      expect(matches('**/*.md', 'README.md')).toBe(true);
+      expect(matches('src/**', 'src/a/b.ts')).toBe(true);
+      expect(matches('docs/', 'docs/a/b.md')).toBe(true);
+      expect(matches('docs/', 'docsite/a.md')).toBe(false);
+      expect(matches('src/?.ts', 'src/a.ts')).toBe(true);
+      expect(matches('package.json', 'packageXjson')).toBe(false);
+    });
+
+    it('문자 클래스를 지원하고 닫히지 않은 [는 문자 그대로 비교해야 함', () => {
+      expect(pathGlobToRegex('src/[ab]/**')).toBe('^src/[ab]/.*$');
+      expect(matches('src/[ab]/**', 'src/a/index.ts')).toBe(true);
+      expect(matches('src/[ab]/**', 'src/c/index.ts')).toBe(false);
+      expect(matches('v[0-9].md', 'v2.md')).toBe(true);
+      expect(matches('[!_]*.ts', 'index.ts')).toBe(true);
+      expect(matches('[!_]*.ts', '_private.ts')).toBe(false);
+      expect(matches('a[!b]c', 'a/c')).toBe(false);
+      expect(matches('docs/[draft', 'docs/[draft')).toBe(true);
+      expect(matches('docs/[]', 'docs/[]')).toBe(true);
+    });
+  });
+
+  describe('설정 읽기', () => {
+    it('paths/pathsIgnore를 읽고 프로젝트 체크는 프로젝트 경로를 붙여야 함', async () => {
+      await writeConfig(`checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+    paths: ['./src/**']
+projects:
+  - path: services/api
+    checks:
+      - name: unit-test
+        trigger: /test-api
+        type: pr-test
+        command: go test ./...
+        pathsIgnore: ['**/*.md']
+`);
+
+      const { input } = await readConfig(testDir);
+
+      expect(input.checks[0].paths).toEqual(['src/**']);
+      expect(input.checks[0].pathsIgnore).toBeUndefined();
+      expect(input.checks[1].pathsIgnore).toEqual(['services/api/**/*.md']);
+    });
+
+    it('잘못된 글로브를 위치와 함께 보고해야 함', async () => {
+      await writeConfig(`checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+    paths: []
+    pathsIgnore: ['!src/**', /docs, "it's.md", docs/, docs/, 'v[9-0].md']
+`);
+
+      const report = await validateConfigFile(testDir);
+      const messages = report.diagnostics.map((d) => `${d.line}: ${d.message}`);
+
+      expect(messages).toContain("6: checks[0].paths: 1개 이상의 글로브 배열이어야 합니다 (예: ['src/**', 'package.json']).");
+      expect(messages).toContain("7: checks[0].pathsIgnore[0]: '!' 제외 패턴은 지원하지 않습니다. pathsIgnore를 사용하세요: !src/**");
+      expect(messages).toContain('7: checks[0].pathsIgnore[1]: 저장소 루트 기준 상대 경로여야 합니다: /docs');
+      expect(messages).toContain("7: checks[0].pathsIgnore[2]: 작은따옴표(')는 사용할 수 없습니다: it's.md");
+      expect(messages).toContain('7: checks[0].pathsIgnore[4]: 중복된 글로브입니다: docs/');
+      expect(messages).toContain('7: checks[0].pathsIgnore[5]: 문자 클래스가 잘못되었습니다 (예: [a-z], [!abc]): v[9-0].md');
+    });
+  });
+
+  describe('워크플로우 생성', () => {
+    it('변경 파일로 체크별 relevant 출력을 계산해야 함', async () => {
+      await writeConfig(PATHS_CONFIG);
+      const checkTrigger = parseYaml(generatePrChecksWorkflow(await readConfig(testDir))).jobs['check-trigger'];
+      const step = checkTrigger.steps.find((s: { name: string }) => s.name === 'Detect changed files');
+
+      expect(checkTrigger.outputs['relevant_unit-test']).toBe('${{ steps.changes.outputs.relevant_unit-test }}');
+      expect(step.run).toContain(
+        `printf '%s\\n' "$CHANGED_FILES" | grep -v '^$' | grep -E '^src/.*$|^package\\.json$' | grep -vE '^(.*/)?[^/]*\\.md$' | grep -q .`
+      );
+      expect(step.run).toContain(`grep -v '^$' | grep -vE '^docs/.*$' | grep -q .`);
+      expect(step.run).toContain('echo "relevant_ai-review=$RELEVANT_1_AI_REVIEW" >> $GITHUB_OUTPUT');
+    });
+
+    it('쉘 변수 이름이 같아지는 체크 이름(lint-a, lint_a)도 각자의 paths로 판정해야 함', async () => {
+      await writeConfig(`checks:
+  - name: lint-a
+    trigger: /lint-a
+    type: pr-test
+    command: npm run lint:a
+    paths: ['a/**']
+  - name: lint_a
+    trigger: /lint_a
+    type: pr-test
+    command: npm run lint:a2
+    paths: ['b/**']
+`);
+      const step = parseYaml(generatePrChecksWorkflow(await readConfig(testDir))).jobs['check-trigger'].steps.find(
+        (s: { name: string }) => s.name === 'Detect changed files'
+      );
+
+      expect(step.run).toContain('echo "relevant_lint-a=$RELEVANT_0_LINT_A" >> $GITHUB_OUTPUT');
+      expect(step.run).toContain('echo "relevant_lint_a=$RELEVANT_1_LINT_A" >> $GITHUB_OUTPUT');
+    });
+
+    it('필터가 없으면 변경 파일을 조회하지 않아야 함', async () => {
+      await writeConfig(`checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+`);
+      const parsed = parseYaml(generatePrChecksWorkflow(await readConfig(testDir)));
+
+      expect(parsed.jobs['check-trigger'].steps).toHaveLength(1);
+      expect(parsed.jobs['skip-checks']).toBeUndefined();
+      expect(parsed.jobs['review-status'].needs).toEqual(['check-trigger', 'unit-test']);
+    });
+
+    it('ciTrigger/자동 실행은 relevant일 때만 실행하고 아니면 skip-checks가 success status를 설정해야 함', async () => {
+      await writeConfig(PATHS_CONFIG);
+      const parsed = parseYaml(generatePrChecksWorkflow(await readConfig(testDir)));
+      const skipStep = parsed.jobs['skip-checks'].steps.find((s: { name: string }) => s.name === 'Skip unit-test');
+
+      expect(parsed.jobs['unit-test'].if).toContain(
+        "(needs.check-trigger.outputs.trigger == '/test' || ((needs.check-trigger.outputs.trigger == '/checks' || needs.check-trigger.outputs.auto_run_unit-test == 'true') && needs.check-trigger.outputs.relevant_unit-test == 'true'))"
+      );
+      expect(parsed.jobs['ai-review'].if).toContain(
+        "(needs.unit-test.result == 'success' || !(needs.check-trigger.outputs.trigger == '/test' || ((needs.check-trigger.outputs.trigger == '/checks' || needs.check-trigger.outputs.auto_run_unit-test == 'true') && needs.check-trigger.outputs.relevant_unit-test == 'true')))"
+      );
+      expect(skipStep.if).toBe(
+        "(needs.check-trigger.outputs.trigger == '/checks' || needs.check-trigger.outputs.auto_run_unit-test == 'true') && needs.check-trigger.outputs.relevant_unit-test != 'true'"
+      );
+      expect(skipStep.run).toContain('{"state":"success","context":"unit-test","description":"Skipped: no relevant changes"}');
+      expect(parsed.jobs['review-status'].needs).toEqual(['check-trigger', 'unit-test', 'ai-review', 'skip-checks', 'blocked-checks']);
+    });
+  });
+
+  describe('explain', () => {
+    it('문서만 바뀐 PR은 체크를 실행하지 않고 skip-checks에서 통과 처리해야 함', async () => {
+      await writeConfig(PATHS_CONFIG);
+      const config = await readConfig(testDir);
+
+      const result = explainEvent(config, { event: 'pull_request', action: 'synchronize', changed: ['docs/guide.md', 'src/README.md'] });
+      const job = (name: string) => result.jobs.find((j) => j.job === name);
+
+      expect(job('unit-test')?.runs).toBe(false);
+      expect(job('unit-test')?.reason).toContain('paths/pathsIgnore에 맞는 바뀐 파일이 없음');
+      expect(job('ai-review')?.runs).toBe(true);
+      expect(job('skip-checks')?.reason).toBe('unit-test에 success status 설정 (paths에 맞는 바뀐 파일 없음)');
+
+      const manual = explainEvent(config, { event: 'issue_comment', comment: '/test', changed: ['docs/guide.md'] });
+      expect(manual.jobs.find((j) => j.job === 'unit-test')?.runs).toBe(true);
+    });
+
+    it('--changed가 없으면 필터에 맞는 파일이 바뀌었다고 가정해야 함', async () => {
+      await writeConfig(PATHS_CONFIG);
+
+      const result = explainEvent(await readConfig(testDir), { event: 'issue_comment', comment: '/checks' });
+
+      expect(result.jobs.filter((j) => j.runs).map((j) => j.job)).toEqual([
+        'check-trigger',
+        'unit-test',
+        'ai-review',
+        'skip-checks',
+        'blocked-checks',
+        'review-status',
+      ]);
+      expect(result.notes).toContain(
+        'paths/pathsIgnore가 있는 체크에 맞는 파일이 바뀌었다고 가정합니다. --changed <path>로 바뀐 파일을 지정할 수 있습니다.'
+      );
+    });
+  });
+});
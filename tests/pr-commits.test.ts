@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { parse as parseYaml } from 'yaml';
+import { readConfig, validateConfigFile } from '../src/readers/index.js';
+import { generatePrChecksWorkflow } from '../src/templates/pr-checks.js';
+import { explainEvent } from '../src/explain/index.js';
+
+const PR_COMMITS_CONFIG = `checks:
+  - name: pr-commits
+    trigger: /commits
+    type: pr-commits
+    conventionalCommits: true
+    noFixup: true
+    requireSignOff: true
+    allowedEmailDomains: ['@Example.com', corp.example.org]
+`;
+
+describe('pr-commits', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  const writeConfig = (content: string) => fs.outputFile(path.join(testDir, '.pr-checks', 'config.yml'), content);
+
+  describe('설정 읽기', () => {
+    it('규칙을 읽고 이메일 도메인을 소문자로 정리해야 함', async () => {
+      await writeConfig(PR_COMMITS_CONFIG);
+
+      const report = await validateConfigFile(testDir);
+      const { input } = await readConfig(testDir);
+
+      expect(report.diagnostics).toEqual([]);
+      expect(input.checks[0]).toMatchObject({
+        type: 'pr-commits',
+        conventionalCommits: true,
+        noFixup: true,
+        requireSignOff: true,
+        allowedEmailDomains: ['example.com', 'corp.example.org'],
+      });
+    });
+
+    it('규칙이 없거나 잘못되면 위치와 함께 보고해야 함', async () => {
+      await writeConfig(`checks:
+  - name: pr-commits
+    trigger: /commits
+    type: pr-commits
+    requireSignOff: false
+  - name: pr-commits-2
+    trigger: /commits-2
+    type: pr-commits
+    messagePattern: '[unclosed'
+    allowedEmailDomains: [localhost, example.com, EXAMPLE.com]
+`);
+
+      const report = await validateConfigFile(testDir);
+      const messages = report.diagnostics.map((d) => `${d.line}: ${d.message}`);
+
+      expect(messages).toContain(
+        '2: checks[0]: pr-commits 체크에는 conventionalCommits, messagePattern, noFixup, requireSignOff, allowedEmailDomains 중 하나 이상이 필요합니다.'
+      );
+      expect(messages.some((m) => m.startsWith('9: checks[1].messagePattern: 올바른 정규식이 아닙니다'))).toBe(true);
+      expect(messages).toContain('10: checks[1].allowedEmailDomains[0]: 올바른 도메인이 아닙니다: localhost');
+      expect(messages).toContain('10: checks[1].allowedEmailDomains[2]: 중복된 도메인입니다: example.com');
+    });
+  });
+
+  describe('워크플로우 생성', () => {
+    it('PR 푸시 시 다시 검사하고 사용자 값은 env로 전달해야 함', async () => {
+      await writeConfig(PR_COMMITS_CONFIG);
+      const parsed = parseYaml(generatePrChecksWorkflow(await readConfig(testDir)));
+      const job = parsed.jobs['pr-commits'];
+      const lint = job.steps.find((s: { id?: string }) => s.id === 'lint');
+
+      expect(parsed.on.pull_request.types).toEqual(['opened', 'synchronize']);
+      expect(lint.env.ALLOWED_EMAIL_DOMAINS).toBe('["example.com","corp.example.org"]');
+      expect(lint.env.MESSAGE_PATTERN).toBeUndefined();
+      expect(lint.run).toContain('/pulls/$PR_NUMBER/commits?per_page=100&limit=100&page=$PAGE');
+      expect(lint.run).toContain('select(.merge | not)');
+      expect(lint.run).toContain('"Signed-off-by 없음 (git commit -s)"');
+      expect(lint.run).not.toContain('example.com');
+    });
+
+    it('위반 커밋을 pr-commits 메타데이터 코멘트로 남겨야 함', async () => {
+      await writeConfig(PR_COMMITS_CONFIG);
+      const job = parseYaml(generatePrChecksWorkflow(await readConfig(testDir))).jobs['pr-commits'];
+      const comment = job.steps.find((s: { name: string }) => s.name === 'Post PR comment');
+
+      expect(comment.run).toContain('{"type":"pr-commits","check":"pr-commits","sha":"');
+      expect(comment.run).toContain('echo "<details open>"');
+      expect(comment.run).toContain('cat commit_errors.md');
+      expect(job.steps.at(-1)).toEqual({
+        name: 'Fail if commit lint failed',
+        if: "steps.lint.outputs.passed != 'true'",
+        run: 'exit 1',
+      });
+    });
+  });
+
+  describe('explain', () => {
+    it('PR 푸시 시 자동 실행해야 함', async () => {
+      await writeConfig(PR_COMMITS_CONFIG);
+
+      const result = explainEvent(await readConfig(testDir), { event: 'pull_request', action: 'synchronize' });
+
+      expect(result.jobs.find((j) => j.job === 'pr-commits')?.runs).toBe(true);
+    });
+  });
+});
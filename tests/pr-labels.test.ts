@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { parse as parseYaml } from 'yaml';
+import { readConfig, validateConfigFile } from '../src/readers/index.js';
+import { generatePrChecksWorkflow } from '../src/templates/pr-checks.js';
+import { explainEvent } from '../src/explain/index.js';
+
+const PR_LABELS_CONFIG = `checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+  - name: pr-labels
+    trigger: /labels
+    type: pr-labels
+    mustPass: true
+    requiredLabels: ['type/*']
+    forbiddenLabels: [do-not-merge, wip]
+    exclusiveLabels:
+      - [priority/high, priority/low]
+`;
+
+describe('pr-labels', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  const writeConfig = (content: string) => fs.outputFile(path.join(testDir, '.pr-checks', 'config.yml'), content);
+
+  describe('설정 읽기', () => {
+    it('라벨 규칙을 읽어야 함', async () => {
+      await writeConfig(PR_LABELS_CONFIG);
+
+      const report = await validateConfigFile(testDir);
+      const { input } = await readConfig(testDir);
+
+      expect(report.diagnostics).toEqual([]);
+      expect(input.checks[1]).toMatchObject({
+        type: 'pr-labels',
+        requiredLabels: ['type/*'],
+        forbiddenLabels: ['do-not-merge', 'wip'],
+        exclusiveLabels: [['priority/high', 'priority/low']],
+      });
+    });
+
+    it('규칙이 없거나 잘못되면 위치와 함께 보고해야 함', async () => {
+      await writeConfig(`checks:
+  - name: pr-labels
+    trigger: /labels
+    type: pr-labels
+  - name: pr-labels-2
+    trigger: /labels-2
+    type: pr-labels
+    forbiddenLabels: [wip, WIP]
+    exclusiveLabels:
+      - [priority/high]
+`);
+
+      const report = await validateConfigFile(testDir);
+      const messages = report.diagnostics.map((d) => `${d.line}: ${d.message}`);
+
+      expect(messages).toContain(
+        '2: checks[0]: pr-labels 체크에는 requiredLabels, forbiddenLabels, exclusiveLabels 중 하나 이상이 필요합니다.'
+      );
+      expect(messages).toContain('8: checks[1].forbiddenLabels[1]: 중복된 라벨입니다: WIP');
+      expect(messages).toContain(
+        "10: checks[1].exclusiveLabels[0]: 라벨이 하나인 그룹은 '*' 패턴이어야 합니다 (예: ['priority/*']): priority/high"
+      );
+    });
+  });
+
+  describe('워크플로우 생성', () => {
+    it('라벨 추가/제거 시 다시 검사하고 라벨 패턴은 정규식 env로 전달해야 함', async () => {
+      await writeConfig(PR_LABELS_CONFIG);
+      const parsed = parseYaml(generatePrChecksWorkflow(await readConfig(testDir)));
+      const job = parsed.jobs['pr-labels'];
+      const check = job.steps.find((s: { id?: string }) => s.id === 'labels');
+
+      expect(parsed.on.pull_request.types).toEqual(['opened', 'synchronize', 'labeled', 'unlabeled']);
+      expect(JSON.parse(check.env.REQUIRED_LABELS)).toEqual([{ pattern: 'type/*', regex: '^type/.*$' }]);
+      expect(check.run).toContain('/issues/$PR_NUMBER/labels?per_page=100&limit=100');
+      expect(check.run).not.toContain('do-not-merge');
+      expect(job.steps.map((s: { name: string }) => s.name)).toEqual([
+        'Check PR labels',
+        'Set status',
+        'Collapse old label comments',
+        'Post PR comment',
+        'Fail if label policy not met',
+      ]);
+    });
+
+    it('mustPass 라벨 정책이 실패하면 PR Checks Status를 Approve로 override하지 않아야 함', async () => {
+      await writeConfig(PR_LABELS_CONFIG);
+      const gate = parseYaml(generatePrChecksWorkflow(await readConfig(testDir))).jobs['review-status'].steps[0].run;
+
+      expect(gate).toContain('if [ "$PR_LABELS_STATE" = "failure" ]; then\n  LABELS_BLOCKED="true"');
+      expect(gate).toContain('"description":"Blocked by label policy"');
+    });
+
+    it('mustPass가 아니면 라벨 게이트를 만들지 않아야 함', async () => {
+      await writeConfig(PR_LABELS_CONFIG.replace('    mustPass: true\n', ''));
+      const gate = parseYaml(generatePrChecksWorkflow(await readConfig(testDir))).jobs['review-status'].steps[0].run;
+
+      expect(gate).not.toContain('LABELS_BLOCKED');
+    });
+  });
+
+  describe('explain', () => {
+    it('라벨 변경 시 pr-labels만 자동 실행하고 실패를 가정하면 머지 불가를 표시해야 함', async () => {
+      await writeConfig(PR_LABELS_CONFIG);
+
+      const result = explainEvent(await readConfig(testDir), {
+        event: 'pull_request',
+        action: 'labeled',
+        failing: ['pr-labels'],
+      });
+      const job = (name: string) => result.jobs.find((j) => j.job === name);
+
+      expect(job('pr-labels')?.runs).toBe(true);
+      expect(job('unit-test')?.runs).toBe(false);
+      expect(job('review-status')?.reason).toContain('라벨 정책(pr-labels) 위반으로 Approve가 있어도 머지 불가');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { parse as parseYaml } from 'yaml';
+import { readConfig, validateConfigFile } from '../src/readers/index.js';
+import { generatePrChecksWorkflow } from '../src/templates/pr-checks.js';
+import { explainEvent } from '../src/explain/index.js';
+
+const PR_LINT_CONFIG = `checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+  - name: pr-title
+    trigger: /lint
+    type: pr-lint
+    conventionalCommits: true
+    issueKeyPattern: '[A-Z]+-[0-9]+'
+    minDescriptionLength: 20
+    requiredSections: ['## Summary', Test plan]
+`;
+
+describe('pr-lint', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  const writeConfig = (content: string) => fs.outputFile(path.join(testDir, '.pr-checks', 'config.yml'), content);
+
+  describe('설정 읽기', () => {
+    it('규칙을 읽고 섹션 이름의 #을 제거해야 함', async () => {
+      await writeConfig(PR_LINT_CONFIG);
+
+      const { input } = await readConfig(testDir);
+      const check = input.checks[1];
+
+      expect(check).toMatchObject({
+        type: 'pr-lint',
+        conventionalCommits: true,
+        issueKeyPattern: '[A-Z]+-[0-9]+',
+        minDescriptionLength: 20,
+        requiredSections: ['Summary', 'Test plan'],
+      });
+    });
+
+    it('규칙이 없거나 잘못되면 위치와 함께 보고해야 함', async () => {
+      await writeConfig(`checks:
+  - name: pr-title
+    trigger: /lint
+    type: pr-lint
+    conventionalCommits: false
+  - name: pr-body
+    trigger: /lint-body
+    type: pr-lint
+    titlePattern: '(unclosed'
+    minDescriptionLength: 0
+    requiredSections: [Summary, '## summary']
+`);
+
+      const report = await validateConfigFile(testDir);
+      const messages = report.diagnostics.map((d) => `${d.line}: ${d.message}`);
+
+      expect(messages).toContain(
+        '2: checks[0]: pr-lint 체크에는 titlePattern, conventionalCommits, issueKeyPattern, minDescriptionLength, requiredSections 중 하나 이상이 필요합니다.'
+      );
+      expect(messages.some((m) => m.startsWith('9: checks[1].titlePattern: 올바른 정규식이 아닙니다'))).toBe(true);
+      expect(messages.some((m) => m.startsWith('10: checks[1].minDescriptionLength:'))).toBe(true);
+      expect(messages.some((m) => m.startsWith('11: checks[1].requiredSections[1]:'))).toBe(true);
+    });
+  });
+
+  describe('워크플로우 생성', () => {
+    it('PR 제목/본문 수정(edited)에도 다시 검사해야 함', async () => {
+      await writeConfig(PR_LINT_CONFIG);
+      const parsed = parseYaml(generatePrChecksWorkflow(await readConfig(testDir)));
+
+      expect(parsed.on.pull_request.types).toEqual(['opened', 'synchronize', 'edited']);
+      expect(parsed.jobs['pr-title'].needs).toEqual(['check-trigger']);
+      expect(parsed.jobs['review-status'].needs).toContain('pr-title');
+    });
+
+    it('사용자 정규식과 섹션은 스크립트가 아닌 env로 전달해야 함', async () => {
+      await writeConfig(PR_LINT_CONFIG);
+      const job = parseYaml(generatePrChecksWorkflow(await readConfig(testDir))).jobs['pr-title'];
+      const lint = job.steps.find((s: { id?: string }) => s.id === 'lint');
+
+      expect(lint.env.ISSUE_KEY_PATTERN).toBe('[A-Z]+-[0-9]+');
+      expect(lint.env.REQUIRED_SECTIONS).toBe('["Summary","Test plan"]');
+      expect(lint.env.TITLE_PATTERN).toBeUndefined();
+      expect(lint.run).not.toContain('[A-Z]+-[0-9]+');
+      expect(lint.run).toContain('if [ "$BODY_LENGTH" -lt 20 ]; then');
+      expect(job.steps.map((s: { name: string }) => s.name)).toEqual([
+        'Lint PR title and description',
+        'Set status',
+        'Collapse old lint comments',
+        'Post PR comment',
+        'Fail if lint failed',
+      ]);
+    });
+
+    it('결과 코멘트에 pr-lint 메타데이터와 PASS/FAIL 마커를 남겨야 함', async () => {
+      await writeConfig(PR_LINT_CONFIG);
+      const job = parseYaml(generatePrChecksWorkflow(await readConfig(testDir))).jobs['pr-title'];
+      const comment = job.steps.find((s: { name: string }) => s.name === 'Post PR comment');
+
+      expect(comment.run).toContain('{"type":"pr-lint","check":"pr-title","sha":"');
+      expect(comment.run).toContain('## ✅ pr-title - PASS');
+      expect(comment.run).toContain('## ❌ pr-title - FAIL');
+    });
+  });
+
+  describe('explain', () => {
+    it('PR 본문 수정 시 pr-lint만 자동 실행해야 함', async () => {
+      await writeConfig(PR_LINT_CONFIG);
+
+      const result = explainEvent(await readConfig(testDir), { event: 'pull_request', action: 'edited' });
+      const job = (name: string) => result.jobs.find((j) => j.job === name);
+
+      expect(result.triggered).toBe(true);
+      expect(job('pr-title')?.runs).toBe(true);
+      expect(job('unit-test')?.runs).toBe(false);
+    });
+  });
+});
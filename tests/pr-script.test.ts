@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { parse as parseYaml } from 'yaml';
+import { readConfig, validateConfigFile } from '../src/readers/index.js';
+import { generatePrChecksWorkflow } from '../src/templates/pr-checks.js';
+import { renderScriptFiles } from '../src/generators/scripts.js';
+import { explainEvent } from '../src/explain/index.js';
+
+const PR_SCRIPT_CONFIG = `version: 3
+checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+  - name: api-compat
+    trigger: /compat
+    type: pr-script
+    command: node scripts/api-compat.mjs
+    workingDirectory: packages/api
+    needs: [unit-test]
+    setupSteps:
+      - name: Setup Node.js
+        uses: actions/setup-node@v4
+        with:
+          node-version: '20'
+`;
+
+describe('pr-script', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  const writeConfig = (content: string) => fs.outputFile(path.join(testDir, '.pr-checks', 'config.yml'), content);
+
+  describe('설정 읽기', () => {
+    it('명령어, setupSteps, workingDirectory를 읽어야 함', async () => {
+      await writeConfig(PR_SCRIPT_CONFIG);
+
+      const report = await validateConfigFile(testDir);
+      const { input } = await readConfig(testDir);
+
+      expect(report.diagnostics).toEqual([]);
+      expect(input.checks[1]).toMatchObject({
+        type: 'pr-script',
+        command: 'node scripts/api-compat.mjs',
+        workingDirectory: 'packages/api',
+        setupSteps: [{ name: 'Setup Node.js', uses: 'actions/setup-node@v4', with: { 'node-version': '20' } }],
+      });
+    });
+
+    it('명령어가 없거나 pr-test 전용 옵션을 쓰면 위치와 함께 보고해야 함', async () => {
+      await writeConfig(`checks:
+  - name: api-compat
+    trigger: /compat
+    type: pr-script
+    matrix:
+      node: [18, 20]
+`);
+
+      const report = await validateConfigFile(testDir);
+      const messages = report.diagnostics.map((d) => `${d.line}: ${d.message}`);
+
+      expect(messages).toContain('2: checks[0].command는 필수입니다.');
+      expect(messages).toContain('6: checks[0].matrix: pr-script 체크에서는 사용하지 않는 키입니다 (무시됨).');
+    });
+  });
+
+  describe('워크플로우 생성', () => {
+    it('결과 파일 경로를 PR_CHECKS_RESULT로 전달하고 리포트 스크립트로 status와 코멘트를 남겨야 함', async () => {
+      await writeConfig(PR_SCRIPT_CONFIG);
+      const { jobs } = parseYaml(generatePrChecksWorkflow(await readConfig(testDir)));
+      const job = jobs['api-compat'];
+      const run = job.steps.find((s: { id?: string }) => s.id === 'script');
+
+      expect(job.needs).toEqual(['check-trigger', 'unit-test']);
+      expect(job.steps.map((s: { name?: string; uses?: string }) => s.name ?? s.uses)).toEqual([
+        'Get PR branch',
+        'actions/checkout@v4',
+        'Set working directory',
+        'Setup Node.js',
+        'Run api-compat',
+        'Collapse old comments',
+        'Set status and post comment',
+        'Fail if check failed',
+      ]);
+      expect(run['working-directory']).toBe('${{ env.WORK_DIR }}/packages/api');
+      expect(run.env.PR_CHECKS_RESULT).toBe('${{ env.WORK_DIR }}/pr_script_result.json');
+      expect(run.run).toContain('rm -f "$PR_CHECKS_RESULT"');
+      expect(run.run).toContain('echo "exit_code=${PIPESTATUS[0]}" >> $GITHUB_OUTPUT');
+      expect(jobs['review-status'].needs).toContain('api-compat');
+    });
+
+    it('리포트 스크립트는 결과 파일을 검증하고 annotation을 workflow command로 출력해야 함', async () => {
+      await writeConfig(PR_SCRIPT_CONFIG);
+      const files = renderScriptFiles(await readConfig(testDir));
+      const script = files.find((f) => f.path.endsWith('api-compat-report.sh'))?.content;
+
+      expect(files.map((f) => f.path)).toContain('.pr-checks/scripts/api-compat-collapse.sh');
+      expect(script).toContain('RESULT_FILE="pr_script_result.json"');
+      expect(script).toContain('DESC="Invalid result file"');
+      expect(script).toContain('{"notice":"notice","warning":"warning","failure":"error"} as $commands');
+      expect(script).toContain('\\"type\\":\\"pr-script\\"');
+      expect(script).toContain("cat <<'PR_CHECKS_COMMAND'\n📋 실행 커맨드: `node scripts/api-compat.mjs`");
+    });
+  });
+
+  describe('explain', () => {
+    it('pr-test 다음 순서로 표시하고 needs를 기다려야 함', async () => {
+      await writeConfig(PR_SCRIPT_CONFIG);
+
+      const result = explainEvent(await readConfig(testDir), { event: 'issue_comment', comment: '/checks' });
+      const names = result.jobs.map((j) => j.job);
+
+      expect(names.indexOf('api-compat')).toBe(names.indexOf('unit-test') + 1);
+      expect(result.jobs.find((j) => j.job === 'api-compat')?.reason).toContain('needs(unit-test) 통과 후');
+    });
+  });
+});
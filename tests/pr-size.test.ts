@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { parse as parseYaml } from 'yaml';
+import { readConfig, validateConfigFile } from '../src/readers/index.js';
+import { generatePrChecksWorkflow } from '../src/templates/pr-checks.js';
+import { explainEvent } from '../src/explain/index.js';
+
+const PR_SIZE_CONFIG = `checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+  - name: pr-size
+    trigger: /size
+    type: pr-size
+    maxLines: 500
+    maxFiles: 20
+    exclude: [package-lock.json, dist/]
+  - name: ai-review
+    trigger: /review
+    type: pr-review
+    provider: cli
+    cliTool: claude
+`;
+
+describe('pr-size', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  const writeConfig = (content: string) => fs.outputFile(path.join(testDir, '.pr-checks', 'config.yml'), content);
+  const stepNames = (job: { steps: { name: string }[] }) => job.steps.map((s) => s.name);
+
+  describe('설정 읽기', () => {
+    it('임계값과 exclude를 읽고 프로젝트 체크는 프로젝트 경로를 붙여야 함', async () => {
+      await writeConfig(`${PR_SIZE_CONFIG}projects:
+  - path: services/api
+    checks:
+      - name: size
+        trigger: /size-api
+        type: pr-size
+        onExceed: warn
+        exclude: ['**/*.gen.go']
+`);
+
+      const { input } = await readConfig(testDir);
+
+      expect(input.checks[1]).toMatchObject({ type: 'pr-size', maxLines: 500, maxFiles: 20, exclude: ['package-lock.json', 'dist/'] });
+      expect(input.checks[3]).toMatchObject({ name: 'api/size', onExceed: 'warn', exclude: ['services/api/**/*.gen.go'] });
+    });
+
+    it('잘못된 값을 위치와 함께 보고해야 함', async () => {
+      await writeConfig(`checks:
+  - name: pr-size
+    trigger: /size
+    type: pr-size
+    maxLines: 0
+    onExceed: block
+    exclude: ['!dist/**']
+`);
+
+      const report = await validateConfigFile(testDir);
+      const messages = report.diagnostics.map((d) => `${d.line}: ${d.message}`);
+
+      expect(messages).toContain('5: checks[0].maxLines: 1 이상의 정수(줄 수)여야 합니다: 0');
+      expect(messages).toContain('6: checks[0].onExceed: fail, warn 중 하나여야 합니다: block');
+      expect(messages).toContain("7: checks[0].exclude[0]: '!' 제외 패턴은 지원하지 않습니다: !dist/**");
+    });
+  });
+
+  describe('워크플로우 생성', () => {
+    it('exclude는 정규식 env로 전달하고 크기 라벨과 실패 스텝을 만들어야 함', async () => {
+      await writeConfig(PR_SIZE_CONFIG);
+      const job = parseYaml(generatePrChecksWorkflow(await readConfig(testDir))).jobs['pr-size'];
+      const size = job.steps.find((s: { id?: string }) => s.id === 'size');
+      const label = job.steps.find((s: { name: string }) => s.name === 'Set size label');
+
+      expect(stepNames(job)).toEqual([
+        'Calculate PR size',
+        'Set size label',
+        'Set status',
+        'Collapse old size comments',
+        'Post PR comment',
+        'Fail if PR is too large',
+      ]);
+      expect(size.env).toEqual({ EXCLUDE_PATTERN: '^package-lock\\.json$|^dist/.*$' });
+      expect(size.run).toContain('/pulls/$PR_NUMBER/files?per_page=100&limit=100&page=$PAGE');
+      expect(size.run).toContain('if [ "$LINES" -gt 500 ]; then');
+      expect(size.run).toContain('if [ "$FILE_COUNT" -gt 20 ]; then');
+      expect(label.run).toContain('LABEL="size/${{ steps.size.outputs.size }}"');
+      expect(label.run).toContain('-d "{\\"labels\\":[\\"$LABEL\\"]}"');
+    });
+
+    it('pr-review는 ciTrigger/자동 실행에서 pr-size가 실패하면 실행하지 않아야 함', async () => {
+      await writeConfig(PR_SIZE_CONFIG);
+      const review = parseYaml(generatePrChecksWorkflow(await readConfig(testDir))).jobs['ai-review'];
+
+      expect(review.needs).toEqual(['check-trigger', 'unit-test', 'pr-size']);
+      expect(review.if).toContain(
+        "(needs.pr-size.result == 'success' || !(needs.check-trigger.outputs.trigger == '/size' || needs.check-trigger.outputs.trigger == '/checks' || needs.check-trigger.outputs.auto_run_pr-size == 'true')) &&"
+      );
+    });
+
+    it('onExceed: warn이면 실패하지 않고 pr-review도 기다리지 않아야 함', async () => {
+      await writeConfig(PR_SIZE_CONFIG.replace('maxFiles: 20', 'maxFiles: 20\n    onExceed: warn\n    sizeLabels: false'));
+      const jobs = parseYaml(generatePrChecksWorkflow(await readConfig(testDir))).jobs;
+      const status = jobs['pr-size'].steps.find((s: { name: string }) => s.name === 'Set status');
+
+      expect(stepNames(jobs['pr-size'])).not.toContain('Fail if PR is too large');
+      expect(stepNames(jobs['pr-size'])).not.toContain('Set size label');
+      expect(status.run).toContain('STATE="success"\n  DESC="Warning: PR too large ($SUMMARY)"');
+      expect(jobs['ai-review'].needs).toEqual(['check-trigger', 'unit-test']);
+    });
+
+    it('Gitea self-hosted runner에서는 git diff --numstat과 라벨 ID를 사용해야 함', async () => {
+      await writeConfig(`platform: gitea
+runner: [self-hosted]
+selfHosted: {}
+checks:
+  - name: pr-size
+    trigger: /size
+    type: pr-size
+    maxLines: 500
+`);
+      const job = parseYaml(generatePrChecksWorkflow(await readConfig(testDir))).jobs['pr-size'];
+      const size = job.steps.find((s: { id?: string }) => s.id === 'size');
+      const label = job.steps.find((s: { name: string }) => s.name === 'Set size label');
+
+      expect(stepNames(job).slice(0, 2)).toEqual(['Clone or update repository', 'Fetch PR branch']);
+      expect(size.run).toContain('diff --numstat --no-renames');
+      expect(label.run).toContain('-d "{\\"labels\\":[$LABEL_ID]}"');
+    });
+  });
+
+  describe('explain', () => {
+    it('pr-size 실패를 가정하면 자동 실행 리뷰는 스킵하고 수동 리뷰는 실행해야 함', async () => {
+      await writeConfig(PR_SIZE_CONFIG);
+      const config = await readConfig(testDir);
+
+      const auto = explainEvent(config, { event: 'pull_request', action: 'synchronize', failing: ['pr-size'] });
+      const review = auto.jobs.find((j) => j.job === 'ai-review');
+      expect(review?.runs).toBe(false);
+      expect(review?.reason).toBe("needs의 pr-size이(가) 실패해 실행하지 않음 (blocked-checks가 'Blocked by pr-size' failure status 설정)");
+
+      const manual = explainEvent(config, { event: 'issue_comment', comment: '/review', failing: ['pr-size'] });
+      expect(manual.jobs.find((j) => j.job === 'ai-review')?.runs).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { parse as parseYaml } from 'yaml';
+import { readConfig, validateConfigFile } from '../src/readers/index.js';
+import { generatePrChecksWorkflow } from '../src/templates/pr-checks.js';
+import { renderScriptFiles } from '../src/generators/scripts.js';
+import { explainEvent } from '../src/explain/index.js';
+
+const MATRIX_CONFIG = `checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test -- --shard \${{ matrix.shard }}
+    matrix:
+      node: [18, 20, 22]
+      shard: [1, 2]
+    setupSteps:
+      - name: Setup Node.js
+        uses: actions/setup-node@v4
+        with:
+          node-version: \${{ matrix.node }}
+  - name: ai-review
+    trigger: /review
+    type: pr-review
+    provider: cli
+    cliTool: claude
+`;
+
+describe('pr-test matrix', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  const writeConfig = (content: string) => fs.outputFile(path.join(testDir, '.pr-checks', 'config.yml'), content);
+  const stepNames = (job: { steps: { name?: string; uses?: string }[] }) => job.steps.map((s) => s.name ?? s.uses);
+
+  describe('설정 읽기', () => {
+    it('matrix를 읽어야 함', async () => {
+      await writeConfig(MATRIX_CONFIG);
+
+      const report = await validateConfigFile(testDir);
+      const { input } = await readConfig(testDir);
+
+      expect(report.diagnostics.filter((d) => !d.deprecated)).toEqual([]);
+      expect(input.checks[0]).toMatchObject({ matrix: { node: [18, 20, 22], shard: [1, 2] } });
+    });
+
+    it('잘못된 matrix와 없는 키 참조를 위치와 함께 보고해야 함', async () => {
+      await writeConfig(`checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test -- --node \${{ matrix.nod }}
+    runner: [self-hosted]
+    matrix:
+      os: [ubuntu-latest, ubuntu-latest]
+      node: []
+      include: [a]
+`);
+
+      const report = await validateConfigFile(testDir);
+      const messages = report.diagnostics.map((d) => `${d.line}: ${d.message}`);
+
+      expect(messages).toContain('8: checks[0].matrix.os[1]: 중복된 값입니다: ubuntu-latest');
+      expect(messages).toContain('9: checks[0].matrix.node: 1개 이상의 값(문자열, 숫자, boolean) 배열이어야 합니다.');
+      expect(messages).toContain('10: checks[0].matrix.include: include/exclude는 지원하지 않습니다.');
+      expect(messages).toContain('5: checks[0].command: matrix에 없는 키를 사용합니다: matrix.nod');
+      expect(messages).toContain('6: checks[0].runner: matrix.os와 함께 사용할 수 없습니다 (matrix.os가 runs-on이 됨).');
+    });
+  });
+
+  describe('워크플로우 생성', () => {
+    it('조합마다 결과를 artifact로 올리고 결과 종합 job이 status와 코멘트를 한 번만 남겨야 함', async () => {
+      await writeConfig(MATRIX_CONFIG);
+      const { jobs } = parseYaml(generatePrChecksWorkflow(await readConfig(testDir)));
+      const test = jobs['unit-test'];
+      const report = jobs['unit-test-report'];
+
+      expect(test.strategy).toEqual({ 'fail-fast': false, matrix: { node: [18, 20, 22], shard: [1, 2] } });
+      expect(test['runs-on']).toBe('ubuntu-latest');
+      expect(stepNames(test).slice(-4)).toEqual([
+        'Run unit-test',
+        'Save matrix leg result',
+        'Upload matrix leg result',
+        'Fail if tests failed',
+      ]);
+      expect(test.steps.find((s: { name?: string }) => s.name === 'Upload matrix leg result').with).toMatchObject({
+        name: 'unit-test-leg-${{ strategy.job-index }}',
+        overwrite: true,
+      });
+
+      expect(report.needs).toEqual(['check-trigger', 'unit-test']);
+      expect(report.if).toContain("needs.unit-test.result != 'skipped'");
+      expect(stepNames(report)).toEqual([
+        'actions/checkout@v4',
+        'Set working directory',
+        'Download matrix leg results',
+        'Collapse old comments',
+        'Set status and post comment',
+        'Fail if tests failed',
+      ]);
+      expect(jobs['review-status'].needs).toEqual(['check-trigger', 'unit-test', 'unit-test-report', 'ai-review', 'blocked-checks']);
+      expect(jobs['ai-review'].needs).toEqual(['check-trigger', 'unit-test']);
+    });
+
+    it('Gitea에서는 조합 artifact만 이름으로 하나씩 받아야 함', async () => {
+      await writeConfig(`platform: gitea\n${MATRIX_CONFIG}`);
+      const { jobs } = parseYaml(generatePrChecksWorkflow(await readConfig(testDir)));
+      const upload = jobs['unit-test'].steps.find((s: { name?: string }) => s.name === 'Upload matrix leg result');
+      const downloads = jobs['unit-test-report'].steps.filter((s: { uses?: string }) =>
+        s.uses?.startsWith('actions/download-artifact')
+      );
+
+      expect(upload.uses).toBe('actions/upload-artifact@v3');
+      expect(upload.with.overwrite).toBeUndefined();
+      expect(downloads).toHaveLength(6);
+      expect(downloads[5]).toEqual({
+        name: 'Download matrix leg result 5',
+        uses: 'actions/download-artifact@v3',
+        'continue-on-error': true,
+        with: { name: 'unit-test-leg-5', path: 'matrix-results/unit-test-leg-5' },
+      });
+    });
+
+    it('matrix.os는 runs-on이 되고 모든 OS에서 bash로 실행해야 함', async () => {
+      await writeConfig(
+        MATRIX_CONFIG.replace('shard: [1, 2]', 'os: [ubuntu-latest, windows-latest]').replace(' -- --shard ${{ matrix.shard }}', '')
+      );
+      const test = parseYaml(generatePrChecksWorkflow(await readConfig(testDir))).jobs['unit-test'];
+
+      expect(test['runs-on']).toBe('${{ matrix.os }}');
+      expect(test.defaults).toEqual({ run: { shell: 'bash' } });
+    });
+
+    it('리포트 스크립트는 모든 조합 결과를 모아 하나의 status로 보고해야 함', async () => {
+      await writeConfig(MATRIX_CONFIG);
+      const script = renderScriptFiles(await readConfig(testDir)).find((f) => f.path.endsWith('unit-test-report.sh'))?.content;
+
+      expect(script).toContain('EXPECTED_LEGS=6');
+      expect(script).toContain('LEG_FILE="$RESULTS_DIR/unit-test-leg-$i/leg.json"');
+      expect(script).toContain('DESC="Check failed ($PASSED_LEGS/$EXPECTED_LEGS legs passed)"');
+      expect(script).toContain("cat <<'PR_CHECKS_COMMAND'\n📋 테스트 실행 커맨드: `npm test -- --shard ${{ matrix.shard }}`");
+    });
+  });
+
+  describe('explain', () => {
+    it('테스트 job과 결과 종합 job을 함께 표시해야 함', async () => {
+      await writeConfig(MATRIX_CONFIG);
+
+      const result = explainEvent(await readConfig(testDir), { event: 'issue_comment', comment: '/test' });
+      const report = result.jobs.find((j) => j.job === 'unit-test-report');
+
+      expect(report?.runs).toBe(true);
+      expect(report?.reason).toBe('unit-test의 매트릭스 6개 조합 결과를 모아 status와 코멘트 (always)');
+    });
+  });
+});
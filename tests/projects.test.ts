@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { parse as parseYaml } from 'yaml';
+import { readConfig, validateConfigFile } from '../src/readers/index.js';
+import { generatePrChecksWorkflow } from '../src/templates/pr-checks.js';
+import { generateApprovalOverrideWorkflow } from '../src/templates/approval-override.js';
+import { renderScriptFiles } from '../src/generators/scripts.js';
+import { explainEvent } from '../src/explain/index.js';
+import { getRequiredStatusContexts } from '../src/doctor/index.js';
+import type { PrTestCheck } from '../src/types/config.js';
+
+const MONOREPO_CONFIG = `checks:
+  - name: ai-review
+    trigger: /review
+    type: pr-review
+    provider: cli
+    cliTool: claude
+
+projects:
+  - path: services/api
+    checks:
+      - name: unit-test
+        trigger: /test-api
+        type: pr-test
+        command: go test ./...
+        mustPass: true
+  - name: web
+    path: apps/frontend/
+    checks:
+      - name: unit-test
+        trigger: /test-web
+        type: pr-test
+        command: npm test
+        workingDirectory: packages/app
+        mustPass: true
+`;
+
+describe('projects (모노레포)', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  const writeConfig = (content: string) => fs.outputFile(path.join(testDir, '.pr-checks', 'config.yml'), content);
+
+  describe('설정 읽기', () => {
+    it('프로젝트 체크를 프로젝트 이름을 붙여 checks에 합치고 프로젝트 디렉토리에서 실행해야 함', async () => {
+      await writeConfig(MONOREPO_CONFIG);
+
+      const { input } = await readConfig(testDir);
+
+      expect(input.projects).toEqual([
+        { name: 'api', path: 'services/api' },
+        { name: 'web', path: 'apps/frontend' },
+      ]);
+      expect(input.checks.map((c) => c.name)).toEqual(['ai-review', 'api/unit-test', 'web/unit-test']);
+      expect(input.checks[1]).toMatchObject({ project: 'api', workingDirectory: 'services/api' });
+      expect((input.checks[2] as PrTestCheck).workingDirectory).toBe('apps/frontend/packages/app');
+      expect(input.checks[0].project).toBeUndefined();
+    });
+
+    it('projects만 있으면 기본 체크를 추가하지 않아야 함', async () => {
+      await writeConfig(`projects:
+  - path: api
+    checks:
+      - name: unit-test
+        trigger: /test
+        type: pr-test
+        command: npm test
+`);
+
+      const { input } = await readConfig(testDir);
+
+      expect(input.checks.map((c) => c.name)).toEqual(['api/unit-test']);
+    });
+
+    it('프로젝트 이름/경로/트리거 문제를 위치와 함께 보고해야 함', async () => {
+      await writeConfig(`projects:
+  - path: ../outside
+    checks: []
+  - path: services/API
+    checks:
+      - name: test
+        trigger: /test
+        type: pr-test
+        command: make test
+  - name: api
+    path: api
+    checks:
+      - name: test
+        trigger: /test
+        type: pr-test
+        command: make test
+  - name: api
+    path: api2
+    checks:
+      - name: lint
+        trigger: /lint
+        type: pr-test
+        command: make lint
+`);
+
+      const report = await validateConfigFile(testDir);
+      const messages = report.diagnostics.map((d) => `${d.line}: ${d.message}`);
+
+      expect(messages).toContain('2: projects[0].path: 저장소 루트 기준 상대 경로여야 합니다: ../outside');
+      expect(messages).toContain('3: projects[0].checks는 최소 1개 이상이어야 합니다.');
+      expect(messages).toContain(
+        "4: projects[1].name: 'API'은 유효하지 않습니다. 소문자로 시작하고, 소문자/숫자/하이픈/언더스코어만 사용해야 합니다. path와 다른 이름은 name으로 지정하세요."
+      );
+      expect(messages).toContain('14: 중복된 트리거입니다: /test');
+      expect(messages).toContain('17: projects[3].name: 중복된 프로젝트 이름입니다: api');
+    });
+
+    it('job ID가 겹치는 체크 이름은 에러를 보고해야 함', async () => {
+      await writeConfig(`checks:
+  - name: api-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+projects:
+  - path: api
+    checks:
+      - name: test
+        trigger: /test-api
+        type: pr-test
+        command: npm test
+`);
+
+      await expect(readConfig(testDir)).rejects.toThrow("'api/test' 체크의 job ID가 'api-test' 체크와 같습니다: api-test");
+    });
+  });
+
+  describe('워크플로우 생성', () => {
+    it('변경 파일로 프로젝트별 affected 출력을 계산해야 함', async () => {
+      await writeConfig(MONOREPO_CONFIG);
+      const parsed = parseYaml(generatePrChecksWorkflow(await readConfig(testDir)));
+      const checkTrigger = parsed.jobs['check-trigger'];
+      const step = checkTrigger.steps.find((s: { name: string }) => s.name === 'Detect changed files');
+
+      expect(checkTrigger.outputs.affected_api).toBe('${{ steps.changes.outputs.affected_api }}');
+      expect(step.if).toBe("steps.check.outputs.should_continue == 'true'");
+      expect(step.run).toContain('/pulls/$PR_NUMBER/files?per_page=100&limit=100&page=$PAGE');
+      expect(step.run).toContain("grep -q '^services/api/'");
+      expect(step.run).toContain('echo "affected_web=$AFFECTED_1_WEB" >> $GITHUB_OUTPUT');
+    });
+
+    it('쉘 변수 이름이 같아지는 프로젝트 이름(web-app, web_app)도 각자의 경로로 판정해야 함', async () => {
+      await writeConfig(`projects:
+  - path: apps/web
+    name: web-app
+    checks:
+      - { name: test, trigger: /test-web, type: pr-test, command: npm test }
+  - path: packages/web
+    name: web_app
+    checks:
+      - { name: test, trigger: /test-web-pkg, type: pr-test, command: npm test }
+`);
+      const config = await readConfig(testDir);
+      const step = parseYaml(generatePrChecksWorkflow(config)).jobs['check-trigger'].steps.find(
+        (s: { name: string }) => s.name === 'Detect changed files'
+      );
+      const restore = parseYaml(generateApprovalOverrideWorkflow(config)).jobs['restore-gate'].steps[0].run;
+
+      expect(step.run).toContain('echo "affected_web-app=$AFFECTED_0_WEB_APP" >> $GITHUB_OUTPUT');
+      expect(step.run).toContain('echo "affected_web_app=$AFFECTED_1_WEB_APP" >> $GITHUB_OUTPUT');
+      expect(restore).toMatch(/if \[ "\$AFFECTED_0_WEB_APP" = "true" \]; then\n\s*# web-app\/test /);
+      expect(restore).toMatch(/if \[ "\$AFFECTED_1_WEB_APP" = "true" \]; then\n\s*# web_app\/test /);
+    });
+
+    it('프로젝트 체크는 개별 트리거 또는 프로젝트가 바뀐 경우에만 실행해야 함', async () => {
+      await writeConfig(MONOREPO_CONFIG);
+      const config = await readConfig(testDir);
+      const parsed = parseYaml(generatePrChecksWorkflow(config));
+      const job = parsed.jobs['api-unit-test'];
+
+      expect(job.if).toContain(
+        "(needs.check-trigger.outputs.trigger == '/test-api' || ((needs.check-trigger.outputs.trigger == '/checks' || needs.check-trigger.outputs.auto_run_api-unit-test == 'true') && needs.check-trigger.outputs.affected_api == 'true'))"
+      );
+      expect(job.steps.find((s: { name: string }) => s.name === 'Run api/unit-test')['working-directory']).toBe(
+        '${{ env.WORK_DIR }}/services/api'
+      );
+      expect(parsed.jobs['ai-review'].if).toContain(
+        "(needs.api-unit-test.result == 'success' || !(needs.check-trigger.outputs.trigger == '/test-api' || ((needs.check-trigger.outputs.trigger == '/checks' || needs.check-trigger.outputs.auto_run_api-unit-test == 'true') && needs.check-trigger.outputs.affected_api == 'true')))"
+      );
+      expect(renderScriptFiles(config).map((f) => f.path)).toContain('.pr-checks/scripts/api-unit-test-report.sh');
+    });
+
+    it('종합 판정과 게이트 복원은 바뀐 프로젝트의 체크만 확인해야 함', async () => {
+      await writeConfig(MONOREPO_CONFIG);
+      const config = await readConfig(testDir);
+      const parsed = parseYaml(generatePrChecksWorkflow(config));
+      const gate = parsed.jobs['review-status'].steps[0].run;
+
+      expect(parsed.jobs['review-status'].needs).toEqual(['check-trigger', 'ai-review', 'api-unit-test', 'web-unit-test', 'blocked-checks']);
+      expect(gate).toContain(
+        'if [ "${{ needs.check-trigger.outputs.affected_api }}" = "true" ]; then\n  # api/unit-test: must pass\n  API_UNIT_TEST_STATE='
+      );
+      expect(gate).toContain('select(.context == "api/unit-test")');
+
+      const restore = parseYaml(generateApprovalOverrideWorkflow(config)).jobs['restore-gate'].steps[0].run;
+      expect(restore).toContain("grep -q '^apps/frontend/'");
+      expect(restore).toContain('if [ "$AFFECTED_1_WEB" = "true" ]; then');
+      expect(getRequiredStatusContexts(config)).toEqual(['PR Checks Status']);
+    });
+  });
+
+  describe('explain', () => {
+    it('--changed에 없는 프로젝트 체크는 ciTrigger에서 스킵하고 리뷰 조건에서 제외해야 함', async () => {
+      await writeConfig(MONOREPO_CONFIG);
+      const config = await readConfig(testDir);
+
+      const result = explainEvent(config, { event: 'issue_comment', comment: '/checks', changed: ['services/api/main.go'] });
+
+      expect(result.jobs.filter((j) => j.runs).map((j) => j.job)).toEqual([
+        'check-trigger',
+        'api-unit-test',
+        'ai-review',
+        'blocked-checks',
+        'review-status',
+      ]);
+      expect(result.jobs.find((j) => j.job === 'web-unit-test')?.reason).toContain('web 프로젝트(apps/frontend/)에 바뀐 파일이 없음');
+
+      const manual = explainEvent(config, { event: 'issue_comment', comment: '/test-web', changed: [] });
+      expect(manual.jobs.find((j) => j.job === 'web-unit-test')?.runs).toBe(true);
+    });
+  });
+});
@@ -9,8 +9,11 @@ import {
   createDefaultFiles,
   hasInputFiles,
   getPrChecksDir,
+  validateConfigFile,
 } from '../src/readers/index.js';
+import { editDistance, suggestKey } from '../src/readers/suggest.js';
 import { DEFAULT_INPUT_CONFIG } from '../src/types/config.js';
+import type { PrTestCheck } from '../src/types/config.js';
 
 describe('readers', () => {
   let testDir: string;
@@ -69,6 +72,29 @@ describe('readers', () => {
       expect(parsed.ciTrigger).toBe('/checks');
     });
 
+    it('생성된 config.yml에 설명 주석이 포함되어야 함', async () => {
+      await createDefaultFiles(testDir);
+
+      const content = await fs.readFile(path.join(testDir, '.pr-checks', 'config.yml'), 'utf-8');
+
+      expect(content).toContain('# create-pr-checks 설정 파일');
+      expect(content).toContain('# 전체 실행 트리거');
+      expect(content).toContain('mustPass: true # true: 성공해야 머지 가능');
+      expect(yaml.parse(content)).toEqual(DEFAULT_INPUT_CONFIG);
+    });
+
+    it('전달한 설정으로 config.yml을 생성해야 함', async () => {
+      const input = structuredClone(DEFAULT_INPUT_CONFIG);
+      input.platform = 'gitea';
+      input.checks = [input.checks[0]];
+
+      await createDefaultFiles(testDir, input);
+
+      const config = await readConfig(testDir);
+      expect(config.input.platform).toBe('gitea');
+      expect(config.input.checks).toHaveLength(1);
+    });
+
     it('이미 config.yml이 있으면 덮어쓰지 않아야 함', async () => {
       const prChecksDir = path.join(testDir, '.pr-checks');
       await fs.ensureDir(prChecksDir);
@@ -414,6 +440,16 @@ describe('readers', () => {
         await expect(readConfig(testDir)).rejects.toThrow('지원하지 않는 프로바이더입니다');
       });
 
+      it('지원하는 버전보다 높은 version은 에러를 던져야 함', async () => {
+        const prChecksDir = path.join(testDir, '.pr-checks');
+        await fs.ensureDir(prChecksDir);
+        await fs.writeFile(path.join(prChecksDir, 'config.yml'), 'version: 99\nbranches: [main]\n');
+
+        await expect(readConfig(testDir)).rejects.toThrow(
+          'version: 설정 파일 버전(99)이 이 create-pr-checks가 지원하는 버전(3)보다 높습니다.'
+        );
+      });
+
       it('지원하지 않는 테스트 프레임워크는 에러를 던져야 함', async () => {
         const prChecksDir = path.join(testDir, '.pr-checks');
         await fs.ensureDir(prChecksDir);
@@ -1025,4 +1061,388 @@ branches:
       });
     });
   });
+
+  describe('validateConfigFile', () => {
+    const writeConfig = async (content: string) => {
+      const prChecksDir = path.join(testDir, '.pr-checks');
+      await fs.ensureDir(prChecksDir);
+      await fs.writeFile(path.join(prChecksDir, 'config.yml'), content);
+    };
+
+    it('유효한 설정은 valid: true를 반환해야 함', async () => {
+      await writeConfig(yaml.stringify(DEFAULT_INPUT_CONFIG));
+
+      const report = await validateConfigFile(testDir);
+
+      expect(report.valid).toBe(true);
+      expect(report.file).toBe('.pr-checks/config.yml');
+      expect(report.diagnostics).toHaveLength(0);
+    });
+
+    it('모든 에러를 한 번에 줄/열 정보와 함께 보고해야 함', async () => {
+      await writeConfig(`checks:
+  - name: unit-test
+    trigger: test
+    type: pr-test
+    command: npm test
+  - name: ai-review
+    trigger: /review
+    type: pr-review
+    provider: openai
+ciTrigger: /checks
+branches: []
+`);
+
+      const report = await validateConfigFile(testDir);
+      const diagnostics = report.diagnostics.filter((d) => !d.deprecated);
+
+      expect(report.valid).toBe(false);
+      expect(report.errorCount).toBe(3);
+      expect(diagnostics.map((d) => [d.line, d.column])).toEqual([
+        [3, 14],
+        [9, 15],
+        [11, 11],
+      ]);
+      expect(diagnostics[0].path).toEqual(['checks', 0, 'trigger']);
+      expect(diagnostics[1].message).toContain('지원하지 않는 프로바이더입니다');
+      expect(diagnostics[2].message).toContain('branches는 최소 1개 이상이어야 합니다.');
+    });
+
+    it('누락된 필드는 해당 체크 위치로 보고해야 함', async () => {
+      await writeConfig(`checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+`);
+
+      const report = await validateConfigFile(testDir);
+
+      expect(report.diagnostics).toHaveLength(1);
+      expect(report.diagnostics[0].message).toContain('command는 필수입니다');
+      expect(report.diagnostics[0].line).toBe(2);
+      expect(report.diagnostics[0].column).toBe(5);
+    });
+
+    it('YAML 문법 오류를 위치와 함께 보고해야 함', async () => {
+      await writeConfig('checks:\n  - name: [unclosed\n');
+
+      const report = await validateConfigFile(testDir);
+
+      expect(report.valid).toBe(false);
+      expect(report.diagnostics[0].message).toContain('YAML 문법 오류');
+      expect(report.diagnostics[0].line).toBeGreaterThan(1);
+    });
+
+    it('deprecated framework는 경고로 보고해야 함', async () => {
+      await writeConfig(`checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+    framework: node
+`);
+
+      const report = await validateConfigFile(testDir);
+
+      expect(report.valid).toBe(true);
+      expect(report.warningCount).toBe(1);
+      expect(report.diagnostics[0].severity).toBe('warning');
+      expect(report.diagnostics[0].line).toBe(6);
+      expect(report.diagnostics[0].message).toContain('create-pr-checks migrate');
+    });
+
+    it('deprecated framework 경고는 readConfig에서 출력하지 않아야 함', async () => {
+      await writeConfig(`checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+    framework: node
+`);
+      const warnings: string[] = [];
+
+      const { input } = await readConfig(testDir, { onWarning: (message) => warnings.push(message) });
+
+      expect(warnings).toEqual([]);
+      expect((input.checks[0] as PrTestCheck).setupSteps).toBeDefined();
+    });
+
+    it('설정 파일이 없으면 에러를 보고해야 함', async () => {
+      const report = await validateConfigFile(testDir);
+
+      expect(report.valid).toBe(false);
+      expect(report.diagnostics[0].message).toContain('설정 파일이 없습니다');
+    });
+  });
+
+  describe('readConfig 에러 메시지', () => {
+    it('여러 에러를 한 번에 포함해야 함', async () => {
+      const prChecksDir = path.join(testDir, '.pr-checks');
+      await fs.ensureDir(prChecksDir);
+      await fs.writeFile(
+        path.join(prChecksDir, 'config.yml'),
+        `checks:
+  - name: unit-test
+    type: pr-test
+  - name: ai-review
+    trigger: /review
+    type: pr-review
+    provider: openai
+`
+      );
+
+      const error = await readConfig(testDir).catch((e: Error) => e);
+
+      expect(error).toBeInstanceOf(Error);
+      expect((error as Error).message).toContain('checks[0].trigger는 필수입니다.');
+      expect((error as Error).message).toContain('checks[0].command는 필수입니다.');
+      expect((error as Error).message).toContain('checks[1].provider: 지원하지 않는 프로바이더입니다');
+    });
+  });
+
+  describe('알 수 없는 키 검사', () => {
+    const writeConfig = async (content: string) => {
+      const prChecksDir = path.join(testDir, '.pr-checks');
+      await fs.ensureDir(prChecksDir);
+      await fs.writeFile(path.join(prChecksDir, 'config.yml'), content);
+    };
+
+    const typoConfig = `ciTriger: /all
+checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+    mustpass: true
+    setupStep:
+      - name: install
+        run: npm ci
+`;
+
+    it('오타 키는 가장 가까운 키를 제안하는 경고여야 함', async () => {
+      await writeConfig(typoConfig);
+      const warnings: string[] = [];
+
+      const config = await readConfig(testDir, { onWarning: (message) => warnings.push(message) });
+
+      expect(config.input.checks[0].mustPass).toBe(false);
+      expect(warnings).toEqual([
+        "ciTriger: 알 수 없는 키입니다 (무시됨). 혹시 'ciTrigger'인가요?",
+        "checks[0].mustpass: 알 수 없는 키입니다 (무시됨). 혹시 'mustPass'인가요?",
+        "checks[0].setupStep: 알 수 없는 키입니다 (무시됨). 혹시 'setupSteps'인가요?",
+      ]);
+    });
+
+    it('strict면 에러여야 함', async () => {
+      await writeConfig(typoConfig);
+
+      await expect(readConfig(testDir, { strict: true })).rejects.toThrow("혹시 'mustPass'인가요?");
+    });
+
+    it('체크 타입/provider에 적용되지 않는 키를 보고해야 함', async () => {
+      await writeConfig(`checks:
+  - name: ai-review
+    trigger: /review
+    type: pr-review
+    provider: cli
+    cliTool: claude
+    model: claude-sonnet
+    command: npm test
+`);
+
+      const report = await validateConfigFile(testDir);
+
+      expect(report.valid).toBe(true);
+      expect(report.diagnostics.map((d) => [d.line, d.message])).toEqual([
+        [7, 'checks[0].model: cli provider에서는 사용하지 않는 키입니다 (무시됨).'],
+        [8, 'checks[0].command: pr-review 체크에서는 사용하지 않는 키입니다 (무시됨).'],
+      ]);
+
+      const strictReport = await validateConfigFile(testDir, { strict: true });
+      expect(strictReport.errorCount).toBe(2);
+    });
+
+    it('비슷한 키가 없으면 제안하지 않아야 함', async () => {
+      await writeConfig('notifications: slack\n');
+      const warnings: string[] = [];
+
+      await readConfig(testDir, { onWarning: (message) => warnings.push(message) });
+
+      expect(warnings).toEqual(['notifications: 알 수 없는 키입니다 (무시됨).']);
+    });
+  });
+
+  describe('suggestKey', () => {
+    it('편집 거리는 인접 문자 교환을 1로 계산해야 함', () => {
+      expect(editDistance('trigger', 'trigger')).toBe(0);
+      expect(editDistance('tirgger', 'trigger')).toBe(1);
+      expect(editDistance('comand', 'command')).toBe(1);
+    });
+
+    it('대소문자를 무시하고 가장 가까운 키를 반환해야 함', () => {
+      expect(suggestKey('autoRunon', ['autoRunOn', 'mustRun'])).toBe('autoRunOn');
+      expect(suggestKey('musRun', ['mustRun', 'mustPass'])).toBe('mustRun');
+      expect(suggestKey('xyz', ['mustRun', 'mustPass'])).toBeUndefined();
+    });
+  });
+
+  describe('구조 검증', () => {
+    const writeConfig = async (content: string) => {
+      const prChecksDir = path.join(testDir, '.pr-checks');
+      await fs.ensureDir(prChecksDir);
+      await fs.writeFile(path.join(prChecksDir, 'config.yml'), content);
+    };
+
+    const messages = async () => (await validateConfigFile(testDir)).diagnostics.map((d) => [d.path.join('.'), d.message]);
+
+    it('autoRunOn의 지원하지 않는 이벤트와 중복을 항목 위치로 보고해야 함', async () => {
+      await writeConfig(`checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+    autoRunOn: [push, opened, opened]
+`);
+
+      expect(await messages()).toEqual([
+        [
+          'checks.0.autoRunOn.0',
+          'checks[0].autoRunOn[0]: 지원하지 않는 PR 이벤트입니다: push (사용 가능: opened, synchronize, reopened, ready_for_review, edited, labeled, unlabeled)',
+        ],
+        ['checks.0.autoRunOn.2', 'checks[0].autoRunOn[2]: 중복된 PR 이벤트입니다: opened'],
+      ]);
+    });
+
+    it('setupSteps는 name 필수, uses/run 중 정확히 하나, with 값은 스칼라여야 함', async () => {
+      await writeConfig(`checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+    setupSteps:
+      - name: both
+        uses: actions/setup-node@v4
+        run: npm ci
+      - name: neither
+      - uses: actions/setup-go@v5
+        with:
+          go-version: [1.22]
+          cache: true
+      - name: run-with
+        run: npm ci
+        with:
+          node-version: 20
+`);
+
+      const report = await validateConfigFile(testDir);
+
+      expect(report.diagnostics.map((d) => [d.severity, d.line, d.message])).toEqual([
+        ['error', 7, 'checks[0].setupSteps[0]: uses와 run 중 하나만 지정해야 합니다.'],
+        ['error', 10, 'checks[0].setupSteps[1]: uses 또는 run 중 하나를 지정해야 합니다.'],
+        ['error', 11, 'checks[0].setupSteps[2].name은 필수입니다.'],
+        ['error', 13, 'checks[0].setupSteps[2].with.go-version: 문자열, 숫자, boolean 값이어야 합니다.'],
+        ['warning', 18, 'checks[0].setupSteps[3].with: run 스텝에서는 사용하지 않는 키입니다 (무시됨).'],
+      ]);
+    });
+
+    it('with 값은 문자열로 변환해야 함', async () => {
+      await writeConfig(`checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: go test ./...
+    setupSteps:
+      - name: setup-go
+        uses: actions/setup-go@v5
+        with:
+          go-version: 1.22
+          cache: true
+`);
+
+      const config = await readConfig(testDir);
+
+      expect((config.input.checks[0] as PrTestCheck).setupSteps).toEqual([
+        { name: 'setup-go', uses: 'actions/setup-go@v5', run: undefined, with: { 'go-version': '1.22', cache: 'true' } },
+      ]);
+    });
+
+    it('runner 레이블을 검사해야 함', async () => {
+      await writeConfig('runner: self-hosted, macOS\n');
+      expect(await messages()).toEqual([
+        ['runner', "runner: 'self-hosted, macOS'에 쉼표가 있습니다. 여러 레이블은 배열로 지정하세요 (예: [self-hosted, macOS])."],
+      ]);
+
+      await writeConfig('runner: [self-hosted, "", self-hosted, 42]\n');
+      expect(await messages()).toEqual([
+        ['runner.1', 'runner[1]: 비어 있을 수 없습니다.'],
+        ['runner.2', 'runner[2]: 중복된 레이블입니다: self-hosted'],
+        ['runner.3', 'runner[3]: 문자열이어야 합니다. 숫자처럼 보이는 이름은 따옴표로 감싸세요.'],
+      ]);
+
+      await writeConfig('runner: []\n');
+      expect(await messages()).toEqual([['runner', 'runner: 최소 1개 이상의 레이블이 필요합니다.']]);
+    });
+
+    it('branches 이름을 검사해야 함', async () => {
+      await writeConfig('branches: [main, "release *", main]\n');
+      expect(await messages()).toEqual([
+        ['branches.1', "branches[1]: 유효하지 않은 브랜치 이름입니다: 'release *' (공백, 쉼표, 따옴표, YAML 특수문자 사용 불가)"],
+        ['branches.2', 'branches[2]: 중복된 브랜치입니다: main'],
+      ]);
+
+      await writeConfig('branches: main\n');
+      expect(await messages()).toEqual([['branches', 'branches: 배열이어야 합니다 (예: [main]).']]);
+    });
+
+    it('체크별 runner, timeoutMinutes, workingDirectory, env, secrets를 파싱해야 함', async () => {
+      await writeConfig(`checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+    runner: [self-hosted, linux]
+    timeoutMinutes: 20
+    workingDirectory: packages/api/
+    env:
+      NODE_ENV: test
+      RETRIES: 3
+    secrets: [NPM_TOKEN]
+`);
+
+      const { input } = await readConfig(testDir);
+      expect(input.checks[0]).toMatchObject({
+        runner: ['self-hosted', 'linux'],
+        timeoutMinutes: 20,
+        workingDirectory: 'packages/api',
+        env: { NODE_ENV: 'test', RETRIES: '3' },
+        secrets: ['NPM_TOKEN'],
+      });
+    });
+
+    it('체크별 job 설정의 잘못된 값을 보고해야 함', async () => {
+      await writeConfig(`checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+    runner: "self-hosted, linux"
+    timeoutMinutes: 0
+    workingDirectory: ../other
+    env:
+      1BAD: x
+    secrets: [NPM_TOKEN, NPM_TOKEN]
+`);
+
+      expect(await messages()).toEqual([
+        [
+          'checks.0.runner',
+          "checks[0].runner: 'self-hosted, linux'에 쉼표가 있습니다. 여러 레이블은 배열로 지정하세요 (예: [self-hosted, linux]).",
+        ],
+        ['checks.0.timeoutMinutes', 'checks[0].timeoutMinutes: 1 이상의 정수(분)여야 합니다: 0'],
+        ['checks.0.workingDirectory', 'checks[0].workingDirectory: 저장소 루트 기준 상대 경로여야 합니다: ../other'],
+        ['checks.0.env.1BAD', 'checks[0].env.1BAD: 환경 변수 이름은 영문자, 숫자, 밑줄만 사용할 수 있습니다.'],
+        ['checks.0.secrets.1', 'checks[0].secrets[1]: 중복된 Secret입니다: NPM_TOKEN'],
+      ]);
+    });
+  });
 });
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { CONFIG_SCHEMA, renderConfigSchema, validateSchema, formatConfigPath } from '../src/schema/index.js';
+import { readConfig, validateConfigFile, writeConfigSchemaFile } from '../src/readers/index.js';
+import { DEFAULT_INPUT_CONFIG, CLI_TOOLS, PULL_REQUEST_ACTIONS } from '../src/types/config.js';
+
+describe('schema', () => {
+  describe('CONFIG_SCHEMA', () => {
+    it('패키지에 포함된 schema/config.schema.json과 같아야 함 (npm run build:schema)', async () => {
+      const shipped = await fs.readFile(path.join(import.meta.dirname, '..', 'schema', 'config.schema.json'), 'utf-8');
+      expect(shipped).toBe(renderConfigSchema());
+    });
+
+    it('허용 값은 타입 정의의 목록을 사용해야 함', () => {
+      const check = CONFIG_SCHEMA.properties!.checks.items!;
+      expect(check.properties!.cliTool.enum).toEqual(CLI_TOOLS);
+      expect(check.properties!.autoRunOn.items!.enum).toEqual(PULL_REQUEST_ACTIONS);
+    });
+
+    it('기본 설정은 스키마를 통과해야 함', () => {
+      expect(validateSchema(DEFAULT_INPUT_CONFIG, CONFIG_SCHEMA)).toEqual([]);
+    });
+  });
+
+  describe('validateSchema', () => {
+    it('enum/타입/필수 항목 문제를 경로와 함께 모두 보고해야 함', () => {
+      const issues = validateSchema(
+        {
+          checks: [
+            { name: 'unit-test', trigger: '/test', type: 'pr-test', autoRunOn: ['push'] },
+            { name: 'ai-review', trigger: '/review', type: 'pr-review', provider: 'cli', cliTool: 'copilot' },
+          ],
+          branches: 'main',
+        },
+        CONFIG_SCHEMA
+      );
+
+      expect(issues.map((issue) => issue.path)).toEqual([
+        ['checks', 0, 'autoRunOn', 0],
+        ['checks', 1, 'cliTool'],
+        ['branches'],
+        ['checks', 0, 'command'],
+      ]);
+      expect(issues[0].message).toBe(
+        'checks[0].autoRunOn[0]: 허용되지 않는 값입니다: push (허용: opened, synchronize, reopened, ready_for_review, edited, labeled, unlabeled)'
+      );
+      expect(issues[2].message).toBe('branches: array 타입이어야 합니다.');
+      expect(issues[3].message).toBe('checks[0].command: 필수 항목입니다.');
+    });
+
+    it('extends가 있으면 체크를 name만으로 덮어쓸 수 있어야 함', () => {
+      const partial = { checks: [{ name: 'pr-review', customRules: '보안 위주' }] };
+
+      expect(validateSchema({ extends: './base.yml', ...partial }, CONFIG_SCHEMA)).toEqual([]);
+      expect(validateSchema(partial, CONFIG_SCHEMA).map((issue) => formatConfigPath(issue.path))).toEqual([
+        'checks[0].trigger',
+        'checks[0].type',
+      ]);
+    });
+
+    it('provider를 생략하면 bedrock 필수 항목을 검사해야 함', () => {
+      const issues = validateSchema({ checks: [{ name: 'ai-review', trigger: '/review', type: 'pr-review' }] }, CONFIG_SCHEMA);
+
+      expect(issues.map((issue) => formatConfigPath(issue.path))).toEqual(['checks[0].model', 'checks[0].apiKeySecret']);
+    });
+
+    it('yn이 인식하는 boolean 문자열은 허용해야 함', () => {
+      for (const value of [true, 'yes', 'False', 'on', 0, '1']) {
+        expect(validateSchema({ generateApprovalOverride: value }, CONFIG_SCHEMA)).toEqual([]);
+      }
+      expect(validateSchema({ generateApprovalOverride: 'maybe' }, CONFIG_SCHEMA)).toHaveLength(1);
+    });
+  });
+
+  describe('readConfig 스키마 검증', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-test-'));
+      await fs.ensureDir(path.join(testDir, '.pr-checks'));
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true });
+    });
+
+    const writeConfig = (content: string) => fs.writeFile(path.join(testDir, '.pr-checks', 'config.yml'), content);
+
+    it('스키마에 맞지 않는 autoRunOn은 에러여야 함', async () => {
+      await writeConfig(`checks:
+  - name: unit-test
+    trigger: /test
+    type: pr-test
+    command: npm test
+    autoRunOn: [opened, pushed]
+`);
+
+      await expect(readConfig(testDir)).rejects.toThrow('checks[0].autoRunOn[1]: 지원하지 않는 PR 이벤트입니다: pushed');
+    });
+
+    it('파서가 이미 보고한 위치는 중복 보고하지 않아야 함', async () => {
+      await writeConfig(`checks:
+  - name: unit-test
+    trigger: test
+    type: pr-test
+`);
+
+      const report = await validateConfigFile(testDir);
+
+      expect(report.diagnostics.map((d) => d.message)).toEqual([
+        'checks[0].command는 필수입니다.',
+        "checks[0].trigger는 '/'로 시작해야 합니다: test",
+      ]);
+    });
+
+    it('인식할 수 없는 platform은 경고 후 기본값을 사용해야 함', async () => {
+      const warnings: string[] = [];
+      await writeConfig('platform: bitbucket\n');
+
+      const config = await readConfig(testDir, { onWarning: (message) => warnings.push(message) });
+
+      expect(config.input.platform).toBe('github');
+      expect(warnings).toEqual(['지원하지 않는 platform입니다: bitbucket. github을 사용합니다.']);
+    });
+  });
+
+  describe('writeConfigSchemaFile', () => {
+    it('.pr-checks/config.schema.json을 써야 함', async () => {
+      const testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-test-'));
+      try {
+        const file = await writeConfigSchemaFile(testDir);
+
+        expect(file).toBe(path.join('.pr-checks', 'config.schema.json'));
+        expect(await fs.readJson(path.join(testDir, file))).toEqual(JSON.parse(renderConfigSchema()));
+      } finally {
+        await rm(testDir, { recursive: true });
+      }
+    });
+  });
+});
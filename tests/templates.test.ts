@@ -31,6 +31,7 @@ const createTestConfig = (overrides: Partial<Config> = {}): Config => ({
         provider: 'bedrock',
         model: 'us.amazon.nova-micro-v1:0',
         apiKeySecret: 'BEDROCK_API_KEY',
+        needs: ['pr-test'],
       } as PrReviewCheck,
     ],
     ciTrigger: '/checks',
@@ -798,6 +799,17 @@ describe('테스트 프레임워크별 설정', () => {
     });
   });
 
+  it('with 값의 작은따옴표를 이스케이프해야 함', () => {
+    const config = createTestConfig();
+    (config.input.checks[0] as PrTestCheck).setupSteps = [
+      { name: 'Setup', uses: 'actions/setup-python@v5', with: { 'python-version': "3.12'" } },
+    ];
+
+    const yaml = generatePrChecksWorkflow(config);
+
+    expect(yaml).toContain("python-version: '3.12'''");
+  });
+
   describe('Python 프리셋', () => {
     it('python 프리셋이 올바르게 적용되어야 함', () => {
       const config = createTestConfig();
@@ -991,6 +1003,15 @@ describe('approval-override.yml 상세 검증', () => {
       const run = getStepRun(parsed, 'override-gate', 'Override PR Checks Status if needed');
       expect(run).toContain('Overridden by approval');
     });
+
+    it('라벨 정책 위반으로 막힌 상태는 override하지 않아야 함', () => {
+      const config = createTestConfig();
+      const yaml = generateApprovalOverrideWorkflow(config);
+      const parsed = parseYaml(yaml);
+
+      const run = getStepRun(parsed, 'override-gate', 'Override PR Checks Status if needed');
+      expect(run).toContain('if [ "$GATE_DESC" = "Blocked by label policy" ]; then');
+    });
   });
 
   describe('restore-gate job', () => {
@@ -1605,15 +1626,14 @@ describe('selfHosted 지원', () => {
   });
 
   describe('pr-review job 실행 조건', () => {
-    it('자동 실행(ciTrigger)에서는 pr-test 성공해야 pr-review 실행', () => {
+    it('needs에 적은 pr-test가 실행 대상이면 성공해야 pr-review 실행', () => {
       const config = createTestConfig();
       const yaml = generatePrChecksWorkflow(config);
       const parsed = parseYaml(yaml);
 
       const prReviewIf = parsed.jobs['pr-review'].if;
 
-      // ciTrigger일 때 pr-test 성공 조건 필요
-      // trigger == '/checks' → pr-test.result == 'success' 체크
+      // needs: [pr-test] → pr-test가 실행 대상이면 성공해야 함
       expect(prReviewIf).toContain("needs.pr-test.result == 'success'");
       expect(prReviewIf).toContain("/checks");
     });
@@ -1625,13 +1645,11 @@ describe('selfHosted 지원', () => {
 
       const prReviewIf = parsed.jobs['pr-review'].if;
 
-      // 개별 트리거(/review)면 pr-test.result 체크 안 함
-      // trigger != '/checks' 조건으로 우회
-      expect(prReviewIf).toContain("trigger != '/checks'");
-
-      // 조건 구조: (trigger != '/checks' || pr-test.result == 'success')
-      // /review 트리거면 앞부분이 true라서 뒷부분 평가 안 함
-      expect(prReviewIf).toMatch(/trigger != '\/checks'.*\|\|.*pr-test\.result/s);
+      // 조건 구조: (pr-test.result == 'success' || !(pr-test 실행 조건))
+      // /review 트리거면 pr-test가 이번 실행 대상이 아니라서 뒷부분이 true
+      expect(prReviewIf).toContain(
+        "(needs.pr-test.result == 'success' || !(needs.check-trigger.outputs.trigger == '/test' || needs.check-trigger.outputs.trigger == '/checks' ||"
+      );
     });
 
     it('수동 /review 트리거 시 pr-test가 skipped여도 pr-review 실행 가능해야 함', () => {
@@ -1646,3 +1664,80 @@ describe('selfHosted 지원', () => {
     });
   });
 });
+
+describe('체크별 job 설정', () => {
+  it('체크별 runner가 전역 runner보다 우선해야 함', () => {
+    const config = createTestConfig();
+    config.input.runner = 'ubuntu-latest';
+    config.input.checks[1].runner = ['self-hosted', 'macOS'];
+    const parsed = parseYaml(generatePrChecksWorkflow(config));
+
+    expect(parsed.jobs['pr-test']['runs-on']).toBe('ubuntu-latest');
+    expect(parsed.jobs['pr-review']['runs-on']).toEqual(['self-hosted', 'macOS']);
+  });
+
+  it('timeoutMinutes, env, secrets를 job에 설정해야 함', () => {
+    const config = createTestConfig();
+    Object.assign(config.input.checks[0], {
+      timeoutMinutes: 15,
+      env: { NODE_ENV: 'test', GREETING: "it's" },
+      secrets: ['NPM_TOKEN'],
+    });
+    const parsed = parseYaml(generatePrChecksWorkflow(config));
+
+    expect(parsed.jobs['pr-test']['timeout-minutes']).toBe(15);
+    expect(parsed.jobs['pr-test'].env).toEqual({
+      NODE_ENV: 'test',
+      GREETING: "it's",
+      NPM_TOKEN: '${{ secrets.NPM_TOKEN }}',
+    });
+    expect(parsed.jobs['pr-review']['timeout-minutes']).toBeUndefined();
+    expect(parsed.jobs['pr-review'].env).toBeUndefined();
+  });
+
+  it('workingDirectory에서 명령어를 실행하고 출력은 WORK_DIR에 저장해야 함', () => {
+    const config = createTestConfig();
+    (config.input.checks[0] as PrTestCheck).workingDirectory = 'packages/api';
+    const parsed = parseYaml(generatePrChecksWorkflow(config));
+    const step = getStep(parsed, 'pr-test', 'Run pr-test');
+
+    expect(step['working-directory']).toBe('${{ env.WORK_DIR }}/packages/api');
+    expect(step.run).toContain('| tee "$WORK_DIR/test_output.txt"');
+    expect(getStep(parsed, 'pr-test', 'Set status and post comment')['working-directory']).toBe('${{ env.WORK_DIR }}');
+  });
+
+  it('selfHosted 스텝은 self-hosted runner를 사용하는 job에만 적용해야 함', () => {
+    const config = createTestConfig({});
+    config.input.runner = 'ubuntu-latest';
+    config.input.selfHosted = { docker: true };
+    config.input.checks[1].runner = ['self-hosted', 'macOS'];
+    const parsed = parseYaml(generatePrChecksWorkflow(config));
+    const stepNames = (job: string) => parsed.jobs[job].steps.map((s: any) => s.name);
+
+    expect(stepNames('pr-test')).not.toContain('Clone or update repository');
+    expect(stepNames('pr-test')).not.toContain('Ensure Docker is running');
+    expect(stepNames('pr-review')).toContain('Clone or update repository');
+    expect(stepNames('pr-review')).toContain('Generate diff using git');
+  });
+
+  it('호스티드 이미지 레이블이 아닌 runner는 self-hosted로 간주해야 함', () => {
+    const config = createTestConfig();
+    config.input.runner = 'macos-arm64';
+    config.input.selfHosted = { docker: false };
+    const parsed = parseYaml(generatePrChecksWorkflow(config));
+
+    expect(parsed.jobs['pr-test'].steps.map((s: any) => s.name)).toContain('Clone or update repository');
+  });
+
+  it('Gitea는 runner 레이블이 ubuntu-latest여도 self-hosted로 간주해야 함', () => {
+    const config = createTestConfig();
+    config.input.platform = 'gitea';
+    config.input.runner = 'ubuntu-latest';
+    config.input.selfHosted = { docker: true };
+    const parsed = parseYaml(generatePrChecksWorkflow(config));
+    const stepNames = parsed.jobs['pr-test'].steps.map((s: any) => s.name);
+
+    expect(stepNames).toContain('Clone or update repository');
+    expect(stepNames).toContain('Ensure Docker is running');
+  });
+});
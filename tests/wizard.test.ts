@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { parse as parseYaml } from 'yaml';
+import { renderConfigYaml } from '../src/readers/config-yaml.js';
+import { readConfig } from '../src/readers/index.js';
+import { CONFIG_VERSION } from '../src/types/config.js';
+import type { PrReviewCheck, PrTestCheck } from '../src/types/config.js';
+
+// 질문 메시지별 답변 큐 (같은 질문이 반복되면 순서대로 사용)
+const answers = new Map<string, unknown[]>();
+
+// 답변이 없으면 기본값 (checkbox는 기본 선택된 항목)
+const answer = ({
+  message,
+  default: defaultValue,
+  choices,
+}: {
+  message: string;
+  default?: unknown;
+  choices?: { value: unknown; checked?: boolean }[];
+}) => {
+  const key = [...answers.keys()].find((k) => message.includes(k));
+  const queue = key ? answers.get(key)! : [];
+  const checked = choices?.filter((c) => c.checked).map((c) => c.value);
+  return Promise.resolve(queue.length > 0 ? queue.shift() : (defaultValue ?? checked));
+};
+
+vi.mock('@inquirer/prompts', () => ({
+  checkbox: vi.fn(answer),
+  input: vi.fn(answer),
+  select: vi.fn(answer),
+  confirm: vi.fn(answer),
+}));
+
+const { checkbox } = await import('@inquirer/prompts');
+const { runInitWizard } = await import('../src/wizard/index.js');
+
+describe('runInitWizard', () => {
+  beforeEach(() => {
+    answers.clear();
+  });
+
+  it('기본값만 선택하면 pr-test 체크 하나로 구성되어야 함', async () => {
+    answers.set('체크 타입', ['pr-test']);
+
+    const input = await runInitWizard();
+
+    expect(input.version).toBe(CONFIG_VERSION);
+    expect(input.platform).toBe('github');
+    expect(input.runner).toBe('ubuntu-latest');
+    expect(input.branches).toEqual(['main', 'master']);
+    expect(input.ciTrigger).toBe('/checks');
+    expect(input.generateApprovalOverride).toBe(true);
+    expect(input.selfHosted).toBeUndefined();
+    expect(input.checks).toEqual([
+      { name: 'unit-test', trigger: '/test', type: 'pr-test', mustRun: true, mustPass: true, command: 'npm test' },
+    ]);
+  });
+
+  it('여러 체크와 self-hosted 설정을 구성할 수 있어야 함', async () => {
+    answers.set('플랫폼', ['gitea']);
+    answers.set('Runner 레이블', ['self-hosted, macOS, ARM64']);
+    answers.set('대상 브랜치', ['main, develop']);
+    answers.set('체크 타입', ['pr-test', 'pr-review', 'pr-review']);
+    answers.set('체크 이름', ['lint', 'ai-review', 'bedrock-review']);
+    answers.set('PR 코멘트 트리거', ['/lint', '/review', '/bedrock']);
+    answers.set('필수 체크인가요', [true, true, false]);
+    answers.set('성공해야 머지할 수 있나요', [true, false, false]);
+    answers.set('실행할 명령어', ['npm run lint']);
+    answers.set('AI 프로바이더', ['cli', 'bedrock']);
+    answers.set('CLI 도구', ['claude']);
+    answers.set('체크를 더 추가할까요', [true, true, false]);
+    answers.set('Docker Desktop', [true]);
+    answers.set('머지 게이트를 해제', [false]);
+
+    const input = await runInitWizard();
+
+    expect(input.platform).toBe('gitea');
+    expect(input.runner).toEqual(['self-hosted', 'macOS', 'ARM64']);
+    expect(input.branches).toEqual(['main', 'develop']);
+    expect(input.selfHosted).toEqual({ docker: true });
+    expect(input.generateApprovalOverride).toBe(false);
+    expect(input.checks).toHaveLength(3);
+
+    const lint = input.checks[0] as PrTestCheck;
+    expect(lint.command).toBe('npm run lint');
+
+    const cliReview = input.checks[1] as PrReviewCheck;
+    expect(cliReview).toMatchObject({ provider: 'cli', cliTool: 'claude', mustPass: false, needs: ['lint'] });
+
+    const bedrockReview = input.checks[2] as PrReviewCheck;
+    expect(bedrockReview).toMatchObject({
+      name: 'bedrock-review',
+      provider: 'bedrock',
+      model: 'us.amazon.nova-micro-v1:0',
+      apiKeySecret: 'BEDROCK_API_KEY',
+      mustRun: false,
+    });
+    expect(bedrockReview.needs).toBeUndefined();
+  });
+
+  it('감지된 체크를 선택하면 추가 질문 없이 사용해야 함', async () => {
+    const suggested: PrTestCheck[] = [
+      { name: 'test', trigger: '/test', type: 'pr-test', mustRun: true, mustPass: true, command: 'go test ./...' },
+      { name: 'lint', trigger: '/lint', type: 'pr-test', mustRun: true, mustPass: true, command: 'go vet ./...' },
+    ];
+    answers.set('감지된 스택', [[suggested[0]]]);
+
+    const input = await runInitWizard(suggested);
+
+    expect(vi.mocked(checkbox).mock.calls.at(-1)?.[0].choices).toHaveLength(2);
+    expect(input.checks).toEqual([suggested[0]]);
+  });
+
+  it('감지된 체크를 모두 해제하면 체크를 직접 구성해야 함', async () => {
+    const suggested: PrTestCheck[] = [
+      { name: 'test', trigger: '/test', type: 'pr-test', mustRun: true, mustPass: true, command: 'cargo test' },
+    ];
+    answers.set('감지된 스택', [[]]);
+    answers.set('체크 타입', ['pr-review']);
+    answers.set('AI 프로바이더', ['bedrock']);
+
+    const input = await runInitWizard(suggested);
+
+    expect(input.checks.map((c) => c.type)).toEqual(['pr-review']);
+  });
+
+  it('앞에서 구성한 체크 중 먼저 통과해야 하는 체크를 needs로 고를 수 있어야 함', async () => {
+    const suggested: PrTestCheck[] = [
+      { name: 'lint', trigger: '/lint', type: 'pr-test', mustRun: true, mustPass: true, command: 'npm run lint' },
+      { name: 'build', trigger: '/build', type: 'pr-test', mustRun: true, mustPass: true, command: 'npm run build' },
+    ];
+    answers.set('감지된 스택', [suggested]);
+    answers.set('체크를 더 추가할까요', [true, true, false]);
+    answers.set('체크 타입', ['pr-test', 'pr-review']);
+    answers.set('먼저 통과해야 하는 체크', [['build']]);
+    vi.mocked(checkbox).mockClear();
+
+    const input = await runInitWizard(suggested);
+    const needsPrompts = vi.mocked(checkbox).mock.calls.filter(([{ message }]) => message.includes('먼저 통과해야 하는 체크'));
+
+    expect(input.checks.map((c) => c.needs)).toEqual([undefined, undefined, ['build'], ['lint', 'build', 'unit-test']]);
+    expect(needsPrompts).toHaveLength(2);
+    expect(needsPrompts[0][0].choices.map((c: { checked?: boolean }) => c.checked)).toEqual([false, false]);
+    expect(renderConfigYaml(input)).toContain('    needs: [ lint, build, unit-test ]\n');
+  });
+
+  it('needs에서 해제한 체크는 config.yml을 다시 읽어도 추가되지 않아야 함', async () => {
+    answers.set('체크를 더 추가할까요', [true, false]);
+    answers.set('체크 타입', ['pr-test', 'pr-review']);
+    answers.set('AI 프로바이더', ['bedrock']);
+    answers.set('먼저 통과해야 하는 체크', [[]]);
+
+    const input = await runInitWizard();
+    const testDir = await mkdtemp(path.join(tmpdir(), 'pr-checks-wizard-'));
+    try {
+      await fs.outputFile(path.join(testDir, '.pr-checks', 'config.yml'), renderConfigYaml(input));
+      const { checks } = (await readConfig(testDir)).input;
+
+      expect(checks.map((c) => [c.type, c.mustRun])).toEqual([
+        ['pr-test', true],
+        ['pr-review', true],
+      ]);
+      expect(checks[1].needs).toBeUndefined();
+    } finally {
+      await rm(testDir, { recursive: true });
+    }
+  });
+
+  it('생성된 설정은 주석이 포함된 config.yml로 기록되어야 함', async () => {
+    answers.set('체크 타입', ['pr-review']);
+    answers.set('AI 프로바이더', ['cli']);
+    answers.set('CLI 도구', ['custom']);
+
+    const input = await runInitWizard();
+    const content = renderConfigYaml(input);
+
+    expect(content).toContain('# create-pr-checks 설정 파일');
+    expect(content).toContain('cliCommand: ./.pr-checks/scripts/review-wrapper.sh # 커스텀 리뷰 명령어');
+    expect(parseYaml(content)).toEqual(input);
+  });
+});